@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Sends signed GetStream webhook payloads to /api/stream-webhook, standing in for
+ * GetStream when developing or testing locally.
+ *
+ * Usage:
+ *   GETSTREAM_API_KEY=xxxx GETSTREAM_API_SECRET=yyyy \
+ *     node scripts/stream-webhook-stub.js <event> <call-id> [options]
+ *
+ * Events:
+ *   started                 call.session_started
+ *   ended                   call.session_ended
+ *   joined --user <id>      call.session_participant_joined
+ *   left --user <id>        call.session_participant_left
+ *   recording --url <url>   call.recording_ready
+ *
+ * Options:
+ *   --user <id>        Participant user id (joined/left)
+ *   --session <id>     Participant session id, reuse it to pair joined and left (default: stub-<user>)
+ *   --url <url>        Recording file URL (recording)
+ *   --endpoint <url>   Webhook URL (default: http://localhost:3000/api/stream-webhook)
+ *
+ * Example, a full event with one attendee and a recording:
+ *   node scripts/stream-webhook-stub.js started <event-id>
+ *   node scripts/stream-webhook-stub.js joined <event-id> --user <user-id>
+ *   node scripts/stream-webhook-stub.js left <event-id> --user <user-id>
+ *   node scripts/stream-webhook-stub.js ended <event-id>
+ *   node scripts/stream-webhook-stub.js recording <event-id> --url https://example.com/test.mp4
+ */
+
+const crypto = require('crypto')
+
+function parseOptions(args) {
+  const options = {}
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      console.error(`Invalid option: ${args[i]}`)
+      process.exit(1)
+    }
+    options[args[i].slice(2)] = args[i + 1]
+  }
+  return options
+}
+
+function buildPayload(event, callId, options) {
+  const now = new Date()
+  const base = {
+    call_cid: `default:${callId}`,
+    created_at: now.toISOString(),
+    session_id: `stub-session-${callId}`,
+  }
+
+  const participant = () => {
+    if (!options.user) {
+      console.error(`--user is required for "${event}"`)
+      process.exit(1)
+    }
+    return {
+      joined_at: now.toISOString(),
+      role: 'user',
+      user_session_id: options.session || `stub-${options.user}`,
+      user: { id: options.user },
+    }
+  }
+
+  switch (event) {
+    case 'started':
+      return { ...base, type: 'call.session_started' }
+    case 'ended':
+      return { ...base, type: 'call.session_ended' }
+    case 'joined':
+      return { ...base, type: 'call.session_participant_joined', participant: participant() }
+    case 'left':
+      return { ...base, type: 'call.session_participant_left', participant: participant(), duration_seconds: 60 }
+    case 'recording': {
+      if (!options.url) {
+        console.error('--url is required for "recording"')
+        process.exit(1)
+      }
+      return {
+        ...base,
+        type: 'call.recording_ready',
+        egress_id: `stub-egress-${Date.now()}`,
+        call_recording: {
+          filename: `stub-recording-${Date.now()}.mp4`,
+          url: options.url,
+          session_id: base.session_id,
+          start_time: new Date(now.getTime() - 60 * 60 * 1000).toISOString(),
+          end_time: now.toISOString(),
+        },
+      }
+    }
+    default:
+      console.error(`Unknown event "${event}". Use started, ended, joined, left or recording.`)
+      process.exit(1)
+  }
+}
+
+async function main() {
+  const [event, callId, ...rest] = process.argv.slice(2)
+  const apiKey = process.env.GETSTREAM_API_KEY
+  const apiSecret = process.env.GETSTREAM_API_SECRET
+
+  if (!event || !callId) {
+    console.error('Usage: node scripts/stream-webhook-stub.js <event> <call-id> [options]')
+    process.exit(1)
+  }
+
+  if (!apiKey || !apiSecret) {
+    console.error('Missing GETSTREAM_API_KEY or GETSTREAM_API_SECRET environment variable.')
+    process.exit(1)
+  }
+
+  const options = parseOptions(rest)
+  const endpoint = options.endpoint || 'http://localhost:3000/api/stream-webhook'
+  const body = JSON.stringify(buildPayload(event, callId, options))
+
+  // Same scheme GetStream uses: hex HMAC-SHA256 of the raw body, keyed with the API secret
+  const signature = crypto.createHmac('sha256', apiSecret).update(body).digest('hex')
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'x-signature': signature,
+      'webhook-id': crypto.randomUUID(),
+    },
+    body,
+  })
+
+  const text = await response.text()
+  console.log(`${response.status} ${response.statusText}`)
+  console.log(text)
+
+  if (!response.ok) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Error sending webhook:', error.message)
+  process.exit(1)
+})
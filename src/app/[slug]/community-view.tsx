@@ -12,11 +12,13 @@ import * as DialogPrimitive from "@radix-ui/react-dialog"
 import { X } from "lucide-react"
 import { CommunityNavigation } from "@/components/community-navigation"
 import { useTopupCheck } from "@/hooks/use-topup-check"
+import { useAuth } from "@/components/auth-provider"
 import { cn } from "@/lib/utils"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
-import type { Community, CommunityMember } from "@/types"
+import type { Community, CommunityBillingCycle, CommunityMember } from "@/types"
 import { CommunityLogo } from "@/components/community-logo"
+import { billingCycleLabels, getAvailableBillingCycles, getMembershipPricePoints, getMembershipPriceTtd } from "@/lib/community-pricing"
 
 interface CommunityViewProps {
   community: Community & {
@@ -42,15 +44,18 @@ interface CommunityViewProps {
   }
   userMembership: any
   currentUserId?: string
+  buyPricePerPoint?: number | null
 }
 
 export default function CommunityView({ 
   community, 
   userMembership, 
-  currentUserId 
+  currentUserId,
+  buyPricePerPoint,
 }: CommunityViewProps) {
   const router = useRouter()
   const { needsTopup } = useTopupCheck()
+  const { walletBalance, walletEarningsBalance, refreshWalletBalance } = useAuth()
   
   const isOwner = currentUserId === community.owner_id
   const isMember = !!userMembership
@@ -59,6 +64,12 @@ export default function CommunityView({
   // Join dialog state
   const [joinDialogOpen, setJoinDialogOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Membership pricing (points are charged from the combined wallet + earnings balance)
+  const billingCycles = getAvailableBillingCycles(community)
+  const [billingCycle, setBillingCycle] = useState<CommunityBillingCycle | null>(billingCycles[0] ?? null)
+  const joinPricePoints = getMembershipPricePoints(community, billingCycle, buyPricePerPoint)
+  const isPaidCommunity = joinPricePoints > 0
   
   // Share dialog state
   const [shareDialogOpen, setShareDialogOpen] = useState(false)
@@ -78,25 +89,40 @@ export default function CommunityView({
       return
     }
 
+    if (isPaidCommunity) {
+      const availableBalance = (walletBalance ?? 0) + (walletEarningsBalance ?? 0)
+      if (availableBalance < joinPricePoints) {
+        toast.error(`Insufficient points. You need ${joinPricePoints} point(s) to join this community.`)
+        return
+      }
+    }
+
     setIsSubmitting(true)
     
     try {
-      // Add user as community member
-      const { error: memberError } = await supabase
-        .from('community_members')
-        .insert([{
-          community_id: community.id,
-          user_id: currentUserId,
-          role: 'member'
-        }])
+      // Join through the RPC so paid communities charge according to pricing_type
+      const { data, error: memberError } = await supabase
+        .rpc('join_community', {
+          p_user_id: currentUserId,
+          p_community_id: community.id,
+          p_billing_cycle: billingCycle,
+        })
 
       if (memberError) {
         console.error('Error joining community:', memberError)
         throw new Error('Failed to join community: ' + memberError.message)
       }
 
-      toast.success("Successfully joined the community!")
+      const pointsCharged = (data as { points_charged?: number } | null)?.points_charged ?? 0
+      toast.success(
+        pointsCharged > 0
+          ? `Successfully joined the community! ${pointsCharged} point(s) charged.`
+          : "Successfully joined the community!"
+      )
       setJoinDialogOpen(false)
+      if (pointsCharged > 0) {
+        await refreshWalletBalance()
+      }
       router.refresh()
     } catch (error) {
       console.error('Error joining community:', error)
@@ -437,6 +463,37 @@ export default function CommunityView({
               </div>
               
               <div className="space-y-6 py-6">
+                {/* Membership Price */}
+                {billingCycles.length > 0 && (
+                  <div className="space-y-3">
+                    <h4 className="font-semibold text-white text-sm uppercase tracking-wide">Membership</h4>
+                    <div className={cn("grid gap-3", billingCycles.length > 1 ? "grid-cols-2" : "grid-cols-1")}>
+                      {billingCycles.map((cycle) => (
+                        <button
+                          key={cycle}
+                          type="button"
+                          onClick={() => setBillingCycle(cycle)}
+                          className={cn(
+                            "flex flex-col items-center gap-1 p-3 rounded-lg border transition-colors cursor-pointer",
+                            billingCycle === cycle
+                              ? "bg-white/15 border-white/40"
+                              : "bg-white/5 border-white/10 hover:bg-white/10"
+                          )}
+                        >
+                          <span className="text-xs text-white/60 uppercase tracking-wide">{billingCycleLabels[cycle]}</span>
+                          <span className="flex items-center gap-1 text-lg font-bold text-white">
+                            <Coins className="h-4 w-4 text-white/70" />
+                            {getMembershipPricePoints(community, cycle, buyPricePerPoint)} pts
+                          </span>
+                          <span className="text-xs text-white/50">
+                            ${getMembershipPriceTtd(community, cycle).toFixed(2)} TTD
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Community Info */}
                 {community.description && (
                   <div className="text-center">
@@ -531,7 +588,7 @@ export default function CommunityView({
                 ) : (
                   <>
                     <Heart className="h-4 w-4 mr-2" />
-                    Join Community
+                    {isPaidCommunity ? `Join for ${joinPricePoints} points` : 'Join Community'}
                   </>
                 )}
               </Button>
@@ -0,0 +1,317 @@
+"use client"
+
+import React from "react"
+import { DoorOpen, LogIn, LogOut, Megaphone, Shuffle, Timer } from "lucide-react"
+import { useCallStateHooks } from "@stream-io/video-react-sdk"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { EventBreakouts } from "@/hooks/use-event-breakouts"
+import {
+  EVENT_BREAKOUT_DEFAULT_MINUTES,
+  EVENT_BREAKOUT_DURATION_OPTIONS,
+  EVENT_BREAKOUT_MAX_ROOMS,
+  EVENT_BREAKOUT_MIN_ROOMS,
+  assignBreakoutRoomsRandomly,
+  formatBreakoutCountdown,
+  getDefaultBreakoutRoomName,
+} from "@/lib/event-breakouts"
+
+const MAIN_ROOM = "main"
+
+interface BreakoutRoomsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  breakouts: EventBreakouts
+  visitingRoomId: string | null
+  onVisitRoom: (roomId: string | null) => void
+}
+
+/**
+ * Host controls for breakout rooms
+ * Set up a round (random or manual assignment, timer), then move people, message every room and close
+ * Must be rendered inside StreamCall so the main call's participants can be assigned
+ */
+export function BreakoutRoomsDialog({ open, onOpenChange, breakouts, visitingRoomId, onVisitRoom }: BreakoutRoomsDialogProps) {
+  const { useParticipants } = useCallStateHooks()
+  const participants = useParticipants()
+  const [roomCount, setRoomCount] = React.useState(String(EVENT_BREAKOUT_MIN_ROOMS))
+  const [mode, setMode] = React.useState<"random" | "manual">("random")
+  const [duration, setDuration] = React.useState(String(EVENT_BREAKOUT_DEFAULT_MINUTES))
+  const [manualRooms, setManualRooms] = React.useState<Record<string, string>>({})
+  const [message, setMessage] = React.useState("")
+  const [busy, setBusy] = React.useState(false)
+
+  // Everyone in the call but the host, once each even with several tabs open
+  const attendees = React.useMemo(() => {
+    const seen = new Map<string, string>()
+    participants.forEach((participant) => {
+      if (participant.isLocalParticipant || seen.has(participant.userId)) return
+      seen.set(participant.userId, participant.name || "Unknown User")
+    })
+    return Array.from(seen, ([userId, name]) => ({ userId, name }))
+  }, [participants])
+
+  const rooms = Math.min(Math.max(parseInt(roomCount, 10) || EVENT_BREAKOUT_MIN_ROOMS, EVENT_BREAKOUT_MIN_ROOMS), EVENT_BREAKOUT_MAX_ROOMS)
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (error: any) {
+      console.error(`${errorMessage}:`, error)
+      toast.error(error?.message || errorMessage)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleOpenRooms = () =>
+    runAction(async () => {
+      const members = mode === "random"
+        ? assignBreakoutRoomsRandomly(attendees.map((attendee) => attendee.userId), rooms)
+        : Array.from({ length: rooms }, (_, index) =>
+            attendees
+              .filter((attendee) => manualRooms[attendee.userId] === String(index + 1))
+              .map((attendee) => attendee.userId)
+          )
+
+      await breakouts.openRooms(
+        members.map((userIds, index) => ({ name: getDefaultBreakoutRoomName(index + 1), userIds })),
+        Number(duration)
+      )
+      setManualRooms({})
+      toast.success("Breakout rooms are open")
+    }, "Failed to open breakout rooms")
+
+  const handleBroadcast = () => {
+    const content = message.trim()
+    if (!content) return
+    runAction(async () => {
+      await breakouts.broadcast(content)
+      setMessage("")
+      toast.success("Message sent to all rooms")
+    }, "Failed to send message")
+  }
+
+  const handleMove = (userId: string, value: string) =>
+    runAction(
+      () => breakouts.moveParticipant(userId, value === MAIN_ROOM ? null : value),
+      "Failed to move participant"
+    )
+
+  const handleClose = () =>
+    runAction(async () => {
+      await breakouts.closeRooms()
+      onVisitRoom(null)
+      toast.success("Everyone is heading back to the main room")
+    }, "Failed to close breakout rooms")
+
+  const assignedIds = new Set(breakouts.assignments.map((assignment) => assignment.user_id))
+  const unassigned = attendees.filter((attendee) => !assignedIds.has(attendee.userId))
+
+  const roomSelect = (value: string, onChange: (value: string) => void, options: { value: string; label: string }[]) => (
+    <Select value={value} onValueChange={onChange} disabled={busy}>
+      <SelectTrigger className="h-8 w-[130px] bg-white/5 border-white/20 text-white text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-white/20 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white text-xl font-semibold">Breakout Rooms</DialogTitle>
+          <DialogDescription className="text-white/70">
+            {breakouts.isOpen
+              ? "Rooms are open. Everyone returns to the main room when the timer ends or you close them."
+              : "Split attendees into smaller rooms for a set time. You stay in the main room and can drop in on any room."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {breakouts.isOpen ? (
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto scrollbar-thin">
+            <div className="flex items-center gap-2 text-white/80 text-sm">
+              <Timer className="h-4 w-4" />
+              <span className="tabular-nums">{formatBreakoutCountdown(breakouts.secondsLeft)}</span> left
+            </div>
+
+            {breakouts.rooms.map((room) => {
+              const members = breakouts.assignments.filter((assignment) => assignment.room_id === room.id)
+              const isVisiting = visitingRoomId === room.id
+
+              return (
+                <div key={room.id} className="rounded-lg bg-white/5 border border-white/10 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 font-medium text-sm">
+                      <DoorOpen className="h-4 w-4 text-white/60" />
+                      {room.name}
+                      <span className="text-white/50 text-xs">({members.length})</span>
+                    </span>
+                    <Button
+                      size="sm"
+                      onClick={() => onVisitRoom(isVisiting ? null : room.id)}
+                      className="h-7 bg-white/10 text-white/80 hover:bg-white/20"
+                    >
+                      {isVisiting ? <LogOut className="h-3 w-3 mr-1" /> : <LogIn className="h-3 w-3 mr-1" />}
+                      {isVisiting ? "Back to Main" : "Join"}
+                    </Button>
+                  </div>
+                  {members.length === 0 ? (
+                    <p className="text-white/40 text-xs">Nobody assigned</p>
+                  ) : (
+                    members.map((member) => (
+                      <div key={member.user_id} className="flex items-center justify-between gap-2">
+                        <span className="text-white/80 text-sm truncate">
+                          {member.user ? `${member.user.first_name} ${member.user.last_name}`.trim() || member.user.username : "Unknown User"}
+                        </span>
+                        {roomSelect(room.id, (value) => handleMove(member.user_id, value), [
+                          { value: MAIN_ROOM, label: "Main room" },
+                          ...breakouts.rooms.map((option) => ({ value: option.id, label: option.name })),
+                        ])}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )
+            })}
+
+            {unassigned.length > 0 && (
+              <div className="rounded-lg bg-white/5 border border-white/10 p-3 space-y-2">
+                <span className="font-medium text-sm">In the main room</span>
+                {unassigned.map((attendee) => (
+                  <div key={attendee.userId} className="flex items-center justify-between gap-2">
+                    <span className="text-white/80 text-sm truncate">{attendee.name}</span>
+                    {roomSelect(MAIN_ROOM, (value) => handleMove(attendee.userId, value), [
+                      { value: MAIN_ROOM, label: "Main room" },
+                      ...breakouts.rooms.map((option) => ({ value: option.id, label: option.name })),
+                    ])}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <Label className="text-white/70">Message all rooms</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={message}
+                  maxLength={500}
+                  onChange={(e) => setMessage(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleBroadcast()}
+                  placeholder="Two minutes left, start wrapping up"
+                  className="bg-white/5 border-white/20 text-white"
+                />
+                <Button
+                  onClick={handleBroadcast}
+                  disabled={busy || !message.trim()}
+                  className="bg-white/10 text-white/80 hover:bg-white/20"
+                >
+                  <Megaphone className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto scrollbar-thin">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-white/70">Rooms</Label>
+                <Input
+                  type="number"
+                  min={EVENT_BREAKOUT_MIN_ROOMS}
+                  max={EVENT_BREAKOUT_MAX_ROOMS}
+                  value={roomCount}
+                  onChange={(e) => setRoomCount(e.target.value)}
+                  className="bg-white/5 border-white/20 text-white"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-white/70">Assign</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as "random" | "manual")}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="random">Randomly</SelectItem>
+                    <SelectItem value="manual">Manually</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-white/70">Duration</Label>
+                <Select value={duration} onValueChange={setDuration}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EVENT_BREAKOUT_DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes} min
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {attendees.length === 0 ? (
+              <p className="text-white/50 text-sm">Nobody else is in the call yet.</p>
+            ) : mode === "random" ? (
+              <p className="text-white/60 text-sm flex items-center gap-2">
+                <Shuffle className="h-4 w-4" />
+                {attendees.length} {attendees.length === 1 ? "person" : "people"} will be split across {rooms} rooms.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {attendees.map((attendee) => (
+                  <div key={attendee.userId} className="flex items-center justify-between gap-2">
+                    <span className="text-white/80 text-sm truncate">{attendee.name}</span>
+                    {roomSelect(
+                      manualRooms[attendee.userId] ?? MAIN_ROOM,
+                      (value) => setManualRooms((prev) => ({ ...prev, [attendee.userId]: value })),
+                      [
+                        { value: MAIN_ROOM, label: "Main room" },
+                        ...Array.from({ length: rooms }, (_, index) => ({
+                          value: String(index + 1),
+                          label: getDefaultBreakoutRoomName(index + 1),
+                        })),
+                      ]
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {breakouts.isOpen ? (
+            <Button onClick={handleClose} disabled={busy} className="bg-red-600 hover:bg-red-700 text-white">
+              Close Rooms
+            </Button>
+          ) : (
+            <Button
+              onClick={handleOpenRooms}
+              disabled={busy || attendees.length === 0}
+              className="bg-white/10 text-white/80 hover:bg-white/20"
+            >
+              {busy ? "Opening..." : "Open Rooms"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
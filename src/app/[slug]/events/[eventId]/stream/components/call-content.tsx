@@ -20,10 +20,13 @@ import {
   Minimize2,
   PictureInPicture2,
   Users,
+  MessageSquare,
   Monitor,
   MonitorOff,
   Circle,
   Square,
+  DoorOpen,
+  Hand,
 } from "lucide-react"
 import { StreamCall, type Call, useCallStateHooks, hasScreenShare } from "@stream-io/video-react-sdk"
 import { Button } from "@/components/ui/button"
@@ -37,6 +40,8 @@ import {
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
+import { useEventBreakouts, type EventBreakouts } from "@/hooks/use-event-breakouts"
+import { useEventStage, type EventStage } from "@/hooks/use-event-stage"
 import type { CommunityEvent } from "@/types"
 import { CommunityLogo } from "@/components/community-logo"
 import { StreamInfo } from "./stream-info"
@@ -44,6 +49,7 @@ import { CustomSpeakerLayout, CustomGridLayout, MobileSwipeableLayout } from "./
 import { DraggableSelfView } from "./draggable-self-view"
 import { StreamSidebar } from "./stream-sidebar"
 import { SettingsDialog } from "./settings-dialog"
+import { BreakoutRoomsDialog } from "./breakout-rooms-dialog"
 
 interface CallContentProps {
   event: CommunityEvent
@@ -51,8 +57,12 @@ interface CallContentProps {
   isOwner: boolean
   onEndCall: () => void
   call: Call
+  currentUserId: string
   currentUserName: string
   currentUserImage?: string | null
+  canChat: boolean
+  canModerateChat: boolean
+  onSwitchCall: (callId: string) => void
 }
 
 /**
@@ -65,8 +75,12 @@ export function CallContent({
   isOwner,
   onEndCall,
   call,
+  currentUserId,
   currentUserName,
   currentUserImage,
+  canChat,
+  canModerateChat,
+  onSwitchCall,
 }: CallContentProps) {
   const [showSidebar, setShowSidebar] = useState(false)
   const [sidebarTab, setSidebarTab] = useState<"participants" | "chat">("participants")
@@ -89,6 +103,59 @@ export function CallContent({
   const [micSensitivity, setMicSensitivity] = useState(50) // 0-100, default 50
   const [isMobile, setIsMobile] = useState(false)
   const [mobileView, setMobileView] = useState<'spotlight' | 'grid'>('spotlight')
+  const [showBreakoutDialog, setShowBreakoutDialog] = useState(false)
+  // Room a host has dropped in on; attendees go wherever they're assigned
+  const [visitingRoomId, setVisitingRoomId] = useState<string | null>(null)
+
+  // Hosts (owner or host_events) are the ones who can moderate chat
+  const breakouts = useEventBreakouts(event.id, { userId: currentUserId, isHost: canModerateChat })
+  const activeBreakoutRoom = breakouts.rooms.find((room) => room.id === visitingRoomId) ?? breakouts.myRoom
+  const targetCallId = activeBreakoutRoom?.stream_call_id ?? (event.stream_call_id || event.id)
+  const previousTargetCallIdRef = React.useRef(targetCallId)
+  const lastBroadcastAtRef = React.useRef<string | null>(null)
+
+  const stage = useEventStage(event.id, {
+    userId: currentUserId,
+    isHost: canModerateChat,
+    initialAudienceMode: event.audience_mode,
+  })
+  // Breakout rooms are small-group calls where everyone can talk
+  const isAudience = stage.audienceMode && !canModerateChat && stage.myStatus !== 'speaker' && !activeBreakoutRoom
+  const previousStageStatusRef = React.useRef(stage.myStatus)
+
+  // Let attendees know when a host brings them on stage or sends them back
+  React.useEffect(() => {
+    const previous = previousStageStatusRef.current
+    previousStageStatusRef.current = stage.myStatus
+    if (previous === stage.myStatus || canModerateChat) return
+    if (stage.myStatus === 'speaker') {
+      toast.success("You're on stage. You can unmute now.")
+    } else if (previous === 'speaker') {
+      toast.info('You were moved back to the audience')
+    }
+  }, [stage.myStatus, canModerateChat])
+
+  React.useEffect(() => {
+    if (!breakouts.isOpen) setVisitingRoomId(null)
+  }, [breakouts.isOpen])
+
+  // Follow the breakout assignment: into the room when it opens, back to the main call when it ends
+  React.useEffect(() => {
+    if (previousTargetCallIdRef.current === targetCallId) return
+    previousTargetCallIdRef.current = targetCallId
+    onSwitchCall(targetCallId)
+    toast.info(activeBreakoutRoom ? `Moving you to ${activeBreakoutRoom.name}` : 'Returning to the main room')
+  }, [targetCallId, activeBreakoutRoom, onSwitchCall])
+
+  // Host messages reach every room
+  React.useEffect(() => {
+    const session = breakouts.session
+    if (!session?.broadcast_at || session.broadcast_at === lastBroadcastAtRef.current) return
+    lastBroadcastAtRef.current = session.broadcast_at
+    if (!canModerateChat && session.broadcast_message) {
+      toast.info(session.broadcast_message, { description: 'Message from the host', duration: 10000 })
+    }
+  }, [breakouts.session, canModerateChat])
 
   // Detect mobile device
   React.useEffect(() => {
@@ -184,8 +251,12 @@ export function CallContent({
         isOwner={isOwner}
         onEndCall={onEndCall}
         call={call}
+        currentUserId={currentUserId}
         currentUserName={currentUserName}
         currentUserImage={currentUserImage}
+        canChat={canChat}
+        canModerateChat={canModerateChat}
+        onSwitchCall={onSwitchCall}
         showSidebar={showSidebar}
         setShowSidebar={setShowSidebar}
         sidebarTab={sidebarTab}
@@ -224,6 +295,14 @@ export function CallContent({
         mobileView={mobileView}
         handleMobileViewChange={handleMobileViewChange}
         refreshDevices={refreshDevices}
+        breakouts={breakouts}
+        breakoutRoom={activeBreakoutRoom ? { name: activeBreakoutRoom.name, secondsLeft: breakouts.secondsLeft } : null}
+        showBreakoutDialog={showBreakoutDialog}
+        setShowBreakoutDialog={setShowBreakoutDialog}
+        visitingRoomId={visitingRoomId}
+        setVisitingRoomId={setVisitingRoomId}
+        stage={stage}
+        isAudience={isAudience}
       />
     </StreamCall>
   )
@@ -239,8 +318,11 @@ function CallContentInner({
   isOwner,
   onEndCall,
   call,
+  currentUserId,
   currentUserName,
   currentUserImage,
+  canChat,
+  canModerateChat,
   showSidebar,
   setShowSidebar,
   sidebarTab,
@@ -279,6 +361,14 @@ function CallContentInner({
   mobileView,
   handleMobileViewChange,
   refreshDevices,
+  breakouts,
+  breakoutRoom,
+  showBreakoutDialog,
+  setShowBreakoutDialog,
+  visitingRoomId,
+  setVisitingRoomId,
+  stage,
+  isAudience,
 }: CallContentProps & {
   showSidebar: boolean
   setShowSidebar: (show: boolean) => void
@@ -318,6 +408,14 @@ function CallContentInner({
   mobileView: 'spotlight' | 'grid'
   handleMobileViewChange: (view: 'spotlight' | 'grid') => void
   refreshDevices: () => Promise<void>
+  breakouts: EventBreakouts
+  breakoutRoom: { name: string; secondsLeft: number } | null
+  showBreakoutDialog: boolean
+  setShowBreakoutDialog: (show: boolean) => void
+  visitingRoomId: string | null
+  setVisitingRoomId: (roomId: string | null) => void
+  stage: EventStage
+  isAudience: boolean
 }) {
   const router = useRouter()
 
@@ -553,6 +651,39 @@ function CallContentInner({
   
   const isMicEnabled = localMicEnabled
   const isCameraEnabled = localCameraEnabled
+  // GetStream rejects audience publishing anyway; this keeps the controls honest
+  const canUseMic = hasMicDevice && !isAudience
+  const canUseCamera = hasCameraDevice && !isAudience
+  const [isStageLoading, setIsStageLoading] = React.useState(false)
+
+  // Audience members (including demoted speakers) sit muted with camera off
+  React.useEffect(() => {
+    if (!isAudience) return
+    call.microphone.disable().catch((error) => console.error('Could not disable microphone:', error))
+    call.camera.disable().catch((error) => console.error('Could not disable camera:', error))
+    setLocalMicEnabled(false)
+    setLocalCameraEnabled(false)
+  }, [isAudience, call])
+
+  const handleStageToggle = React.useCallback(async () => {
+    if (isStageLoading) return
+    setIsStageLoading(true)
+    try {
+      if (stage.myStatus === 'speaker') {
+        await stage.demote(currentUserId)
+      } else if (stage.myStatus === 'raised') {
+        await stage.lowerHand()
+      } else {
+        await stage.raiseHand()
+        toast.success('Hand raised. A host will bring you on stage.')
+      }
+    } catch (error: any) {
+      console.error('Could not update raised hand:', error)
+      toast.error(error?.message || 'Failed to update raised hand')
+    } finally {
+      setIsStageLoading(false)
+    }
+  }, [isStageLoading, stage, currentUserId])
   const isScreenShareEnabled = localScreenShareEnabled
   // Track speaker enabled state (volume > 0)
   // Use local state to track volume since Stream SDK's reactive state may not update immediately
@@ -880,6 +1011,7 @@ function CallContentInner({
                   onViewChange={handleMobileViewChange}
                   localScreenShareEnabled={isScreenShareEnabled}
                   localParticipant={localParticipant}
+                  breakoutRoom={breakoutRoom}
                 />
               ) : (
                 <CustomGridLayout 
@@ -887,6 +1019,7 @@ function CallContentInner({
                   call={call}
                   localScreenShareEnabled={isScreenShareEnabled}
                   localParticipant={localParticipant}
+                  breakoutRoom={breakoutRoom}
                 />
               )
             ) : (
@@ -897,6 +1030,7 @@ function CallContentInner({
                   call={call}
                   localScreenShareEnabled={isScreenShareEnabled}
                   localParticipant={localParticipant}
+                  breakoutRoom={breakoutRoom}
                 />
               ) : (
                 <CustomGridLayout 
@@ -904,6 +1038,7 @@ function CallContentInner({
                   call={call}
                   localScreenShareEnabled={isScreenShareEnabled}
                   localParticipant={localParticipant}
+                  breakoutRoom={breakoutRoom}
                 />
               )
             )}
@@ -942,7 +1077,7 @@ function CallContentInner({
               variant="ghost"
               size="sm"
               onClick={async () => {
-                    if (isMicLoading || !hasMicDevice) return
+                    if (isMicLoading || !canUseMic) return
                     setIsMicLoading(true)
                     try {
                       if (isMicEnabled) {
@@ -966,10 +1101,10 @@ function CallContentInner({
                       setIsMicLoading(false)
                     }
                   }}
-                  disabled={isMicLoading || !hasMicDevice}
+                  disabled={isMicLoading || !canUseMic}
                   className={cn(
                     "h-10 w-10 rounded-full p-0 transition-all duration-200",
-                    !hasMicDevice
+                    !canUseMic
                       ? "bg-white/5 text-white/30 cursor-not-allowed"
                       : isMicLoading
                         ? "bg-white/10 text-white cursor-wait"
@@ -977,7 +1112,7 @@ function CallContentInner({
                           ? "bg-white/10 hover:bg-white/20 text-white"
                           : "bg-red-600 hover:bg-red-700 text-white"
                   )}
-                  title={!hasMicDevice ? "No microphone available" : isMicEnabled ? "Mute microphone" : "Unmute microphone"}
+                  title={isAudience ? "Raise your hand to speak" : !hasMicDevice ? "No microphone available" : isMicEnabled ? "Mute microphone" : "Unmute microphone"}
                 >
                   {isMicLoading ? (
                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -993,7 +1128,7 @@ function CallContentInner({
               variant="ghost"
               size="sm"
               onClick={async () => {
-                    if (isCameraLoading || !hasCameraDevice) return
+                    if (isCameraLoading || !canUseCamera) return
                     setIsCameraLoading(true)
                     try {
                       if (isCameraEnabled) {
@@ -1017,10 +1152,10 @@ function CallContentInner({
                       setIsCameraLoading(false)
                     }
                   }}
-                  disabled={isCameraLoading || !hasCameraDevice}
+                  disabled={isCameraLoading || !canUseCamera}
                   className={cn(
                     "h-10 w-10 rounded-full p-0 transition-all duration-200",
-                    !hasCameraDevice
+                    !canUseCamera
                       ? "bg-white/5 text-white/30 cursor-not-allowed"
                       : isCameraLoading
                         ? "bg-white/10 text-white cursor-wait"
@@ -1028,7 +1163,7 @@ function CallContentInner({
                           ? "bg-white/10 hover:bg-white/20 text-white"
                           : "bg-red-600 hover:bg-red-700 text-white"
                   )}
-                  title={!hasCameraDevice ? "No camera available" : isCameraEnabled ? "Turn off camera" : "Turn on camera"}
+                  title={isAudience ? "Raise your hand to turn on your camera" : !hasCameraDevice ? "No camera available" : isCameraEnabled ? "Turn off camera" : "Turn on camera"}
                 >
                   {isCameraLoading ? (
                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -1422,6 +1557,47 @@ function CallContentInner({
                   </Button>
             )}
 
+            {/* Raise hand - Audience mode attendees and speakers */}
+            {stage.audienceMode && !canModerateChat && !breakoutRoom && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleStageToggle}
+                disabled={isStageLoading}
+                className={cn(
+                  "h-10 w-10 rounded-full p-0 transition-all duration-200",
+                  stage.myStatus === 'raised'
+                    ? "bg-amber-500 hover:bg-amber-600 text-white"
+                    : stage.myStatus === 'speaker'
+                      ? "bg-emerald-600 hover:bg-emerald-700 text-white"
+                      : "bg-white/10 hover:bg-white/20 text-white"
+                )}
+                title={stage.myStatus === 'speaker' ? "Return to audience" : stage.myStatus === 'raised' ? "Lower hand" : "Raise hand"}
+              >
+                {isStageLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Hand className="h-4 w-4" />
+                )}
+              </Button>
+            )}
+
+            {/* Breakout rooms - Hosts only */}
+            {canModerateChat && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowBreakoutDialog(true)}
+                className={cn(
+                  "h-10 w-10 rounded-full p-0 transition-all duration-200",
+                  breakouts.isOpen ? "bg-white/20 text-white" : "bg-white/10 hover:bg-white/20 text-white"
+                )}
+                title="Breakout rooms"
+              >
+                <DoorOpen className="h-4 w-4" />
+              </Button>
+            )}
+
             {/* Settings button */}
             <Button
                 variant="ghost"
@@ -1465,6 +1641,22 @@ function CallContentInner({
             >
               <Users className="h-4 w-4" />
             </Button>
+
+            {/* Chat button */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => openSidebar("chat")}
+              className={cn(
+                "h-10 w-10 rounded-full p-0 transition-all duration-200",
+                showSidebar && sidebarTab === "chat"
+                  ? "bg-white/20 text-white"
+                  : "bg-white/10 hover:bg-white/20 text-white"
+              )}
+              title="Show chat"
+            >
+              <MessageSquare className="h-4 w-4" />
+            </Button>
           </div>
 
           {/* Desktop: Grouped layout with center alignment */}
@@ -1493,7 +1685,7 @@ function CallContentInner({
                   variant="ghost"
                   size="sm"
                   onClick={async () => {
-                    if (isMicLoading || !hasMicDevice) return
+                    if (isMicLoading || !canUseMic) return
                     setIsMicLoading(true)
                     try {
                       if (isMicEnabled) {
@@ -1516,10 +1708,10 @@ function CallContentInner({
                       setIsMicLoading(false)
                     }
                   }}
-                  disabled={isMicLoading || !hasMicDevice}
+                  disabled={isMicLoading || !canUseMic}
                   className={cn(
                     "h-10 w-10 rounded-full p-0 transition-all duration-200",
-                    !hasMicDevice
+                    !canUseMic
                       ? "bg-white/5 text-white/30 cursor-not-allowed"
                       : isMicLoading
                         ? "bg-white/10 text-white cursor-wait"
@@ -1527,7 +1719,7 @@ function CallContentInner({
                           ? "bg-white/10 hover:bg-white/20 text-white"
                           : "bg-red-600 hover:bg-red-700 text-white"
                   )}
-                  title={!hasMicDevice ? "No microphone available" : isMicEnabled ? "Mute microphone" : "Unmute microphone"}
+                  title={isAudience ? "Raise your hand to speak" : !hasMicDevice ? "No microphone available" : isMicEnabled ? "Mute microphone" : "Unmute microphone"}
                 >
                   {isMicLoading ? (
                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -1543,7 +1735,7 @@ function CallContentInner({
                   variant="ghost"
                   size="sm"
                   onClick={async () => {
-                    if (isCameraLoading || !hasCameraDevice) return
+                    if (isCameraLoading || !canUseCamera) return
                     setIsCameraLoading(true)
                     try {
                       if (isCameraEnabled) {
@@ -1566,10 +1758,10 @@ function CallContentInner({
                       setIsCameraLoading(false)
                     }
                   }}
-                  disabled={isCameraLoading || !hasCameraDevice}
+                  disabled={isCameraLoading || !canUseCamera}
                   className={cn(
                     "h-10 w-10 rounded-full p-0 transition-all duration-200",
-                    !hasCameraDevice
+                    !canUseCamera
                       ? "bg-white/5 text-white/30 cursor-not-allowed"
                       : isCameraLoading
                         ? "bg-white/10 text-white cursor-wait"
@@ -1577,7 +1769,7 @@ function CallContentInner({
                           ? "bg-white/10 hover:bg-white/20 text-white"
                           : "bg-red-600 hover:bg-red-700 text-white"
                   )}
-                  title={!hasCameraDevice ? "No camera available" : isCameraEnabled ? "Turn off camera" : "Turn on camera"}
+                  title={isAudience ? "Raise your hand to turn on your camera" : !hasCameraDevice ? "No camera available" : isCameraEnabled ? "Turn off camera" : "Turn on camera"}
                 >
                   {isCameraLoading ? (
                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -1900,6 +2092,47 @@ function CallContentInner({
 
             {/* Right: Secondary controls */}
             <div className="flex items-center gap-1.5">
+              {/* Raise hand - Audience mode attendees and speakers */}
+              {stage.audienceMode && !canModerateChat && !breakoutRoom && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleStageToggle}
+                  disabled={isStageLoading}
+                  className={cn(
+                    "h-10 w-10 rounded-full p-0 transition-all duration-200",
+                    stage.myStatus === 'raised'
+                      ? "bg-amber-500 hover:bg-amber-600 text-white"
+                      : stage.myStatus === 'speaker'
+                        ? "bg-emerald-600 hover:bg-emerald-700 text-white"
+                        : "bg-white/10 hover:bg-white/20 text-white"
+                  )}
+                  title={stage.myStatus === 'speaker' ? "Return to audience" : stage.myStatus === 'raised' ? "Lower hand" : "Raise hand"}
+                >
+                  {isStageLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Hand className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+
+              {/* Breakout rooms - Hosts only */}
+              {canModerateChat && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowBreakoutDialog(true)}
+                  className={cn(
+                    "h-10 w-10 rounded-full p-0 transition-all duration-200",
+                    breakouts.isOpen ? "bg-white/20 text-white" : "bg-white/10 hover:bg-white/20 text-white"
+                  )}
+                  title="Breakout rooms"
+                >
+                  <DoorOpen className="h-4 w-4" />
+                </Button>
+              )}
+
               {/* Settings button */}
               <Button
                 variant="ghost"
@@ -1943,6 +2176,22 @@ function CallContentInner({
               >
                 <Users className="h-4 w-4" />
               </Button>
+
+              {/* Chat button */}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openSidebar("chat")}
+                className={cn(
+                  "h-10 w-10 rounded-full p-0 transition-all duration-200",
+                  showSidebar && sidebarTab === "chat"
+                    ? "bg-white/20 text-white"
+                    : "bg-white/10 hover:bg-white/20 text-white"
+                )}
+                title="Show chat"
+              >
+                <MessageSquare className="h-4 w-4" />
+              </Button>
             </div>
           </div>
         </div>
@@ -1952,6 +2201,11 @@ function CallContentInner({
           show={showSidebar}
           onClose={() => setShowSidebar(false)}
           activeTab={sidebarTab}
+          event={event}
+          currentUserId={currentUserId}
+          canChat={canChat}
+          canModerateChat={canModerateChat}
+          stage={stage}
         />
 
         {/* Settings Dialog */}
@@ -1965,8 +2219,8 @@ function CallContentInner({
           setIsMicLoading={setIsMicLoading}
           isCameraLoading={isCameraLoading}
           setIsCameraLoading={setIsCameraLoading}
-          hasMicDevice={hasMicDevice}
-          hasCameraDevice={hasCameraDevice}
+          hasMicDevice={canUseMic}
+          hasCameraDevice={canUseCamera}
           micDevices={micDevices}
           cameraDevices={cameraDevices}
           selectedMicId={selectedMicId}
@@ -1977,6 +2231,16 @@ function CallContentInner({
         setMicSensitivity={setMicSensitivity}
         refreshDevices={refreshDevices}
         />
+
+        {canModerateChat && (
+          <BreakoutRoomsDialog
+            open={showBreakoutDialog}
+            onOpenChange={setShowBreakoutDialog}
+            breakouts={breakouts}
+            visitingRoomId={visitingRoomId}
+            onVisitRoom={setVisitingRoomId}
+          />
+        )}
     </div>
   )
 }
\ No newline at end of file
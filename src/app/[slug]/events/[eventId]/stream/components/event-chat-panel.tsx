@@ -0,0 +1,380 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, MessageSquare, MoreVertical, Pin, PinOff, Send, SmilePlus, Timer, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { EmojiPicker } from "@/components/emoji-picker"
+import { useEventChat } from "@/hooks/use-event-chat"
+import {
+  EVENT_CHAT_MAX_LENGTH,
+  EVENT_CHAT_REACTIONS,
+  EVENT_CHAT_SLOW_MODE_OPTIONS,
+  getChatAuthorName,
+} from "@/lib/event-chat"
+import { cn } from "@/lib/utils"
+import type { CommunityEvent, EventChatMessage } from "@/types"
+import { getInitials } from "./utils"
+
+interface EventChatPanelProps {
+  event: CommunityEvent
+  currentUserId: string
+  canChat: boolean
+  canModerate: boolean
+}
+
+/**
+ * Live chat for the stream sidebar
+ * Registered attendees chat and react; hosts can also pin, delete and set slow mode
+ */
+export function EventChatPanel({ event, currentUserId, canChat, canModerate }: EventChatPanelProps) {
+  const {
+    messages,
+    pinnedMessage,
+    loading,
+    slowModeSeconds,
+    isLive,
+    sendMessage,
+    toggleReaction,
+    setPinned,
+    deleteMessage,
+    updateSlowMode,
+  } = useEventChat(event.id, {
+    userId: currentUserId,
+    live: canChat,
+    initialSlowModeSeconds: event.chat_slow_mode_seconds ?? 0,
+    initialStatus: event.status,
+  })
+  const [draft, setDraft] = useState("")
+  const [sending, setSending] = useState(false)
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const cooldownSeconds = cooldownUntil ? Math.max(Math.ceil((cooldownUntil - now) / 1000), 0) : 0
+
+  // Stay pinned to the newest message
+  useEffect(() => {
+    const container = scrollRef.current
+    if (container) container.scrollTop = container.scrollHeight
+  }, [messages.length])
+
+  useEffect(() => {
+    if (!cooldownUntil) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [cooldownUntil])
+
+  const handleSend = async () => {
+    const content = draft.trim()
+    if (!content || sending || cooldownSeconds > 0) return
+
+    setSending(true)
+    try {
+      await sendMessage(content)
+      setDraft("")
+      if (slowModeSeconds > 0 && !canModerate) {
+        setNow(Date.now())
+        setCooldownUntil(Date.now() + slowModeSeconds * 1000)
+      }
+    } catch (error: any) {
+      console.error("Error sending chat message:", error)
+      toast.error(error?.message || "Failed to send message")
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleReaction = async (message: EventChatMessage, emoji: string) => {
+    try {
+      await toggleReaction(message, emoji)
+    } catch (error: any) {
+      console.error("Error reacting to chat message:", error)
+      toast.error(error?.message || "Failed to react")
+    }
+  }
+
+  const handlePin = async (message: EventChatMessage, isPinned: boolean) => {
+    try {
+      await setPinned(message, isPinned)
+    } catch (error: any) {
+      console.error("Error pinning chat message:", error)
+      toast.error(error?.message || "Failed to update pin")
+    }
+  }
+
+  const handleDelete = async (message: EventChatMessage) => {
+    try {
+      await deleteMessage(message)
+    } catch (error: any) {
+      console.error("Error deleting chat message:", error)
+      toast.error(error?.message || "Failed to delete message")
+    }
+  }
+
+  const handleSlowMode = async (value: string) => {
+    try {
+      await updateSlowMode(Number(value))
+      toast.success(Number(value) > 0 ? "Slow mode updated" : "Slow mode turned off")
+    } catch (error: any) {
+      console.error("Error updating slow mode:", error)
+      toast.error(error?.message || "Failed to update slow mode")
+    }
+  }
+
+  if (!canChat) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center p-8">
+        <div className="w-16 h-16 rounded-full bg-white/10 flex items-center justify-center mb-4">
+          <MessageSquare className="h-8 w-8 text-white/50" />
+        </div>
+        <h4 className="text-white font-medium mb-2">Chat is for registered attendees</h4>
+        <p className="text-white/60 text-sm">
+          Register for this event to join the conversation
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {canModerate && (
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-white/10">
+          <span className="flex items-center gap-1.5 text-white/70 text-xs">
+            <Timer className="h-3.5 w-3.5" />
+            Slow mode
+          </span>
+          <Select value={String(slowModeSeconds)} onValueChange={handleSlowMode}>
+            <SelectTrigger className="h-8 w-[130px] bg-white/5 border-white/20 text-white text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EVENT_CHAT_SLOW_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {pinnedMessage && (
+        <div className="mx-4 mt-3 flex items-start gap-2 rounded-lg border border-white/20 bg-white/10 p-3">
+          <Pin className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-white/70" />
+          <div className="min-w-0 flex-1">
+            <p className="text-white/60 text-xs">{getChatAuthorName(pinnedMessage)}</p>
+            <p className="text-white text-sm break-words">{pinnedMessage.content}</p>
+          </div>
+          {canModerate && (
+            <button
+              type="button"
+              onClick={() => handlePin(pinnedMessage, false)}
+              className="text-white/60 hover:text-white cursor-pointer"
+              title="Unpin"
+            >
+              <PinOff className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto scrollbar-thin p-4 space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-white/60 text-sm">No messages yet. Say hello!</p>
+          </div>
+        ) : (
+          messages.map((message) => (
+            <ChatMessageRow
+              key={message.id}
+              message={message}
+              isOwn={message.user_id === currentUserId}
+              canReact={isLive}
+              canModerate={canModerate}
+              onReact={handleReaction}
+              onPin={handlePin}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="border-t border-white/20 p-3">
+        {isLive ? (
+          <>
+            <div className="flex items-center gap-2">
+              <EmojiPicker onEmojiSelect={(emoji) => setDraft((prev) => prev + emoji)} disabled={sending} />
+              <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault()
+                    handleSend()
+                  }
+                }}
+                maxLength={EVENT_CHAT_MAX_LENGTH}
+                placeholder={cooldownSeconds > 0 ? `Slow mode: wait ${cooldownSeconds}s` : "Send a message..."}
+                disabled={sending}
+                className="flex-1 bg-white/5 border-white/20 text-white placeholder:text-white/50 focus:bg-white/10 focus:border-white/30"
+              />
+              <Button
+                size="sm"
+                onClick={handleSend}
+                disabled={sending || !draft.trim() || cooldownSeconds > 0}
+                className="h-9 w-9 p-0 rounded-full"
+                title="Send"
+              >
+                {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </Button>
+            </div>
+            {slowModeSeconds > 0 && (
+              <p className="mt-2 text-white/50 text-xs">
+                Slow mode is on: one message every {slowModeSeconds}s{canModerate ? " (hosts are exempt)" : ""}
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-center text-white/50 text-xs">Chat opens when the event goes live</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ChatMessageRowProps {
+  message: EventChatMessage
+  isOwn: boolean
+  canReact: boolean
+  canModerate: boolean
+  onReact: (message: EventChatMessage, emoji: string) => void
+  onPin: (message: EventChatMessage, isPinned: boolean) => void
+  onDelete: (message: EventChatMessage) => void
+}
+
+function ChatMessageRow({ message, isOwn, canReact, canModerate, onReact, onPin, onDelete }: ChatMessageRowProps) {
+  const authorName = getChatAuthorName(message)
+  const reactions = Object.entries(message.reaction_counts ?? {}).filter(([, count]) => count > 0)
+
+  if (message.deleted_at) {
+    return <p className="pl-10 text-white/40 text-xs italic">Message deleted</p>
+  }
+
+  return (
+    <div className="group flex items-start gap-2">
+      <Avatar className="h-8 w-8 border border-white/20 flex-shrink-0">
+        <AvatarImage src={message.user?.profile_picture} alt={authorName} />
+        <AvatarFallback className="bg-gradient-to-br from-primary to-primary/70 text-white text-xs">
+          {getInitials(authorName)}
+        </AvatarFallback>
+      </Avatar>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="text-white text-sm font-medium truncate">{authorName}</span>
+          {message.is_pinned && <Pin className="h-3 w-3 text-white/60 flex-shrink-0" />}
+          <span className="text-white/40 text-xs flex-shrink-0">
+            {new Date(message.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </span>
+        </div>
+        <p className="text-white/90 text-sm whitespace-pre-wrap break-words">{message.content}</p>
+        {reactions.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {reactions.map(([emoji, count]) => (
+              <button
+                key={emoji}
+                type="button"
+                disabled={!canReact}
+                onClick={() => onReact(message, emoji)}
+                className={cn(
+                  "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors",
+                  message.user_reactions?.includes(emoji)
+                    ? "border-white/40 bg-white/20 text-white"
+                    : "border-white/10 bg-white/5 text-white/70 hover:bg-white/10",
+                  canReact ? "cursor-pointer" : "cursor-default"
+                )}
+              >
+                <span>{emoji}</span>
+                <span>{count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+        {canReact && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <button type="button" className="p-1 text-white/60 hover:text-white cursor-pointer" title="React">
+                <SmilePlus className="h-3.5 w-3.5" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-auto p-1 flex gap-1 border-white/20 bg-black/90 backdrop-blur-md">
+              {EVENT_CHAT_REACTIONS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => onReact(message, emoji)}
+                  className="h-8 w-8 rounded-md text-lg hover:bg-white/10 cursor-pointer"
+                >
+                  {emoji}
+                </button>
+              ))}
+            </PopoverContent>
+          </Popover>
+        )}
+        {(canModerate || isOwn) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" className="p-1 text-white/60 hover:text-white cursor-pointer">
+                <MoreVertical className="h-3.5 w-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="border-white/20 bg-black/90 backdrop-blur-md">
+              {canModerate && (
+                <>
+                  <DropdownMenuItem
+                    onClick={() => onPin(message, !message.is_pinned)}
+                    className="text-white hover:bg-white/10"
+                  >
+                    {message.is_pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                    {message.is_pinned ? "Unpin" : "Pin message"}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator className="bg-white/20" />
+                </>
+              )}
+              <DropdownMenuItem
+                onClick={() => onDelete(message)}
+                className="text-red-400 hover:bg-red-500/20"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -12,4 +12,5 @@ export { CustomSpeakerLayout, CustomGridLayout, MobileSwipeableLayout } from './
 export { DraggableSelfView } from './draggable-self-view'
 export { StreamSidebar } from './stream-sidebar'
 export { SettingsDialog } from './settings-dialog'
+export { BreakoutRoomsDialog } from './breakout-rooms-dialog'
 export { CallContent } from './call-content'
\ No newline at end of file
@@ -4,8 +4,9 @@ import React from "react"
 import { useCallStateHooks, type Call, hasScreenShare } from "@stream-io/video-react-sdk"
 import { cn } from "@/lib/utils"
 import { ParticipantVideo } from "./participant-video"
-import { ChevronLeft, ChevronRight } from "lucide-react"
+import { ChevronLeft, ChevronRight, DoorOpen } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { formatBreakoutCountdown } from "@/lib/event-breakouts"
 
 interface LayoutProps {
   ownerId: string
@@ -13,6 +14,20 @@ interface LayoutProps {
   onViewChange?: (view: 'spotlight' | 'grid') => void
   localScreenShareEnabled?: boolean
   localParticipant?: any
+  breakoutRoom?: { name: string; secondsLeft: number } | null
+}
+
+/**
+ * Which breakout room the viewer is in and how long until everyone returns to the main call
+ */
+function BreakoutRoomBanner({ room }: { room: { name: string; secondsLeft: number } }) {
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 rounded-full bg-black/40 backdrop-blur-md border border-white/20 px-3 py-1 text-white text-xs shadow-lg">
+      <DoorOpen className="h-3.5 w-3.5 text-white/70" />
+      <span className="font-medium">{room.name}</span>
+      <span className="text-white/60 tabular-nums">{formatBreakoutCountdown(room.secondsLeft)}</span>
+    </div>
+  )
 }
 
 /**
@@ -20,7 +35,7 @@ interface LayoutProps {
  * View 1: Full-screen host spotlight only
  * View 2: All participants grid
  */
-export function MobileSwipeableLayout({ ownerId, call, onViewChange, localScreenShareEnabled, localParticipant }: LayoutProps) {
+export function MobileSwipeableLayout({ ownerId, call, onViewChange, localScreenShareEnabled, localParticipant, breakoutRoom }: LayoutProps) {
   const [currentView, setCurrentView] = React.useState<'spotlight' | 'grid'>('spotlight')
   const [touchStart, setTouchStart] = React.useState<number | null>(null)
   const [touchEnd, setTouchEnd] = React.useState<number | null>(null)
@@ -89,6 +104,8 @@ export function MobileSwipeableLayout({ ownerId, call, onViewChange, localScreen
         </div>
       </div>
 
+      {breakoutRoom && <BreakoutRoomBanner room={breakoutRoom} />}
+
       {/* Navigation Arrows */}
       {currentView === 'spotlight' && (
         <Button
@@ -226,7 +243,7 @@ function MobileSpotlightView({ ownerId, call, localScreenShareEnabled, localPart
  * Prioritizes the host/owner as the main spotlight participant
  * Used on desktop/tablet devices
  */
-export function CustomSpeakerLayout({ ownerId, call, localScreenShareEnabled, localParticipant }: LayoutProps) {
+export function CustomSpeakerLayout({ ownerId, call, localScreenShareEnabled, localParticipant, breakoutRoom }: LayoutProps) {
   const { useParticipants } = useCallStateHooks()
   const participants = useParticipants()
   const [isPortrait, setIsPortrait] = React.useState(false)
@@ -335,7 +352,9 @@ export function CustomSpeakerLayout({ ownerId, call, localScreenShareEnabled, lo
   }
 
   return (
-    <div className="w-full h-full flex gap-2 p-2">
+    <div className="relative w-full h-full flex gap-2 p-2">
+      {breakoutRoom && <BreakoutRoomBanner room={breakoutRoom} />}
+
       {/* Main speaker - portrait optimized layout */}
       <div className={cn(
         "flex items-center flex-shrink-0",
@@ -388,7 +407,7 @@ export function CustomSpeakerLayout({ ownerId, call, localScreenShareEnabled, lo
  * On mobile: Single column, full-screen cards, scrollable vertically
  * On desktop: Responsive grid layout
  */
-export function CustomGridLayout({ ownerId, call, localScreenShareEnabled, localParticipant }: LayoutProps) {
+export function CustomGridLayout({ ownerId, call, localScreenShareEnabled, localParticipant, breakoutRoom }: LayoutProps) {
   const { useParticipants } = useCallStateHooks()
   const participants = useParticipants()
   const [isMobile, setIsMobile] = React.useState(false)
@@ -491,7 +510,8 @@ export function CustomGridLayout({ ownerId, call, localScreenShareEnabled, local
   // Mobile: Vertical scrollable list with landscape aspect ratio
   if (isMobile) {
     return (
-      <div className="w-full h-full overflow-y-auto">
+      <div className="relative w-full h-full overflow-y-auto">
+        {breakoutRoom && <BreakoutRoomBanner room={breakoutRoom} />}
         <div className="flex flex-col gap-4 p-2">
           {sortedParticipants.map((participant) => (
             <div
@@ -514,7 +534,8 @@ export function CustomGridLayout({ ownerId, call, localScreenShareEnabled, local
 
   // Desktop: Grid layout
   return (
-    <div className="w-full h-full p-2 overflow-y-auto">
+    <div className="relative w-full h-full p-2 overflow-y-auto">
+      {breakoutRoom && <BreakoutRoomBanner room={breakoutRoom} />}
       <div
         className="grid gap-2 w-full"
         style={{
@@ -1,30 +1,45 @@
 "use client"
 
 import { useState } from "react"
-import { Users, MessageSquare, X, Search, MicOff, VideoOff } from "lucide-react"
+import { Users, MessageSquare, X, Search, MicOff, VideoOff, Hand, Loader2 } from "lucide-react"
 import { useCallStateHooks } from "@stream-io/video-react-sdk"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { cn } from "@/lib/utils"
+import { toast } from "sonner"
+import type { EventStage } from "@/hooks/use-event-stage"
+import type { CommunityEvent, EventStageRequest } from "@/types"
 import { getInitials } from "./utils"
+import { EventChatPanel } from "./event-chat-panel"
 
 interface StreamSidebarProps {
   show: boolean
   onClose: () => void
   activeTab: "participants" | "chat"
+  event: CommunityEvent
+  currentUserId: string
+  canChat: boolean
+  canModerateChat: boolean
+  stage: EventStage
 }
 
 /**
  * Sidebar component for participants and chat - Platform style
- * Shows list of participants with search, or chat interface (coming soon)
+ * Shows list of participants with search, or the live event chat
  */
 export function StreamSidebar({
   show,
   onClose,
   activeTab,
+  event,
+  currentUserId,
+  canChat,
+  canModerateChat,
+  stage,
 }: StreamSidebarProps) {
   const [searchQuery, setSearchQuery] = useState("")
+  const [pendingStageAction, setPendingStageAction] = useState<string | null>(null)
   const { useParticipantCount, useParticipants } = useCallStateHooks()
   const participantCount = useParticipantCount()
   const participants = useParticipants()
@@ -34,6 +49,62 @@ export function StreamSidebar({
     participant.name?.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
+  const runStageAction = async (key: string, action: () => Promise<void>, fallback: string) => {
+    if (pendingStageAction) return
+    setPendingStageAction(key)
+    try {
+      await action()
+    } catch (error: any) {
+      console.error("Error updating stage:", error)
+      toast.error(error?.message || fallback)
+    } finally {
+      setPendingStageAction(null)
+    }
+  }
+
+  const renderStageRequest = (request: EventStageRequest) => {
+    const name = request.user
+      ? `${request.user.first_name} ${request.user.last_name}`.trim() || request.user.username
+      : "Unknown User"
+    const isSpeaker = request.status === "speaker"
+
+    return (
+      <div
+        key={request.user_id}
+        className="flex items-center gap-3 p-2 bg-white/5 rounded-lg border border-white/10"
+      >
+        <Avatar className="h-8 w-8 border-2 border-white/20">
+          <AvatarImage src={request.user?.profile_picture || undefined} alt={name} />
+          <AvatarFallback className="bg-gradient-to-br from-primary to-primary/70 text-white text-xs">
+            {getInitials(name)}
+          </AvatarFallback>
+        </Avatar>
+        <p className="flex-1 min-w-0 text-white text-sm truncate">{name}</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!!pendingStageAction}
+          onClick={() =>
+            runStageAction(
+              request.user_id,
+              () => (isSpeaker ? stage.demote(request.user_id) : stage.promote(request.user_id)),
+              isSpeaker ? "Failed to move to audience" : "Failed to promote"
+            )
+          }
+          className="h-7 px-2 text-xs bg-white/10 text-white/80 hover:bg-white/20 hover:text-white"
+        >
+          {pendingStageAction === request.user_id ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : isSpeaker ? (
+            "Move to audience"
+          ) : (
+            "Promote"
+          )}
+        </Button>
+      </div>
+    )
+  }
+
   return (
     <div
       className={cn(
@@ -44,7 +115,11 @@ export function StreamSidebar({
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-white/20">
         <div className="flex items-center gap-2">
-          <Users className="h-4 w-4 text-white/70" />
+          {activeTab === "participants" ? (
+            <Users className="h-4 w-4 text-white/70" />
+          ) : (
+            <MessageSquare className="h-4 w-4 text-white/70" />
+          )}
           <h3 className="text-white font-semibold text-base">
             {activeTab === "participants" ? `In call (${participantCount})` : "Messages"}
           </h3>
@@ -76,9 +151,74 @@ export function StreamSidebar({
       )}
 
       {/* Content */}
-      <div className="flex-1 overflow-y-auto scrollbar-thin">
+      <div className={cn("flex-1 min-h-0", activeTab === "participants" && "overflow-y-auto scrollbar-thin")}>
         {activeTab === "participants" ? (
           <div className="p-4 space-y-2">
+            {/* Speaker queue - Hosts only */}
+            {canModerateChat && (
+              <div className="mb-4 space-y-3 p-3 bg-white/5 rounded-lg border border-white/10">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm font-medium">Audience mode</p>
+                    <p className="text-white/60 text-xs">
+                      {stage.audienceMode ? "Only hosts and speakers can talk" : "Everyone can talk"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!!pendingStageAction}
+                    onClick={() =>
+                      runStageAction(
+                        "audience_mode",
+                        () => stage.setAudienceMode(!stage.audienceMode),
+                        "Failed to change audience mode"
+                      )
+                    }
+                    className={cn(
+                      "h-7 px-3 text-xs",
+                      stage.audienceMode
+                        ? "bg-primary text-white hover:bg-primary/90"
+                        : "bg-white/10 text-white/80 hover:bg-white/20 hover:text-white"
+                    )}
+                  >
+                    {pendingStageAction === "audience_mode" ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : stage.audienceMode ? (
+                      "On"
+                    ) : (
+                      "Off"
+                    )}
+                  </Button>
+                </div>
+
+                {stage.audienceMode && (
+                  <>
+                    <div className="space-y-2">
+                      <p className="flex items-center gap-1.5 text-white/70 text-xs font-medium uppercase tracking-wide">
+                        <Hand className="h-3 w-3" />
+                        Raised hands ({stage.raisedHands.length})
+                      </p>
+                      {stage.raisedHands.length === 0 ? (
+                        <p className="text-white/50 text-xs">No one is waiting to speak</p>
+                      ) : (
+                        stage.raisedHands.map(renderStageRequest)
+                      )}
+                    </div>
+
+                    {stage.speakers.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-white/70 text-xs font-medium uppercase tracking-wide">
+                          Speakers ({stage.speakers.length})
+                        </p>
+                        {stage.speakers.map(renderStageRequest)}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             {filteredParticipants.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-white/60 text-sm">No participants found</p>
@@ -120,15 +260,12 @@ export function StreamSidebar({
             )}
           </div>
         ) : (
-          <div className="flex flex-col items-center justify-center h-full text-center p-8">
-            <div className="w-16 h-16 rounded-full bg-white/10 flex items-center justify-center mb-4">
-              <MessageSquare className="h-8 w-8 text-white/50" />
-            </div>
-            <h4 className="text-white font-medium mb-2">Messages coming soon</h4>
-            <p className="text-white/60 text-sm">
-              Chat with participants during the call
-            </p>
-          </div>
+          <EventChatPanel
+            event={event}
+            currentUserId={currentUserId}
+            canChat={canChat}
+            canModerate={canModerateChat}
+          />
         )}
       </div>
     </div>
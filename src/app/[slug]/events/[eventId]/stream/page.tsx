@@ -1,5 +1,6 @@
 import { notFound, redirect } from "next/navigation"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { getCommunityAccess, hasCommunityPermission } from "@/lib/community-permissions"
 import StreamView from "./stream-view"
 import { StreamErrorBoundary } from "./error-boundary"
 
@@ -83,6 +84,13 @@ export default async function StreamPage({ params }: StreamPageProps) {
     notFound() // Can't join if not registered and event isn't live yet
   }
 
+  // Chat is limited to hosts and registered attendees (enforced again in the database)
+  const canModerateChat = isOwner || hasCommunityPermission(
+    await getCommunityAccess(supabase, community.id, user.id),
+    'host_events'
+  )
+  const canChat = canModerateChat || isRegistered
+
   // Get Stream API key
   const { data: settings } = await supabase
     .from('platform_settings')
@@ -99,7 +107,8 @@ export default async function StreamPage({ params }: StreamPageProps) {
         currentUserName={userName}
         currentUserImage={userProfile?.profile_picture}
         isOwner={isOwner}
-        registrationId={registration?.id}
+        canChat={canChat}
+        canModerateChat={canModerateChat}
       />
     </StreamErrorBoundary>
   )
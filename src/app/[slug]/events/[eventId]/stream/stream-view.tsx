@@ -30,7 +30,25 @@ interface StreamViewProps {
   currentUserName: string
   currentUserImage?: string | null
   isOwner: boolean
-  registrationId?: string
+  canChat: boolean
+  canModerateChat: boolean
+}
+
+type AttendanceAction = 'join' | 'leave'
+
+/**
+ * Report a join or leave for attendance analytics. keepalive lets a leave
+ * still go out while the page is unloading.
+ */
+function reportAttendance(eventId: string, sessionId: string, action: AttendanceAction) {
+  fetch(`/api/events/${eventId}/attendance`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, sessionId }),
+    keepalive: true,
+  }).catch((err) => {
+    console.error(`Error reporting attendance ${action}:`, err)
+  })
 }
 
 /**
@@ -44,7 +62,8 @@ export default function StreamView({
   currentUserName,
   currentUserImage,
   isOwner,
-  registrationId,
+  canChat,
+  canModerateChat,
 }: StreamViewProps) {
   const router = useRouter()
   const [client, setClient] = useState<StreamVideoClient | null>(null)
@@ -70,6 +89,62 @@ export default function StreamView({
   const isInitializingRef = useRef(false)
   // Track the previous dependency values to detect actual changes
   const prevDepsRef = useRef<{ eventId: string; callId: string } | null>(null)
+  // The GetStream session we reported joining, so the matching leave can be sent
+  const attendanceRef = useRef<{ eventId: string; sessionId: string } | null>(null)
+
+  const reportLeave = () => {
+    const attendance = attendanceRef.current
+    if (!attendance) return
+    attendanceRef.current = null
+    reportAttendance(attendance.eventId, attendance.sessionId, 'leave')
+  }
+
+  // The call we want to be in; breakout rooms are separate GetStream calls
+  const targetCallIdRef = useRef<string | null>(null)
+  const isSwitchingCallRef = useRef(false)
+
+  const switchCall = async (callId: string) => {
+    targetCallIdRef.current = callId
+    if (isSwitchingCallRef.current) return
+    isSwitchingCallRef.current = true
+
+    const mainCallId = event.stream_call_id || event.id
+
+    // Keep going until we're in the latest target, which may change while we switch
+    while (clientRef.current && callRef.current && callRef.current.id !== targetCallIdRef.current) {
+      const nextCallId: string = targetCallIdRef.current!
+      const streamClient = clientRef.current
+
+      try {
+        reportLeave()
+        await callRef.current.leave().catch((err) => {
+          console.error('Error leaving call while switching:', err)
+        })
+
+        const nextCall = streamClient.call('default', nextCallId)
+        await nextCall.camera.disable()
+        await nextCall.microphone.disable()
+        await nextCall.join({ create: true })
+
+        callRef.current = nextCall
+        setCall(nextCall)
+
+        const sessionId = nextCall.state.localParticipant?.sessionId
+        if (sessionId) {
+          attendanceRef.current = { eventId: event.id, sessionId }
+          reportAttendance(event.id, sessionId, 'join')
+        }
+      } catch (error: any) {
+        console.error('Error switching call:', error)
+        toast.error(error.message || 'Failed to switch rooms')
+        // Fall back to the main call rather than leaving the user in no call at all
+        if (nextCallId === mainCallId) break
+        targetCallIdRef.current = mainCallId
+      }
+    }
+
+    isSwitchingCallRef.current = false
+  }
 
   useEffect(() => {
     // Get the call ID for this effect run - use stable string values
@@ -103,6 +178,8 @@ export default function StreamView({
       const currentCall = callRef.current
       const currentClient = clientRef.current
       
+      reportLeave()
+
       if (currentCall) {
         currentCall.leave().catch((err) => {
           console.error('Error leaving call during reinitialization:', err)
@@ -159,6 +236,8 @@ export default function StreamView({
         const tokenResponse = await fetch('/api/stream-token', {
           method: 'POST',
           credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ eventId: event.id }),
         })
 
         if (!tokenResponse.ok) {
@@ -179,6 +258,8 @@ export default function StreamView({
           const tokenResponse = await fetch('/api/stream-token', {
             method: 'POST',
             credentials: 'include',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ eventId: event.id }),
           })
           
           if (!tokenResponse.ok) {
@@ -273,14 +354,12 @@ export default function StreamView({
         
         console.log('[Stream] Successfully initialized and connected to call:', callId)
 
-        // Update registration joined_at if user is registered
-        // Use a ref to get the latest registrationId (it may have changed)
-        const currentRegistrationId = registrationId
-        if (currentRegistrationId) {
-          await supabase
-            .from('event_registrations')
-            .update({ joined_at: new Date().toISOString() })
-            .eq('id', currentRegistrationId)
+        // Record the join (this also sets the registration's joined_at). The
+        // session id matches the webhook's, so the two don't double count.
+        const sessionId = streamCall.state.localParticipant?.sessionId
+        if (sessionId) {
+          attendanceRef.current = { eventId, sessionId }
+          reportAttendance(eventId, sessionId, 'join')
         }
       } catch (error: any) {
         console.error('Error initializing stream:', error)
@@ -324,6 +403,12 @@ export default function StreamView({
     }
   }, [event.id, event.stream_call_id]) // Only depend on event/call ID, not user props
 
+  // Closing the tab doesn't unmount, so send the leave on pagehide too
+  useEffect(() => {
+    window.addEventListener('pagehide', reportLeave)
+    return () => window.removeEventListener('pagehide', reportLeave)
+  }, [])
+
   // Separate effect to handle cleanup on unmount
   useEffect(() => {
     return () => {
@@ -331,6 +416,8 @@ export default function StreamView({
       const currentCall = callRef.current
       const currentClient = clientRef.current
       
+      reportLeave()
+
       if (currentCall) {
         currentCall.leave().catch((err) => {
           console.error('Error leaving call on unmount:', err)
@@ -347,6 +434,8 @@ export default function StreamView({
 
   const handleEndCall = async () => {
     try {
+      reportLeave()
+
       if (call) {
         await call.leave()
       }
@@ -420,8 +509,12 @@ export default function StreamView({
           isOwner={isOwner}
           onEndCall={handleEndCall}
           call={call}
+          currentUserId={currentUserId}
           currentUserName={currentUserName}
           currentUserImage={currentUserImage}
+          canChat={canChat}
+          canModerateChat={canModerateChat}
+          onSwitchCall={switchCall}
         />
       </StreamVideo>
     </>
@@ -3,21 +3,61 @@
 import React, { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
-import { Video, Calendar, Clock, Users, Play, Plus, X, Trash2, Edit, MoreVertical, Crown } from "lucide-react"
+import { Video, Calendar, Clock, Users, Play, Plus, X, Trash2, Edit, MoreVertical, Crown, Repeat, CalendarPlus, Download, Ticket, BarChart3 } from "lucide-react"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { CommunityNavigation } from "@/components/community-navigation"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { CustomDateTimePicker } from "@/components/ui/custom-date-time-picker"
+import { CalendarFeedDialog } from "@/components/calendar-feed-dialog"
+import { EventTicketingDialog } from "@/components/event-ticketing-dialog"
+import { EventAttendanceReportDialog } from "@/components/event-attendance-report-dialog"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth-provider"
-import type { CommunityEvent, EventStatus } from "@/types"
+import type { CommunityEvent, EventSeriesFrequency, EventStatus } from "@/types"
 import { cn } from "@/lib/utils"
+import {
+  EVENT_SERIES_DEFAULT_OCCURRENCES,
+  EVENT_SERIES_FREQUENCY_OPTIONS,
+  EVENT_SERIES_MAX_OCCURRENCES,
+  describeEventSeries,
+  getSeriesOccurrences,
+} from "@/lib/event-series"
+import { getActivePriceTier, getEventJoinCost, isEventFull } from "@/lib/event-ticketing"
+
+const EVENT_SELECT = `
+  *,
+  owner:users!community_events_owner_id_fkey(id, username, first_name, last_name, profile_picture),
+  series:event_series(*),
+  price_tiers:event_price_tiers(*)
+`
+
+// Combine a picked date and "HH:mm" slot into one local time
+function combineDateAndTime(date: Date, time: string) {
+  const [hours, minutes] = time.split(':')
+  const combined = new Date(date)
+  combined.setHours(parseInt(hours, 10))
+  combined.setMinutes(parseInt(minutes, 10))
+  combined.setSeconds(0)
+  combined.setMilliseconds(0)
+  return combined
+}
+
+function toDateInputValue(date: Date) {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`
+}
+
+function toTimeSlot(date: Date) {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`
+}
 
 // Helper function for date formatting
 function formatDate(dateString: string) {
@@ -51,6 +91,7 @@ interface CommunityEventsViewProps {
   }>
   isOwner: boolean
   isMember: boolean
+  canHostEvents?: boolean
   currentUserId?: string
   userRegistrations: string[]
   streamStartCost: number
@@ -62,6 +103,7 @@ export default function CommunityEventsView({
   events: initialEvents,
   isOwner,
   isMember,
+  canHostEvents = isOwner,
   currentUserId,
   userRegistrations: initialUserRegistrations,
   streamStartCost,
@@ -75,12 +117,28 @@ export default function CommunityEventsView({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState<string | null>(null)
   const [isCreating, setIsCreating] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [calendarFeedOpen, setCalendarFeedOpen] = useState(false)
+  const [ticketingEvent, setTicketingEvent] = useState<CommunityEvent | null>(null)
+  const [attendanceEvent, setAttendanceEvent] = useState<CommunityEvent | null>(null)
+  const [waitlist, setWaitlist] = useState<Record<string, { waitingCount: number; myPosition: number }>>({})
 
   // Create event form state
   const [createStep, setCreateStep] = useState<1 | 2>(1)
   const [eventDescription, setEventDescription] = useState("")
   const [eventDate, setEventDate] = useState<Date>(new Date())
   const [eventTime, setEventTime] = useState<string | null>(null)
+  const [repeatFrequency, setRepeatFrequency] = useState<EventSeriesFrequency | "none">("none")
+  const [seriesEndType, setSeriesEndType] = useState<"count" | "date">("count")
+  const [seriesCount, setSeriesCount] = useState(EVENT_SERIES_DEFAULT_OCCURRENCES)
+  const [seriesEndsOn, setSeriesEndsOn] = useState("")
+
+  // Edit event form state
+  const [editingEvent, setEditingEvent] = useState<CommunityEvent | null>(null)
+  const [editDescription, setEditDescription] = useState("")
+  const [editDate, setEditDate] = useState<Date>(new Date())
+  const [editTime, setEditTime] = useState<string | null>(null)
+  const [editScope, setEditScope] = useState<"occurrence" | "following">("occurrence")
+  const [isSavingEdit, setIsSavingEdit] = useState(false)
 
   // Generate time slots (12:00 AM to 11:30 PM in 30-minute intervals - all 24 hours)
   const generateTimeSlots = () => {
@@ -95,6 +153,38 @@ export default function CommunityEventsView({
   }
   const timeSlots = generateTimeSlots()
 
+  // Waitlist length per event and the user's place in line
+  const loadWaitlist = React.useCallback(async (eventIds: string[]) => {
+    if (!currentUserId || eventIds.length === 0) return
+
+    const { data, error } = await supabase.rpc('get_event_waitlist_summary', {
+      p_event_ids: eventIds,
+    })
+
+    if (error) {
+      console.error('Error loading waitlist:', error)
+      return
+    }
+
+    setWaitlist((prev) => {
+      const next = { ...prev }
+      eventIds.forEach((id) => delete next[id])
+      ;(data || []).forEach((row: { event_id: string; waiting_count: number; my_position: number }) => {
+        next[row.event_id] = { waitingCount: row.waiting_count, myPosition: row.my_position }
+      })
+      return next
+    })
+  }, [currentUserId])
+
+  const cappedEventIds = events
+    .filter((event) => event.capacity != null && (event.status === 'scheduled' || event.status === 'live'))
+    .map((event) => event.id)
+    .join(',')
+
+  React.useEffect(() => {
+    if (cappedEventIds) loadWaitlist(cappedEventIds.split(','))
+  }, [cappedEventIds, loadWaitlist])
+
   // Realtime subscription for events
   React.useEffect(() => {
     if (!community?.id) return
@@ -116,10 +206,7 @@ export default function CommunityEventsView({
             // Fetch the new event with all related data
             const { data: newEvent, error: fetchError } = await supabase
               .from('community_events')
-              .select(`
-                *,
-                owner:users!community_events_owner_id_fkey(id, username, first_name, last_name, profile_picture)
-              `)
+              .select(EVENT_SELECT)
               .eq('id', payload.new.id)
               .single()
 
@@ -170,6 +257,7 @@ export default function CommunityEventsView({
                     ...updatedEvent,
                     // Preserve existing joined data
                     owner: event.owner,
+                    series: event.series,
                     registration_count: event.registration_count,
                     user_has_registered: event.user_has_registered
                   }
@@ -254,6 +342,11 @@ export default function CommunityEventsView({
             }
           }
 
+          // A cancellation may have promoted someone off the waitlist
+          if (cappedEventIds.split(',').includes(eventId)) {
+            loadWaitlist([eventId])
+          }
+
           // Update event registration count
           setEvents((prev) => {
             return prev.map((event) => {
@@ -276,7 +369,7 @@ export default function CommunityEventsView({
     return () => {
       supabase.removeChannel(channel)
     }
-  }, [community?.id, currentUserId, events.length])
+  }, [community?.id, currentUserId, events.length, cappedEventIds, loadWaitlist])
 
   // Filter events by status
   const scheduledEvents = events.filter(e => e.status === 'scheduled')
@@ -284,6 +377,137 @@ export default function CommunityEventsView({
   const completedEvents = events.filter(e => e.status === 'completed')
   const cancelledEvents = events.filter(e => e.status === 'cancelled')
 
+  const resetCreateForm = () => {
+    setCreateStep(1)
+    setEventDescription("")
+    setEventDate(new Date())
+    setEventTime(null)
+    setRepeatFrequency("none")
+    setSeriesEndType("count")
+    setSeriesCount(EVENT_SERIES_DEFAULT_OCCURRENCES)
+    setSeriesEndsOn("")
+  }
+
+  // Occurrences the create dialog would schedule, for the preview and the upfront charge
+  const plannedOccurrences = React.useMemo(() => {
+    if (!eventTime) return []
+    const firstOccurrence = combineDateAndTime(eventDate, eventTime)
+    if (repeatFrequency === 'none') return [firstOccurrence]
+    return getSeriesOccurrences({
+      frequency: repeatFrequency,
+      firstOccurrence,
+      occurrenceCount: seriesEndType === 'count' ? seriesCount : null,
+      endsOn: seriesEndType === 'date' ? seriesEndsOn || null : null,
+    })
+  }, [eventDate, eventTime, repeatFrequency, seriesEndType, seriesCount, seriesEndsOn])
+
+  // Adds events fetched after a create or edit, replacing any already in the list
+  const mergeEvents = async (eventIds: string[]) => {
+    if (eventIds.length === 0) return
+
+    const [{ data: fetchedEvents }, { data: registrations }] = await Promise.all([
+      supabase
+        .from('community_events')
+        .select(EVENT_SELECT)
+        .in('id', eventIds),
+      supabase
+        .from('event_registrations')
+        .select('event_id')
+        .in('event_id', eventIds)
+        .is('cancelled_at', null),
+    ])
+
+    if (!fetchedEvents) return
+
+    const counts = new Map<string, number>()
+    registrations?.forEach((registration) => {
+      counts.set(registration.event_id, (counts.get(registration.event_id) || 0) + 1)
+    })
+
+    setEvents((prev) => {
+      const fetchedById = new Map(fetchedEvents.map((event: any) => [event.id, event]))
+      const merged = prev.map((event) => {
+        const fetched = fetchedById.get(event.id)
+        if (!fetched) return event
+        fetchedById.delete(event.id)
+        return { ...event, ...fetched, owner: fetched.owner as any, registration_count: counts.get(event.id) || 0 }
+      })
+      const added = Array.from(fetchedById.values()).map((event: any) => ({
+        ...event,
+        owner: event.owner as any,
+        registration_count: counts.get(event.id) || 0,
+        user_has_registered: false,
+      }))
+      return [...merged, ...added].sort(
+        (a, b) => new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime()
+      )
+    })
+  }
+
+  const handleCreateSeries = async (frequency: EventSeriesFrequency, firstOccurrence: Date) => {
+    if (!currentUserId) return
+
+    if (seriesEndType === 'date' && !seriesEndsOn) {
+      toast.error("Please choose when the series ends")
+      return
+    }
+
+    if (plannedOccurrences.length < 2) {
+      toast.error("A series needs at least two occurrences")
+      return
+    }
+
+    // Every occurrence is charged the start cost upfront (skip the check for admins)
+    const totalCost = plannedOccurrences.length * streamStartCost
+    const isAdmin = userProfile?.role === 'admin'
+    if (!isAdmin && (walletBalance === null || walletBalance < totalCost)) {
+      toast.error(`Insufficient points. You need ${totalCost} points to create this series.`)
+      return
+    }
+
+    setIsCreating(true)
+
+    try {
+      const { data: result, error } = await supabase
+        .rpc('create_event_series', {
+          p_community_id: community.id,
+          p_description: eventDescription.trim() || null,
+          p_frequency: frequency,
+          p_first_occurrence: firstOccurrence.toISOString(),
+          p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          p_ends_on: seriesEndType === 'date' ? seriesEndsOn : null,
+          p_occurrence_count: seriesEndType === 'count' ? seriesCount : null,
+        })
+
+      if (error) throw error
+
+      toast.success(
+        isAdmin
+          ? `Series created with ${result.occurrences} events! (No points charged for admin)`
+          : `Series created with ${result.occurrences} events! ${result.points_charged} point(s) charged.`
+      )
+
+      if (!isAdmin) {
+        await refreshWalletBalance()
+      }
+
+      const { data: seriesEvents } = await supabase
+        .from('community_events')
+        .select('id')
+        .eq('series_id', result.series_id)
+
+      await mergeEvents((seriesEvents || []).map((event) => event.id))
+
+      setCreateDialogOpen(false)
+      resetCreateForm()
+    } catch (error: any) {
+      console.error('Error creating event series:', error)
+      toast.error(error?.message || 'Failed to create event series')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
   const handleCreateEvent = async () => {
     if (!user || !currentUserId) {
       toast.error("Please sign in to create an event")
@@ -301,11 +525,7 @@ export default function CommunityEventsView({
     }
 
     // Combine date and time
-    const [hours, minutes] = eventTime.split(':')
-    const scheduledAt = new Date(eventDate)
-    scheduledAt.setHours(parseInt(hours, 10))
-    scheduledAt.setMinutes(parseInt(minutes, 10))
-    scheduledAt.setSeconds(0)
+    const scheduledAt = combineDateAndTime(eventDate, eventTime)
     
     if (isNaN(scheduledAt.getTime())) {
       toast.error("Invalid date or time")
@@ -317,6 +537,11 @@ export default function CommunityEventsView({
       return
     }
 
+    if (repeatFrequency !== 'none') {
+      await handleCreateSeries(repeatFrequency, scheduledAt)
+      return
+    }
+
     // Check wallet balance (skip for admins)
     const isAdmin = userProfile?.role === 'admin'
     if (!isAdmin && (walletBalance === null || walletBalance < streamStartCost)) {
@@ -384,10 +609,7 @@ export default function CommunityEventsView({
       // Fetch the event with all related data
       const { data: createdEvent } = await supabase
         .from('community_events')
-        .select(`
-          *,
-          owner:users!community_events_owner_id_fkey(id, username, first_name, last_name, profile_picture)
-        `)
+        .select(EVENT_SELECT)
         .eq('id', newEvent.id)
         .single()
 
@@ -416,10 +638,7 @@ export default function CommunityEventsView({
       }
 
       setCreateDialogOpen(false)
-      setCreateStep(1)
-      setEventDescription("")
-      setEventDate(new Date())
-      setEventTime(null)
+      resetCreateForm()
       
       // Wallet balance already refreshed above for non-admins
     } catch (error: any) {
@@ -438,17 +657,23 @@ export default function CommunityEventsView({
     }
   }
 
+  const eventToDelete = deleteDialogOpen ? events.find((event) => event.id === deleteDialogOpen) : undefined
+
   const confirmDeleteEvent = async () => {
     if (!deleteDialogOpen || !currentUserId) return
 
     setIsDeleting(true)
 
     try {
-      // Cancel event and refund all (via RPC)
-      const { error } = await supabase
-        .rpc('cancel_event_and_refund_all', {
-          p_event_id: deleteDialogOpen,
-        })
+      // Cancel event and refund all (via RPC). Series occurrences are cancelled one at a time,
+      // leaving the rest of the series scheduled
+      const { error } = eventToDelete?.series_id
+        ? await supabase.rpc('cancel_event_occurrence', {
+            p_event_id: deleteDialogOpen,
+          })
+        : await supabase.rpc('cancel_event_and_refund_all', {
+            p_event_id: deleteDialogOpen,
+          })
 
       if (error) throw error
 
@@ -468,16 +693,131 @@ export default function CommunityEventsView({
     }
   }
 
+  const openEditDialog = (event: CommunityEvent) => {
+    const scheduledAt = new Date(event.scheduled_at)
+    setEditingEvent(event)
+    setEditDescription(event.description || "")
+    setEditDate(scheduledAt)
+    setEditTime(toTimeSlot(scheduledAt))
+    setEditScope("occurrence")
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editingEvent || !editTime) return
+
+    if (!editDescription.trim()) {
+      toast.error("Please enter a description")
+      return
+    }
+
+    const scheduledAt = combineDateAndTime(editDate, editTime)
+    if (scheduledAt < new Date()) {
+      toast.error("Event must be scheduled for a future date")
+      return
+    }
+
+    setIsSavingEdit(true)
+
+    try {
+      const applyToFollowing = !!editingEvent.series_id && editScope === 'following'
+      const { data: updatedCount, error } = await supabase
+        .rpc('update_event_occurrence', {
+          p_event_id: editingEvent.id,
+          p_description: editDescription.trim(),
+          p_scheduled_at: scheduledAt.toISOString(),
+          p_apply_to_following: applyToFollowing,
+        })
+
+      if (error) throw error
+
+      const updatedIds = applyToFollowing
+        ? events
+            .filter((event) =>
+              event.series_id === editingEvent.series_id &&
+              event.status === 'scheduled' &&
+              (event.series_index ?? 0) >= (editingEvent.series_index ?? 0)
+            )
+            .map((event) => event.id)
+        : [editingEvent.id]
+
+      await mergeEvents(updatedIds)
+
+      toast.success(applyToFollowing ? `Updated ${updatedCount} events in this series` : "Event updated")
+      setEditingEvent(null)
+    } catch (error: any) {
+      console.error('Error updating event:', error)
+      toast.error(error.message || 'Failed to update event')
+    } finally {
+      setIsSavingEdit(false)
+    }
+  }
+
+  // Upcoming occurrences of a series the user could still register for
+  const getOpenSeriesEvents = (seriesId: string) =>
+    scheduledEvents.filter((event) =>
+      event.series_id === seriesId &&
+      !userRegistrations.includes(event.id) &&
+      !isEventFull(event) &&
+      new Date(event.scheduled_at) > new Date()
+    )
+
+  const getSeriesJoinCost = (seriesId: string) =>
+    getOpenSeriesEvents(seriesId).reduce((total, event) => total + getEventJoinCost(event, streamJoinCost), 0)
+
+  const handleRegisterForSeries = async (seriesId: string) => {
+    if (!user || !currentUserId) {
+      toast.error("Please sign in to register for events")
+      return
+    }
+
+    const openEvents = getOpenSeriesEvents(seriesId)
+    const totalCost = getSeriesJoinCost(seriesId)
+
+    // Check combined balance (wallet + earnings)
+    const availableBalance = (walletBalance ?? 0) + (walletEarningsBalance ?? 0)
+    if (availableBalance < totalCost) {
+      toast.error(`Insufficient points. You need ${totalCost} point(s) to register for this series.`)
+      return
+    }
+
+    try {
+      const { data: result, error } = await supabase
+        .rpc('register_for_event_series', {
+          p_series_id: seriesId,
+        })
+
+      if (error) throw error
+
+      toast.success(
+        result.full > 0
+          ? `Registered for ${result.registered} events! ${result.points_charged} point(s) charged. ${result.full} full event(s) skipped.`
+          : `Registered for ${result.registered} events! ${result.points_charged} point(s) charged.`
+      )
+
+      // Update local state
+      setUserRegistrations((prev) => Array.from(new Set([...prev, ...openEvents.map((event) => event.id)])))
+
+      // Refresh wallet balance (registration counts will update via realtime)
+      await refreshWalletBalance()
+    } catch (error: any) {
+      console.error('Error registering for series:', error)
+      toast.error(error?.message || 'Failed to register for series. Please try again.')
+    }
+  }
+
   const handleRegisterForEvent = async (eventId: string) => {
     if (!user || !currentUserId) {
       toast.error("Please sign in to register for events")
       return
     }
 
+    const event = events.find((e) => e.id === eventId)
+    const joinCost = event ? getEventJoinCost(event, streamJoinCost) : streamJoinCost
+
     // Check combined balance (wallet + earnings)
     const availableBalance = (walletBalance ?? 0) + (walletEarningsBalance ?? 0)
-    if (availableBalance < streamJoinCost) {
-      toast.error(`Insufficient points. You need ${streamJoinCost} point(s) to join this event.`)
+    if (availableBalance < joinCost) {
+      toast.error(`Insufficient points. You need ${joinCost} point(s) to join this event.`)
       return
     }
 
@@ -487,7 +827,7 @@ export default function CommunityEventsView({
         .rpc('deduct_points_for_stream_join', {
           p_user_id: currentUserId,
           p_event_id: eventId,
-          p_point_cost: streamJoinCost,
+          p_point_cost: joinCost,
         })
 
       if (error) {
@@ -500,7 +840,7 @@ export default function CommunityEventsView({
         throw error
       }
 
-      toast.success(`Registered for event! ${streamJoinCost} point(s) charged.`)
+      toast.success(`Registered for event! ${joinCost} point(s) charged.`)
       
       // Update local state
       setUserRegistrations(prev => [...prev, eventId])
@@ -526,10 +866,13 @@ export default function CommunityEventsView({
       return
     }
 
+    const event = events.find((e) => e.id === eventId)
+    const joinCost = event ? getEventJoinCost(event, streamJoinCost) : streamJoinCost
+
     // Check combined balance (wallet + earnings)
     const availableBalance = (walletBalance ?? 0) + (walletEarningsBalance ?? 0)
-    if (availableBalance < streamJoinCost) {
-      toast.error(`Insufficient points. You need ${streamJoinCost} point(s) to join this event.`)
+    if (availableBalance < joinCost) {
+      toast.error(`Insufficient points. You need ${joinCost} point(s) to join this event.`)
       return
     }
 
@@ -539,7 +882,7 @@ export default function CommunityEventsView({
         .rpc('deduct_points_for_stream_join', {
           p_user_id: currentUserId,
           p_event_id: eventId,
-          p_point_cost: streamJoinCost,
+          p_point_cost: joinCost,
         })
 
       if (error) {
@@ -552,7 +895,7 @@ export default function CommunityEventsView({
         throw error
       }
 
-      toast.success(`Registered and joining stream! ${streamJoinCost} point(s) charged.`)
+      toast.success(`Registered and joining stream! ${joinCost} point(s) charged.`)
       
       // Update local state
       setUserRegistrations(prev => [...prev, eventId])
@@ -575,6 +918,60 @@ export default function CommunityEventsView({
     }
   }
 
+  const handleJoinWaitlist = async (eventId: string) => {
+    if (!user || !currentUserId) {
+      toast.error("Please sign in to join the waitlist")
+      return
+    }
+
+    try {
+      const { data: position, error } = await supabase
+        .rpc('join_event_waitlist', {
+          p_event_id: eventId,
+        })
+
+      if (error) throw error
+
+      toast.success(`You're #${position} on the waitlist. You'll be registered and charged when a spot opens.`)
+      await loadWaitlist([eventId])
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error)
+      toast.error(error.message || 'Failed to join the waitlist')
+    }
+  }
+
+  const handleLeaveWaitlist = async (eventId: string) => {
+    try {
+      const { error } = await supabase
+        .rpc('leave_event_waitlist', {
+          p_event_id: eventId,
+        })
+
+      if (error) throw error
+
+      toast.success("Left the waitlist")
+      await loadWaitlist([eventId])
+    } catch (error: any) {
+      console.error('Error leaving waitlist:', error)
+      toast.error(error.message || 'Failed to leave the waitlist')
+    }
+  }
+
+  const handleTicketingSaved = async (event: CommunityEvent, appliedToFollowing: boolean) => {
+    const updatedIds = appliedToFollowing
+      ? events
+          .filter((e) =>
+            e.series_id === event.series_id &&
+            e.status === 'scheduled' &&
+            (e.series_index ?? 0) >= (event.series_index ?? 0)
+          )
+          .map((e) => e.id)
+      : [event.id]
+
+    await mergeEvents(updatedIds)
+    await loadWaitlist(updatedIds)
+  }
+
   const handleCancelRegistration = async (eventId: string) => {
     if (!currentUserId) return
 
@@ -597,7 +994,7 @@ export default function CommunityEventsView({
       const { error } = await supabase
         .rpc('refund_event_registration', {
           p_registration_id: registration.id,
-          p_refund_reason: 'user_cancelled',
+          p_reason: 'user_cancelled',
         })
 
       if (error) throw error
@@ -690,15 +1087,26 @@ export default function CommunityEventsView({
           communityOwnerId={community.owner_id}
         />
 
-        {isOwner && (
-          <div className="flex justify-end">
-            <Button
-              onClick={() => setCreateDialogOpen(true)}
-              className="bg-white/10 text-white/80 hover:bg-white/20 w-full sm:w-auto flex-shrink-0 cursor-pointer"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Create Event
-            </Button>
+        {(canHostEvents || currentUserId) && (
+          <div className="flex flex-col sm:flex-row justify-end gap-2">
+            {currentUserId && (
+              <Button
+                onClick={() => setCalendarFeedOpen(true)}
+                className="bg-white/5 text-white/70 border border-white/20 hover:bg-white/10 w-full sm:w-auto flex-shrink-0 cursor-pointer"
+              >
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Subscribe to Calendar
+              </Button>
+            )}
+            {canHostEvents && (
+              <Button
+                onClick={() => setCreateDialogOpen(true)}
+                className="bg-white/10 text-white/80 hover:bg-white/20 w-full sm:w-auto flex-shrink-0 cursor-pointer"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Create Event
+              </Button>
+            )}
           </div>
         )}
 
@@ -714,15 +1122,21 @@ export default function CommunityEventsView({
               <EventCard
                 key={event.id}
                 event={event}
-                isOwner={isOwner && event.owner_id === currentUserId}
+                isOwner={canHostEvents && event.owner_id === currentUserId}
                 isRegistered={userRegistrations.includes(event.id)}
+                joinCost={getEventJoinCost(event, streamJoinCost)}
+                waitlistPosition={waitlist[event.id]?.myPosition ?? 0}
+                waitlistCount={waitlist[event.id]?.waitingCount ?? 0}
                 onRegister={() => handleRegisterForEvent(event.id)}
                 onRegisterAndJoin={() => handleRegisterAndJoin(event.id)}
+                onJoinWaitlist={() => handleJoinWaitlist(event.id)}
+                onLeaveWaitlist={() => handleLeaveWaitlist(event.id)}
+                onEditTickets={() => setTicketingEvent(event)}
+                onViewAttendance={() => setAttendanceEvent(event)}
                 onCancelRegistration={() => handleCancelRegistration(event.id)}
                 onDelete={() => setDeleteDialogOpen(event.id)}
                 onGoLive={() => handleGoLive(event.id)}
                 onJoinStream={() => handleJoinStream(event.id)}
-                streamJoinCost={streamJoinCost}
               />
             ))}
           </div>
@@ -741,14 +1155,23 @@ export default function CommunityEventsView({
               <EventCard
                 key={event.id}
                 event={event}
-                isOwner={isOwner && event.owner_id === currentUserId}
+                isOwner={canHostEvents && event.owner_id === currentUserId}
                 isRegistered={userRegistrations.includes(event.id)}
+                joinCost={getEventJoinCost(event, streamJoinCost)}
+                waitlistPosition={waitlist[event.id]?.myPosition ?? 0}
+                waitlistCount={waitlist[event.id]?.waitingCount ?? 0}
                 onRegister={() => handleRegisterForEvent(event.id)}
+                onJoinWaitlist={() => handleJoinWaitlist(event.id)}
+                onLeaveWaitlist={() => handleLeaveWaitlist(event.id)}
+                onEditTickets={() => setTicketingEvent(event)}
+                onRegisterSeries={event.series_id ? () => handleRegisterForSeries(event.series_id!) : undefined}
+                seriesOpenCount={event.series_id ? getOpenSeriesEvents(event.series_id).length : 0}
+                seriesJoinCost={event.series_id ? getSeriesJoinCost(event.series_id) : 0}
                 onCancelRegistration={() => handleCancelRegistration(event.id)}
+                onEdit={() => openEditDialog(event)}
                 onDelete={() => setDeleteDialogOpen(event.id)}
                 onGoLive={() => handleGoLive(event.id)}
                 onJoinStream={() => handleJoinStream(event.id)}
-                streamJoinCost={streamJoinCost}
               />
             ))}
           </div>
@@ -767,10 +1190,11 @@ export default function CommunityEventsView({
               <EventCard
                 key={event.id}
                 event={event}
-                isOwner={isOwner && event.owner_id === currentUserId}
+                isOwner={canHostEvents && event.owner_id === currentUserId}
                 isRegistered={false}
+                joinCost={getEventJoinCost(event, streamJoinCost)}
+                onViewAttendance={() => setAttendanceEvent(event)}
                 onJoinStream={() => handleJoinStream(event.id)}
-                streamJoinCost={streamJoinCost}
               />
             ))}
           </div>
@@ -786,11 +1210,11 @@ export default function CommunityEventsView({
               No Events Yet
             </h3>
             <p className="text-white/60 max-w-md mx-auto">
-              {isOwner 
+              {canHostEvents 
                 ? "Create your first event to start hosting live streams!"
                 : "This community doesn't have any events scheduled yet."}
             </p>
-            {isOwner && (
+            {canHostEvents && (
               <Button
                 onClick={() => setCreateDialogOpen(true)}
                 className="mt-6 bg-white/10 text-white/80 hover:bg-white/20 cursor-pointer"
@@ -808,10 +1232,7 @@ export default function CommunityEventsView({
         setCreateDialogOpen(open)
         if (!open) {
           // Reset form when closing
-          setCreateStep(1)
-          setEventDescription("")
-          setEventDate(new Date())
-          setEventTime(null)
+          resetCreateForm()
         }
       }}>
         <DialogContent className="sm:max-w-[550px]">
@@ -820,7 +1241,9 @@ export default function CommunityEventsView({
             <DialogDescription>
               {createStep === 1 
                 ? "Enter event details"
-                : `Select date and time. You'll be charged ${streamStartCost} point(s) upfront.`}
+                : repeatFrequency === 'none'
+                  ? `Select date and time. You'll be charged ${streamStartCost} point(s) upfront.`
+                  : `Select the first date and time. You'll be charged ${streamStartCost} point(s) per event upfront.`}
             </DialogDescription>
           </DialogHeader>
           
@@ -872,6 +1295,82 @@ export default function CommunityEventsView({
                 />
               </div>
 
+              {/* Recurrence */}
+              <div className="space-y-3 w-full">
+                <div className="flex items-center gap-3">
+                  <Label className="text-white/70 w-16 flex-shrink-0">Repeat</Label>
+                  <Select
+                    value={repeatFrequency}
+                    onValueChange={(value) => setRepeatFrequency(value as EventSeriesFrequency | "none")}
+                  >
+                    <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      {EVENT_SERIES_FREQUENCY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {eventTime
+                            ? describeEventSeries(option.value, combineDateAndTime(eventDate, eventTime))
+                            : option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {repeatFrequency !== 'none' && (
+                  <div className="flex items-center gap-3">
+                    <Label className="text-white/70 w-16 flex-shrink-0">Ends</Label>
+                    <Select
+                      value={seriesEndType}
+                      onValueChange={(value) => setSeriesEndType(value as "count" | "date")}
+                    >
+                      <SelectTrigger className="w-[140px] bg-white/5 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">After</SelectItem>
+                        <SelectItem value="date">On date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {seriesEndType === 'count' ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={2}
+                          max={EVENT_SERIES_MAX_OCCURRENCES}
+                          value={seriesCount}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10)
+                            setSeriesCount(Number.isNaN(value) ? 2 : Math.min(Math.max(value, 2), EVENT_SERIES_MAX_OCCURRENCES))
+                          }}
+                          className="w-20 bg-white/5 border-white/20 text-white"
+                        />
+                        <span className="text-white/60 text-sm">events</span>
+                      </div>
+                    ) : (
+                      <Input
+                        type="date"
+                        value={seriesEndsOn}
+                        min={eventTime ? toDateInputValue(eventDate) : undefined}
+                        onChange={(e) => setSeriesEndsOn(e.target.value)}
+                        className="w-[170px] bg-white/5 border-white/20 text-white"
+                      />
+                    )}
+                  </div>
+                )}
+
+                {repeatFrequency !== 'none' && plannedOccurrences.length > 0 && (
+                  <p className="text-white/50 text-xs">
+                    {plannedOccurrences.length} event{plannedOccurrences.length === 1 ? '' : 's'}, from{' '}
+                    {formatDate(plannedOccurrences[0].toISOString())} to{' '}
+                    {formatDate(plannedOccurrences[plannedOccurrences.length - 1].toISOString())}
+                    {plannedOccurrences.length === EVENT_SERIES_MAX_OCCURRENCES && ` (a series is limited to ${EVENT_SERIES_MAX_OCCURRENCES} events)`}
+                  </p>
+                )}
+              </div>
+
               <DialogFooter className="gap-3">
                 <Button
                   onClick={() => setCreateStep(1)}
@@ -884,7 +1383,13 @@ export default function CommunityEventsView({
                   disabled={isCreating || !eventTime}
                   className="bg-white/10 text-white/80 hover:bg-white/20"
                 >
-                  {isCreating ? "Creating..." : userProfile?.role === 'admin' ? "Create Event (Free for admin)" : `Create Event (${streamStartCost} points)`}
+                  {isCreating
+                    ? "Creating..."
+                    : repeatFrequency !== 'none'
+                      ? userProfile?.role === 'admin'
+                        ? "Create Series (Free for admin)"
+                        : `Create Series (${plannedOccurrences.length * streamStartCost} points)`
+                      : userProfile?.role === 'admin' ? "Create Event (Free for admin)" : `Create Event (${streamStartCost} points)`}
                 </Button>
               </DialogFooter>
             </>
@@ -898,7 +1403,9 @@ export default function CommunityEventsView({
           <DialogHeader>
             <DialogTitle>Cancel Event</DialogTitle>
             <DialogDescription>
-              Are you sure you want to cancel this event? All registered users will be refunded, and you'll receive a refund for the creation cost.
+              {eventToDelete?.series_id
+                ? "Cancel only this occurrence? Its registered users will be refunded, and you'll receive a refund for its creation cost. The rest of the series stays scheduled."
+                : "Are you sure you want to cancel this event? All registered users will be refunded, and you'll receive a refund for the creation cost."}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -907,7 +1414,89 @@ export default function CommunityEventsView({
               onClick={confirmDeleteEvent}
               disabled={isDeleting}
             >
-              {isDeleting ? "Cancelling..." : "Cancel Event & Refund All"}
+              {isDeleting ? "Cancelling..." : eventToDelete?.series_id ? "Cancel Occurrence & Refund" : "Cancel Event & Refund All"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CalendarFeedDialog open={calendarFeedOpen} onOpenChange={setCalendarFeedOpen} />
+
+      <EventTicketingDialog
+        event={ticketingEvent}
+        platformJoinCost={streamJoinCost}
+        onOpenChange={(open) => !open && setTicketingEvent(null)}
+        onSaved={handleTicketingSaved}
+      />
+
+      <EventAttendanceReportDialog
+        event={attendanceEvent}
+        onOpenChange={(open) => !open && setAttendanceEvent(null)}
+      />
+
+      {/* Edit Event Dialog */}
+      <Dialog open={!!editingEvent} onOpenChange={(open) => !open && !isSavingEdit && setEditingEvent(null)}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>Edit Event</DialogTitle>
+            <DialogDescription>
+              {editingEvent?.series_id
+                ? "Change this occurrence only, or it and every later one in the series."
+                : "Update the description or move the event."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2 w-full self-stretch">
+            <Textarea
+              value={editDescription}
+              onChange={(e) => setEditDescription(e.target.value)}
+              placeholder="What is this stream about? Keep it concise."
+              rows={4}
+              className="w-full resize-none"
+            />
+            <CustomDateTimePicker
+              date={editDate}
+              time={editTime}
+              onDateChange={(newDate) => {
+                setEditDate(newDate)
+                setEditTime(null)
+              }}
+              onTimeChange={setEditTime}
+              disabledDates={(date) => {
+                const today = new Date()
+                today.setHours(0, 0, 0, 0)
+                return date < today
+              }}
+              timeSlots={timeSlots}
+            />
+            {editingEvent?.series_id && (
+              <div className="flex items-center gap-3">
+                <Label className="text-white/70 flex-shrink-0">Apply to</Label>
+                <Select value={editScope} onValueChange={(value) => setEditScope(value as "occurrence" | "following")}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="occurrence">This event only</SelectItem>
+                    <SelectItem value="following">This and all future events</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {editingEvent?.series_id && editScope === 'following' && (
+              <p className="text-white/50 text-xs">
+                Later events move by the same amount of time, and take the new description.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              onClick={handleSaveEdit}
+              disabled={isSavingEdit || !editTime}
+              className="bg-white/10 text-white/80 hover:bg-white/20"
+            >
+              {isSavingEdit ? "Saving..." : "Save Changes"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -933,11 +1522,21 @@ interface EventCardProps {
   isRegistered: boolean
   onRegister?: () => void
   onRegisterAndJoin?: () => void
+  joinCost: number
+  waitlistPosition?: number // 0 when not on the waitlist
+  waitlistCount?: number
+  onJoinWaitlist?: () => void
+  onLeaveWaitlist?: () => void
+  onEditTickets?: () => void
+  onViewAttendance?: () => void
+  onRegisterSeries?: () => void
+  seriesOpenCount?: number
+  seriesJoinCost?: number
   onCancelRegistration?: () => void
+  onEdit?: () => void
   onDelete?: () => void
   onGoLive?: () => void
   onJoinStream?: () => void
-  streamJoinCost: number
 }
 
 function EventCard({ 
@@ -946,13 +1545,29 @@ function EventCard({
   isRegistered,
   onRegister,
   onRegisterAndJoin,
+  joinCost,
+  waitlistPosition = 0,
+  waitlistCount = 0,
+  onJoinWaitlist,
+  onLeaveWaitlist,
+  onEditTickets,
+  onViewAttendance,
+  onRegisterSeries,
+  seriesOpenCount = 0,
+  seriesJoinCost = 0,
   onCancelRegistration,
+  onEdit,
   onDelete,
   onGoLive,
   onJoinStream,
-  streamJoinCost 
 }: EventCardProps) {
   const registrationCount = event.registration_count || 0
+  const isFull = isEventFull(event)
+  const earlyBird = getActivePriceTier(event.price_tiers)
+  const canSignUp = !isOwner && !isRegistered && (event.status === 'scheduled' || event.status === 'live')
+  const canEdit = event.status === 'scheduled' && !!onEdit
+  const canEditTickets = (event.status === 'scheduled' || event.status === 'live') && !!onEditTickets
+  const canViewAttendance = (event.status === 'live' || event.status === 'completed') && !!onViewAttendance
 
   return (
     <Card className="group bg-white/10 backdrop-blur-md border-0 hover:bg-white/15 transition-colors">
@@ -983,12 +1598,20 @@ function EventCard({
                   {event.owner.first_name} {event.owner.last_name}
                 </span>
               )}
-              {getStatusBadge(event.status)}
+              <div className="flex items-center gap-2">
+                {getStatusBadge(event.status)}
+                {event.series && (
+                  <Badge className="bg-white/5 text-white/60 border-white/20 w-fit">
+                    <Repeat className="h-3 w-3 mr-1" />
+                    {describeEventSeries(event.series.frequency, event.series.first_occurrence_at)}
+                  </Badge>
+                )}
+              </div>
             </div>
           </div>
 
           {/* Context Menu - Only show for event owner */}
-          {isOwner && onDelete && (
+          {isOwner && (onDelete || canViewAttendance) && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <button
@@ -999,10 +1622,31 @@ function EventCard({
                 </button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-48">
-                <DropdownMenuItem onClick={onDelete} className="cursor-pointer text-destructive focus:text-destructive">
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Cancel Event
-                </DropdownMenuItem>
+                {canEdit && (
+                  <DropdownMenuItem onClick={onEdit} className="cursor-pointer">
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit Event
+                  </DropdownMenuItem>
+                )}
+                {canEditTickets && (
+                  <DropdownMenuItem onClick={onEditTickets} className="cursor-pointer">
+                    <Ticket className="h-4 w-4 mr-2" />
+                    Tickets & Capacity
+                  </DropdownMenuItem>
+                )}
+                {canViewAttendance && (
+                  <DropdownMenuItem onClick={onViewAttendance} className="cursor-pointer">
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Attendance Report
+                  </DropdownMenuItem>
+                )}
+                {onDelete && (canEdit || canEditTickets || canViewAttendance) && <DropdownMenuSeparator />}
+                {onDelete && (
+                  <DropdownMenuItem onClick={onDelete} className="cursor-pointer text-destructive focus:text-destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    {event.series_id ? "Cancel This Occurrence" : "Cancel Event"}
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           )}
@@ -1016,9 +1660,26 @@ function EventCard({
           )}
           
           {/* Scheduled Date */}
-          <span className="text-white/40 text-sm">
-            {formatDate(event.scheduled_at)}
-          </span>
+          <div className="flex items-center gap-3">
+            <span className="text-white/40 text-sm">
+              {formatDate(event.scheduled_at)}
+            </span>
+            {earlyBird && event.status === 'scheduled' && (
+              <Badge className="bg-amber-500/20 text-amber-300 border-amber-500/40 w-fit">
+                Early bird until {formatDate(earlyBird.ends_at)}
+              </Badge>
+            )}
+            {(event.status === 'scheduled' || event.status === 'live') && (
+              <a
+                href={`/api/events/${event.id}/ics`}
+                download
+                className="flex items-center gap-1 text-white/50 text-xs hover:text-white/80 transition-colors"
+              >
+                <Download className="h-3 w-3" />
+                Add to Calendar
+              </a>
+            )}
+          </div>
         </div>
 
         {/* Action Buttons and Registration Count */}
@@ -1056,24 +1717,59 @@ function EventCard({
                 </Button>
               )}
               
-              {!isOwner && !isRegistered && event.status === 'scheduled' && onRegister && (
+              {canSignUp && !isFull && event.status === 'scheduled' && onRegister && (
                 <Button
                   size="sm"
                   onClick={onRegister}
                   className="bg-white/10 text-white/80 border border-white/20 hover:bg-white/20 hover:border-white/30 transition-all"
                 >
-                  Register ({streamJoinCost} points)
+                  Register ({joinCost} points)
+                </Button>
+              )}
+
+              {canSignUp && isFull && waitlistPosition === 0 && onJoinWaitlist && (
+                <Button
+                  size="sm"
+                  onClick={onJoinWaitlist}
+                  className="bg-white/10 text-white/80 border border-white/20 hover:bg-white/20 hover:border-white/30 transition-all"
+                >
+                  Join Waitlist ({joinCost} points when a spot opens)
+                </Button>
+              )}
+
+              {canSignUp && waitlistPosition > 0 && onLeaveWaitlist && (
+                <>
+                  <span className="text-white/60 text-sm">#{waitlistPosition} on the waitlist</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={onLeaveWaitlist}
+                    className="border-white/20 text-white/80 hover:bg-white/10 hover:border-white/30 transition-all"
+                  >
+                    Leave Waitlist
+                  </Button>
+                </>
+              )}
+
+              {!isOwner && event.status === 'scheduled' && onRegisterSeries && seriesOpenCount > 1 && (
+                <Button
+                  size="sm"
+                  onClick={onRegisterSeries}
+                  className="bg-white/10 text-white/80 border border-white/20 hover:bg-white/20 hover:border-white/30 transition-all"
+                >
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Register for series ({seriesJoinCost} points)
                 </Button>
               )}
               
-              {!isOwner && !isRegistered && event.status === 'live' && onRegisterAndJoin && (
+              {canSignUp && !isFull && event.status === 'live' && onRegisterAndJoin && (
                 <Button
                   size="sm"
                   onClick={onRegisterAndJoin}
                   className="bg-red-500/20 text-red-400 border border-red-500/40 hover:bg-red-500/30 hover:border-red-500/50 transition-all"
                 >
                   <Play className="h-4 w-4 mr-2" />
-                  Register and Join ({streamJoinCost} points)
+                  Register and Join ({joinCost} points)
                 </Button>
               )}
               
@@ -1091,7 +1787,10 @@ function EventCard({
               {/* Registration Count - Container Style (like Boost button) */}
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-full border transition-all cursor-pointer bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/30 ml-auto">
                 <Users className="h-4 w-4 text-white/70" />
-                <span className="text-white/70 text-xs font-medium">{registrationCount} registered</span>
+                <span className="text-white/70 text-xs font-medium">
+                  {event.capacity != null ? `${registrationCount}/${event.capacity}` : registrationCount} registered
+                  {waitlistCount > 0 && ` · ${waitlistCount} waiting`}
+                </span>
               </div>
             </div>
       </CardContent>
@@ -1,6 +1,7 @@
 import { notFound } from "next/navigation"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
 import { getCommunityBySlug } from "@/lib/community-cache"
+import { getCommunityAccess, hasCommunityPermission } from "@/lib/community-permissions"
 import CommunityEventsView from "./events-view"
 import { TopUpGuard } from "@/components/topup-guard"
 
@@ -27,7 +28,9 @@ export default async function CommunityEventsPage({ params }: CommunityEventsPag
       .from('community_events')
       .select(`
         *,
-        owner:users!community_events_owner_id_fkey(id, username, first_name, last_name, profile_picture)
+        owner:users!community_events_owner_id_fkey(id, username, first_name, last_name, profile_picture),
+        series:event_series(*),
+        price_tiers:event_price_tiers(*)
       `)
       .eq('community_id', community.id)
       .order('scheduled_at', { ascending: true }),
@@ -40,22 +43,21 @@ export default async function CommunityEventsPage({ params }: CommunityEventsPag
     // Get user and membership status
     (async () => {
       const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return { user: null, isMember: false }
+      if (!user) return { user: null, isMember: false, canHostEvents: false }
       
-      const { data: membership } = await supabase
-        .from('community_members')
-        .select('id')
-        .eq('community_id', community.id)
-        .eq('user_id', user.id)
-        .maybeSingle()
+      const access = await getCommunityAccess(supabase, community.id, user.id)
       
-      return { user, isMember: !!membership }
+      return {
+        user,
+        isMember: !!access?.role,
+        canHostEvents: hasCommunityPermission(access, 'host_events'),
+      }
     })()
   ])
 
   const { data: events, error: eventsError } = eventsResult
   const { data: settings } = settingsResult
-  const { user, isMember } = userResult
+  const { user, isMember, canHostEvents } = userResult
 
   if (eventsError) {
     console.error('Error fetching events:', eventsError)
@@ -115,6 +117,7 @@ export default async function CommunityEventsPage({ params }: CommunityEventsPag
         events={eventsWithCounts || []}
         isOwner={isOwner}
         isMember={isMember}
+        canHostEvents={canHostEvents}
         currentUserId={user?.id}
         userRegistrations={userRegistrations}
         streamStartCost={settings?.stream_start_cost || 1}
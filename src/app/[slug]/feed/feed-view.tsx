@@ -4,7 +4,7 @@ import React, { useMemo, useState } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import Image from "next/image"
-import { FileText, Pin, Crown, Bookmark, MoreVertical, Edit, Trash2, TrendingUp } from "lucide-react"
+import { FileText, Pin, Crown, Bookmark, MoreVertical, Edit, Trash2, TrendingUp, Flag, EyeOff, Coins } from "lucide-react"
 import { CommunityNavigation } from "@/components/community-navigation"
 import { TopUpGuard } from "@/components/topup-guard"
 import {
@@ -20,8 +20,13 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { InlinePostComposer } from "@/components/inline-post-composer"
+import { ScheduledPostsList } from "@/components/scheduled-posts-list"
+import { ReportContentDialog, type ReportTarget } from "@/components/report-content-dialog"
+import { SendPointsDialog } from "@/components/send-points-dialog"
 import { PostMediaSlider } from "@/components/post-media-slider"
+import { PostPoll } from "@/components/post-poll"
 import { useAuth } from "@/components/auth-provider"
+import { usePostPolls } from "@/hooks/use-post-polls"
 import { supabase } from "@/lib/supabase"
 import { fetchCommentsForPosts } from "@/lib/api/posts"
 import { cn, formatRelativeTime } from "@/lib/utils"
@@ -54,6 +59,11 @@ interface FeedViewProps {
   }
   posts: PostWithAuthor[]
   isMember: boolean
+  // Set when the user's recurring membership lapsed after the grace period
+  lapsedMembershipId?: string | null
+  // Owner, or a moderator granted these permissions
+  canPinPosts?: boolean
+  canDeleteComments?: boolean
   currentUserId?: string
   hasMore: boolean
   initialRelativeTimes?: Record<string, string>
@@ -63,6 +73,9 @@ export default function FeedView({
   community,
   posts: initialPosts,
   isMember: initialIsMember,
+  lapsedMembershipId: initialLapsedMembershipId = null,
+  canPinPosts = false,
+  canDeleteComments = false,
   currentUserId,
   hasMore: initialHasMore,
   initialRelativeTimes = {}
@@ -80,6 +93,8 @@ export default function FeedView({
   }, [user, community?.id, community?.owner_id, initialIsMember])
   
   const [isMember, setIsMember] = React.useState(isMemberOptimistic)
+  const [lapsedMembershipId, setLapsedMembershipId] = React.useState<string | null>(initialLapsedMembershipId)
+  const [isRenewing, setIsRenewing] = React.useState(false)
 
   // Update immediately when optimistic value changes
   React.useEffect(() => {
@@ -103,12 +118,14 @@ export default function FeedView({
     const checkMembership = async () => {
       const { data: membership } = await supabase
         .from('community_members')
-        .select('id')
+        .select('id, billing_status')
         .eq('community_id', community.id)
         .eq('user_id', user.id)
         .single()
       
-      setIsMember(!!membership)
+      const isLapsed = membership?.billing_status === 'lapsed'
+      setIsMember(!!membership && !isLapsed)
+      setLapsedMembershipId(isLapsed ? membership.id : null)
     }
 
     checkMembership()
@@ -126,10 +143,14 @@ export default function FeedView({
         },
         (payload) => {
           // Immediately update membership based on realtime event
-          if (payload.eventType === 'INSERT') {
-            setIsMember(true)
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            const membership = payload.new as { id: string; billing_status?: string }
+            const isLapsed = membership.billing_status === 'lapsed'
+            setIsMember(!isLapsed)
+            setLapsedMembershipId(isLapsed ? membership.id : null)
           } else if (payload.eventType === 'DELETE') {
             setIsMember(false)
+            setLapsedMembershipId(null)
           }
         }
       )
@@ -141,6 +162,7 @@ export default function FeedView({
   }, [user, community?.id, community?.owner_id])
 
   const [posts, setPosts] = useState(initialPosts)
+  const { polls, vote: votePoll } = usePostPolls(posts.map((post) => post.id), user?.id)
   const [boostingPosts, setBoostingPosts] = useState<Set<string>>(new Set())
   const [boostedPostIds, setBoostedPostIds] = useState<Set<string>>(
     () => new Set(initialPosts.filter((post) => post.user_has_boosted).map((post) => post.id))
@@ -717,11 +739,16 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
           filter: `community_id=eq.${community.id}`
         },
         (payload) => {
-          const newPost = payload.new as { depth?: number } | null
+          const newPost = payload.new as { depth?: number; published_at?: string | null } | null
           if (!newPost || newPost.depth !== 0) {
             return
           }
 
+          // The author's own scheduled posts aren't new until they're published
+          if (newPost.published_at && new Date(newPost.published_at) > new Date()) {
+            return
+          }
+
           // Increment new posts counter for root-level posts only
           setNewPostsCount(prev => prev + 1)
         }
@@ -770,6 +797,7 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
         `)
         .eq('community_id', community.id)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .order('is_pinned', { ascending: false })
         .order('published_at', { ascending: false, nullsFirst: false })
         .order('created_at', { ascending: false })
@@ -910,6 +938,7 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
         `)
         .eq('community_id', community.id)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .order('is_pinned', { ascending: false })
         .order('published_at', { ascending: false, nullsFirst: false })
         .order('created_at', { ascending: false })
@@ -1379,6 +1408,9 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
   const editingAudioRefs = React.useRef<Record<string, Record<string, HTMLAudioElement>>>({})
   const editingFileInputRefs = React.useRef<Record<string, HTMLInputElement | null>>({})
   const [deletingPostId, setDeletingPostId] = React.useState<string | null>(null)
+  const [reportTarget, setReportTarget] = React.useState<ReportTarget | null>(null)
+  const [tipPost, setTipPost] = React.useState<PostWithAuthor | null>(null)
+  const [scheduledPostsKey, setScheduledPostsKey] = React.useState(0)
   const [isDeleting, setIsDeleting] = React.useState(false)
 
   interface EditingMediaFile {
@@ -1823,6 +1855,45 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
     setDeletingPostId(postId)
   }
 
+  const handleTogglePin = async (post: PostWithAuthor) => {
+    const isPinned = !post.is_pinned
+
+    try {
+      const { error } = await supabase.rpc('set_post_pinned', {
+        p_post_id: post.id,
+        p_is_pinned: isPinned,
+      })
+
+      if (error) throw error
+
+      setPosts(prevPosts => prevPosts.map(p => (p.id === post.id ? { ...p, is_pinned: isPinned } : p)))
+      toast.success(isPinned ? "Post pinned" : "Post unpinned")
+    } catch (error: any) {
+      console.error('Error pinning post:', error)
+      toast.error(error?.message || 'Failed to update pin. Please try again.')
+    }
+  }
+
+  const handleDeleteComment = async (postId: string, commentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('posts')
+        .delete()
+        .eq('id', commentId)
+
+      if (error) throw error
+
+      setCommentsByPostId(prev => ({
+        ...prev,
+        [postId]: (prev[postId] ?? []).filter(comment => comment.id !== commentId),
+      }))
+      toast.success("Comment deleted")
+    } catch (error: any) {
+      console.error('Error deleting comment:', error)
+      toast.error('Failed to delete comment. Please try again.')
+    }
+  }
+
   const confirmDeletePost = async () => {
     if (!deletingPostId) return
 
@@ -1887,6 +1958,77 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
     }
   }, [commentComposerOpen, commentComposerIndex, sortedPosts])
 
+  const handleRenewMembership = async () => {
+    if (!lapsedMembershipId) return
+
+    setIsRenewing(true)
+    try {
+      const { data, error } = await supabase.rpc('renew_community_membership', {
+        p_member_id: lapsedMembershipId,
+      })
+
+      if (error) throw error
+
+      const result = data as { status: string; points_charged?: number; points_required?: number }
+      if (result.status !== 'renewed') {
+        toast.error(
+          result.points_required
+            ? `You need ${result.points_required.toLocaleString()} points to renew. Top up your wallet and try again.`
+            : 'Unable to renew your membership'
+        )
+        return
+      }
+
+      setLapsedMembershipId(null)
+      setIsMember(true)
+      toast.success(
+        result.points_charged
+          ? `Membership renewed for ${result.points_charged.toLocaleString()} points`
+          : 'Membership renewed'
+      )
+      refreshWalletBalance?.()
+      router.refresh()
+    } catch (error: any) {
+      console.error('Error renewing membership:', error)
+      toast.error(error?.message || 'Failed to renew membership')
+    } finally {
+      setIsRenewing(false)
+    }
+  }
+
+  if (lapsedMembershipId) {
+    return (
+      <TopUpGuard communitySlug={community.slug}>
+      <div className="relative w-full overflow-x-hidden">
+        <div className="relative z-10 space-y-6">
+          <CommunityNavigation 
+            slug={community.slug} 
+            isOwner={false} 
+            isMember={false}
+            communityOwnerId={community.owner_id}
+          />
+          <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-2xl border-0">
+            <CardContent className="p-12 text-center">
+              <div className="mx-auto w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mb-6">
+                <FileText className="h-8 w-8 text-white/60" />
+              </div>
+              <h3 className="text-xl font-semibold text-white mb-2">
+                Your Membership Has Lapsed
+              </h3>
+              <p className="text-white/60 max-w-md mx-auto mb-6">
+                We couldn&apos;t renew your membership to {community.name} before the grace period ended. Renew to get back into the feed.
+              </p>
+              <Button onClick={handleRenewMembership} disabled={isRenewing}>
+                {isRenewing ? 'Renewing...' : 'Renew Membership'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+      </TopUpGuard>
+    )
+  }
+
   return (
     <TopUpGuard communitySlug={community.slug}>
     <div className="relative w-full overflow-x-hidden">
@@ -1916,9 +2058,14 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
             communityId={community.id}
             communitySlug={community.slug}
             contentClassName="p-2"
+            onPostScheduled={() => setScheduledPostsKey(prev => prev + 1)}
           />
         )}
 
+        {isMember && (
+          <ScheduledPostsList communityId={community.id} refreshKey={scheduledPostsKey} />
+        )}
+
         {/* Posts List */}
         <div className="space-y-4">
           {sortedPosts.map((post, index) => {
@@ -1998,10 +2145,19 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                         </Badge>
                       </>
                     )}
+                    {post.is_hidden && (
+                      <>
+                        <span className="text-white/40 text-xs">•</span>
+                        <Badge variant="outline" className="bg-white/10 text-white/70 border-white/20">
+                          <EyeOff className="h-3 w-3 mr-1" />
+                          Hidden by a moderator
+                        </Badge>
+                      </>
+                    )}
                   </div>
 
-                  {/* Context Menu - Only show for post owner */}
-                  {user && post.author_id === user.id && (
+                  {/* Context Menu - owners edit/delete, moderators pin, everyone else can report */}
+                  {user && (
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <button
@@ -2017,10 +2173,24 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                           const now = new Date()
                           const diffMs = now.getTime() - postDate.getTime()
                           const diffMins = diffMs / 60000
-                          const canEdit = diffMins < 5
+                          const isAuthor = post.author_id === user.id
+                          const canEdit = isAuthor && diffMins < 5
                           
                           return (
                             <>
+                              {canPinPosts && (
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleTogglePin(post)
+                                  }}
+                                  className="cursor-pointer"
+                                >
+                                  <Pin className="h-4 w-4 mr-2 text-white/70" />
+                                  {post.is_pinned ? "Unpin" : "Pin"}
+                                </DropdownMenuItem>
+                              )}
+                              {canPinPosts && <DropdownMenuSeparator />}
                               {/* Edit option - only if within 5 minutes */}
                               {canEdit && (
                                 <DropdownMenuItem
@@ -2036,16 +2206,30 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                               )}
                               {/* Separator only if Edit option exists */}
                               {canEdit && <DropdownMenuSeparator />}
-                              <DropdownMenuItem
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  handleDeletePost(post.id)
-                                }}
-                                className="cursor-pointer text-destructive focus:text-destructive"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </DropdownMenuItem>
+                              {isAuthor && (
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleDeletePost(post.id)
+                                  }}
+                                  className="cursor-pointer text-destructive focus:text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </DropdownMenuItem>
+                              )}
+                              {!isAuthor && (
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    setReportTarget({ type: "post", id: post.id })
+                                  }}
+                                  className="cursor-pointer"
+                                >
+                                  <Flag className="h-4 w-4 mr-2 text-white/70" />
+                                  Report
+                                </DropdownMenuItem>
+                              )}
                             </>
                           )
                         })()}
@@ -2332,6 +2516,15 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                       />
                     )}
 
+                    {polls[post.id] && (
+                      <PostPoll
+                        poll={polls[post.id]}
+                        authorId={post.author_id}
+                        currentUserId={currentUserId}
+                        onVote={votePoll}
+                      />
+                    )}
+
                     {/* Topics */}
                     {editingPostId !== post.id && (post as any).topics && Array.isArray((post as any).topics) && (post as any).topics.length > 0 && (
                       <div className="flex flex-wrap gap-1.5 mt-3">
@@ -2424,6 +2617,19 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                           </span>
                         </button>
                       )}
+
+                      {user && post.author_id !== user.id && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setTipPost(post)
+                          }}
+                          className="group relative flex items-center gap-2 px-2.5 py-1 rounded-full border transition-all cursor-pointer bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/30"
+                        >
+                          <Coins className="h-4 w-4 text-white/70 group-hover:text-white/80 transition-all" />
+                          <span className="text-xs font-medium text-white/70 group-hover:text-white">Tip</span>
+                        </button>
+                      )}
                     </div>
 
                     {user && (
@@ -2571,6 +2777,15 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                         />
                       )}
 
+                      {polls[post.id] && (
+                        <PostPoll
+                          poll={polls[post.id]}
+                          authorId={post.author_id}
+                          currentUserId={currentUserId}
+                          onVote={votePoll}
+                        />
+                      )}
+
                       <div className="flex items-center justify-between gap-2.5">
                         <button
                           onClick={(e) => {
@@ -2773,6 +2988,32 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
                                       <span className="text-xs font-medium">Reply</span>
                                     </button>
                                   )}
+
+                                  {canDeleteComments && (
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation()
+                                        handleDeleteComment(post.id, comment.id)
+                                      }}
+                                      className="group flex items-center gap-2 px-3 py-1.5 rounded-full border border-white/20 bg-white/5 text-white/70 hover:text-white hover:border-white/30 transition-all"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                      <span className="text-xs font-medium">Delete</span>
+                                    </button>
+                                  )}
+
+                                  {user && comment.author_id !== user.id && (
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation()
+                                        setReportTarget({ type: "comment", id: comment.id })
+                                      }}
+                                      className="group flex items-center gap-2 px-3 py-1.5 rounded-full border border-white/20 bg-white/5 text-white/70 hover:text-white hover:border-white/30 transition-all"
+                                    >
+                                      <Flag className="h-4 w-4" />
+                                      <span className="text-xs font-medium">Report</span>
+                                    </button>
+                                  )}
                                 </div>
 
                                 {isReplying && (
@@ -2962,6 +3203,21 @@ const [expandedReplies, setExpandedReplies] = React.useState<Record<string, bool
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ReportContentDialog
+        target={reportTarget}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
+
+      {tipPost && (
+        <SendPointsDialog
+          open
+          onOpenChange={(open) => !open && setTipPost(null)}
+          recipient={tipPost.author}
+          context="post"
+          contextId={tipPost.id}
+        />
+      )}
     </div>
     </TopUpGuard>
   )
@@ -3,6 +3,7 @@ import { createServerSupabaseClient } from "@/lib/supabase-server"
 import { getCommunityBySlug } from "@/lib/community-cache"
 import FeedView from "./feed-view"
 import { formatRelativeTime } from "@/lib/utils"
+import { hasCommunityPermission } from "@/lib/community-permissions"
 import { TopUpGuard } from "@/components/topup-guard"
 
 interface FeedPageProps {
@@ -26,16 +27,31 @@ export default async function FeedPage({ params }: FeedPageProps) {
     // Get user and membership status
     (async () => {
       const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return { user: null, isMember: false }
+      if (!user) return { user: null, isMember: false, lapsedMembershipId: null, canPinPosts: false, canDeleteComments: false }
       
       const { data: membership } = await supabase
         .from('community_members')
-        .select('id')
+        .select('id, billing_status, role, permissions')
         .eq('community_id', community.id)
         .eq('user_id', user.id)
         .maybeSingle()
       
-      return { user, isMember: !!membership }
+      // Lapsed members keep their row but lose feed access until they renew
+      const isLapsed = membership?.billing_status === 'lapsed'
+      const access = {
+        communityId: community.id,
+        ownerId: community.owner_id,
+        isOwner: community.owner_id === user.id,
+        role: membership?.role ?? null,
+        permissions: membership?.permissions ?? [],
+      }
+      return {
+        user,
+        isMember: !!membership && !isLapsed,
+        lapsedMembershipId: isLapsed ? membership.id as string : null,
+        canPinPosts: hasCommunityPermission(access, 'pin_posts'),
+        canDeleteComments: hasCommunityPermission(access, 'delete_comments'),
+      }
     })(),
     // Fetch posts
     supabase
@@ -69,13 +85,14 @@ export default async function FeedPage({ params }: FeedPageProps) {
       `)
       .eq('community_id', community.id)
       .eq('depth', 0)
+      .lte('published_at', new Date().toISOString())
       .order('is_pinned', { ascending: false })
       .order('published_at', { ascending: false, nullsFirst: false })
       .order('created_at', { ascending: false })
       .limit(20)
   ])
 
-  const { user, isMember } = userResult
+  const { user, isMember, lapsedMembershipId, canPinPosts, canDeleteComments } = userResult
   const { data: posts, error: postsError } = postsResult
 
   if (postsError) {
@@ -149,6 +166,9 @@ export default async function FeedPage({ params }: FeedPageProps) {
         community={community}
         posts={enrichedPosts}
         isMember={isMember}
+        lapsedMembershipId={lapsedMembershipId}
+        canPinPosts={canPinPosts}
+        canDeleteComments={canDeleteComments}
         currentUserId={user?.id}
         hasMore={hasMore}
         initialRelativeTimes={initialRelativeTimes}
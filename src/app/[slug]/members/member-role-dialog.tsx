@@ -0,0 +1,153 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { COMMUNITY_PERMISSIONS, communityPermissionLabels } from "@/lib/community-permissions"
+import type { CommunityMemberRole, CommunityPermission } from "@/types"
+
+interface MemberRoleDialogProps {
+  communityId: string
+  member: {
+    id: string
+    role: CommunityMemberRole
+    permissions?: CommunityPermission[]
+    user: {
+      first_name: string
+      last_name: string
+    }
+  } | null
+  onOpenChange: (open: boolean) => void
+  onSaved: (memberId: string, role: CommunityMemberRole, permissions: CommunityPermission[]) => void
+}
+
+type AssignableRole = Exclude<CommunityMemberRole, "owner">
+
+/**
+ * Lets the owner promote a member to moderator and pick which permissions they hold.
+ */
+export function MemberRoleDialog({ communityId, member, onOpenChange, onSaved }: MemberRoleDialogProps) {
+  const [role, setRole] = useState<AssignableRole>("member")
+  const [permissions, setPermissions] = useState<CommunityPermission[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!member) return
+    setRole(member.role === "moderator" ? "moderator" : "member")
+    setPermissions(member.permissions ?? [])
+  }, [member])
+
+  const togglePermission = (permission: CommunityPermission, checked: boolean) => {
+    setPermissions((prev) =>
+      checked ? [...prev.filter((p) => p !== permission), permission] : prev.filter((p) => p !== permission)
+    )
+  }
+
+  const handleSave = async () => {
+    if (!member) return
+
+    if (role === "moderator" && permissions.length === 0) {
+      toast.error("Choose at least one permission for this moderator")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/communities/${communityId}/members/${member.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ role, permissions: role === "moderator" ? permissions : [] }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update role")
+      }
+
+      onSaved(member.id, data.member.role, data.member.permissions ?? [])
+      toast.success(
+        role === "moderator"
+          ? `${member.user.first_name} is now a moderator`
+          : `${member.user.first_name} is now a member`
+      )
+      onOpenChange(false)
+    } catch (error: any) {
+      console.error("Error updating member role:", error)
+      toast.error(error?.message || "Failed to update role")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !saving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader className="space-y-2">
+          <DialogTitle>Manage Role</DialogTitle>
+          <DialogDescription>
+            {member ? `Choose what ${member.user.first_name} ${member.user.last_name} can do in this community.` : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(["member", "moderator"] as AssignableRole[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setRole(option)}
+                className={cn(
+                  "rounded-md border px-3 py-2 text-sm capitalize transition-colors cursor-pointer",
+                  role === option
+                    ? "border-white/60 bg-white/10 text-white"
+                    : "border-white/20 text-white/70 hover:bg-white/10"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          {role === "moderator" && (
+            <div className="space-y-3">
+              <p className="text-white/70 text-sm">Permissions</p>
+              {COMMUNITY_PERMISSIONS.map((permission) => (
+                <div key={permission} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`permission-${permission}`}
+                    checked={permissions.includes(permission)}
+                    onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                  />
+                  <Label htmlFor={`permission-${permission}`} className="text-white cursor-pointer">
+                    {communityPermissionLabels[permission]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,12 +2,15 @@
 
 import React, { useState, useMemo } from "react"
 import Link from "next/link"
-import { Crown, Calendar, Search } from "lucide-react"
+import { Crown, Calendar, Search, ShieldCheck, UserCog } from "lucide-react"
 import { CommunityNavigation } from "@/components/community-navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import type { CommunityMemberRole, CommunityPermission } from "@/types"
+import { MemberRoleDialog } from "./member-role-dialog"
 
 interface CommunityMembersViewProps {
   community: {
@@ -19,7 +22,8 @@ interface CommunityMembersViewProps {
   }
   members: Array<{
     id: string
-    role: 'owner' | 'member'
+    role: CommunityMemberRole
+    permissions?: CommunityPermission[]
     joined_at: string
     user: {
       id: string
@@ -37,18 +41,24 @@ interface CommunityMembersViewProps {
 
 export default function CommunityMembersView({
   community,
-  members,
+  members: initialMembers,
   userMembership,
   isOwner,
   currentUserId
 }: CommunityMembersViewProps) {
   const [searchQuery, setSearchQuery] = useState("")
+  const [members, setMembers] = useState(initialMembers)
+  const [roleDialogMember, setRoleDialogMember] = useState<CommunityMembersViewProps["members"][number] | null>(null)
 
-  // Sort members: owner first, then by join date
+  const handleRoleSaved = (memberId: string, role: CommunityMemberRole, permissions: CommunityPermission[]) => {
+    setMembers((prev) => prev.map((member) => (member.id === memberId ? { ...member, role, permissions } : member)))
+  }
+
+  // Sort members: owner first, then moderators, then by join date
   const sortedMembers = useMemo(() => {
+    const roleOrder: Record<CommunityMemberRole, number> = { owner: 0, moderator: 1, member: 2 }
     const sorted = [...members].sort((a, b) => {
-      if (a.role === 'owner' && b.role !== 'owner') return -1
-      if (a.role !== 'owner' && b.role === 'owner') return 1
+      if (a.role !== b.role) return roleOrder[a.role] - roleOrder[b.role]
       return new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime()
     })
 
@@ -132,6 +142,12 @@ export default function CommunityMembersView({
                             Owner
                           </Badge>
                         )}
+                        {member.role === 'moderator' && (
+                          <Badge variant="secondary" className="bg-white/20 text-white border-white/30">
+                            <ShieldCheck className="h-3 w-3 mr-1" />
+                            Moderator
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-white/60 text-sm truncate mb-3 group-hover:text-white/80 transition-colors">
                         @{member.user.username}
@@ -140,6 +156,23 @@ export default function CommunityMembersView({
                         <Calendar className="h-3 w-3" />
                         <span>Joined {new Date(member.joined_at).toLocaleDateString()}</span>
                       </div>
+                      {isOwner && member.role !== 'owner' && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => {
+                            // Card is a profile link
+                            e.preventDefault()
+                            e.stopPropagation()
+                            setRoleDialogMember(member)
+                          }}
+                          className="mb-3 w-fit bg-white/10 border-white/20 text-white hover:bg-white/20 transition-colors"
+                        >
+                          <UserCog className="h-3 w-3 mr-1" />
+                          Manage Role
+                        </Button>
+                      )}
                       {/* Bio section - always rendered to maintain consistent height */}
                       <div className="mt-auto min-h-[2.5rem]">
                         {member.user.bio ? (
@@ -173,6 +206,15 @@ export default function CommunityMembersView({
           </Card>
         )}
       </div>
+
+      {isOwner && (
+        <MemberRoleDialog
+          communityId={community.id}
+          member={roleDialogMember}
+          onOpenChange={(open) => !open && setRoleDialogMember(null)}
+          onSaved={handleRoleSaved}
+        />
+      )}
     </div>
   )
 }
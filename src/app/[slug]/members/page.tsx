@@ -28,6 +28,7 @@ export default async function CommunityMembersPage({ params }: CommunityMembersP
       .select(`
         id,
         role,
+        permissions,
         joined_at,
         user:users(id, username, first_name, last_name, profile_picture, bio)
       `)
@@ -56,7 +56,15 @@ export default async function CommunityPage({ params }: CommunityPageProps) {
   }
 
   // Check if user is authenticated and get their membership status
-  const { data: { user } } = await supabase.auth.getUser()
+  const [{ data: { user } }, { data: settings }] = await Promise.all([
+    supabase.auth.getUser(),
+    // Buy price is needed to show paid membership prices in points
+    supabase
+      .from('platform_settings')
+      .select('buy_price_per_point')
+      .eq('id', 1)
+      .maybeSingle(),
+  ])
   
   let userMembership = null
   let isMember = false
@@ -95,6 +103,7 @@ export default async function CommunityPage({ params }: CommunityPageProps) {
       community={community} 
       userMembership={userMembership}
       currentUserId={user?.id}
+      buyPricePerPoint={settings?.buy_price_per_point ?? null}
     />
   )
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 "use client"
 
 import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react"
-import Plyr from "plyr-react"
+import Plyr, { type APITypes } from "plyr-react"
 import "plyr/dist/plyr.css"
 import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
 import { toast } from "sonner"
@@ -9,6 +9,7 @@ import { toast } from "sonner"
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
 import { formatDate } from "@/app/[slug]/playlists/utils"
+import type { TranscriptChapter } from "@/types"
 import styles from "./playlist-media-carousel.module.css"
 
 type CarouselSourceType = "recording" | "upload"
@@ -24,6 +25,10 @@ export interface CarouselItem {
   createdAt: string | null
   description: string | null
   communityId: string
+  // From the video's transcript, when it has one
+  captionsUrl?: string | null
+  captionsLanguage?: string | null
+  chapters?: TranscriptChapter[]
 }
 
 interface PlaylistMediaCarouselProps {
@@ -148,9 +153,12 @@ interface SecureVideoCardProps {
   playlistId?: string
   communityId: string
   item: CarouselItem
+  // Jumps playback to a moment, e.g. a transcript search hit; a new requestId seeks again
+  seekTo?: { seconds: number; requestId: number } | null
 }
 
-export function SecureVideoCard({ playlistId, communityId, item }: SecureVideoCardProps) {
+export function SecureVideoCard({ playlistId, communityId, item, seekTo }: SecureVideoCardProps) {
+  const playerRef = useRef<APITypes>(null)
   const stateRef = useRef<PlaybackState>({
     src: null,
     expiresAt: null,
@@ -290,19 +298,49 @@ export function SecureVideoCard({ playlistId, communityId, item }: SecureVideoCa
           type: detectMime(playback.src) ?? "video/mp4",
         },
       ],
+      tracks: item.captionsUrl
+        ? [
+            {
+              kind: "captions",
+              label: "Transcript",
+              srclang: item.captionsLanguage || "en",
+              src: item.captionsUrl,
+            },
+          ]
+        : [],
     }
-  }, [playback.src])
+  }, [playback.src, item.captionsUrl, item.captionsLanguage])
 
+  const chapters = item.chapters
   const plyrOptions = useMemo(
     () => ({
-      controls: ["play", "progress", "current-time", "mute", "volume", "fullscreen"],
+      controls: [
+        "play",
+        "progress",
+        "current-time",
+        "mute",
+        "volume",
+        ...(item.captionsUrl ? ["captions"] : []),
+        "fullscreen",
+      ],
       clickToPlay: true,
       tooltips: { controls: true, seek: true },
       keyboard: { focused: true, global: false },
+      markers: {
+        enabled: !!chapters?.length,
+        points: (chapters ?? []).map((chapter) => ({ time: chapter.start, label: chapter.title })),
+      },
     }),
-    [],
+    [item.captionsUrl, chapters],
   )
 
+  useEffect(() => {
+    const plyr = playerRef.current?.plyr
+    if (!seekTo || !plyr || !playback.src) return
+    plyr.currentTime = seekTo.seconds
+    Promise.resolve(plyr.play()).catch(() => undefined)
+  }, [seekTo, playback.src])
+
   const playerStyles = useMemo(
     () => ({
       "--plyr-color-main": "hsl(var(--primary))",
@@ -320,7 +358,7 @@ export function SecureVideoCard({ playlistId, communityId, item }: SecureVideoCa
       onContextMenu={(evt) => evt.preventDefault()}
       style={playerStyles}
     >
-      <Plyr source={plyrSource} options={plyrOptions} />
+      <Plyr ref={playerRef} source={plyrSource} options={plyrOptions} />
 
       {playback.loading ? (
         <div className="pointer-events-none absolute inset-0 flex items-center justify-center bg-black/35">
@@ -1,5 +1,6 @@
 import { notFound } from "next/navigation"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { getCommunityAccess, hasCommunityPermission } from "@/lib/community-permissions"
 import type { UploadedVideo } from "@/types"
 import type { PlaylistWithItems } from "./types"
 import CommunityPlaylistsView from "./playlists-view"
@@ -214,18 +215,14 @@ export default async function CommunityPlaylistsPage({ params }: CommunityPlayli
 
   let isOwner = false
   let isMember = false
+  let canManagePlaylists = false
 
   if (user) {
-    isOwner = community.owner_id === user.id
+    const access = await getCommunityAccess(supabase, community.id, user.id)
 
-    const { data: membership } = await supabase
-      .from("community_members")
-      .select("id")
-      .eq("community_id", community.id)
-      .eq("user_id", user.id)
-      .maybeSingle()
-
-    isMember = !!membership
+    isOwner = access?.isOwner ?? false
+    isMember = !!access?.role
+    canManagePlaylists = hasCommunityPermission(access, "manage_playlists")
   }
 
   if (!isOwner && !isMember) {
@@ -241,6 +238,7 @@ export default async function CommunityPlaylistsPage({ params }: CommunityPlayli
         uploadedVideos={uploadedVideos}
         isOwner={isOwner}
         isMember={isMember}
+        canManagePlaylists={canManagePlaylists}
         currentUserId={user?.id}
       />
     </TopUpGuard>
@@ -21,6 +21,7 @@ interface CommunityPlaylistsViewProps {
   uploadedVideos: UploadedVideo[]
   isOwner: boolean
   isMember: boolean
+  canManagePlaylists?: boolean
   currentUserId?: string
 }
 
@@ -31,13 +32,14 @@ export default function CommunityPlaylistsView({
   uploadedVideos,
   isOwner,
   isMember,
+  canManagePlaylists = false,
 }: CommunityPlaylistsViewProps) {
   const router = useRouter()
   const [dialogState, setDialogState] = useState<DialogState>(null)
   const [deleteTarget, setDeleteTarget] = useState<PlaylistWithItems | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
 
-  const canManage = isOwner
+  const canManage = isOwner || canManagePlaylists
   const playlistsToRender = playlists ?? []
   const hasPlaylists = playlistsToRender.length > 0
 
@@ -0,0 +1,132 @@
+"use client"
+
+import React, { useState } from "react"
+import { CalendarClock, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { supabase } from "@/lib/supabase"
+import { billingCycleLabels } from "@/lib/community-pricing"
+import type { CommunityMember, CommunityMemberBillingStatus } from "@/types"
+
+interface MembershipSettingsCardProps {
+  membership: CommunityMember
+  onMembershipChange: (membership: CommunityMember) => void
+}
+
+const billingStatusLabels: Record<CommunityMemberBillingStatus, string> = {
+  active: "Active",
+  past_due: "Payment due",
+  lapsed: "Lapsed",
+}
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString(undefined, { month: "long", day: "numeric", year: "numeric" })
+    : "—"
+
+/**
+ * Lets a member of a monthly/annual community see their billing period
+ * and choose to leave when the current period ends.
+ */
+export function MembershipSettingsCard({ membership, onMembershipChange }: MembershipSettingsCardProps) {
+  const [updating, setUpdating] = useState(false)
+
+  const isRecurring = membership.billing_cycle === "monthly" || membership.billing_cycle === "annual"
+  const billingStatus = membership.billing_status ?? "active"
+
+  const handleToggleCancel = async () => {
+    const cancel = !membership.cancel_at_period_end
+    setUpdating(true)
+    try {
+      const { error } = await supabase.rpc("set_membership_cancel_at_period_end", {
+        p_member_id: membership.id,
+        p_cancel: cancel,
+      })
+
+      if (error) throw error
+
+      onMembershipChange({ ...membership, cancel_at_period_end: cancel })
+      toast.success(
+        cancel
+          ? `Your membership will end on ${formatDate(membership.current_period_end)}`
+          : "Your membership will renew automatically"
+      )
+    } catch (error: any) {
+      console.error("Error updating membership:", error)
+      toast.error(error?.message || "Failed to update membership")
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  return (
+    <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Your Membership
+        </CardTitle>
+        <CardDescription className="text-white/70">
+          {isRecurring
+            ? "Renewals are paid automatically from your wallet points"
+            : "Your membership does not renew"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-white/50 text-xs">Billing</p>
+            <p className="text-white font-medium">
+              {membership.billing_cycle ? billingCycleLabels[membership.billing_cycle] : "Free"}
+            </p>
+          </div>
+          {isRecurring && (
+            <>
+              <div>
+                <p className="text-white/50 text-xs">
+                  {membership.cancel_at_period_end ? "Ends on" : "Renews on"}
+                </p>
+                <p className="text-white font-medium">{formatDate(membership.current_period_end)}</p>
+              </div>
+              <div>
+                <p className="text-white/50 text-xs">Status</p>
+                <Badge variant="outline" className="border-white/20 text-white">
+                  {billingStatusLabels[billingStatus]}
+                </Badge>
+              </div>
+            </>
+          )}
+        </div>
+
+        {billingStatus === "past_due" && (
+          <p className="text-white/70 text-sm">
+            We couldn&apos;t renew your membership. Top up your wallet before{" "}
+            {formatDate(membership.grace_period_ends_at)} to keep access.
+          </p>
+        )}
+
+        {isRecurring && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-2">
+            <p className="text-white/70 text-sm">
+              {membership.cancel_at_period_end
+                ? "You will leave this community when the current period ends."
+                : "Cancel to leave this community when the current period ends. You won't be charged again."}
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleToggleCancel}
+              disabled={updating}
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20 transition-colors touch-feedback shrink-0"
+            >
+              {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {membership.cancel_at_period_end ? "Keep Membership" : "Cancel at Period End"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
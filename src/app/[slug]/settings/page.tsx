@@ -11,8 +11,10 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
-import { Community } from "@/types"
+import { Community, CommunityMember } from "@/types"
 import { CommunityNavigation } from "@/components/community-navigation"
+import { ModerationQueue } from "@/components/moderation-queue"
+import { MembershipSettingsCard } from "./membership-settings-card"
 
 export default function CommunitySettingsPage() {
   const { user, isLoading: authLoading } = useAuth()
@@ -27,6 +29,8 @@ export default function CommunitySettingsPage() {
   const [autoSaveCount, setAutoSaveCount] = useState(0)
   const autoSaving = autoSaveCount > 0
   const [community, setCommunity] = useState<Community | null>(null)
+  // undefined until loaded, null when the user is not a member
+  const [membership, setMembership] = useState<CommunityMember | null | undefined>(undefined)
   
   const logoInputRef = useRef<HTMLInputElement | null>(null)
   const bannerInputRef = useRef<HTMLInputElement | null>(null)
@@ -104,7 +108,34 @@ export default function CommunitySettingsPage() {
     fetchCommunity()
   }, [slug, syncCommunityState])
 
-  // Redirect if not authenticated or not owner - check early to prevent loading
+  // Members manage their own membership here (e.g. cancel at period end)
+  useEffect(() => {
+    if (!user || !community) return
+
+    if (community.owner_id === user.id) {
+      setMembership(null)
+      return
+    }
+
+    const fetchMembership = async () => {
+      const { data, error } = await supabase
+        .from('community_members')
+        .select('*')
+        .eq('community_id', community.id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching membership:', error)
+      }
+
+      setMembership((data as CommunityMember | null) ?? null)
+    }
+
+    fetchMembership()
+  }, [user, community])
+
+  // Redirect if not authenticated or not owner/member - check early to prevent loading
   useEffect(() => {
     if (authLoading) return // Wait for auth to load
     
@@ -113,12 +144,12 @@ export default function CommunitySettingsPage() {
       return
     }
     
-    if (community && community.owner_id !== user.id) {
-      toast.error("Only community owners can access settings")
+    if (community && community.owner_id !== user.id && membership === null) {
+      toast.error("Only community members can access settings")
       router.push(`/${slug}`)
       return
     }
-  }, [user, authLoading, community, slug, router])
+  }, [user, authLoading, community, membership, slug, router])
 
   const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -303,10 +334,51 @@ export default function CommunitySettingsPage() {
   if (!user || !community) return null
 
   const isOwner = community.owner_id === user.id
+  const canReviewReports = isOwner || (
+    membership?.role === 'moderator' && !!membership.permissions?.includes('review_reports')
+  )
+
+  const moderationCard = canReviewReports ? (
+    <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+      <CardHeader>
+        <CardTitle className="text-white">Moderation</CardTitle>
+        <CardDescription className="text-white/60">
+          Review reported posts and comments in this community
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ModerationQueue communityId={community.id} />
+      </CardContent>
+    </Card>
+  ) : null
   
-  // Early return if not owner - prevent any rendering
+  // Members only see their own membership settings (and the report queue for moderators)
   if (!isOwner) {
-    return null
+    if (!membership) {
+      return null
+    }
+
+    return (
+      <TopUpGuard communitySlug={slug}>
+      <div className="relative w-full overflow-x-hidden">
+        <div className="relative z-10 space-y-6">
+          <CommunityNavigation
+            slug={community.slug}
+            isOwner={false}
+            isMember
+            communityOwnerId={community.owner_id}
+          />
+
+          <MembershipSettingsCard
+            membership={membership}
+            onMembershipChange={setMembership}
+          />
+
+          {moderationCard}
+        </div>
+      </div>
+      </TopUpGuard>
+    )
   }
 
   return (
@@ -509,6 +581,8 @@ export default function CommunitySettingsPage() {
             </CardContent>
           </Card>
         </div>
+
+        {moderationCard}
       </div>
     </div>
     </TopUpGuard>
@@ -785,7 +785,9 @@ export default function CommunitySettingsView({ community, isOwner }: CommunityS
                             <SelectContent>
                               <SelectItem value="free">Free</SelectItem>
                               <SelectItem value="one_time">One-Time Payment</SelectItem>
-                              <SelectItem value="recurring">Recurring Subscription</SelectItem>
+                              <SelectItem value="monthly">Monthly Subscription</SelectItem>
+                              <SelectItem value="annual">Annual Subscription</SelectItem>
+                              <SelectItem value="recurring">Recurring Subscription (member chooses)</SelectItem>
                             </SelectContent>
                           </Select>
                         </div>
@@ -809,41 +811,51 @@ export default function CommunitySettingsView({ community, isOwner }: CommunityS
                           </div>
                         )}
 
-                        {pricingData.pricing_type === 'recurring' && (
+                        {(pricingData.pricing_type === 'recurring' || pricingData.pricing_type === 'monthly' || pricingData.pricing_type === 'annual') && (
                           <>
-                            <div className="space-y-2">
-                              <Label htmlFor="monthly_price" className="text-white">
-                                Monthly Price ($)
-                              </Label>
-                              <Input
-                                id="monthly_price"
-                                type="number"
-                                step="0.01"
-                                min="0"
-                                value={pricingData.monthly_price}
-                                onChange={(e) => setPricingData({ ...pricingData, monthly_price: parseFloat(e.target.value) || 0 })}
-                                placeholder="0.00"
-                                className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
-                              />
-                            </div>
+                            {pricingData.pricing_type !== 'annual' && (
+                              <div className="space-y-2">
+                                <Label htmlFor="monthly_price" className="text-white">
+                                  Monthly Price ($)
+                                </Label>
+                                <Input
+                                  id="monthly_price"
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={pricingData.monthly_price}
+                                  onChange={(e) => setPricingData({ ...pricingData, monthly_price: parseFloat(e.target.value) || 0 })}
+                                  placeholder="0.00"
+                                  className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+                                />
+                              </div>
+                            )}
 
-                            <div className="space-y-2">
-                              <Label htmlFor="annual_price" className="text-white">
-                                Annual Price ($)
-                              </Label>
-                              <Input
-                                id="annual_price"
-                                type="number"
-                                step="0.01"
-                                min="0"
-                                value={pricingData.annual_price}
-                                onChange={(e) => setPricingData({ ...pricingData, annual_price: parseFloat(e.target.value) || 0 })}
-                                placeholder="0.00"
-                                className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
-                              />
-                            </div>
+                            {pricingData.pricing_type !== 'monthly' && (
+                              <div className="space-y-2">
+                                <Label htmlFor="annual_price" className="text-white">
+                                  Annual Price ($)
+                                </Label>
+                                <Input
+                                  id="annual_price"
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={pricingData.annual_price}
+                                  onChange={(e) => setPricingData({ ...pricingData, annual_price: parseFloat(e.target.value) || 0 })}
+                                  placeholder="0.00"
+                                  className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+                                />
+                              </div>
+                            )}
                           </>
                         )}
+
+                        {pricingData.pricing_type !== 'free' && (
+                          <p className="text-xs text-white/60">
+                            Members pay the equivalent in points when they join. The points are credited to your earnings.
+                          </p>
+                        )}
                       </div>
 
                       <Button
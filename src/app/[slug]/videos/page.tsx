@@ -1,5 +1,6 @@
 import { notFound } from "next/navigation"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { getCommunityAccess, hasCommunityPermission } from "@/lib/community-permissions"
 import CommunityVideosView from "./videos-view"
 import { TopUpGuard } from "@/components/topup-guard"
 
@@ -90,24 +91,30 @@ export default async function CommunityRecordingsPage({ params }: CommunityRecor
     uploadedVideos = uploads
   }
 
+  // Transcript status and chapters; segments load on demand in the transcript dialog
+  const { data: transcripts, error: transcriptsError } = await supabase
+    .from('video_transcripts')
+    .select('id, community_id, recording_id, upload_id, status, engine, language, chapters, error, completed_at, created_at, updated_at')
+    .eq('community_id', community.id)
+
+  if (transcriptsError) {
+    console.error('Error fetching video transcripts:', transcriptsError)
+  }
+
   // Check if user is authenticated and get their membership status
   const { data: { user } } = await supabase.auth.getUser()
   
   let isOwner = false
   let isMember = false
+  let canUploadVideos = false
   
   if (user) {
-    isOwner = community.owner_id === user.id
-    
-    // Check if user is a member
-    const { data: membership } = await supabase
-      .from('community_members')
-      .select('id')
-      .eq('community_id', community.id)
-      .eq('user_id', user.id)
-      .maybeSingle()
-    
-    isMember = !!membership
+    // Role and moderator permissions in one lookup
+    const access = await getCommunityAccess(supabase, community.id, user.id)
+
+    isOwner = access?.isOwner ?? false
+    isMember = !!access?.role
+    canUploadVideos = hasCommunityPermission(access, 'upload_videos')
   }
 
   // Only owners and members can view recordings
@@ -122,8 +129,10 @@ export default async function CommunityRecordingsPage({ params }: CommunityRecor
         recordings={recordings || []}
         isOwner={isOwner}
         isMember={isMember}
+        canUploadVideos={canUploadVideos}
         currentUserId={user?.id}
         uploadedVideos={uploadedVideos}
+        transcripts={transcripts || []}
       />
     </TopUpGuard>
   )
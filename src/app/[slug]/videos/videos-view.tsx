@@ -3,7 +3,7 @@
 import React, { useState, useRef } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
-import { Video, Calendar, Download, Trash2, MoreVertical, Loader2, Upload, FileVideo } from "lucide-react"
+import { Video, Calendar, Download, Trash2, MoreVertical, Loader2, Upload, FileVideo, MessageSquare, FileText, Search } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -16,8 +16,12 @@ import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
-import type { EventRecording, UploadedVideo } from "@/types"
+import { SEARCH_MIN_QUERY_LENGTH, parseSearchSnippet } from "@/lib/search"
+import { formatTranscriptTimestamp, transcriptStatusLabels } from "@/lib/video-transcripts"
+import type { EventRecording, UploadedVideo, VideoTranscript, VideoTranscriptSearchResult } from "@/types"
 import { SecureVideoCard, CarouselItem } from "@/app/[slug]/playlists/components/playlist-media-carousel"
+import { EventChatReplayDialog } from "@/components/event-chat-replay-dialog"
+import { VideoTranscriptDialog } from "@/components/video-transcript-dialog"
 
 // Helper function for date formatting
 function formatDate(dateString: string) {
@@ -39,6 +43,12 @@ function formatFileSize(bytes?: number) {
   return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
 }
 
+type VideoSourceType = "recording" | "upload"
+
+function getVideoKey(sourceType: VideoSourceType, id: string) {
+  return `${sourceType}-${id}`
+}
+
 function formatDuration(seconds?: number | null) {
   if (!seconds || seconds <= 0) return null
   const totalSeconds = Math.round(seconds)
@@ -74,8 +84,10 @@ interface CommunityVideosViewProps {
   }>
   isOwner: boolean
   isMember: boolean
+  canUploadVideos?: boolean
   currentUserId?: string
   uploadedVideos: UploadedVideo[]
+  transcripts: VideoTranscript[]
 }
 
 const BUCKET_NAME = "community-uploads"
@@ -85,8 +97,10 @@ export default function CommunityVideosView({
   recordings,
   isOwner,
   isMember,
+  canUploadVideos = isOwner,
   currentUserId,
-  uploadedVideos
+  uploadedVideos,
+  transcripts: initialTranscripts,
 }: CommunityVideosViewProps) {
   const router = useRouter()
   const [activeTab, setActiveTab] = useState<"recordings" | "uploads">(() => {
@@ -102,6 +116,14 @@ export default function CommunityVideosView({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [deleteTarget, setDeleteTarget] = useState<{ id: string; type: "recording" | "upload" } | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [chatReplayRecording, setChatReplayRecording] = useState<CommunityVideosViewProps["recordings"][number] | null>(null)
+  const [transcripts, setTranscripts] = useState(initialTranscripts)
+  const [transcriptDialog, setTranscriptDialog] = useState<{ sourceType: VideoSourceType; sourceId: string; title: string } | null>(null)
+  const [requestingTranscriptKey, setRequestingTranscriptKey] = useState<string | null>(null)
+  const [seekTarget, setSeekTarget] = useState<{ key: string; seconds: number; requestId: number } | null>(null)
+  const [transcriptQuery, setTranscriptQuery] = useState("")
+  const [transcriptResults, setTranscriptResults] = useState<VideoTranscriptSearchResult[]>([])
+  const [isSearchingTranscripts, setIsSearchingTranscripts] = useState(false)
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const hasRecordings = recordings.length > 0
   const hasUploadedVideos = uploadedVideos.length > 0
@@ -114,6 +136,163 @@ export default function CommunityVideosView({
     }
   }, [activeTab, hasRecordings, hasUploadedVideos])
 
+  React.useEffect(() => {
+    setTranscripts(initialTranscripts)
+  }, [initialTranscripts])
+
+  // Pick up transcripts as they finish
+  const hasTranscriptsInProgress = transcripts.some(
+    (transcript) => transcript.status === "pending" || transcript.status === "processing"
+  )
+  React.useEffect(() => {
+    if (!hasTranscriptsInProgress) return
+    const interval = setInterval(() => router.refresh(), 15000)
+    return () => clearInterval(interval)
+  }, [hasTranscriptsInProgress, router])
+
+  // Debounced search across every completed transcript in the community
+  React.useEffect(() => {
+    const query = transcriptQuery.trim()
+    if (query.length < SEARCH_MIN_QUERY_LENGTH) {
+      setTranscriptResults([])
+      setIsSearchingTranscripts(false)
+      return
+    }
+
+    let cancelled = false
+    setIsSearchingTranscripts(true)
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("search_video_transcripts", {
+        p_community_id: community.id,
+        p_query: query,
+      })
+      if (cancelled) return
+      if (error) {
+        console.error("Error searching transcripts:", error)
+      }
+      setTranscriptResults((data || []) as VideoTranscriptSearchResult[])
+      setIsSearchingTranscripts(false)
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [transcriptQuery, community.id])
+
+  const getTranscript = (sourceType: VideoSourceType, id: string) =>
+    transcripts.find((transcript) =>
+      sourceType === "recording" ? transcript.recording_id === id : transcript.upload_id === id
+    ) ?? null
+
+  const getCaptionProps = (sourceType: VideoSourceType, id: string) => {
+    const transcript = getTranscript(sourceType, id)
+    if (transcript?.status !== "completed") return {}
+    return {
+      captionsUrl: `/api/videos/transcripts/${transcript.id}/captions`,
+      captionsLanguage: transcript.language ?? null,
+      chapters: transcript.chapters,
+    }
+  }
+
+  // Switches to the video's tab, scrolls it into view and starts it at the given moment
+  const seekVideo = (sourceType: VideoSourceType, id: string, seconds: number) => {
+    const key = getVideoKey(sourceType, id)
+    setActiveTab(sourceType === "recording" ? "recordings" : "uploads")
+    setSeekTarget({ key, seconds, requestId: Date.now() })
+    setTimeout(() => {
+      document.getElementById(`video-${key}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    }, 50)
+  }
+
+  const requestTranscript = async (sourceType: VideoSourceType, id: string, silent = false) => {
+    const key = getVideoKey(sourceType, id)
+    setRequestingTranscriptKey(key)
+    try {
+      const response = await fetch("/api/videos/transcripts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceType, sourceId: id }),
+      })
+      const payload = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        if (silent) return
+        throw new Error(payload?.error || "Failed to start transcript")
+      }
+
+      setTranscripts((current) => {
+        const existing = current.find((transcript) => transcript.id === payload.transcriptId)
+        const now = new Date().toISOString()
+        const pending: VideoTranscript = {
+          id: payload.transcriptId,
+          community_id: community.id,
+          recording_id: sourceType === "recording" ? id : null,
+          upload_id: sourceType === "upload" ? id : null,
+          chapters: [],
+          created_at: existing?.created_at ?? now,
+          updated_at: now,
+          status: "pending",
+        }
+        return existing
+          ? current.map((transcript) => (transcript.id === pending.id ? { ...transcript, status: "pending", error: null } : transcript))
+          : [...current, pending]
+      })
+      if (!silent) toast.success("Transcript started. It will appear here when it's ready.")
+    } catch (error: any) {
+      console.error("Error requesting transcript:", error)
+      toast.error(error?.message || "Failed to start transcript")
+    } finally {
+      setRequestingTranscriptKey(null)
+    }
+  }
+
+  const renderTranscriptButton = (sourceType: VideoSourceType, id: string, title: string) => {
+    const transcript = getTranscript(sourceType, id)
+    const isRequesting = requestingTranscriptKey === getVideoKey(sourceType, id)
+
+    if (transcript?.status === "completed") {
+      return (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setTranscriptDialog({ sourceType, sourceId: id, title })}
+          className="h-7 flex-shrink-0 gap-1.5 px-2 text-white/70 hover:bg-white/10 hover:text-white"
+        >
+          <FileText className="h-3.5 w-3.5" />
+          Transcript
+        </Button>
+      )
+    }
+
+    if (transcript && transcript.status !== "failed") {
+      return (
+        <span className="flex h-7 items-center gap-1.5 px-2 text-xs text-white/50">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {transcriptStatusLabels[transcript.status]}
+        </span>
+      )
+    }
+
+    if (!canUploadVideos) return null
+
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={isRequesting}
+        onClick={() => requestTranscript(sourceType, id)}
+        title={transcript?.error || undefined}
+        className="h-7 flex-shrink-0 gap-1.5 px-2 text-white/70 hover:bg-white/10 hover:text-white"
+      >
+        {isRequesting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileText className="h-3.5 w-3.5" />}
+        {transcript?.status === "failed" ? "Retry transcript" : "Generate transcript"}
+      </Button>
+    )
+  }
+
+  const dialogTranscript = transcriptDialog ? getTranscript(transcriptDialog.sourceType, transcriptDialog.sourceId) : null
+
   const resetUploadForm = () => {
     setUploadTitle("")
     setUploadDescription("")
@@ -160,8 +339,8 @@ export default function CommunityVideosView({
   }
 
   const handleUploadSubmit = async () => {
-    if (!isOwner) {
-      toast.error("Only community owners can upload videos")
+    if (!canUploadVideos) {
+      toast.error("You do not have permission to upload videos")
       return
     }
 
@@ -204,7 +383,7 @@ export default function CommunityVideosView({
       const title = uploadTitle.trim() || uploadFile.name
       const description = uploadDescription.trim() || null
 
-      const { error: insertError } = await supabase
+      const { data: insertedVideo, error: insertError } = await supabase
         .from("uploaded_videos")
         .insert({
           community_id: community.id,
@@ -216,6 +395,8 @@ export default function CommunityVideosView({
           file_size_bytes: uploadFile.size,
           duration_seconds: null,
         })
+        .select("id")
+        .single()
 
       if (insertError) {
         console.error("[Community Videos] Metadata insert failed:", insertError)
@@ -234,6 +415,9 @@ export default function CommunityVideosView({
         console.warn("[Community Videos] Failed to update storage usage:", storageUpdateError)
       }
 
+      // Transcripts are automatic when the server has an engine configured
+      requestTranscript("upload", insertedVideo.id, true)
+
       toast.success("Video uploaded successfully")
       handleUploadDialogChange(false)
       setActiveTab("uploads")
@@ -352,6 +536,67 @@ export default function CommunityVideosView({
           communityOwnerId={community.owner_id}
         />
 
+        {/* Transcript search */}
+        {transcripts.some((transcript) => transcript.status === "completed") && (
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/50" />
+              <Input
+                value={transcriptQuery}
+                onChange={(event) => setTranscriptQuery(event.target.value)}
+                placeholder="Search what was said in videos..."
+                className="border-white/20 bg-white/5 pl-10 text-white placeholder:text-white/40"
+              />
+              {isSearchingTranscripts && (
+                <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-white/50" />
+              )}
+            </div>
+
+            {transcriptQuery.trim().length >= SEARCH_MIN_QUERY_LENGTH && !isSearchingTranscripts && (
+              transcriptResults.length === 0 ? (
+                <p className="text-sm text-white/50">No videos mention that</p>
+              ) : (
+                <div className="space-y-2">
+                  {transcriptResults.map((result) => {
+                    const sourceType: VideoSourceType = result.recording_id ? "recording" : "upload"
+                    const sourceId = (result.recording_id || result.upload_id)!
+                    return (
+                      <button
+                        key={result.transcript_id}
+                        type="button"
+                        onClick={() => seekVideo(sourceType, sourceId, result.start_seconds ?? 0)}
+                        className="w-full rounded-lg border border-white/10 bg-white/5 p-3 text-left transition hover:bg-white/10"
+                      >
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="truncate font-medium text-white">
+                            {result.title || (sourceType === "recording" ? "Recording" : "Upload")}
+                          </span>
+                          {result.start_seconds !== null && (
+                            <span className="flex-shrink-0 font-mono text-xs text-white/50">
+                              {formatTranscriptTimestamp(result.start_seconds)}
+                            </span>
+                          )}
+                        </div>
+                        <p className="mt-1 line-clamp-2 text-sm text-white/70">
+                          {parseSearchSnippet(result.snippet).map((part, index) =>
+                            part.highlighted ? (
+                              <mark key={index} className="bg-white/20 text-white rounded-sm px-0.5">
+                                {part.text}
+                              </mark>
+                            ) : (
+                              <React.Fragment key={index}>{part.text}</React.Fragment>
+                            )
+                          )}
+                        </p>
+                      </button>
+                    )
+                  })}
+                </div>
+              )
+            )}
+          </div>
+        )}
+
         <Tabs
           value={activeTab}
           onValueChange={(value) => setActiveTab(value as "recordings" | "uploads")}
@@ -378,7 +623,7 @@ export default function CommunityVideosView({
                 </span>
               </TabsTrigger>
             </TabsList>
-            {isOwner && (
+            {canUploadVideos && (
               <Button
                 onClick={() => handleUploadDialogChange(true)}
                 variant="outline"
@@ -398,6 +643,7 @@ export default function CommunityVideosView({
                   return (
                     <Card
                       key={recording.id}
+                      id={`video-${getVideoKey("recording", recording.id)}`}
                       className="group overflow-hidden border-0 bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md transition-all duration-300 hover:from-white/15 hover:shadow-lg hover:shadow-white/10"
                     >
                       <div className="relative aspect-video w-full overflow-hidden bg-gradient-to-br from-white/5 to-white/10">
@@ -420,7 +666,9 @@ export default function CommunityVideosView({
                             createdAt: recording.created_at ?? null,
                             description: recording.description ?? recording.event?.description ?? null,
                             communityId: recording.community_id ?? community.id,
+                            ...getCaptionProps("recording", recording.id),
                           } satisfies CarouselItem}
+                          seekTo={seekTarget?.key === getVideoKey("recording", recording.id) ? seekTarget : null}
                         />
                         <div className="absolute right-3 top-3 z-10">
                           {recording.is_processing ? (
@@ -488,6 +736,15 @@ export default function CommunityVideosView({
                             <div className="flex items-center gap-2 text-sm text-white/70">
                               <Video className="h-3.5 w-3.5 flex-shrink-0" />
                               <span className="truncate">Event: {formatDate(recording.event.scheduled_at)}</span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setChatReplayRecording(recording)}
+                                className="ml-auto h-7 flex-shrink-0 gap-1.5 px-2 text-white/70 hover:bg-white/10 hover:text-white"
+                              >
+                                <MessageSquare className="h-3.5 w-3.5" />
+                                Chat replay
+                              </Button>
                             </div>
                           )}
                           <div className="flex items-center gap-4 text-sm text-white/60">
@@ -495,6 +752,13 @@ export default function CommunityVideosView({
                             {recordingDuration && (
                               <span className="text-white/50">{recordingDuration}</span>
                             )}
+                            <div className="ml-auto">
+                              {renderTranscriptButton(
+                                "recording",
+                                recording.id,
+                                recording.title || recording.event?.description || `Recording ${formatDate(recording.created_at)}`
+                              )}
+                            </div>
                           </div>
                         </div>
                         {!recording.storage_url && !recording.stream_recording_url && (
@@ -544,6 +808,7 @@ export default function CommunityVideosView({
                   return (
                     <Card
                       key={video.id}
+                      id={`video-${getVideoKey("upload", video.id)}`}
                       className="group overflow-hidden border-0 bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md transition-all duration-300 hover:from-white/15 hover:shadow-lg hover:shadow-white/10"
                     >
                       <div className="relative aspect-video w-full overflow-hidden bg-gradient-to-br from-white/5 to-white/10">
@@ -560,7 +825,9 @@ export default function CommunityVideosView({
                             createdAt: video.created_at ?? null,
                             description: video.description ?? null,
                             communityId: video.community_id ?? community.id,
+                            ...getCaptionProps("upload", video.id),
                           } satisfies CarouselItem}
+                          seekTo={seekTarget?.key === getVideoKey("upload", video.id) ? seekTarget : null}
                         />
                         <div className="absolute right-3 top-3 z-10">
                           {(isOwner || video.storage_url) && (
@@ -655,6 +922,9 @@ export default function CommunityVideosView({
                           {uploadDuration && (
                             <span className="text-white/50">{uploadDuration}</span>
                           )}
+                          <div className="ml-auto">
+                            {renderTranscriptButton("upload", video.id, video.title || `Upload ${formatDate(video.created_at)}`)}
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
@@ -671,7 +941,7 @@ export default function CommunityVideosView({
                       Upload pre-recorded videos to share with your community members at any time.
                     </p>
                   </div>
-                  {isOwner && (
+                  {canUploadVideos && (
                     <Button
                       onClick={() => handleUploadDialogChange(true)}
                       variant="outline"
@@ -866,6 +1136,41 @@ export default function CommunityVideosView({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {transcriptDialog && dialogTranscript && (
+        <VideoTranscriptDialog
+          transcript={dialogTranscript}
+          title={transcriptDialog.title}
+          canManage={canUploadVideos}
+          open
+          onOpenChange={(open) => {
+            if (!open) setTranscriptDialog(null)
+          }}
+          onSeek={(seconds) => seekVideo(transcriptDialog.sourceType, transcriptDialog.sourceId, seconds)}
+          onRegenerate={() => requestTranscript(transcriptDialog.sourceType, transcriptDialog.sourceId)}
+          onChaptersSaved={(chapters) =>
+            setTranscripts((current) =>
+              current.map((transcript) => (transcript.id === dialogTranscript.id ? { ...transcript, chapters } : transcript))
+            )
+          }
+        />
+      )}
+
+      {chatReplayRecording?.event && (
+        <EventChatReplayDialog
+          eventId={chatReplayRecording.event.id}
+          startedAt={chatReplayRecording.started_at || chatReplayRecording.event.started_at}
+          title={
+            chatReplayRecording.title ||
+            chatReplayRecording.event.description ||
+            `Recording ${formatDate(chatReplayRecording.created_at)}`
+          }
+          open
+          onOpenChange={(open) => {
+            if (!open) setChatReplayRecording(null)
+          }}
+        />
+      )}
     </div>
   )
 }
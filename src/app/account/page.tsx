@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { PageHeader } from "@/components/ui/page-header"
+import { NotificationPreferencesCard } from "@/components/notification-preferences-card"
 import Link from "next/link"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
@@ -330,7 +331,7 @@ export default function AccountPage() {
       <div className="relative z-10 space-y-6">
         <PageHeader
           title="Account Settings"
-          subtitle="Manage your profile and password"
+          subtitle="Manage your profile, password and notifications"
         />
 
         <div className="space-y-6">
@@ -645,6 +646,8 @@ export default function AccountPage() {
             </CardContent>
           </Card>
           </div>
+
+          <NotificationPreferencesCard userId={user.id} />
         </div>
       </div>
     </div>
@@ -0,0 +1,188 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { PageHeader } from "@/components/ui/page-header"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { supabase } from "@/lib/supabase"
+import { toast } from "sonner"
+import { RefreshCcw } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { AdminAuditLogEntry, User } from "@/types"
+
+type AuditUser = Pick<User, "id" | "email" | "username" | "first_name" | "last_name">
+
+// Actions are "<subject>.<what happened>"; the filter matches on the subject
+const subjectLabels: Record<string, string> = {
+  topup: "Top-ups",
+  payout: "Payouts",
+  withdrawal: "Withdrawals",
+  payout_destination: "Payout destinations",
+  adjustment: "Adjustments",
+  ledger_discrepancy: "Reconciliation",
+}
+
+const positiveOutcomes = ["verified", "paid", "completed", "applied", "approved", "resolved"]
+const negativeOutcomes = ["rejected", "failed", "cancelled", "dismissed"]
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString()
+
+const displayName = (person: AuditUser | undefined, fallback: string) =>
+  person
+    ? person.first_name && person.last_name
+      ? `${person.first_name} ${person.last_name}`
+      : person.username || person.email
+    : fallback
+
+const describeDetails = (details: Record<string, unknown>) => {
+  const parts: string[] = []
+  if (details.from_status) parts.push(`${details.from_status} → ${details.to_status}`)
+  if (typeof details.points === "number") {
+    parts.push(`${details.points > 0 ? "+" : ""}${details.points.toLocaleString()} ${details.balance ?? "points"}`)
+  }
+  if (details.points_delta) parts.push(`${details.points_delta} points`)
+  if (details.amount_ttd != null) parts.push(`TTD ${Number(details.amount_ttd).toFixed(2)}`)
+  if (typeof details.difference === "number") parts.push(`difference ${details.difference} ${details.balance}`)
+  const note = details.reason || details.review_note || details.note || details.rejection_reason
+  if (note) parts.push(`"${note}"`)
+  return parts.join(" · ") || "—"
+}
+
+export function AdminAuditLogClient() {
+  const [loading, setLoading] = useState(true)
+  const [subjectFilter, setSubjectFilter] = useState<string>("all")
+  const [entries, setEntries] = useState<AdminAuditLogEntry[]>([])
+  const [people, setPeople] = useState<Record<string, AuditUser>>({})
+
+  const load = useCallback(async () => {
+    setLoading(true)
+
+    let query = supabase.from("admin_audit_log").select("*").order("created_at", { ascending: false }).limit(200)
+
+    if (subjectFilter !== "all") {
+      query = query.like("action", `${subjectFilter}.%`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      toast.error(error.message || "Failed to load the audit log")
+      setEntries([])
+      setLoading(false)
+      return
+    }
+
+    const rows = (data || []) as AdminAuditLogEntry[]
+    setEntries(rows)
+
+    // Actor and target are plain ids in the log, so names are looked up separately
+    const ids = Array.from(
+      new Set(rows.flatMap((row) => [row.actor_id, row.target_user_id]).filter((id): id is string => Boolean(id)))
+    )
+    if (ids.length > 0) {
+      const { data: users } = await supabase
+        .from("users")
+        .select("id, email, username, first_name, last_name")
+        .in("id", ids)
+      setPeople(
+        ((users || []) as AuditUser[]).reduce<Record<string, AuditUser>>((acc, person) => {
+          acc[person.id] = person
+          return acc
+        }, {})
+      )
+    }
+    setLoading(false)
+  }, [subjectFilter])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Audit Log"
+        subtitle="Every admin action on top-ups, payouts, withdrawals, payout destinations and wallet balances. Entries can't be edited or deleted."
+      />
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {Object.entries(subjectLabels).map(([subject, label]) => (
+              <SelectItem key={subject} value={subject}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={load}
+          variant="ghost"
+          className="text-white/80 hover:text-white hover:bg-white/10 touch-feedback inline-flex items-center gap-2"
+        >
+          <RefreshCcw className={cn("h-4 w-4", loading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-white/80">When</TableHead>
+            <TableHead className="text-white/80">Admin</TableHead>
+            <TableHead className="text-white/80">Action</TableHead>
+            <TableHead className="text-white/80">User</TableHead>
+            <TableHead className="text-white/80">Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => {
+            const separator = entry.action.lastIndexOf(".")
+            const subject = entry.action.slice(0, separator)
+            const outcome = entry.action.slice(separator + 1)
+
+            return (
+              <TableRow key={entry.id}>
+                <TableCell className="text-white/80 whitespace-nowrap">{formatDateTime(entry.created_at)}</TableCell>
+                <TableCell className="text-white/80">
+                  {entry.actor_id ? displayName(people[entry.actor_id], entry.actor_id) : "System"}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    className={cn(
+                      "border",
+                      positiveOutcomes.includes(outcome)
+                        ? "bg-emerald-500/15 text-emerald-200 border-emerald-500/30"
+                        : negativeOutcomes.includes(outcome)
+                          ? "bg-rose-500/15 text-rose-200 border-rose-500/30"
+                          : "bg-amber-500/15 text-amber-200 border-amber-500/30"
+                    )}
+                  >
+                    {subjectLabels[subject] ?? subject}: {outcome.replace(/_/g, " ")}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-white/80">
+                  {entry.target_user_id ? displayName(people[entry.target_user_id], entry.target_user_id) : "—"}
+                </TableCell>
+                <TableCell className="text-white/70 text-sm max-w-md break-words">{describeDetails(entry.details)}</TableCell>
+              </TableRow>
+            )
+          })}
+          {entries.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="text-white/60 text-center py-10">
+                {loading ? "Loading audit log..." : "No admin actions recorded yet."}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import React, { useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { ShieldAlert } from "lucide-react"
+import { useAuth } from "@/components/auth-provider"
+import { Breadcrumb } from "@/components/ui/breadcrumb"
+import { ModerationQueue } from "@/components/moderation-queue"
+
+export default function ModerationPage() {
+  const { user, userProfile, isLoading } = useAuth()
+  const router = useRouter()
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (!isLoading && (!user || userProfile?.role !== 'admin')) {
+      router.push('/')
+    }
+  }, [user, userProfile, isLoading, router])
+
+  if (!user || userProfile?.role !== 'admin') {
+    return null
+  }
+
+  return (
+    <div className="relative w-full overflow-x-hidden">
+      <div className="relative z-10 space-y-6">
+        <Breadcrumb items={[{ label: "Moderation", icon: ShieldAlert }]} />
+        <ModerationQueue />
+      </div>
+    </div>
+  )
+}
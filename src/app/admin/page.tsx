@@ -4,7 +4,7 @@ import React from "react"
 import { useAuth } from "@/components/auth-provider"
 import { useRouter } from "next/navigation"
 import { useEffect } from "react"
-import { Users, Shield, BarChart3, Settings, Mail, Briefcase, Database, FileText, CreditCard, Coins, GraduationCap, Building2, TrendingUp, Wallet } from "lucide-react"
+import { Users, Shield, BarChart3, Settings, Mail, Briefcase, Database, FileText, CreditCard, Coins, GraduationCap, Building2, TrendingUp, Wallet, ShieldAlert, Scale, ScrollText } from "lucide-react"
 import { Breadcrumb } from "@/components/ui/breadcrumb"
 
 export default function AdminDashboard() {
@@ -160,6 +160,24 @@ export default function AdminDashboard() {
             </p>
           </button>
 
+          <button
+            onClick={() => router.push('/admin/moderation')}
+            className="group rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md p-3 sm:p-4 text-left transition-all hover:bg-white/20 hover:scale-105 cursor-pointer"
+          >
+            <div className="flex items-center gap-2 mb-1 sm:mb-2">
+              <ShieldAlert className="h-4 w-4 text-white/80" />
+              <h3 className="font-semibold text-white text-sm sm:text-base">
+                Moderation
+                <span className="inline-block transition-transform group-hover:translate-x-1 motion-reduce:transform-none ml-2">
+                  →
+                </span>
+              </h3>
+            </div>
+            <p className="text-xs sm:text-sm text-white/80">
+              Review reported content and the audit log
+            </p>
+          </button>
+
           <button
             onClick={() => router.push('/admin/payments')}
             className="group rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md p-3 sm:p-4 text-left transition-all hover:bg-white/20 hover:scale-105 cursor-pointer"
@@ -339,6 +357,42 @@ export default function AdminDashboard() {
               Manage community and user payouts
             </p>
           </button>
+
+          <button
+            onClick={() => router.push('/admin/reconciliation')}
+            className="group rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md p-3 sm:p-4 text-left transition-all hover:bg-white/20 hover:scale-105 cursor-pointer"
+          >
+            <div className="flex items-center gap-2 mb-1 sm:mb-2">
+              <Scale className="h-4 w-4 text-white/80" />
+              <h3 className="font-semibold text-white text-sm sm:text-base">
+                Reconciliation
+                <span className="inline-block transition-transform group-hover:translate-x-1 motion-reduce:transform-none ml-2">
+                  →
+                </span>
+              </h3>
+            </div>
+            <p className="text-xs sm:text-sm text-white/80">
+              Check wallet balances against the ledgers
+            </p>
+          </button>
+
+          <button
+            onClick={() => router.push('/admin/audit-log')}
+            className="group rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md p-3 sm:p-4 text-left transition-all hover:bg-white/20 hover:scale-105 cursor-pointer"
+          >
+            <div className="flex items-center gap-2 mb-1 sm:mb-2">
+              <ScrollText className="h-4 w-4 text-white/80" />
+              <h3 className="font-semibold text-white text-sm sm:text-base">
+                Audit Log
+                <span className="inline-block transition-transform group-hover:translate-x-1 motion-reduce:transform-none ml-2">
+                  →
+                </span>
+              </h3>
+            </div>
+            <p className="text-xs sm:text-sm text-white/80">
+              Every admin action on top-ups, payouts and balances
+            </p>
+          </button>
         </div>
       </div>
       </div>
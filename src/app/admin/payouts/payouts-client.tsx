@@ -8,8 +8,10 @@ import { Badge } from "@/components/ui/badge"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/components/auth-provider"
 import { toast } from "sonner"
-import { RefreshCcw, CheckCircle2, XCircle, PlayCircle } from "lucide-react"
+import { RefreshCcw, CheckCircle2, XCircle, PlayCircle, Eye, ShieldCheck, ShieldX } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { describePayoutDestination, payoutDestinationStatusLabels } from "@/lib/payout-destinations"
+import type { AccountType, PayoutDestinationStatus } from "@/types"
 
 type PayoutRow = {
   id: string
@@ -21,6 +23,15 @@ type PayoutRow = {
   scheduled_for: string
   processed_at?: string | null
   created_at: string
+  destination?: {
+    id: string
+    bank_name: string
+    account_type: AccountType
+    account_name: string
+    account_number_last4: string
+    status: PayoutDestinationStatus
+    rejection_reason?: string | null
+  } | null
   user?: {
     first_name?: string | null
     last_name?: string | null
@@ -42,17 +53,25 @@ const statusStyles: Record<string, { label: string; className: string }> = {
   cancelled: { label: "Cancelled", className: "bg-white/10 text-white/60" },
 }
 
+const destinationStatusStyles: Record<PayoutDestinationStatus, string> = {
+  pending: "bg-amber-500/15 text-amber-200 border-amber-500/30",
+  verified: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30",
+  rejected: "bg-rose-500/15 text-rose-200 border-rose-500/30",
+}
+
 export function AdminPayoutsClient() {
   const { user } = useAuth()
   const [loading, setLoading] = useState(true)
   const [payouts, setPayouts] = useState<PayoutRow[]>([])
+  // Full account numbers an admin has revealed this session, by destination id
+  const [revealedNumbers, setRevealedNumbers] = useState<Record<string, string>>({})
 
   const load = useCallback(async () => {
     setLoading(true)
     const { data, error } = await supabase
       .from("payouts")
       .select(
-        "id, user_id, points, locked_points, amount_ttd, status, scheduled_for, processed_at, created_at, users!inner(first_name, last_name, username, email)"
+        "id, user_id, points, locked_points, amount_ttd, status, scheduled_for, processed_at, created_at, users!inner(first_name, last_name, username, email), destination:payout_destinations(id, bank_name, account_type, account_name, account_number_last4, status, rejection_reason)"
       )
       .order("scheduled_for", { ascending: false })
       .limit(200)
@@ -72,6 +91,7 @@ export function AdminPayoutsClient() {
           scheduled_for: row.scheduled_for,
           processed_at: row.processed_at,
           created_at: row.created_at,
+          destination: row.destination ?? null,
           user: row.users
             ? {
                 first_name: row.users.first_name,
@@ -146,6 +166,98 @@ export function AdminPayoutsClient() {
     [load, user]
   )
 
+  const handleReviewDestination = useCallback(
+    async (payout: PayoutRow, approve: boolean) => {
+      if (!payout.destination) return
+      let reason: string | null = null
+      if (!approve) {
+        reason = prompt("Why is this destination being rejected? The creator will see this note.")
+        if (!reason?.trim()) return
+      }
+      const { error } = await supabase.rpc("review_payout_destination", {
+        p_destination_id: payout.destination.id,
+        p_approve: approve,
+        p_reason: reason,
+      })
+      if (error) {
+        toast.error(error.message)
+      } else {
+        toast.success(approve ? "Payout destination verified" : "Payout destination rejected")
+        load()
+      }
+    },
+    [load]
+  )
+
+  const handleRevealNumber = useCallback(async (destinationId: string) => {
+    const { data, error } = await supabase.rpc("reveal_payout_destination_number", {
+      p_destination_id: destinationId,
+    })
+    if (error) {
+      toast.error(error.message)
+    } else {
+      setRevealedNumbers((current) => ({ ...current, [destinationId]: data as string }))
+    }
+  }, [])
+
+  const renderDestination = (payout: PayoutRow) => {
+    const destination = payout.destination
+    if (!destination) {
+      return <span className="text-white/50">No destination added</span>
+    }
+
+    const revealed = revealedNumbers[destination.id]
+
+    return (
+      <div className="space-y-1">
+        <div className="text-white/80">{describePayoutDestination(destination)}</div>
+        <div className="text-xs text-white/50">{destination.account_name}</div>
+        {revealed && <div className="font-mono text-xs text-white">{revealed}</div>}
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Badge className={cn("border", destinationStatusStyles[destination.status])}>
+            {payoutDestinationStatusLabels[destination.status]}
+          </Badge>
+          {!revealed && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs text-white/70 hover:text-white hover:bg-white/10"
+              onClick={() => handleRevealNumber(destination.id)}
+            >
+              <Eye className="h-3 w-3 mr-1" />
+              Reveal
+            </Button>
+          )}
+          {destination.status !== "verified" && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs text-white/80 hover:text-white hover:bg-white/10"
+              onClick={() => handleReviewDestination(payout, true)}
+            >
+              <ShieldCheck className="h-3 w-3 mr-1" />
+              Verify
+            </Button>
+          )}
+          {destination.status !== "rejected" && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs text-white/60 hover:text-white hover:bg-white/10"
+              onClick={() => handleReviewDestination(payout, false)}
+            >
+              <ShieldX className="h-3 w-3 mr-1" />
+              Reject
+            </Button>
+          )}
+        </div>
+        {destination.status === "rejected" && destination.rejection_reason && (
+          <div className="text-xs text-white/50">{destination.rejection_reason}</div>
+        )}
+      </div>
+    )
+  }
+
   const statusBadge = useCallback((status: string) => {
     const entry = statusStyles[status] ?? statusStyles.pending
     return <Badge className={cn("border border-white/20", entry.className)}>{entry.label}</Badge>
@@ -190,6 +302,7 @@ export function AdminPayoutsClient() {
           <TableHeader>
             <TableRow>
               <TableHead className="text-white/80">Creator</TableHead>
+              <TableHead className="text-white/80">Destination</TableHead>
               <TableHead className="text-white/80">Scheduled For</TableHead>
               <TableHead className="text-white/80">Status</TableHead>
               <TableHead className="text-white/80">Points</TableHead>
@@ -211,6 +324,7 @@ export function AdminPayoutsClient() {
               return (
                 <TableRow key={payout.id}>
                   <TableCell className="text-white/80">{userLabel}</TableCell>
+                  <TableCell className="text-white/80">{renderDestination(payout)}</TableCell>
                   <TableCell className="text-white/80">{formatDate(payout.scheduled_for)}</TableCell>
                   <TableCell className="text-white/80">{statusBadge(payout.status)}</TableCell>
                   <TableCell className="text-white/80">{payout.points.toLocaleString()}</TableCell>
@@ -236,6 +350,12 @@ export function AdminPayoutsClient() {
                           variant="ghost"
                           className="text-white/80 hover:text-white hover:bg-white/10 touch-feedback"
                           onClick={() => handleComplete(payout)}
+                          disabled={payout.destination?.status !== "verified"}
+                          title={
+                            payout.destination?.status === "verified"
+                              ? undefined
+                              : "Verify the payout destination before marking this payout paid"
+                          }
                         >
                           <CheckCircle2 className="h-4 w-4 mr-1" />
                           Mark Paid
@@ -259,7 +379,7 @@ export function AdminPayoutsClient() {
             })}
             {payouts.length === 0 && (
               <TableRow>
-                <TableCell colSpan={8} className="text-white/60 text-center py-10">
+                <TableCell colSpan={9} className="text-white/60 text-center py-10">
                   {loading ? "Loading payouts..." : "No payouts found."}
                 </TableCell>
               </TableRow>
@@ -0,0 +1,21 @@
+import { redirect } from "next/navigation"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { AdminReconciliationClient } from "./reconciliation-client"
+
+export default async function AdminReconciliationPage() {
+  const supabase = await createServerSupabaseClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/admin")
+  }
+
+  const { data: me } = await supabase.from("users").select("role").eq("id", user.id).single()
+  if (me?.role !== "admin") {
+    redirect("/")
+  }
+
+  return <AdminReconciliationClient />
+}
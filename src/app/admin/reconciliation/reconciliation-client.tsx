@@ -0,0 +1,293 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { PageHeader } from "@/components/ui/page-header"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { supabase } from "@/lib/supabase"
+import { toast } from "sonner"
+import { RefreshCcw, PlayCircle, CheckCircle2, XCircle, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { LedgerBalance, LedgerDiscrepancy, LedgerDiscrepancyStatus, LedgerReconciliationRun } from "@/types"
+
+type DiscrepancyRow = LedgerDiscrepancy & {
+  user?: {
+    first_name?: string | null
+    last_name?: string | null
+    username?: string | null
+    email?: string | null
+  } | null
+}
+
+const balanceLabels: Record<LedgerBalance, string> = {
+  points: "Points",
+  earnings: "Earnings",
+  locked_earnings: "Locked earnings",
+}
+
+const statusStyles: Record<LedgerDiscrepancyStatus, { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-amber-500/15 text-amber-200 border-amber-500/30" },
+  resolved: { label: "Corrected", className: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30" },
+  dismissed: { label: "Dismissed", className: "bg-white/10 text-white/60 border-white/20" },
+  superseded: { label: "Superseded", className: "bg-white/10 text-white/60 border-white/20" },
+}
+
+const formatDateTime = (value: string | null | undefined) => (value ? new Date(value).toLocaleString() : "—")
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value.toLocaleString()}`
+
+const describeAdjustment = (discrepancy: LedgerDiscrepancy) => {
+  const adjustment = discrepancy.proposed_adjustment
+  if (!adjustment) return "Review payouts by hand"
+  const delta = adjustment.points_delta || adjustment.earnings_points_delta
+  return `Post ${formatSigned(delta)} ${adjustment.points_delta ? "points" : "earnings"} adjustment`
+}
+
+export function AdminReconciliationClient() {
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<LedgerDiscrepancyStatus | "all">("open")
+  const [lastRun, setLastRun] = useState<LedgerReconciliationRun | null>(null)
+  const [discrepancies, setDiscrepancies] = useState<DiscrepancyRow[]>([])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+
+    let query = supabase
+      .from("ledger_discrepancies")
+      .select("*, user:users!ledger_discrepancies_user_id_fkey(first_name, last_name, username, email)")
+      .order("created_at", { ascending: false })
+      .order("balance")
+      .limit(200)
+
+    if (statusFilter !== "all") {
+      query = query.eq("status", statusFilter)
+    }
+
+    const [{ data: runs, error: runsError }, { data, error }] = await Promise.all([
+      supabase.from("ledger_reconciliation_runs").select("*").order("started_at", { ascending: false }).limit(1),
+      query,
+    ])
+
+    if (runsError || error) {
+      toast.error((runsError || error)?.message || "Failed to load reconciliation")
+      setDiscrepancies([])
+    } else {
+      setLastRun(((runs || [])[0] as LedgerReconciliationRun) ?? null)
+      setDiscrepancies(
+        (data || []).map((row: any) => ({
+          ...row,
+          wallet_value: Number(row.wallet_value ?? 0),
+          ledger_value: Number(row.ledger_value ?? 0),
+          difference: Number(row.difference ?? 0),
+        }))
+      )
+    }
+    setLoading(false)
+  }, [statusFilter])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleRun = async () => {
+    setRunning(true)
+    const { data, error } = await supabase.rpc("run_ledger_reconciliation")
+    if (error) {
+      toast.error(error.message)
+    } else {
+      const result = data as { wallets_checked: number; discrepancy_count: number }
+      toast.success(
+        `Checked ${result.wallets_checked.toLocaleString()} wallets, found ${result.discrepancy_count.toLocaleString()} discrepancies`
+      )
+      load()
+    }
+    setRunning(false)
+  }
+
+  const handleApply = async (discrepancy: DiscrepancyRow) => {
+    const note = prompt(`${describeAdjustment(discrepancy)}. Note for the ledger (required):`)
+    if (note === null) return
+    if (!note.trim()) {
+      toast.error("A note is required")
+      return
+    }
+
+    setBusyId(discrepancy.id)
+    const { error } = await supabase.rpc("apply_ledger_discrepancy", {
+      p_discrepancy_id: discrepancy.id,
+      p_note: note.trim(),
+    })
+    if (error) {
+      toast.error(error.message)
+    } else {
+      toast.success("Correction posted")
+      load()
+    }
+    setBusyId(null)
+  }
+
+  const handleDismiss = async (discrepancy: DiscrepancyRow) => {
+    const note = prompt("Why is this being dismissed? (required)")
+    if (note === null) return
+    if (!note.trim()) {
+      toast.error("A note is required")
+      return
+    }
+
+    setBusyId(discrepancy.id)
+    const { error } = await supabase.rpc("dismiss_ledger_discrepancy", {
+      p_discrepancy_id: discrepancy.id,
+      p_note: note.trim(),
+    })
+    if (error) {
+      toast.error(error.message)
+    } else {
+      toast.success("Discrepancy dismissed")
+      load()
+    }
+    setBusyId(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Ledger Reconciliation"
+        subtitle="Wallet balances rebuilt from transactions and the earnings ledger. Mismatches are listed with the correction that would close them."
+      />
+
+      <div className="rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border border-white/20 p-4 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="text-sm text-white/60">Last run</div>
+          {lastRun ? (
+            <div className="text-white">
+              <span className="text-2xl font-semibold">{lastRun.discrepancy_count.toLocaleString()}</span>{" "}
+              <span className="text-white/60">
+                discrepancies in {lastRun.wallets_checked.toLocaleString()} wallets ·{" "}
+                {formatDateTime(lastRun.completed_at ?? lastRun.started_at)}
+                {lastRun.triggered_by ? "" : " (nightly)"}
+              </span>
+            </div>
+          ) : (
+            <div className="text-white/60">{loading ? "Loading..." : "Reconciliation hasn't run yet."}</div>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LedgerDiscrepancyStatus | "all")}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Corrected</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="superseded">Superseded</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={load}
+            variant="ghost"
+            className="text-white/80 hover:text-white hover:bg-white/10 touch-feedback inline-flex items-center gap-2"
+          >
+            <RefreshCcw className={cn("h-4 w-4", loading && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button onClick={handleRun} disabled={running} className="bg-white/10 text-white/80 hover:bg-white/20">
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlayCircle className="h-4 w-4 mr-2" />}
+            Run now
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-white/80">User</TableHead>
+            <TableHead className="text-white/80">Balance</TableHead>
+            <TableHead className="text-white/80 text-right">Wallet</TableHead>
+            <TableHead className="text-white/80 text-right">Ledger</TableHead>
+            <TableHead className="text-white/80 text-right">Difference</TableHead>
+            <TableHead className="text-white/80">Proposed correction</TableHead>
+            <TableHead className="text-white/80">Status</TableHead>
+            <TableHead className="text-white/80 text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {discrepancies.map((discrepancy) => {
+            const userLabel =
+              discrepancy.user?.username ||
+              (discrepancy.user?.first_name && discrepancy.user?.last_name
+                ? `${discrepancy.user.first_name} ${discrepancy.user.last_name}`
+                : discrepancy.user?.email) ||
+              discrepancy.user_id
+            const status = statusStyles[discrepancy.status]
+
+            return (
+              <TableRow key={discrepancy.id}>
+                <TableCell className="text-white/80">
+                  <div>{userLabel}</div>
+                  <div className="text-xs text-white/50">{formatDateTime(discrepancy.created_at)}</div>
+                </TableCell>
+                <TableCell className="text-white/80">{balanceLabels[discrepancy.balance]}</TableCell>
+                <TableCell className="text-white/80 text-right">{discrepancy.wallet_value.toLocaleString()}</TableCell>
+                <TableCell className="text-white/80 text-right">{discrepancy.ledger_value.toLocaleString()}</TableCell>
+                <TableCell
+                  className={cn("text-right font-medium", discrepancy.difference > 0 ? "text-amber-200" : "text-rose-200")}
+                >
+                  {formatSigned(discrepancy.difference)}
+                </TableCell>
+                <TableCell className="text-white/80">
+                  <div>{describeAdjustment(discrepancy)}</div>
+                  {discrepancy.resolution_note && (
+                    <div className="text-xs text-white/50">{discrepancy.resolution_note}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={cn("border", status.className)}>{status.label}</Badge>
+                </TableCell>
+                <TableCell className="text-white/80">
+                  {discrepancy.status === "open" && (
+                    <div className="flex items-center justify-end gap-2">
+                      {discrepancy.proposed_adjustment && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-white/80 hover:text-white hover:bg-white/10 touch-feedback"
+                          disabled={busyId === discrepancy.id}
+                          onClick={() => handleApply(discrepancy)}
+                        >
+                          <CheckCircle2 className="h-4 w-4 mr-1" />
+                          Apply
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-white/60 hover:text-white hover:bg-white/10 touch-feedback"
+                        disabled={busyId === discrepancy.id}
+                        onClick={() => handleDismiss(discrepancy)}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            )
+          })}
+          {discrepancies.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={8} className="text-white/60 text-center py-10">
+                {loading ? "Loading discrepancies..." : "No discrepancies found."}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
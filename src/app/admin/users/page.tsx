@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from "react"
 import { useAuth } from "@/components/auth-provider"
 import { useRouter } from "next/navigation"
-import { Plus, Edit, Trash2, Users, MoreVertical, Loader2, Search } from "lucide-react"
+import { Plus, Edit, Trash2, Users, MoreVertical, Loader2, Search, Coins, CheckCircle2, XCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -14,9 +14,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { InputGroup, InputGroupAddon, InputGroupInput } from "@/components/ui/input-group"
+import { WalletAdjustmentDialog } from "@/components/wallet-adjustment-dialog"
 import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
-import type { User } from "@/types"
+import type { User, WalletAdjustment } from "@/types"
+
+type PendingAdjustment = WalletAdjustment & {
+  user?: Pick<User, "email" | "username" | "first_name" | "last_name"> | null
+  requester?: Pick<User, "email" | "username" | "first_name" | "last_name"> | null
+}
+
+const displayName = (person?: Pick<User, "email" | "username" | "first_name" | "last_name"> | null) =>
+  person
+    ? person.first_name && person.last_name
+      ? `${person.first_name} ${person.last_name}`
+      : person.username || person.email
+    : "Unknown"
 
 export default function UsersPage() {
   const { user, userProfile, isLoading } = useAuth()
@@ -29,6 +42,9 @@ export default function UsersPage() {
   const [editingUser, setEditingUser] = useState<User | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
+  const [adjustingUser, setAdjustingUser] = useState<User | null>(null)
+  const [pendingAdjustments, setPendingAdjustments] = useState<PendingAdjustment[]>([])
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
   
   // Form state
   const [formData, setFormData] = useState({
@@ -49,6 +65,7 @@ export default function UsersPage() {
   useEffect(() => {
     if (userProfile?.role === 'admin') {
       fetchUsers()
+      fetchPendingAdjustments()
     }
   }, [userProfile])
 
@@ -69,6 +86,52 @@ export default function UsersPage() {
     }
   }
 
+  const fetchPendingAdjustments = async () => {
+    const { data, error } = await supabase
+      .from('wallet_adjustments')
+      .select(`
+        *,
+        user:users!wallet_adjustments_user_id_fkey(email, username, first_name, last_name),
+        requester:users!wallet_adjustments_requested_by_fkey(email, username, first_name, last_name)
+      `)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching pending adjustments:', error)
+      return
+    }
+    setPendingAdjustments((data || []) as PendingAdjustment[])
+  }
+
+  const handleReviewAdjustment = async (adjustment: PendingAdjustment, approve: boolean) => {
+    let note: string | null = null
+    if (approve) {
+      if (!confirm(`Apply ${adjustment.points > 0 ? '+' : ''}${adjustment.points.toLocaleString()} ${adjustment.balance} to ${displayName(adjustment.user)}?`)) return
+    } else {
+      note = prompt('Why is this adjustment being rejected? (required)')
+      if (note === null) return
+      if (!note.trim()) {
+        toast.error('A reason is required')
+        return
+      }
+    }
+
+    setReviewingId(adjustment.id)
+    const { error } = await supabase.rpc('review_wallet_adjustment', {
+      p_adjustment_id: adjustment.id,
+      p_approve: approve,
+      p_note: note?.trim() || null,
+    })
+    if (error) {
+      toast.error(error.message)
+    } else {
+      toast.success(approve ? 'Adjustment approved and applied' : 'Adjustment rejected')
+      fetchPendingAdjustments()
+    }
+    setReviewingId(null)
+  }
+
   // Filter users based on search
   useEffect(() => {
     if (!searchQuery.trim()) {
@@ -285,6 +348,60 @@ export default function UsersPage() {
           </Dialog>
         </div>
 
+        {/* Adjustments waiting for a second admin */}
+        {pendingAdjustments.length > 0 && (
+          <div className="rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border border-white/20 p-4 space-y-3">
+            <div>
+              <h2 className="text-white font-medium">Adjustments awaiting approval</h2>
+              <p className="text-white/60 text-sm">Another admin has to approve adjustments over the threshold before they are applied.</p>
+            </div>
+            {pendingAdjustments.map((adjustment) => {
+              const ownRequest = adjustment.requested_by === user?.id
+              return (
+                <div
+                  key={adjustment.id}
+                  className="flex flex-col gap-3 border-t border-white/10 pt-3 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <div className="text-white">
+                      <span className={adjustment.points > 0 ? "text-emerald-200" : "text-rose-200"}>
+                        {adjustment.points > 0 ? '+' : ''}{adjustment.points.toLocaleString()}
+                      </span>{" "}
+                      {adjustment.balance === 'points' ? 'points' : 'earnings'} for {displayName(adjustment.user)}
+                    </div>
+                    <div className="text-white/60 text-sm break-words">{adjustment.reason}</div>
+                    <div className="text-white/40 text-xs">
+                      Requested by {ownRequest ? 'you' : displayName(adjustment.requester)} · {new Date(adjustment.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      className="bg-white/10 text-white/80 hover:bg-white/20"
+                      disabled={ownRequest || reviewingId === adjustment.id}
+                      title={ownRequest ? 'Another admin has to approve your adjustment' : undefined}
+                      onClick={() => handleReviewAdjustment(adjustment, true)}
+                    >
+                      <CheckCircle2 className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-white/60 hover:text-white hover:bg-white/10"
+                      disabled={ownRequest || reviewingId === adjustment.id}
+                      onClick={() => handleReviewAdjustment(adjustment, false)}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
         {/* Search */}
         <div className="flex flex-col sm:flex-row gap-4">
           <div className="flex-1">
@@ -343,6 +460,10 @@ export default function UsersPage() {
                               <Edit className="h-4 w-4 mr-2" />
                               Edit User
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setAdjustingUser(user)}>
+                              <Coins className="h-4 w-4 mr-2" />
+                              Adjust Balance
+                            </DropdownMenuItem>
                             <DropdownMenuItem 
                               onClick={() => handleDelete(user.id)}
                               className="text-red-400 focus:text-red-400 focus:bg-red-500/10"
@@ -372,6 +493,10 @@ export default function UsersPage() {
                       <Edit className="h-4 w-4 mr-2" />
                       Edit User
                     </ContextMenuItem>
+                    <ContextMenuItem onClick={() => setAdjustingUser(user)}>
+                      <Coins className="h-4 w-4 mr-2" />
+                      Adjust Balance
+                    </ContextMenuItem>
                     <ContextMenuItem 
                       onClick={() => handleDelete(user.id)}
                       className="text-red-400 focus:text-red-400 focus:bg-red-500/10"
@@ -420,6 +545,10 @@ export default function UsersPage() {
                                   <Edit className="h-4 w-4 mr-2" />
                                   Edit User
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setAdjustingUser(user)}>
+                                  <Coins className="h-4 w-4 mr-2" />
+                                  Adjust Balance
+                                </DropdownMenuItem>
                                 <DropdownMenuItem 
                                   onClick={() => handleDelete(user.id)}
                                   className="text-red-400 focus:text-red-400 focus:bg-red-500/10"
@@ -437,6 +566,10 @@ export default function UsersPage() {
                           <Edit className="h-4 w-4 mr-2" />
                           Edit User
                         </ContextMenuItem>
+                        <ContextMenuItem onClick={() => setAdjustingUser(user)}>
+                          <Coins className="h-4 w-4 mr-2" />
+                          Adjust Balance
+                        </ContextMenuItem>
                         <ContextMenuItem 
                           onClick={() => handleDelete(user.id)}
                           className="text-red-400 focus:text-red-400 focus:bg-red-500/10"
@@ -453,6 +586,19 @@ export default function UsersPage() {
           </>
         )}
       </div>
+
+      {adjustingUser && (
+        <WalletAdjustmentDialog
+          open={!!adjustingUser}
+          onOpenChange={(open) => {
+            if (!open) setAdjustingUser(null)
+          }}
+          user={adjustingUser}
+          onSubmitted={(status) => {
+            if (status === 'pending') fetchPendingAdjustments()
+          }}
+        />
+      )}
     </div>
   )
 }
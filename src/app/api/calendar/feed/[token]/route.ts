@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+import {
+  buildEventsCalendar,
+  EVENT_CALENDAR_FEED_LOOKBACK_DAYS,
+  type CalendarEventInput,
+} from "@/lib/ical"
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const FEED_EVENT_LIMIT = 500
+
+const EVENT_SELECT = "id, description, scheduled_at, started_at, ended_at, status, created_at, updated_at, community:communities(name, slug)"
+
+/**
+ * Subscribable calendar feed: events in the user's communities and any they're
+ * registered for. Calendar apps fetch it without a session, so it's read with the
+ * service role and the token in the URL identifies the user.
+ * Cancelled and rescheduled events stay in the feed with STATUS and SEQUENCE updated,
+ * so subscribed calendars change them instead of keeping a stale copy.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> | { token: string } },
+) {
+  const params = await Promise.resolve(context.params)
+  const token = params?.token?.trim().replace(/\.ics$/, "")
+
+  if (!token || !/^[0-9a-f]{32,}$/.test(token)) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 })
+  }
+
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is required" }, { status: 500 })
+  }
+
+  try {
+    const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    const { data: feed, error: feedError } = await adminClient
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle()
+
+    if (feedError) throw feedError
+
+    if (!feed) {
+      return NextResponse.json({ error: "Calendar not found" }, { status: 404 })
+    }
+
+    const since = new Date(Date.now() - EVENT_CALENDAR_FEED_LOOKBACK_DAYS * MS_PER_DAY).toISOString()
+
+    // Same communities can_view_community_content() allows: owned, or a membership that hasn't lapsed
+    const [ownedResult, membershipsResult, registrationsResult] = await Promise.all([
+      adminClient.from("communities").select("id").eq("owner_id", feed.user_id),
+      adminClient
+        .from("community_members")
+        .select("community_id")
+        .eq("user_id", feed.user_id)
+        .neq("billing_status", "lapsed"),
+      adminClient
+        .from("event_registrations")
+        .select("event_id")
+        .eq("user_id", feed.user_id)
+        .is("cancelled_at", null),
+    ])
+
+    if (ownedResult.error) throw ownedResult.error
+    if (membershipsResult.error) throw membershipsResult.error
+    if (registrationsResult.error) throw registrationsResult.error
+
+    const communityIds = Array.from(
+      new Set([
+        ...(ownedResult.data ?? []).map((community) => community.id),
+        ...(membershipsResult.data ?? []).map((membership) => membership.community_id),
+      ])
+    )
+    const registeredEventIds = (registrationsResult.data ?? []).map((registration) => registration.event_id)
+
+    const [communityEventsResult, registeredEventsResult] = await Promise.all([
+      communityIds.length > 0
+        ? adminClient
+            .from("community_events")
+            .select(EVENT_SELECT)
+            .in("community_id", communityIds)
+            .gte("scheduled_at", since)
+            .order("scheduled_at", { ascending: true })
+            .limit(FEED_EVENT_LIMIT)
+        : Promise.resolve({ data: [], error: null }),
+      registeredEventIds.length > 0
+        ? adminClient
+            .from("community_events")
+            .select(EVENT_SELECT)
+            .in("id", registeredEventIds)
+            .gte("scheduled_at", since)
+        : Promise.resolve({ data: [], error: null }),
+    ])
+
+    if (communityEventsResult.error) throw communityEventsResult.error
+    if (registeredEventsResult.error) throw registeredEventsResult.error
+
+    const eventsById = new Map<string, CalendarEventInput>()
+    for (const event of [...(communityEventsResult.data ?? []), ...(registeredEventsResult.data ?? [])] as any[]) {
+      const community = Array.isArray(event.community) ? event.community[0] : event.community
+      eventsById.set(event.id, { ...event, community: community ?? null })
+    }
+
+    await adminClient
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("user_id", feed.user_id)
+
+    const calendar = buildEventsCalendar(Array.from(eventsById.values()), {
+      name: "Community events",
+      baseUrl: new URL(request.url).origin,
+    })
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="events.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    })
+  } catch (error) {
+    console.error("Error in GET /api/calendar/feed/[token]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
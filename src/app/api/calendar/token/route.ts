@@ -0,0 +1,73 @@
+import { randomBytes } from "crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-server"
+
+function feedUrl(request: NextRequest, token: string) {
+  return `${new URL(request.url).origin}/api/calendar/feed/${token}.ics`
+}
+
+function newToken() {
+  return randomBytes(24).toString("hex")
+}
+
+/**
+ * The user's calendar feed URL, creating the token the first time
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { user, supabase } = authResult
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("calendar_feed_tokens")
+      .select("token")
+      .eq("user_id", user.id)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+
+    if (existing) {
+      return NextResponse.json({ url: feedUrl(request, existing.token) })
+    }
+
+    const token = newToken()
+    const { error: insertError } = await supabase
+      .from("calendar_feed_tokens")
+      .insert({ user_id: user.id, token })
+
+    if (insertError) throw insertError
+
+    return NextResponse.json({ url: feedUrl(request, token) })
+  } catch (error) {
+    console.error("Error in GET /api/calendar/token:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * Replaces the token, so the old feed URL stops working
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { user, supabase } = authResult
+
+    const token = newToken()
+    const { error } = await supabase
+      .from("calendar_feed_tokens")
+      .upsert({ user_id: user.id, token, updated_at: new Date().toISOString() }, { onConflict: "user_id" })
+
+    if (error) throw error
+
+    return NextResponse.json({ url: feedUrl(request, token) })
+  } catch (error) {
+    console.error("Error in POST /api/calendar/token:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireCommunityPermission } from '@/lib/auth-server'
+import { isCommunityPermission } from '@/lib/community-permissions'
+
+/**
+ * Update a member's role and moderator permissions (owner only)
+ * Body: { role: 'member' | 'moderator', permissions?: CommunityPermission[] }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ communityId: string; memberId: string }> }
+) {
+  try {
+    const { communityId, memberId } = await params
+
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { user, supabase } = authResult
+
+    const access = await requireCommunityPermission(
+      supabase,
+      communityId,
+      user.id,
+      'manage_members',
+      'Only community owners can change member roles'
+    )
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const body = await request.json()
+    const { role, permissions } = body
+
+    if (role !== 'member' && role !== 'moderator') {
+      return NextResponse.json(
+        { error: 'Role must be member or moderator' },
+        { status: 400 }
+      )
+    }
+
+    if (permissions !== undefined && (!Array.isArray(permissions) || !permissions.every(isCommunityPermission))) {
+      return NextResponse.json(
+        { error: 'Invalid permissions' },
+        { status: 400 }
+      )
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from('community_members')
+      .select('id, user_id, role')
+      .eq('id', memberId)
+      .eq('community_id', communityId)
+      .maybeSingle()
+
+    if (memberError || !member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    if (member.role === 'owner' || member.user_id === access.ownerId) {
+      return NextResponse.json(
+        { error: "The owner's role can't be changed" },
+        { status: 400 }
+      )
+    }
+
+    // Plain members never keep moderator permissions around
+    const nextPermissions = role === 'moderator' ? Array.from(new Set(permissions ?? [])) : []
+
+    const { data: updatedMember, error: updateError } = await supabase
+      .from('community_members')
+      .update({ role, permissions: nextPermissions })
+      .eq('id', memberId)
+      .select('id, role, permissions')
+      .single()
+
+    if (updateError) {
+      console.error('Error updating member role:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update member role' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ member: updatedMember })
+  } catch (error) {
+    console.error('Error in PATCH /api/communities/[communityId]/members/[memberId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
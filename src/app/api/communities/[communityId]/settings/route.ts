@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { requireCommunityPermission } from '@/lib/auth-server'
 
 export async function PATCH(
   request: NextRequest,
@@ -22,25 +23,16 @@ export async function PATCH(
     const body = await request.json()
     const { name, description, logo_url, banner_url } = body
 
-    // Verify user is community owner
-    const { data: community, error: communityError } = await supabase
-      .from('communities')
-      .select('owner_id')
-      .eq('id', communityId)
-      .single()
-
-    if (communityError) {
-      return NextResponse.json(
-        { error: 'Community not found' },
-        { status: 404 }
-      )
-    }
-
-    if (community.owner_id !== user.id) {
-      return NextResponse.json(
-        { error: 'Only community owners can update settings' },
-        { status: 403 }
-      )
+    // Settings stay owner-only
+    const access = await requireCommunityPermission(
+      supabase,
+      communityId,
+      user.id,
+      'manage_settings',
+      'Only community owners can update settings'
+    )
+    if (access instanceof NextResponse) {
+      return access
     }
 
     // Prepare update data
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+import { emailTemplates, sendEmail } from "@/lib/email"
+
+const CRON_HEADER = "x-cron-secret"
+const GRACE_PERIOD_DAYS = 3
+
+type RenewalStatus = "renewed" | "cancelled" | "past_due" | "lapsed" | "skipped" | "error"
+
+export async function POST(request: Request) {
+  const configuredSecret = env.CRON_SECRET
+  if (!configuredSecret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 500 })
+  }
+
+  const providedSecret =
+    request.headers.get(CRON_HEADER) ||
+    request.headers.get("authorization")?.replace("Bearer ", "")
+
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is required" }, { status: 500 })
+  }
+
+  const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const nowIso = new Date().toISOString()
+
+  // Lapsed memberships are only renewed when the member does it themselves from the feed
+  const { data: members, error: membersError } = await adminClient
+    .from("community_members")
+    .select(`
+      id,
+      user_id,
+      billing_status,
+      community:communities(name, slug),
+      user:users(email, first_name, last_name, username)
+    `)
+    .in("billing_cycle", ["monthly", "annual"])
+    .neq("role", "owner")
+    .neq("billing_status", "lapsed")
+    .lte("current_period_end", nowIso)
+    .order("current_period_end", { ascending: true })
+
+  if (membersError) {
+    return NextResponse.json({ error: membersError.message }, { status: 500 })
+  }
+
+  const results: { userId: string; memberId: string; status: RenewalStatus; reason?: string }[] = []
+
+  for (const member of members ?? []) {
+    const userId = member.user_id
+    const memberId = member.id
+
+    try {
+      const { data, error } = await adminClient.rpc("renew_community_membership", {
+        p_member_id: memberId,
+        p_grace_period_days: GRACE_PERIOD_DAYS,
+      })
+
+      if (error) {
+        results.push({ userId, memberId, status: "error", reason: error.message })
+        continue
+      }
+
+      const result = data as {
+        status: Exclude<RenewalStatus, "error">
+        reason?: string
+        points_required?: number
+        grace_period_ends_at?: string
+      }
+
+      // Email the member the first time renewal fails and again when the membership lapses
+      const statusChanged = result.status !== member.billing_status
+      if ((result.status === "past_due" || result.status === "lapsed") && statusChanged) {
+        const community = member.community as { name?: string; slug?: string } | null
+        const user = member.user as { email?: string; first_name?: string | null; last_name?: string | null; username?: string | null } | null
+
+        if (user?.email && community?.slug && result.grace_period_ends_at) {
+          const displayName =
+            (user.first_name && user.last_name && `${user.first_name} ${user.last_name}`) ||
+            user.username ||
+            "there"
+
+          try {
+            const template = emailTemplates.communityMembershipRenewalFailed(
+              displayName,
+              community.name ?? community.slug,
+              community.slug,
+              Number(result.points_required ?? 0),
+              result.grace_period_ends_at,
+              result.status === "lapsed"
+            )
+            await sendEmail({
+              to: user.email,
+              subject: template.subject,
+              html: template.html,
+            })
+          } catch (emailError) {
+            console.error("Failed to send membership renewal email:", emailError)
+          }
+        }
+      }
+
+      results.push({ userId, memberId, status: result.status, reason: result.reason })
+    } catch (err: any) {
+      results.push({ userId, memberId, status: "error", reason: err?.message ?? "unknown_error" })
+    }
+  }
+
+  const summary = results.reduce(
+    (acc, item) => {
+      acc[item.status] = (acc[item.status] ?? 0) + 1
+      return acc
+    },
+    {} as Record<string, number>
+  )
+
+  return NextResponse.json({ summary, results })
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+
+const CRON_HEADER = "x-cron-secret"
+const DRAFT_TTL_DAYS = 30
+const STORAGE_BATCH_SIZE = 100
+
+export async function POST(request: Request) {
+  const configuredSecret = env.CRON_SECRET
+  if (!configuredSecret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 500 })
+  }
+
+  const providedSecret =
+    request.headers.get(CRON_HEADER) ||
+    request.headers.get("authorization")?.replace("Bearer ", "")
+
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is required" }, { status: 500 })
+  }
+
+  const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const cutoff = new Date(Date.now() - DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  // Expired drafts go first so their files show up as orphans below
+  const { data: expiredDrafts, error: expireError } = await adminClient
+    .from("post_drafts")
+    .delete()
+    .lt("updated_at", cutoff)
+    .select("id")
+
+  if (expireError) {
+    return NextResponse.json({ error: expireError.message }, { status: 500 })
+  }
+
+  const { data: orphans, error: orphansError } = await adminClient.rpc("get_orphaned_draft_media")
+
+  if (orphansError) {
+    return NextResponse.json({ error: orphansError.message }, { status: 500 })
+  }
+
+  const paths = ((orphans ?? []) as { storage_path: string }[]).map((row) => row.storage_path)
+  const results: { batch: number; status: "removed" | "error"; count: number; reason?: string }[] = []
+
+  // Files have to go through the Storage API; deleting storage.objects rows leaves the blobs behind
+  for (let i = 0; i < paths.length; i += STORAGE_BATCH_SIZE) {
+    const batch = paths.slice(i, i + STORAGE_BATCH_SIZE)
+    const { error } = await adminClient.storage.from("post-media").remove(batch)
+
+    results.push({
+      batch: i / STORAGE_BATCH_SIZE,
+      status: error ? "error" : "removed",
+      count: batch.length,
+      reason: error?.message,
+    })
+  }
+
+  const summary = {
+    expiredDrafts: expiredDrafts?.length ?? 0,
+    orphanedFiles: paths.length,
+    removedFiles: results.filter((r) => r.status === "removed").reduce((sum, r) => sum + r.count, 0),
+  }
+
+  return NextResponse.json({ summary, results })
+}
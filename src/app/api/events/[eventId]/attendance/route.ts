@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-server"
+
+const ATTENDANCE_ACTIONS = ["join", "leave"] as const
+
+/**
+ * The stream page reports joins and leaves here. POST so a leave can go out
+ * with navigator.sendBeacon while the page unloads.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ eventId: string }> | { eventId: string } },
+) {
+  const params = await Promise.resolve(context.params)
+  const eventId = params?.eventId?.trim()
+
+  if (!eventId) {
+    return NextResponse.json({ error: "Event ID is required" }, { status: 400 })
+  }
+
+  let body: { action?: string; sessionId?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+
+  const action = ATTENDANCE_ACTIONS.find((value) => value === body?.action)
+  const sessionId = typeof body?.sessionId === "string" ? body.sessionId.trim() : ""
+
+  if (!action || !sessionId) {
+    return NextResponse.json({ error: "action and sessionId are required" }, { status: 400 })
+  }
+
+  try {
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { supabase } = authResult
+
+    const { error } = await supabase.rpc("record_event_attendance", {
+      p_event_id: eventId,
+      p_session_id: sessionId,
+      p_action: action,
+    })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error in POST /api/events/[eventId]/attendance:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
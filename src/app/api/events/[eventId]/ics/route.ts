@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-server"
+import { buildEventsCalendar, type CalendarEventInput } from "@/lib/ical"
+
+/**
+ * Single event as an .ics download. Read with the user's session, so RLS decides
+ * which events they can export.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ eventId: string }> | { eventId: string } },
+) {
+  const params = await Promise.resolve(context.params)
+  const eventId = params?.eventId?.trim()
+
+  if (!eventId) {
+    return NextResponse.json({ error: "Event ID is required" }, { status: 400 })
+  }
+
+  try {
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { supabase } = authResult
+
+    const { data: event, error } = await supabase
+      .from("community_events")
+      .select("id, description, scheduled_at, started_at, ended_at, status, created_at, updated_at, community:communities(name, slug)")
+      .eq("id", eventId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 })
+    }
+
+    const community = Array.isArray(event.community) ? event.community[0] : event.community
+    const calendar = buildEventsCalendar([{ ...event, community: community ?? null } as CalendarEventInput], {
+      name: community?.name ?? "Community event",
+      baseUrl: new URL(request.url).origin,
+    })
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="event-${event.id}.ics"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error in GET /api/events/[eventId]/ics:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
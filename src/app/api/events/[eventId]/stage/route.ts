@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-server"
+import { getCallParticipantIds, syncStageCallPermissions } from "@/lib/event-stage-server"
+import type { EventStageRole } from "@/lib/event-stage"
+
+type StageAction = "promote" | "demote" | "audience_mode"
+
+/**
+ * Speaker and audience-mode changes. The database decides who may do what;
+ * this route then applies the result to GetStream call permissions.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ eventId: string }> | { eventId: string } },
+) {
+  const params = await Promise.resolve(context.params)
+  const eventId = params?.eventId?.trim()
+
+  if (!eventId) {
+    return NextResponse.json({ error: "Event ID is required" }, { status: 400 })
+  }
+
+  let body: { action?: StageAction; userId?: string; enabled?: boolean }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+
+  try {
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { supabase } = authResult
+
+    if (body.action === "promote" || body.action === "demote") {
+      if (!body.userId) {
+        return NextResponse.json({ error: "userId is required" }, { status: 400 })
+      }
+
+      const { error } = await supabase.rpc("set_event_speaker", {
+        p_event_id: eventId,
+        p_user_id: body.userId,
+        p_is_speaker: body.action === "promote",
+      })
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    } else if (body.action === "audience_mode") {
+      const { error } = await supabase.rpc("set_event_audience_mode", {
+        p_event_id: eventId,
+        p_enabled: body.enabled === true,
+      })
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    } else {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 })
+    }
+
+    const { data: event, error: eventError } = await supabase
+      .from("community_events")
+      .select("id, stream_call_id, status, audience_mode")
+      .eq("id", eventId)
+      .single()
+
+    if (eventError) throw eventError
+
+    // Before go-live there's no call yet; the stream token applies roles on join
+    if (event.status !== "live") {
+      return NextResponse.json({ success: true })
+    }
+
+    const callId = event.stream_call_id || event.id
+    let updates: { user_id: string; role: EventStageRole }[]
+
+    if (body.action === "audience_mode") {
+      const userIds = await getCallParticipantIds(callId)
+      if (userIds.length === 0) {
+        return NextResponse.json({ success: true })
+      }
+
+      const { data: roles, error: rolesError } = await supabase.rpc("get_event_stage_roles", {
+        p_event_id: eventId,
+        p_user_ids: userIds,
+      })
+
+      if (rolesError) throw rolesError
+      updates = (roles || []) as { user_id: string; role: EventStageRole }[]
+    } else {
+      // Demoted speakers go back to the audience, or to a normal participant if audience mode is off
+      const role: EventStageRole = body.action === "promote" ? "speaker" : event.audience_mode ? "audience" : "participant"
+      updates = [{ user_id: body.userId!, role }]
+    }
+
+    const results = await Promise.allSettled(
+      updates.map((update) => syncStageCallPermissions(callId, update.user_id, update.role))
+    )
+
+    const failed = results.filter((result) => result.status === "rejected")
+    if (failed.length > 0) {
+      console.error("Error syncing stage permissions:", failed.map((result) => (result as PromiseRejectedResult).reason))
+      return NextResponse.json(
+        { error: "Saved, but the call permissions couldn't be updated for everyone. Try again." },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error in POST /api/events/[eventId]/stage:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
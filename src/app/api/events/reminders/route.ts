@@ -0,0 +1,316 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+import { emailTemplates, sendEmail } from "@/lib/email"
+import { deliverPushNotification } from "@/lib/push-notifications-delivery"
+import {
+  DEFAULT_EVENT_REMINDER_OFFSETS_MINUTES,
+  EVENT_LIVE_REMINDER,
+  EVENT_LIVE_REMINDER_WINDOW_MINUTES,
+  formatTimeUntilEvent,
+  getDueEventReminder,
+} from "@/lib/event-reminders"
+
+const CRON_HEADER = "x-cron-secret"
+const MS_PER_MINUTE = 60_000
+const BODY_MAX_LENGTH = 120
+
+const EVENT_SELECT = `
+  id,
+  description,
+  scheduled_at,
+  started_at,
+  community:communities(name, slug),
+  registrations:event_registrations(id, user_id, registered_at, joined_at, cancelled_at)
+`
+
+type ReminderEvent = {
+  id: string
+  description: string | null
+  scheduled_at: string
+  started_at: string | null
+  community: { name: string; slug: string } | { name: string; slug: string }[] | null
+  registrations: {
+    id: string
+    user_id: string
+    registered_at: string
+    joined_at: string | null
+    cancelled_at: string | null
+  }[] | null
+}
+
+const plainText = (html: string | null) => (html ?? "").replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim()
+
+export async function POST(request: Request) {
+  const configuredSecret = env.CRON_SECRET
+  if (!configuredSecret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 500 })
+  }
+
+  const providedSecret =
+    request.headers.get(CRON_HEADER) ||
+    request.headers.get("authorization")?.replace("Bearer ", "")
+
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is required" }, { status: 500 })
+  }
+
+  const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const now = new Date()
+  // Email is one channel among three, so a missing key only skips email
+  const canEmail = !!env.RESEND_API_KEY
+
+  const { data: settings, error: settingsError } = await adminClient
+    .from("platform_settings")
+    .select("event_reminder_offsets_minutes, event_live_reminders_enabled")
+    .eq("id", 1)
+    .maybeSingle()
+
+  if (settingsError) {
+    return NextResponse.json({ error: settingsError.message }, { status: 500 })
+  }
+
+  const configuredOffsets = ((settings?.event_reminder_offsets_minutes ?? []) as number[]).filter(
+    (offset) => Number.isFinite(offset) && offset > 0
+  )
+  const offsets = configuredOffsets.length > 0 ? configuredOffsets : DEFAULT_EVENT_REMINDER_OFFSETS_MINUTES
+  const liveRemindersEnabled = settings?.event_live_reminders_enabled ?? true
+
+  const { data: upcomingEvents, error: upcomingError } = await adminClient
+    .from("community_events")
+    .select(EVENT_SELECT)
+    .eq("status", "scheduled")
+    .gt("scheduled_at", now.toISOString())
+    .lte("scheduled_at", new Date(now.getTime() + Math.max(...offsets) * MS_PER_MINUTE).toISOString())
+
+  if (upcomingError) {
+    return NextResponse.json({ error: upcomingError.message }, { status: 500 })
+  }
+
+  let liveEvents: ReminderEvent[] = []
+  if (liveRemindersEnabled) {
+    const { data, error: liveError } = await adminClient
+      .from("community_events")
+      .select(EVENT_SELECT)
+      .eq("status", "live")
+      .gte("started_at", new Date(now.getTime() - EVENT_LIVE_REMINDER_WINDOW_MINUTES * MS_PER_MINUTE).toISOString())
+
+    if (liveError) {
+      return NextResponse.json({ error: liveError.message }, { status: 500 })
+    }
+    liveEvents = (data ?? []) as ReminderEvent[]
+  }
+
+  const results: {
+    registrationId: string
+    eventId: string
+    reminder?: string
+    status: "sent" | "skipped" | "error"
+    reason?: string
+    channels?: string[]
+  }[] = []
+
+  // Work out which reminder, if any, each active registration is due
+  const candidates: { event: ReminderEvent; registration: NonNullable<ReminderEvent["registrations"]>[number]; reminder: string }[] = []
+
+  for (const event of (upcomingEvents ?? []) as ReminderEvent[]) {
+    for (const registration of event.registrations ?? []) {
+      if (registration.cancelled_at) {
+        results.push({ registrationId: registration.id, eventId: event.id, status: "skipped", reason: "cancelled" })
+        continue
+      }
+
+      const due = getDueEventReminder(new Date(event.scheduled_at), new Date(registration.registered_at), offsets, now)
+      if (due === null) {
+        results.push({ registrationId: registration.id, eventId: event.id, status: "skipped", reason: "not_due" })
+        continue
+      }
+
+      candidates.push({ event, registration, reminder: String(due) })
+    }
+  }
+
+  for (const event of liveEvents) {
+    for (const registration of event.registrations ?? []) {
+      if (registration.cancelled_at) {
+        results.push({ registrationId: registration.id, eventId: event.id, status: "skipped", reason: "cancelled" })
+        continue
+      }
+
+      if (registration.joined_at) {
+        results.push({ registrationId: registration.id, eventId: event.id, status: "skipped", reason: "already_joined" })
+        continue
+      }
+
+      candidates.push({ event, registration, reminder: EVENT_LIVE_REMINDER })
+    }
+  }
+
+  const userIds = Array.from(new Set(candidates.map((candidate) => candidate.registration.user_id)))
+  const usersById = new Map<string, { email?: string; first_name?: string | null; last_name?: string | null; username?: string | null }>()
+
+  if (userIds.length > 0) {
+    const { data: users, error: usersError } = await adminClient
+      .from("users")
+      .select("id, email, first_name, last_name, username")
+      .in("id", userIds)
+
+    if (usersError) {
+      return NextResponse.json({ error: usersError.message }, { status: 500 })
+    }
+
+    users?.forEach((user) => usersById.set(user.id, user))
+  }
+
+  for (const { event, registration, reminder } of candidates) {
+    const base = { registrationId: registration.id, eventId: event.id, reminder }
+
+    // Claim the reminder first so overlapping runs can't both send it
+    const { data: claimed, error: claimError } = await adminClient
+      .from("event_reminder_deliveries")
+      .upsert({ registration_id: registration.id, reminder }, { onConflict: "registration_id,reminder", ignoreDuplicates: true })
+      .select("registration_id")
+
+    if (claimError) {
+      results.push({ ...base, status: "error", reason: claimError.message })
+      continue
+    }
+
+    if (!claimed || claimed.length === 0) {
+      results.push({ ...base, status: "skipped", reason: "already_sent" })
+      continue
+    }
+
+    const community = Array.isArray(event.community) ? event.community[0] : event.community
+    const isLive = reminder === EVENT_LIVE_REMINDER
+    const communityName = community?.name ?? "Your community"
+    const actionUrl = community?.slug
+      ? isLive ? `/${community.slug}/events/${event.id}/stream` : `/${community.slug}/events`
+      : "/"
+    const summary = plainText(event.description)
+    const title = isLive
+      ? `${communityName} is live now`
+      : `${communityName} event starts ${formatTimeUntilEvent(new Date(event.scheduled_at), now)}`
+    const body = summary
+      ? summary.length > BODY_MAX_LENGTH ? `${summary.slice(0, BODY_MAX_LENGTH - 3)}...` : summary
+      : isLive ? "Join now from the events page" : "You're registered for this event"
+
+    const { data: notificationId, error: notificationError } = await adminClient.rpc("create_notification", {
+      p_user_id: registration.user_id,
+      p_type: "event_reminder",
+      p_title: title,
+      p_body: body,
+      p_action_url: actionUrl,
+      p_metadata: { event_id: event.id, registration_id: registration.id, reminder },
+    })
+
+    if (notificationError) {
+      // Release the claim so the next run retries
+      await adminClient
+        .from("event_reminder_deliveries")
+        .delete()
+        .eq("registration_id", registration.id)
+        .eq("reminder", reminder)
+
+      results.push({ ...base, status: "error", reason: notificationError.message })
+      continue
+    }
+
+    if (!notificationId) {
+      // Every channel is off for event reminders
+      await adminClient
+        .from("event_reminder_deliveries")
+        .update({ status: "skipped" })
+        .eq("registration_id", registration.id)
+        .eq("reminder", reminder)
+
+      results.push({ ...base, status: "skipped", reason: "notifications_off" })
+      continue
+    }
+
+    await adminClient
+      .from("event_reminder_deliveries")
+      .update({ notification_id: notificationId })
+      .eq("registration_id", registration.id)
+      .eq("reminder", reminder)
+
+    // Channels were resolved from the recipient's preferences and quiet hours on insert
+    const { data: delivery } = await adminClient
+      .from("notifications")
+      .select("deliver_in_app, deliver_push, deliver_email")
+      .eq("id", notificationId)
+      .maybeSingle()
+
+    const channels: string[] = delivery?.deliver_in_app ? ["in_app"] : []
+
+    try {
+      if (delivery?.deliver_push) {
+        const push = await deliverPushNotification(
+          adminClient,
+          {
+            id: notificationId as string,
+            user_id: registration.user_id,
+            title,
+            body,
+            action_url: actionUrl,
+            type: "event_reminder",
+            is_read: false,
+          }
+        )
+        if (push.success && push.sent) channels.push("push")
+      }
+
+      const user = usersById.get(registration.user_id)
+      if (delivery?.deliver_email && canEmail && user?.email) {
+        const displayName =
+          (user.first_name && user.last_name && `${user.first_name} ${user.last_name}`) ||
+          user.username ||
+          "there"
+        const template = emailTemplates.eventReminder(
+          displayName,
+          communityName,
+          event.description ?? "",
+          event.scheduled_at,
+          actionUrl,
+          isLive
+        )
+        await sendEmail({
+          to: user.email,
+          subject: template.subject,
+          html: template.html,
+        })
+        channels.push("email")
+      }
+
+      results.push({ ...base, status: "sent", channels })
+    } catch (error: any) {
+      // The in-app notification exists, so the claim stays to avoid a duplicate
+      results.push({ ...base, status: "error", reason: error?.message ?? "send_failed", channels })
+    }
+  }
+
+  const summary = results.reduce(
+    (acc, item) => {
+      acc[item.status] = (acc[item.status] ?? 0) + 1
+      return acc
+    },
+    {} as Record<string, number>
+  )
+
+  return NextResponse.json({
+    summary,
+    results,
+    processed: (upcomingEvents?.length ?? 0) + liveEvents.length,
+    offsets,
+  })
+}
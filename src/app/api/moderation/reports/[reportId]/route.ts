@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-server'
+import { createNotification } from '@/lib/notifications'
+import { isReportResolution } from '@/lib/moderation'
+
+/**
+ * Resolve a content report (admins, community owners and moderators with review_reports)
+ * Body: { action: 'hide' | 'delete' | 'dismiss' | 'warn', note?: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const { reportId } = await params
+
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { supabase } = authResult
+
+    const body = await request.json()
+    const { action, note } = body
+
+    if (!isReportResolution(action)) {
+      return NextResponse.json(
+        { error: 'Action must be hide, delete, dismiss or warn' },
+        { status: 400 }
+      )
+    }
+
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid note' },
+        { status: 400 }
+      )
+    }
+
+    // Permission checks and the audit entry live in the RPC
+    const { data: result, error: resolveError } = await supabase.rpc('resolve_content_report', {
+      p_report_id: reportId,
+      p_action: action,
+      p_note: note || null,
+    })
+
+    if (resolveError) {
+      console.error('Error resolving report:', resolveError)
+      return NextResponse.json(
+        { error: resolveError.message || 'Failed to resolve report' },
+        { status: 400 }
+      )
+    }
+
+    const resolution = result as {
+      report_id: string
+      action: string
+      status: string
+      reported_user_id: string | null
+      community_id: string | null
+    }
+
+    if (action === 'warn' && resolution.reported_user_id) {
+      let communityName: string | null = null
+      if (resolution.community_id) {
+        const { data: community } = await supabase
+          .from('communities')
+          .select('name')
+          .eq('id', resolution.community_id)
+          .maybeSingle()
+        communityName = community?.name ?? null
+      }
+
+      try {
+        await createNotification({
+          userId: resolution.reported_user_id,
+          type: 'moderation_warning',
+          title: 'You received a warning',
+          body: note?.trim()
+            || (communityName
+              ? `Content you posted in ${communityName} was reported and reviewed by a moderator.`
+              : 'Content you sent was reported and reviewed by a moderator.'),
+          metadata: {
+            report_id: resolution.report_id,
+            community_id: resolution.community_id,
+          },
+        })
+      } catch (notificationError) {
+        // The warning is already logged; a failed notification shouldn't undo it
+        console.error('Error sending moderation warning:', notificationError)
+      }
+    }
+
+    return NextResponse.json({ report: resolution })
+  } catch (error) {
+    console.error('Error in PATCH /api/moderation/reports/[reportId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
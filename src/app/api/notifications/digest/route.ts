@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+import { emailTemplates, sendEmail } from "@/lib/email"
+import { getNotificationBody } from "@/lib/notification-groups"
+
+const CRON_HEADER = "x-cron-secret"
+const MS_PER_HOUR = 3_600_000
+const DIGEST_MAX_ITEMS = 20
+
+// Slightly under a full day/week so a cron firing a few minutes early still sends
+const DIGEST_INTERVAL_HOURS = {
+  daily: 23,
+  weekly: 7 * 24 - 1,
+} as const
+
+const DIGEST_WINDOW_HOURS = {
+  daily: 24,
+  weekly: 7 * 24,
+} as const
+
+type DigestFrequency = keyof typeof DIGEST_INTERVAL_HOURS
+
+export async function POST(request: Request) {
+  const configuredSecret = env.CRON_SECRET
+  if (!configuredSecret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 500 })
+  }
+
+  const providedSecret =
+    request.headers.get(CRON_HEADER) ||
+    request.headers.get("authorization")?.replace("Bearer ", "")
+
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is required" }, { status: 500 })
+  }
+
+  if (!env.RESEND_API_KEY) {
+    return NextResponse.json({ error: "RESEND_API_KEY is required to send digests" }, { status: 500 })
+  }
+
+  const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const now = new Date()
+
+  const { data: subscribers, error: subscribersError } = await adminClient
+    .from("notification_settings")
+    .select("user_id, digest_frequency, last_digest_sent_at, user:users(email, first_name, last_name, username)")
+    .neq("digest_frequency", "off")
+
+  if (subscribersError) {
+    return NextResponse.json({ error: subscribersError.message }, { status: 500 })
+  }
+
+  const results: {
+    userId: string
+    status: "sent" | "skipped" | "error"
+    reason?: string
+    count?: number
+  }[] = []
+
+  for (const subscriber of subscribers ?? []) {
+    const frequency = subscriber.digest_frequency as DigestFrequency
+    const lastSentAt = subscriber.last_digest_sent_at ? new Date(subscriber.last_digest_sent_at) : null
+
+    if (lastSentAt && now.getTime() - lastSentAt.getTime() < DIGEST_INTERVAL_HOURS[frequency] * MS_PER_HOUR) {
+      results.push({ userId: subscriber.user_id, status: "skipped", reason: "not_due" })
+      continue
+    }
+
+    const user = (Array.isArray(subscriber.user) ? subscriber.user[0] : subscriber.user) as {
+      email?: string
+      first_name?: string | null
+      last_name?: string | null
+      username?: string | null
+    } | null
+    const email = user?.email
+    if (!email) {
+      results.push({ userId: subscriber.user_id, status: "skipped", reason: "missing_email" })
+      continue
+    }
+
+    const since = lastSentAt ?? new Date(now.getTime() - DIGEST_WINDOW_HOURS[frequency] * MS_PER_HOUR)
+
+    const { data: notifications, count, error: notificationsError } = await adminClient
+      .from("notifications")
+      .select("type, title, body, metadata, group_count, actor_ids, action_url, created_at", { count: "exact" })
+      .eq("user_id", subscriber.user_id)
+      .eq("deliver_email", true)
+      .eq("is_read", false)
+      .gt("created_at", since.toISOString())
+      .lte("created_at", now.toISOString())
+      .order("created_at", { ascending: false })
+      .limit(DIGEST_MAX_ITEMS)
+
+    if (notificationsError) {
+      results.push({ userId: subscriber.user_id, status: "error", reason: notificationsError.message })
+      continue
+    }
+
+    // Advance the window even when empty so the next digest keeps its cadence
+    const markSent = () =>
+      adminClient
+        .from("notification_settings")
+        .update({ last_digest_sent_at: now.toISOString() })
+        .eq("user_id", subscriber.user_id)
+
+    if (!notifications || notifications.length === 0) {
+      await markSent()
+      results.push({ userId: subscriber.user_id, status: "skipped", reason: "nothing_unread" })
+      continue
+    }
+
+    const displayName =
+      (user?.first_name && user?.last_name && `${user.first_name} ${user.last_name}`) ||
+      user?.username ||
+      "there"
+
+    try {
+      const template = emailTemplates.notificationDigest(
+        displayName,
+        frequency,
+        notifications.map((notification) => ({
+          title: notification.title,
+          body: getNotificationBody(notification),
+          actionUrl: notification.action_url,
+          createdAt: notification.created_at,
+        })),
+        count ?? notifications.length
+      )
+      await sendEmail({
+        to: email,
+        subject: template.subject,
+        html: template.html,
+      })
+
+      await markSent()
+
+      results.push({ userId: subscriber.user_id, status: "sent", count: count ?? notifications.length })
+    } catch (error: any) {
+      results.push({ userId: subscriber.user_id, status: "error", reason: error?.message ?? "send_failed" })
+    }
+  }
+
+  const summary = results.reduce(
+    (acc, item) => {
+      acc[item.status] = (acc[item.status] ?? 0) + 1
+      return acc
+    },
+    {} as Record<string, number>
+  )
+
+  return NextResponse.json({ summary, results, processed: subscribers?.length ?? 0 })
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { requireCommunityPermission } from "@/lib/auth-server"
 import { validateAndPrepareItems, type PlaylistItemInput } from "../utils"
 
 interface UpdatePlaylistBody {
@@ -33,7 +34,7 @@ export async function PATCH(
 
     const { data: playlist, error: playlistError } = await supabase
       .from("community_playlists")
-      .select("id, community_id, owner_id, status, published_at")
+      .select("id, community_id, status, published_at")
       .eq("id", playlistId)
       .maybeSingle()
 
@@ -46,8 +47,15 @@ export async function PATCH(
       return NextResponse.json({ error: "Playlist not found" }, { status: 404 })
     }
 
-    if (playlist.owner_id !== user.id) {
-      return NextResponse.json({ error: "Only the community owner can update playlists" }, { status: 403 })
+    const access = await requireCommunityPermission(
+      supabase,
+      playlist.community_id,
+      user.id,
+      "manage_playlists",
+      "You do not have permission to update playlists in this community"
+    )
+    if (access instanceof NextResponse) {
+      return access
     }
 
     const body = (await request.json()) as UpdatePlaylistBody
@@ -81,7 +89,6 @@ export async function PATCH(
         .from("community_playlists")
         .update(updates)
         .eq("id", playlistId)
-        .eq("owner_id", user.id)
 
       if (updateError) {
         console.error("[Playlists API] Failed to update playlist:", updateError)
@@ -175,7 +182,7 @@ export async function DELETE(
 
     const { data: playlist, error: playlistError } = await supabase
       .from("community_playlists")
-      .select("id, owner_id")
+      .select("id, community_id")
       .eq("id", playlistId)
       .maybeSingle()
 
@@ -188,15 +195,21 @@ export async function DELETE(
       return NextResponse.json({ error: "Playlist not found" }, { status: 404 })
     }
 
-    if (playlist.owner_id !== user.id) {
-      return NextResponse.json({ error: "Only the community owner can delete playlists" }, { status: 403 })
+    const access = await requireCommunityPermission(
+      supabase,
+      playlist.community_id,
+      user.id,
+      "manage_playlists",
+      "You do not have permission to delete playlists in this community"
+    )
+    if (access instanceof NextResponse) {
+      return access
     }
 
     const { error: deleteError } = await supabase
       .from("community_playlists")
       .delete()
       .eq("id", playlistId)
-      .eq("owner_id", user.id)
 
     if (deleteError) {
       console.error("[Playlists API] Failed to delete playlist:", deleteError)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { requireCommunityPermission } from "@/lib/auth-server"
 import { validateAndPrepareItems, type PlaylistItemInput } from "./utils"
 
 interface CreatePlaylistBody {
@@ -30,18 +31,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "communityId and title are required" }, { status: 400 })
     }
 
-    const { data: community, error: communityError } = await supabase
-      .from("communities")
-      .select("id, owner_id")
-      .eq("id", communityId)
-      .single()
-
-    if (communityError || !community) {
-      return NextResponse.json({ error: "Community not found" }, { status: 404 })
-    }
-
-    if (community.owner_id !== user.id) {
-      return NextResponse.json({ error: "Only the community owner can manage playlists" }, { status: 403 })
+    const access = await requireCommunityPermission(
+      supabase,
+      communityId,
+      user.id,
+      "manage_playlists",
+      "You do not have permission to manage playlists in this community"
+    )
+    if (access instanceof NextResponse) {
+      return access
     }
 
     const status = body.status === "published" ? "published" : "draft"
@@ -50,7 +48,7 @@ export async function POST(request: NextRequest) {
     const { data: playlist, error: createError } = await supabase
       .from("community_playlists")
       .insert({
-        community_id: community.id,
+        community_id: access.communityId,
         owner_id: user.id,
         title,
         description: body.description?.trim() || null,
@@ -70,7 +68,7 @@ export async function POST(request: NextRequest) {
     if (validationItems.length > 0) {
       const validationResult = await validateAndPrepareItems({
         supabase,
-        communityId: community.id,
+        communityId: access.communityId,
         playlistId: playlist.id,
         items: validationItems,
       })
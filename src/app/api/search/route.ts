@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { isSearchResultType, SEARCH_MIN_QUERY_LENGTH, SEARCH_PAGE_SIZE } from '@/lib/search'
+import type { SearchResult } from '@/types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function parseDate(value: string | null): string | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Ranked full-text search across posts, comments, communities, events, videos, playlists and members
+ * Query: q, type (comma separated), community (id), from / to (ISO dates), offset
+ * Visibility is enforced by search_content and RLS, so signed-out visitors only get communities and members
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+
+    if (query.length < SEARCH_MIN_QUERY_LENGTH) {
+      return NextResponse.json({ results: [], hasMore: false })
+    }
+
+    const typeParam = searchParams.get('type')
+    const types = typeParam ? typeParam.split(',').map((type) => type.trim()) : null
+    if (types && !types.every(isSearchResultType)) {
+      return NextResponse.json({ error: 'Invalid type filter' }, { status: 400 })
+    }
+
+    const communityId = searchParams.get('community')
+    if (communityId && !UUID_PATTERN.test(communityId)) {
+      return NextResponse.json({ error: 'Invalid community filter' }, { status: 400 })
+    }
+
+    const from = parseDate(searchParams.get('from'))
+    const to = parseDate(searchParams.get('to'))
+    if (from === undefined || to === undefined) {
+      return NextResponse.json({ error: 'Invalid date filter' }, { status: 400 })
+    }
+
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+    const supabase = await createServerSupabaseClient()
+
+    // Ask for one extra row to know whether another page exists
+    const { data, error } = await supabase.rpc('search_content', {
+      p_query: query,
+      p_types: types,
+      p_community_id: communityId || null,
+      p_from: from,
+      p_to: to,
+      p_limit: SEARCH_PAGE_SIZE + 1,
+      p_offset: offset,
+    })
+
+    if (error) {
+      console.error('Error searching content:', error)
+      return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+    }
+
+    const rows = (data || []) as SearchResult[]
+
+    return NextResponse.json({
+      results: rows.slice(0, SEARCH_PAGE_SIZE),
+      hasMore: rows.length > SEARCH_PAGE_SIZE,
+    })
+  } catch (error) {
+    console.error('Error in GET /api/search:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-server'
 import { env } from '@/lib/env'
+import { syncStageCallPermissions } from '@/lib/event-stage-server'
+import type { EventStageRole } from '@/lib/event-stage'
 
 // Generate Stream JWT token
 function generateStreamToken(userId: string): string {
@@ -35,7 +37,47 @@ export async function POST(request: NextRequest) {
     if (authResult instanceof NextResponse) {
       return authResult
     }
-    const { user } = authResult
+    const { user, supabase } = authResult
+
+    const body = await request.json().catch(() => ({}))
+    const eventId = typeof body?.eventId === 'string' ? body.eventId.trim() : ''
+
+    // Tokens are only for event calls, so every one of them goes through the stage role below.
+    // Tokens aren't scoped to a call (breakout rooms are created mid-event); the GetStream
+    // webhook applies the role again when a participant actually joins.
+    if (!eventId) {
+      return NextResponse.json({ error: 'eventId is required' }, { status: 400 })
+    }
+
+    const { data: role, error: roleError } = await supabase.rpc('get_my_event_stage_role', {
+      p_event_id: eventId,
+    })
+
+    if (roleError) {
+      return NextResponse.json({ error: roleError.message }, { status: 403 })
+    }
+
+    const { data: event } = await supabase
+      .from('community_events')
+      .select('id, stream_call_id')
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    // Apply the user's stage role to the call before handing out a token,
+    // so audience members connect without publish permissions
+    try {
+      await syncStageCallPermissions(event.stream_call_id || event.id, user.id, role as EventStageRole)
+    } catch (syncError) {
+      console.error('Error syncing stage permissions:', syncError)
+      // Fail closed: an audience member whose mute couldn't be applied doesn't get in
+      if (role === 'audience') {
+        return NextResponse.json({ error: 'Failed to prepare your seat in the audience' }, { status: 500 })
+      }
+    }
 
     // Generate Stream token
     const token = generateStreamToken(user.id)
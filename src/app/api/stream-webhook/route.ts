@@ -0,0 +1,274 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { StreamClient } from '@stream-io/node-sdk'
+import { env } from '@/lib/env'
+import { importStreamRecording } from '@/lib/event-recording-import'
+import { syncStageCallPermissions } from '@/lib/event-stage-server'
+import type { EventStageRole } from '@/lib/event-stage'
+import { transcribeVideoInBackground } from '@/lib/video-transcripts-server'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// The subset of GetStream webhook payloads this route reads
+interface StreamWebhookPayload {
+  type: string
+  call_cid?: string
+  created_at?: string
+  session_id?: string
+  duration_seconds?: number
+  participant?: {
+    joined_at?: string
+    role?: string
+    user_session_id: string
+    user: { id: string }
+  }
+  call_recording?: {
+    filename: string
+    url: string
+    session_id?: string
+    start_time?: string
+    end_time?: string
+  }
+}
+
+interface WebhookEvent {
+  id: string
+  community_id: string
+  owner_id: string
+  status: string
+  started_at: string | null
+  ended_at: string | null
+}
+
+/**
+ * GetStream webhook for call lifecycle, attendance and recordings
+ * Requests are signed with the API secret (x-signature: HMAC-SHA256 of the raw body).
+ * scripts/stream-webhook-stub.js sends signed payloads for local testing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = env.GETSTREAM_API_KEY
+    const apiSecret = env.GETSTREAM_API_SECRET
+
+    if (!apiKey || !apiSecret) {
+      return NextResponse.json({ error: 'GetStream not configured' }, { status: 500 })
+    }
+
+    if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is required' }, { status: 500 })
+    }
+
+    const rawBody = await request.text()
+    const signature = request.headers.get('x-signature')
+    const requestApiKey = request.headers.get('x-api-key')
+
+    if (!signature || (requestApiKey && requestApiKey !== apiKey)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const streamClient = new StreamClient(apiKey, apiSecret)
+    if (!streamClient.verifyWebhook(rawBody, signature)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    let payload: StreamWebhookPayload
+    try {
+      payload = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+    }
+
+    const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    const event = await findEventForCall(adminClient, payload.call_cid)
+    if (!event) {
+      // Calls that aren't community events (or test pings) are acknowledged and ignored
+      console.log('[Stream webhook] No event for call, ignoring:', payload.type, payload.call_cid)
+      return NextResponse.json({ received: true, handled: false })
+    }
+
+    const occurredAt = toIsoDate(payload.created_at) ?? new Date().toISOString()
+
+    switch (payload.type) {
+      case 'call.session_started':
+      case 'call.live_started': {
+        const { error } = await adminClient
+          .from('community_events')
+          .update({
+            started_at: event.started_at ?? occurredAt,
+            ...(event.status === 'scheduled' ? { status: 'live' } : {}),
+          })
+          .eq('id', event.id)
+
+        if (error) throw error
+        break
+      }
+
+      case 'call.session_ended':
+      case 'call.ended': {
+        if (event.status !== 'live' && event.ended_at) break
+
+        const { error } = await adminClient
+          .from('community_events')
+          .update({
+            ended_at: event.ended_at ?? occurredAt,
+            ...(event.status === 'live' ? { status: 'completed' } : {}),
+          })
+          .eq('id', event.id)
+
+        if (error) throw error
+
+        // Anyone still marked as in the call left when it ended
+        await adminClient
+          .from('event_attendance')
+          .update({ left_at: occurredAt })
+          .eq('event_id', event.id)
+          .is('left_at', null)
+        break
+      }
+
+      case 'call.session_participant_joined': {
+        const participant = payload.participant
+        if (!participant?.user?.id || !UUID_PATTERN.test(participant.user.id)) break
+
+        const joinedAt = toIsoDate(participant.joined_at) ?? occurredAt
+        const { error } = await adminClient
+          .from('event_attendance')
+          .upsert(
+            {
+              event_id: event.id,
+              user_id: participant.user.id,
+              stream_session_id: participant.user_session_id,
+              role: participant.role ?? null,
+              joined_at: joinedAt,
+            },
+            { onConflict: 'stream_session_id', ignoreDuplicates: true }
+          )
+
+        if (error) throw error
+
+        await adminClient
+          .from('event_registrations')
+          .update({ joined_at: joinedAt })
+          .eq('event_id', event.id)
+          .eq('user_id', participant.user.id)
+          .is('joined_at', null)
+
+        // Apply the stage role to every participant, not just those who asked api/stream-token
+        // for it, so a client that skips that step still joins the audience muted.
+        // A failure rethrows and GetStream redelivers the event.
+        const { data: stageRole, error: roleError } = await adminClient.rpc('event_stage_role', {
+          p_event_id: event.id,
+          p_user_id: participant.user.id,
+        })
+
+        if (roleError) throw roleError
+
+        await syncStageCallPermissions(
+          payload.call_cid!.split(':').pop()!,
+          participant.user.id,
+          stageRole as EventStageRole
+        )
+        break
+      }
+
+      case 'call.session_participant_left': {
+        const participant = payload.participant
+        if (!participant?.user_session_id) break
+
+        const { error } = await adminClient
+          .from('event_attendance')
+          .update({
+            left_at: occurredAt,
+            duration_seconds: payload.duration_seconds ?? null,
+          })
+          .eq('stream_session_id', participant.user_session_id)
+
+        if (error) throw error
+        break
+      }
+
+      case 'call.recording_ready': {
+        const recording = payload.call_recording
+        if (!recording?.url) {
+          return NextResponse.json({ error: 'Recording URL missing' }, { status: 400 })
+        }
+
+        const result = await importStreamRecording(adminClient, {
+          eventId: event.id,
+          communityId: event.community_id,
+          ownerId: event.owner_id,
+          streamRecordingId: recording.filename || recording.session_id || `recording-${Date.now()}`,
+          streamRecordingUrl: recording.url,
+          startedAt: toIsoDate(recording.start_time),
+          endedAt: toIsoDate(recording.end_time),
+        })
+
+        console.log('[Stream webhook] Recording', result.status, result.recordingId)
+
+        if (result.status === 'imported') {
+          // A failed transcript shouldn't make GetStream redeliver the recording
+          await transcribeVideoInBackground({
+            type: 'recording',
+            id: result.recordingId,
+            communityId: event.community_id,
+          }).catch((error) => console.error('[Stream webhook] Error queueing transcript:', error))
+        }
+        return NextResponse.json({ received: true, handled: true, recording: result })
+      }
+
+      default:
+        return NextResponse.json({ received: true, handled: false })
+    }
+
+    return NextResponse.json({ received: true, handled: true })
+  } catch (error: any) {
+    // A 5xx makes GetStream retry the delivery
+    console.error('Error in POST /api/stream-webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * A payload timestamp as ISO, or null when it is missing or unparseable.
+ * new Date(...).toISOString() throws on bad input, which would make GetStream retry forever.
+ */
+function toIsoDate(value?: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Events use their own id as the call id; stream_call_id covers calls created another way
+ */
+async function findEventForCall(
+  adminClient: SupabaseClient<any>,
+  callCid?: string
+): Promise<WebhookEvent | null> {
+  const callId = callCid?.split(':').pop()
+  if (!callId || !/^[\w-]+$/.test(callId)) return null
+
+  const filter = UUID_PATTERN.test(callId)
+    ? `stream_call_id.eq.${callId},id.eq.${callId}`
+    : `stream_call_id.eq.${callId}`
+
+  const { data, error } = await adminClient
+    .from('community_events')
+    .select('id, community_id, owner_id, status, started_at, ended_at')
+    .or(filter)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Stream webhook] Error looking up event:', error)
+    return null
+  }
+
+  return data as WebhookEvent | null
+}
@@ -11,11 +11,17 @@ export async function GET(req: Request) {
       return NextResponse.json({ users: [] })
     }
 
-    // Search users by username, first name, last name, or email
+    // Strip characters that would break out of the PostgREST or() filter or act as wildcards
+    const term = query.replace(/[,()%_\\*]/g, '')
+    if (term.length < 2) {
+      return NextResponse.json({ users: [] })
+    }
+
+    // Search users by username, first name or last name. Email is private and never matched or returned
     const { data, error } = await supabase
       .from('users')
-      .select('id, username, first_name, last_name, email, profile_picture')
-      .or(`username.ilike.%${query}%,first_name.ilike.%${query}%,last_name.ilike.%${query}%,email.ilike.%${query}%`)
+      .select('id, username, first_name, last_name, profile_picture')
+      .or(`username.ilike.%${term}%,first_name.ilike.%${term}%,last_name.ilike.%${term}%`)
       .limit(10)
 
     if (error) {
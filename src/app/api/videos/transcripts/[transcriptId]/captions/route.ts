@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { buildWebVtt } from "@/lib/video-transcripts"
+import type { TranscriptSegment } from "@/types"
+
+/**
+ * WebVTT captions for the video player. Transcript RLS decides who can read them.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ transcriptId: string }> | { transcriptId: string } },
+) {
+  const params = await Promise.resolve(context.params)
+  const transcriptId = params?.transcriptId?.trim()
+
+  if (!transcriptId) {
+    return NextResponse.json({ error: "Transcript ID is required" }, { status: 400 })
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { data: transcript, error } = await supabase
+      .from("video_transcripts")
+      .select("segments, status")
+      .eq("id", transcriptId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!transcript || transcript.status !== "completed") {
+      return NextResponse.json({ error: "Captions not found" }, { status: 404 })
+    }
+
+    return new NextResponse(buildWebVtt((transcript.segments || []) as TranscriptSegment[]), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        "Cache-Control": "private, max-age=300",
+      },
+    })
+  } catch (error) {
+    console.error("Error in GET /api/videos/transcripts/[transcriptId]/captions:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
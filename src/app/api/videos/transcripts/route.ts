@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth, requireCommunityPermission } from "@/lib/auth-server"
+import { transcribeVideoInBackground, type TranscriptSourceType } from "@/lib/video-transcripts-server"
+
+/**
+ * Starts (or restarts) the transcript for a recording or uploaded video.
+ * New uploads and recordings are transcribed automatically; this covers older
+ * videos and retries.
+ */
+export async function POST(request: NextRequest) {
+  let body: { sourceType?: TranscriptSourceType; sourceId?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+
+  const { sourceType, sourceId } = body
+  if ((sourceType !== "recording" && sourceType !== "upload") || !sourceId) {
+    return NextResponse.json({ error: "sourceType and sourceId are required" }, { status: 400 })
+  }
+
+  try {
+    const authResult = await requireAuth()
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+    const { user, supabase } = authResult
+
+    const { data: video } = await supabase
+      .from(sourceType === "recording" ? "event_recordings" : "uploaded_videos")
+      .select("id, community_id")
+      .eq("id", sourceId)
+      .maybeSingle()
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+
+    const access = await requireCommunityPermission(
+      supabase,
+      video.community_id,
+      user.id,
+      "upload_videos",
+      "You do not have permission to manage transcripts in this community"
+    )
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const transcriptId = await transcribeVideoInBackground(
+      { type: sourceType, id: video.id, communityId: video.community_id },
+      user.id
+    )
+
+    if (!transcriptId) {
+      return NextResponse.json({ error: "Transcription is not configured" }, { status: 503 })
+    }
+
+    return NextResponse.json({ success: true, transcriptId }, { status: 202 })
+  } catch (error) {
+    console.error("Error in POST /api/videos/transcripts:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
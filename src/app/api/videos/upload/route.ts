@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { requireCommunityPermission } from "@/lib/auth-server"
+import { transcribeVideoInBackground } from "@/lib/video-transcripts-server"
 
 const BUCKET_NAME = "community-uploads"
 
@@ -34,19 +36,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Uploaded file is empty" }, { status: 400 })
     }
 
-    // Verify ownership
-    const { data: community, error: communityError } = await supabase
-      .from("communities")
-      .select("id, owner_id")
-      .eq("id", communityId)
-      .single()
-
-    if (communityError || !community) {
-      return NextResponse.json({ error: "Community not found" }, { status: 404 })
-    }
-
-    if (community.owner_id !== user.id) {
-      return NextResponse.json({ error: "Only the community owner can upload videos" }, { status: 403 })
+    // Owners and moderators with the upload_videos permission
+    const access = await requireCommunityPermission(
+      supabase,
+      communityId,
+      user.id,
+      "upload_videos",
+      "You do not have permission to upload videos to this community"
+    )
+    if (access instanceof NextResponse) {
+      return access
     }
 
     const extension = (() => {
@@ -102,6 +101,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Failed to save uploaded video metadata" }, { status: 500 })
     }
 
+    await transcribeVideoInBackground(
+      { type: "upload", id: insertedVideo.id, communityId },
+      user.id
+    ).catch((transcriptError) => console.warn("[Videos Upload API] Failed to queue transcript:", transcriptError))
+
     // Update storage usage for the owner
     const { error: storageUpdateError } = await supabase.rpc("update_user_storage_usage", {
       p_user_id: user.id,
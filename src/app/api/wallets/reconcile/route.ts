@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+
+const CRON_HEADER = "x-cron-secret"
+
+// Nightly: rebuild every wallet from its ledgers and record mismatches for /admin/reconciliation
+export async function POST(request: Request) {
+  const configuredSecret = env.CRON_SECRET
+  if (!configuredSecret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 500 })
+  }
+
+  const providedSecret =
+    request.headers.get(CRON_HEADER) ||
+    request.headers.get("authorization")?.replace("Bearer ", "")
+
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is required" }, { status: 500 })
+  }
+
+  const adminClient = createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const { data, error } = await adminClient.rpc("run_ledger_reconciliation")
+
+  if (error) {
+    console.error("Error in POST /api/wallets/reconcile:", error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(data)
+}
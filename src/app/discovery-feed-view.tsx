@@ -3,20 +3,24 @@
 import React, { useMemo, useState, useEffect, useCallback } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { Crown, TrendingUp, Clock, Users, Target, Flame, Sparkles, Feather, ArrowLeft, ArrowRight, MoreVertical, Edit, Trash2, Bookmark, LayoutList, Focus, RefreshCw, Hand } from "lucide-react"
+import { Crown, TrendingUp, Clock, Users, Target, Flame, Sparkles, Feather, ArrowLeft, ArrowRight, MoreVertical, Edit, Trash2, Bookmark, LayoutList, Focus, RefreshCw, Hand, Flag, Coins } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { CommandSearch } from "@/components/command-search"
 import { PostMediaSlider } from "@/components/post-media-slider"
+import { PostPoll } from "@/components/post-poll"
 import { useAuth } from "@/components/auth-provider"
+import { usePostPolls } from "@/hooks/use-post-polls"
 import { supabase } from "@/lib/supabase"
 import { cn, formatRelativeTime } from "@/lib/utils"
 import { toast } from "sonner"
 import type { PostWithAuthor, HierarchicalPost } from "@/types"
 import confetti from "canvas-confetti"
 import { InlinePostComposer } from "@/components/inline-post-composer"
+import { ReportContentDialog, type ReportTarget } from "@/components/report-content-dialog"
+import { SendPointsDialog } from "@/components/send-points-dialog"
 import { fetchCommentsForPosts } from "@/lib/api/posts"
 import {
   Dialog,
@@ -139,6 +143,7 @@ export default function DiscoveryFeedView({
   }, [activeTab, activeTopicSlug, isInitialized])
 
   const [posts, setPosts] = useState(initialPosts)
+  const { polls, vote: votePoll } = usePostPolls(posts.map((post) => post.id), user?.id)
   const [relativeTimes, setRelativeTimes] = useState(initialRelativeTimes)
   const [boostingPosts, setBoostingPosts] = useState<Set<string>>(new Set())
   const [animatingBoosts, setAnimatingBoosts] = useState<Set<string>>(new Set())
@@ -162,6 +167,8 @@ export default function DiscoveryFeedView({
   const [editingPostId, setEditingPostId] = useState<string | null>(null)
   const [editingContent, setEditingContent] = useState<Record<string, string>>({})
   const [deletingPostId, setDeletingPostId] = useState<string | null>(null)
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null)
+  const [tipPost, setTipPost] = useState<PostWithAuthor | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
 
@@ -902,6 +909,7 @@ export default function DiscoveryFeedView({
           )
         `)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .eq('is_pinned', false)
         .not('published_at', 'is', null)
         .lt('published_at', oldestPostDate)
@@ -1397,8 +1405,8 @@ export default function DiscoveryFeedView({
             return
           }
 
-          // Only count posts that are published and not pinned
-          if (!newPost.published_at || newPost.is_pinned) {
+          // Only count posts that are published (not scheduled) and not pinned
+          if (!newPost.published_at || new Date(newPost.published_at) > new Date() || newPost.is_pinned) {
             return
           }
 
@@ -1459,6 +1467,7 @@ export default function DiscoveryFeedView({
           )
         `)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .eq('is_pinned', false)
         .not('published_at', 'is', null)
         .gt('published_at', mostRecentDate)
@@ -1906,7 +1915,7 @@ export default function DiscoveryFeedView({
                                       )}
                                     </div>
                                   </div>
-                                  {user && post.author_id === user.id && (
+                                  {user && (
                                     <DropdownMenu>
                                       <DropdownMenuTrigger asChild>
                                         <button
@@ -1922,7 +1931,23 @@ export default function DiscoveryFeedView({
                                           const now = new Date()
                                           const diffMs = now.getTime() - postDate.getTime()
                                           const diffMins = diffMs / 60000
-                                          const canEdit = diffMins < 5
+                                          const isAuthor = post.author_id === user.id
+                                          const canEdit = isAuthor && diffMins < 5
+
+                                          if (!isAuthor) {
+                                            return (
+                                              <DropdownMenuItem
+                                                onClick={(e) => {
+                                                  e.stopPropagation()
+                                                  setReportTarget({ type: "post", id: post.id })
+                                                }}
+                                                className="cursor-pointer"
+                                              >
+                                                <Flag className="h-4 w-4 mr-2 text-white/70" />
+                                                Report
+                                              </DropdownMenuItem>
+                                            )
+                                          }
 
                                           return (
                                             <>
@@ -2031,6 +2056,15 @@ export default function DiscoveryFeedView({
                                     </div>
                                   )}
 
+                                  {polls[post.id] && (
+                                    <PostPoll
+                                      poll={polls[post.id]}
+                                      authorId={post.author_id}
+                                      currentUserId={user?.id}
+                                      onVote={votePoll}
+                                    />
+                                  )}
+
                                   {/* Topic Tags */}
                                   {(post as any).topics && Array.isArray((post as any).topics) && (post as any).topics.length > 0 && (
                                     <div className="flex flex-wrap gap-1.5">
@@ -2416,6 +2450,17 @@ export default function DiscoveryFeedView({
                               </div>
                             )}
 
+                            {polls[post.id] && (
+                              <div className="mt-3">
+                                <PostPoll
+                                  poll={polls[post.id]}
+                                  authorId={post.author_id}
+                                  currentUserId={user?.id}
+                                  onVote={votePoll}
+                                />
+                              </div>
+                            )}
+
                             {/* Topic Tags */}
                             {(post as any).topics && Array.isArray((post as any).topics) && (post as any).topics.length > 0 && (
                               <div className="flex flex-wrap gap-1.5 mt-3">
@@ -2502,6 +2547,19 @@ export default function DiscoveryFeedView({
                                   </span>
                                 </button>
                               )}
+
+                              {user && post.author_id !== user.id && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    setTipPost(post)
+                                  }}
+                                  className="group relative flex items-center gap-2 px-2.5 py-1 rounded-full border transition-all cursor-pointer bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/30"
+                                >
+                                  <Coins className="h-4 w-4 text-white/70 group-hover:text-white/80 transition-all" />
+                                  <span className="text-xs font-medium text-white/70 group-hover:text-white">Tip</span>
+                                </button>
+                              )}
                             </div>
 
                             {user && (
@@ -2714,6 +2772,15 @@ export default function DiscoveryFeedView({
                       />
                     )}
 
+                    {polls[post.id] && (
+                      <PostPoll
+                        poll={polls[post.id]}
+                        authorId={post.author_id}
+                        currentUserId={user?.id}
+                        onVote={votePoll}
+                      />
+                    )}
+
                     {(post as any).topics && Array.isArray((post as any).topics) && (post as any).topics.length > 0 && (
                       <div className="flex flex-wrap gap-1.5 mt-3">
                         {(post as any).topics
@@ -2858,7 +2925,7 @@ export default function DiscoveryFeedView({
                                   </AvatarFallback>
                                 </Avatar>
                               </div>
-                              <div className="flex flex-col">
+                              <div className="flex flex-col flex-1">
                                 <Link
                                   href={`/profile/${comment.author?.username}`}
                                   className="text-white/80 text-sm font-medium hover:text-white"
@@ -2869,6 +2936,19 @@ export default function DiscoveryFeedView({
                                   {formatRelativeTime(comment.created_at)}
                                 </span>
                               </div>
+                              {user && comment.author_id !== user.id && (
+                                <button
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    setReportTarget({ type: "comment", id: comment.id })
+                                  }}
+                                  className="flex items-center justify-center w-8 h-8 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors cursor-pointer flex-shrink-0"
+                                  aria-label="Report comment"
+                                >
+                                  <Flag className="h-4 w-4" />
+                                </button>
+                              )}
                             </div>
 
                             {comment.content && (
@@ -2929,6 +3009,21 @@ export default function DiscoveryFeedView({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ReportContentDialog
+        target={reportTarget}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
+
+      {tipPost && (
+        <SendPointsDialog
+          open
+          onOpenChange={(open) => !open && setTipPost(null)}
+          recipient={tipPost.author}
+          context="post"
+          contextId={tipPost.id}
+        />
+      )}
     </div>
   )
 }
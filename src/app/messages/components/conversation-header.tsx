@@ -1,8 +1,10 @@
 "use client"
 
-import { ArrowLeft } from "lucide-react"
+import { useState } from "react"
+import { ArrowLeft, Coins } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { SendPointsDialog } from "@/components/send-points-dialog"
 import { formatRelativeTime } from "@/lib/utils"
 import type { ConversationListItem } from "@/lib/chat-shared"
 import { getDisplayName, getInitials } from "../utils"
@@ -15,6 +17,8 @@ interface ConversationHeaderProps {
 }
 
 export function ConversationHeader({ conversation, isMobile, onBack, isPeerOnline }: ConversationHeaderProps) {
+  const [sendPointsOpen, setSendPointsOpen] = useState(false)
+
   if (!conversation) return null
 
   const peerProfile = conversation.other_user_profile
@@ -62,6 +66,26 @@ export function ConversationHeader({ conversation, isMobile, onBack, isPeerOnlin
           </p>
         </div>
       </div>
+      {peerProfile && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setSendPointsOpen(true)}
+            className="rounded-full text-white/70 hover:text-white/90 hover:bg-white/10 shrink-0"
+            title="Send points"
+          >
+            <Coins className="h-5 w-5" />
+          </Button>
+          <SendPointsDialog
+            open={sendPointsOpen}
+            onOpenChange={setSendPointsOpen}
+            recipient={peerProfile}
+            context="dm"
+            contextId={conversation.thread_id}
+          />
+        </>
+      )}
     </div>
   )
 }
@@ -2,7 +2,7 @@
 
 import { useMemo } from "react"
 import Image from "next/image"
-import { ChevronDown, Reply, Trash2, Video, FileText, ImageIcon, Download, Loader2 } from "lucide-react"
+import { ChevronDown, Reply, Trash2, Flag, Video, FileText, ImageIcon, Download, Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { FormattedContent } from "@/components/formatted-content"
 import { VoiceNotePlayer } from "@/components/voice-note-player"
@@ -29,6 +29,7 @@ interface MessageItemProps {
   onLongPressMenuChange: (messageId: string | null) => void
   onReply: (message: MessageResult) => void
   onDelete: (messageId: string) => void
+  onReport: (messageId: string) => void
   onScrollToMessage: (messageId: string) => void
   attachmentUrls: Record<string, { url: string; expiresAt: number }>
   playingAudio: string | null
@@ -65,6 +66,7 @@ export function MessageItem({
   onLongPressMenuChange,
   onReply,
   onDelete,
+  onReport,
   onScrollToMessage,
   attachmentUrls,
   playingAudio,
@@ -226,6 +228,18 @@ export function MessageItem({
                 <Reply className="h-3.5 w-3.5 mr-2" />
                 Reply
               </DropdownMenuItem>
+              {!message.id.startsWith('temp-') && (
+                <DropdownMenuItem
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onReport(message.id)
+                  }}
+                  className="text-white/80 hover:text-white hover:bg-white/10 cursor-pointer focus:text-white focus:bg-white/10"
+                >
+                  <Flag className="h-3.5 w-3.5 mr-2" />
+                  Report
+                </DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         )}
@@ -23,6 +23,7 @@ interface MessageListProps {
   onLongPressMenuChange: (messageId: string | null) => void
   onReply: (message: MessageResult) => void
   onDelete: (messageId: string) => void
+  onReport: (messageId: string) => void
   onScrollToMessage: (messageId: string) => Promise<void>
   attachmentUrls: Record<string, { url: string; expiresAt: number }>
   playingAudio: string | null
@@ -65,6 +66,7 @@ export function MessageList({
   onLongPressMenuChange,
   onReply,
   onDelete,
+  onReport,
   onScrollToMessage,
   attachmentUrls,
   playingAudio,
@@ -161,6 +163,7 @@ export function MessageList({
                   onLongPressMenuChange={onLongPressMenuChange}
                   onReply={onReply}
                   onDelete={onDelete}
+                  onReport={onReport}
                   onScrollToMessage={onScrollToMessage}
                   attachmentUrls={attachmentUrls}
                   playingAudio={playingAudio}
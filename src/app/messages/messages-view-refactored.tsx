@@ -16,6 +16,7 @@ import {
 import { cn, formatRelativeTime } from "@/lib/utils"
 import { useUnreadMessagesPerThread } from "@/hooks/use-unread-messages-per-thread"
 import { Separator } from "@/components/ui/separator"
+import { ReportContentDialog, type ReportTarget } from "@/components/report-content-dialog"
 import { Button } from "@/components/ui/button"
 import type { ViewerProfile, AttachmentState, ThreadPaginationState } from "./types"
 import { getDisplayName, getInitials, storagePathToObjectPath } from "./utils"
@@ -73,6 +74,7 @@ export default function MessagesView({
   const [isClient, setIsClient] = useState(false)
   const [loadingOlderMessages, setLoadingOlderMessages] = useState(false)
   const [deletingMessageId, setDeletingMessageId] = useState<string | null>(null)
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null)
   const [playingAudio, setPlayingAudio] = useState<string | null>(null)
   const [playingVideo, setPlayingVideo] = useState<string | null>(null)
   const [longPressMenuOpen, setLongPressMenuOpen] = useState<string | null>(null)
@@ -405,6 +407,7 @@ export default function MessagesView({
                     onLongPressMenuChange={setLongPressMenuOpen}
                     onReply={handleReply}
                     onDelete={handleDelete}
+                    onReport={(messageId) => setReportTarget({ type: "dm_message", id: messageId })}
                     onScrollToMessage={scrollToMessage}
                     attachmentUrls={attachmentUrls}
                     playingAudio={playingAudio}
@@ -531,6 +534,11 @@ export default function MessagesView({
           </div>
         </div>
       </div>
+
+      <ReportContentDialog
+        target={reportTarget}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
     </div>
   )
 }
@@ -89,6 +89,7 @@ export default async function HomePage() {
           )
         `)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .eq('is_pinned', false)
         .not('published_at', 'is', null)
         .order('published_at', { ascending: false })
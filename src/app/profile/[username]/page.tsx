@@ -120,6 +120,7 @@ export default async function ProfilePage(props: PageProps) {
     `)
     .eq('author_id', user.id)
     .eq('depth', 0)
+    .lte('published_at', new Date().toISOString())
     .order('created_at', { ascending: false })
     .limit(20)
 
@@ -132,6 +133,7 @@ export default async function ProfilePage(props: PageProps) {
     .select('*', { count: 'exact', head: true })
     .eq('author_id', user.id)
     .eq('depth', 0)
+    .lte('published_at', new Date().toISOString())
 
   const postsHasMore = (totalPostsCount || 0) > 20
 
@@ -213,6 +215,7 @@ export default async function ProfilePage(props: PageProps) {
     `)
     .eq('author_id', user.id)
     .eq('depth', 0)
+    .lte('published_at', new Date().toISOString())
     .order('created_at', { ascending: false })
     .limit(100) // Fetch more to account for filtering
 
@@ -1,7 +1,7 @@
 "use client"
 
 import React, { useState } from "react"
-import { Zap, Pin, Crown, Building2, Bookmark, LayoutGrid, TrendingUp, Loader2, MessageCircle, UserPlus, UserCheck, Share2, Copy, Check, Twitter, Facebook, MoreVertical, Edit, Trash2 } from "lucide-react"
+import { Zap, Pin, Crown, Building2, Bookmark, LayoutGrid, TrendingUp, Loader2, MessageCircle, UserPlus, UserCheck, Share2, Copy, Check, Twitter, Facebook, MoreVertical, Edit, Trash2, Coins } from "lucide-react"
 import { useAuth } from "@/components/auth-provider"
 import { toast } from "sonner"
 import confetti from "canvas-confetti"
@@ -13,6 +13,8 @@ import { Dialog } from "@/components/ui/dialog"
 import * as DialogPrimitive from "@radix-ui/react-dialog"
 import { X } from "lucide-react"
 import { PostMediaSlider } from "@/components/post-media-slider"
+import { PostPoll } from "@/components/post-poll"
+import { usePostPolls } from "@/hooks/use-post-polls"
 import { supabase } from "@/lib/supabase"
 import type { Post, PostMedia, User as UserType } from "@/types"
 import Link from "next/link"
@@ -21,6 +23,7 @@ import { LoadingSpinner } from "@/components/loading-spinner"
 import { Button } from "@/components/ui/button"
 import { useRouter } from "next/navigation"
 import { CommunityLogo } from "@/components/community-logo"
+import { SendPointsDialog } from "@/components/send-points-dialog"
 import { FormattedContent } from "@/components/formatted-content"
 import { cn } from "@/lib/utils"
 import {
@@ -110,6 +113,11 @@ export default function ProfileView({
   
   const [savedPosts, setSavedPosts] = useState(initialSavedPosts || [])
   const [savedPostsHasMore, setSavedPostsHasMore] = useState(initialSavedPostsHasMore)
+  // One poll lookup covers every tab
+  const { polls, vote: votePoll } = usePostPolls(
+    [...posts, ...boostedPosts, ...gotBoostedPosts, ...savedPosts].map((post) => post.id),
+    currentUser?.id
+  )
   const [isLoadingMoreSaved, setIsLoadingMoreSaved] = useState(false)
   const savedLoadMoreRef = React.useRef<HTMLDivElement>(null)
   
@@ -129,6 +137,7 @@ export default function ProfileView({
   const [isFollowLoading, setIsFollowLoading] = React.useState(false)
   const [isFollowActionLoading, setIsFollowActionLoading] = React.useState(false)
   const [isMessageLoading, setIsMessageLoading] = React.useState(false)
+  const [sendPointsOpen, setSendPointsOpen] = React.useState(false)
   
   // Share dialog state
   const [shareDialogOpen, setShareDialogOpen] = useState(false)
@@ -1081,6 +1090,9 @@ export default function ProfileView({
           const newPost = payload.new as any
           if (!newPost) return
 
+          // Scheduled posts show up once they're published
+          if (newPost.published_at && new Date(newPost.published_at) > new Date()) return
+
           // Fetch the new post with all its data
           const { data: postData } = await supabase
             .from('posts')
@@ -1480,6 +1492,7 @@ export default function ProfileView({
         `)
         .eq('author_id', user.id)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .order('created_at', { ascending: false })
         .lt('created_at', lastPostDate || new Date().toISOString())
         .limit(20)
@@ -1576,6 +1589,7 @@ export default function ProfileView({
         `)
         .eq('author_id', user.id)
         .eq('depth', 0)
+        .lte('published_at', new Date().toISOString())
         .order('created_at', { ascending: false })
         .lt('created_at', lastPostDate || new Date().toISOString())
         .limit(100)
@@ -1970,6 +1984,17 @@ export default function ProfileView({
                     />
                   )}
 
+                  {polls[post.id] && (
+                    <div className="mt-3">
+                      <PostPoll
+                        poll={polls[post.id]}
+                        authorId={post.author_id}
+                        currentUserId={currentUser?.id}
+                        onVote={votePoll}
+                      />
+                    </div>
+                  )}
+
                   {/* Topic Tags */}
                   {(post as any).topics && Array.isArray((post as any).topics) && (post as any).topics.length > 0 && (
                     <div className="flex flex-wrap gap-1.5 mt-3">
@@ -2142,6 +2167,15 @@ export default function ProfileView({
                     </span>
                   )}
                 </Button>
+                <Button
+                  onClick={() => requireAuth() && setSendPointsOpen(true)}
+                  className="h-10 px-6 rounded-full border border-white/20 bg-white/10 backdrop-blur-md text-white/80 hover:bg-white/15 hover:border-white/30 text-sm font-medium transition-all"
+                >
+                  <span className="flex items-center gap-2">
+                    <Coins className="h-4 w-4" />
+                    Tip
+                  </span>
+                </Button>
                 {followStatus?.isMutual && (
                   <Badge className="bg-white/15 text-white/80 border-white/30">Mutual Follow</Badge>
                 )}
@@ -2276,6 +2310,10 @@ export default function ProfileView({
         </Tabs>
       </div>
 
+      {!isOwnProfile && currentUser && (
+        <SendPointsDialog open={sendPointsOpen} onOpenChange={setSendPointsOpen} recipient={user} context="profile" />
+      )}
+
       {/* Share Dialog */}
       <Dialog open={shareDialogOpen} onOpenChange={setShareDialogOpen}>
         <DialogPrimitive.Portal>
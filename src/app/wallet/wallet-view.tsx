@@ -3,7 +3,7 @@
 import * as React from "react"
 import { usePathname, useRouter, useSearchParams } from "next/navigation"
 import { useFormStatus } from "react-dom"
-import { Coins, Wallet as WalletIcon, Eye, X, Gift, Loader2 } from "lucide-react"
+import { Coins, Wallet as WalletIcon, Eye, X, Gift, Loader2, FileText } from "lucide-react"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/components/auth-provider"
 import { Button } from "@/components/ui/button"
@@ -18,7 +18,10 @@ import { CopyField } from "@/components/ui/copy-field"
 import { WalletSuccessToast } from "@/components/wallet-success-toast"
 import { BonusCountdown } from "@/components/bonus-countdown"
 import { ReceiptUpload } from "@/components/receipt-upload"
+import { PayoutDestinationsCard } from "@/components/payout-destinations-card"
+import { WalletStatementDialog } from "@/components/wallet-statement-dialog"
 import { cn } from "@/lib/utils"
+import { earningsSourceLabels, getTransactionTypeLabel } from "@/lib/wallet-statements"
 
 type WalletSnapshot = {
   points_balance: number | null
@@ -79,24 +82,6 @@ type Payout = {
   locked_points: number
 }
 
-const transactionTypeLabels: Record<string, string> = {
-  top_up: "Top Up",
-  payout: "Payout",
-  payout_lock: "Earnings Locked",
-  payout_release: "Locked Released",
-  point_spend: "Point Spend",
-  point_refund: "Point Refund",
-  earning_credit: "Earned",
-  earning_reversal: "Earnings Reversal",
-}
-
-const earningsSourceLabels: Record<string, string> = {
-  boost: "Post Boost",
-  live_registration: "Live Registration",
-  manual_adjustment: "Manual Adjustment",
-  storage_credit: "Storage Credit",
-}
-
 const STATUS_STYLES: Record<string, string> = {
   verified: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30",
   confirmed: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30",
@@ -128,9 +113,6 @@ const TRANSACTION_TYPE_STYLES: Record<string, string> = {
   earning_reversal: "bg-rose-500/15 text-rose-200 border-rose-500/30",
 }
 
-const getTransactionTypeLabel = (type: string) =>
-  transactionTypeLabels[type] || type.replace(/_/g, " ").replace(/\b\w/g, (char: string) => char.toUpperCase())
-
 const renderTransactionTypeBadge = (type: string) => {
   const key = (type || "").toLowerCase()
   const label = getTransactionTypeLabel(key)
@@ -262,6 +244,7 @@ export function WalletView({
 }) {
   const {
     user,
+    userProfile,
     walletBalance,
     walletEarningsBalance,
     walletLockedEarningsBalance,
@@ -302,6 +285,7 @@ export function WalletView({
   const [topupDue, setTopupDue] = React.useState<string | null>(initialWallet?.next_topup_due_on ?? null)
   const [receiptViewer, setReceiptViewer] = React.useState<{ url: string } | null>(null)
   const [topupDialogOpen, setTopupDialogOpen] = React.useState(false)
+  const [statementOpen, setStatementOpen] = React.useState(false)
 
   const loadMoreRef = React.useRef<HTMLDivElement | null>(null)
   const transactionsRef = React.useRef<Transaction[]>(transactions)
@@ -893,11 +877,22 @@ export function WalletView({
         }}
         className="space-y-6"
       >
-        <TabsList className="w-full bg-white/10 text-white/80">
-          <TabsTrigger value="transactions" className="flex-1">Transactions</TabsTrigger>
-          <TabsTrigger value="earnings" className="flex-1">Earnings</TabsTrigger>
-          <TabsTrigger value="payouts" className="flex-1">Payouts</TabsTrigger>
-        </TabsList>
+        <div className="flex items-center gap-2">
+          <TabsList className="flex-1 bg-white/10 text-white/80">
+            <TabsTrigger value="transactions" className="flex-1">Transactions</TabsTrigger>
+            <TabsTrigger value="earnings" className="flex-1">Earnings</TabsTrigger>
+            <TabsTrigger value="payouts" className="flex-1">Payouts</TabsTrigger>
+          </TabsList>
+          <Button
+            variant="ghost"
+            onClick={() => setStatementOpen(true)}
+            className="bg-white/10 text-white/80 hover:bg-white/20 flex-shrink-0"
+            title="Download a statement"
+          >
+            <FileText className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Statements</span>
+          </Button>
+        </div>
 
         <TabsContent value="transactions" className="space-y-4">
           <div className="hidden md:block">
@@ -1251,6 +1246,7 @@ export function WalletView({
         </TabsContent>
 
         <TabsContent value="payouts" className="space-y-4">
+          {user && <PayoutDestinationsCard userId={user.id} onChange={refreshPayouts} />}
           <div className="hidden md:block">
             <Table>
               <TableHeader>
@@ -1403,6 +1399,16 @@ export function WalletView({
         </TabsContent>
       </Tabs>
 
+      <WalletStatementDialog
+        open={statementOpen}
+        onOpenChange={setStatementOpen}
+        accountName={
+          userProfile
+            ? [userProfile.first_name, userProfile.last_name].filter(Boolean).join(" ") || userProfile.username
+            : null
+        }
+      />
+
       <Dialog open={!!receiptViewer} onOpenChange={(open) => (!open ? handleCloseReceipt() : null)}>
         <DialogContent className="!max-w-[95vw] !max-h-[95dvh] !w-[95vw] !h-[95dvh] !top-[2.5dvh] !left-[2.5vw] !translate-x-0 !translate-y-0 border-0 bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md p-0 overflow-hidden">
           <DialogHeader className="sr-only">
@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CalendarPlus, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { CopyField } from "@/components/ui/copy-field"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+interface CalendarFeedDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * The user's private calendar feed URL, with a link that opens it in their calendar app
+ */
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [resetting, setResetting] = useState(false)
+
+  useEffect(() => {
+    if (!open || feedUrl) return
+
+    let cancelled = false
+    setLoading(true)
+
+    fetch("/api/calendar/token")
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load calendar feed")
+        if (!cancelled) setFeedUrl(data.url)
+      })
+      .catch((error) => {
+        console.error("Error loading calendar feed:", error)
+        toast.error(error.message || "Failed to load calendar feed")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, feedUrl])
+
+  const handleReset = async () => {
+    setResetting(true)
+    try {
+      const response = await fetch("/api/calendar/token", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to reset calendar feed")
+      setFeedUrl(data.url)
+      toast.success("Feed URL reset. Calendars using the old link will stop updating.")
+    } catch (error: any) {
+      console.error("Error resetting calendar feed:", error)
+      toast.error(error.message || "Failed to reset calendar feed")
+    } finally {
+      setResetting(false)
+    }
+  }
+
+  // webcal:// hands the feed to the default calendar app as a subscription
+  const subscribeUrl = feedUrl?.replace(/^https?:\/\//, "webcal://")
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Subscribe to Events</DialogTitle>
+          <DialogDescription>
+            Add your communities&apos; events and the ones you&apos;re registered for to Google Calendar, Apple Calendar or
+            Outlook. Time changes and cancellations show up automatically. Keep this link private.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2">
+          <CopyField label="Feed URL" value={loading ? "" : feedUrl ?? ""} />
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            onClick={handleReset}
+            disabled={!feedUrl || resetting}
+            className="bg-white/10 text-white/80 hover:bg-white/20 border border-white/20"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {resetting ? "Resetting..." : "Reset Link"}
+          </Button>
+          <Button
+            asChild
+            className={subscribeUrl ? "bg-white/10 text-white/80 hover:bg-white/20" : "bg-white/10 text-white/80 pointer-events-none opacity-50"}
+          >
+            <a href={subscribeUrl ?? undefined} aria-disabled={!subscribeUrl}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Open in Calendar App
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
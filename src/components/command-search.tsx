@@ -2,10 +2,38 @@
 
 import * as React from "react"
 import { useRouter } from "next/navigation"
-import { Search, Hash, Users, Building2, FileText, Sparkles, TrendingUp, Clock, Crown, Loader2, Check, X } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import {
+  Search,
+  Hash,
+  Users,
+  Building2,
+  FileText,
+  MessageSquare,
+  Calendar,
+  Video,
+  ListVideo,
+  Sparkles,
+  TrendingUp,
+  Clock,
+  Crown,
+  Loader2,
+  Check,
+  X,
+} from "lucide-react"
 import { useAuth } from "@/components/auth-provider"
 import { supabase } from "@/lib/supabase"
 import { cn } from "@/lib/utils"
+import {
+  getSearchDateFrom,
+  getSearchResultHref,
+  parseSearchSnippet,
+  SEARCH_DATE_RANGES,
+  SEARCH_MIN_QUERY_LENGTH,
+  SEARCH_RESULT_TYPES,
+  searchResultTypeLabels,
+  type SearchDateRange,
+} from "@/lib/search"
 import {
   CommandDialog,
   CommandEmpty,
@@ -15,7 +43,42 @@ import {
   CommandList,
 } from "@/components/ui/command"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
-import type { Topic, Community, User as UserType } from "@/types"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { Topic, SearchResult, SearchResultType } from "@/types"
+
+type FilterCommunity = { id: string; name: string; slug: string }
+
+const resultTypeIcons: Record<SearchResultType, React.ComponentType<{ className?: string }>> = {
+  post: FileText,
+  comment: MessageSquare,
+  community: Building2,
+  event: Calendar,
+  video: Video,
+  playlist: ListVideo,
+  member: Users,
+}
+
+function SearchSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {parseSearchSnippet(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-white/20 text-white rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
 
 interface CommandSearchProps {
   onSelect?: (type: "for-you" | "trending" | "popular" | "recent" | "new-creators" | "topic", value?: string) => void
@@ -27,9 +90,14 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
   const [open, setOpen] = React.useState(false)
   const [searchQuery, setSearchQuery] = React.useState("")
   const [topics, setTopics] = React.useState<Topic[]>([])
-  const [communities, setCommunities] = React.useState<Community[]>([])
-  const [users, setUsers] = React.useState<UserType[]>([])
+  const [results, setResults] = React.useState<SearchResult[]>([])
+  const [hasMore, setHasMore] = React.useState(false)
   const [isSearching, setIsSearching] = React.useState(false)
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false)
+  const [typeFilter, setTypeFilter] = React.useState<SearchResultType | "all">("all")
+  const [communityFilter, setCommunityFilter] = React.useState("all")
+  const [dateFilter, setDateFilter] = React.useState<SearchDateRange>("any")
+  const [memberCommunities, setMemberCommunities] = React.useState<FilterCommunity[]>([])
   const [activeTopic, setActiveTopic] = React.useState<Topic | null>(null)
   const router = useRouter()
   const { user } = useAuth()
@@ -55,149 +123,114 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
     }
   }, [activeTopicId, activeView])
 
-  // Search across all entities
+  // Load the communities the user belongs to for the community filter
   React.useEffect(() => {
-    if (!searchQuery.trim() || searchQuery.length < 2) {
+    if (!open || !user) return
+
+    const fetchMemberCommunities = async () => {
+      const { data, error } = await supabase
+        .from("community_members")
+        .select("community:communities(id, name, slug)")
+        .eq("user_id", user.id)
+
+      if (error) {
+        console.error("Error fetching member communities:", error)
+        return
+      }
+
+      const list = (data || [])
+        .map((row: any) => (Array.isArray(row.community) ? row.community[0] : row.community))
+        .filter(Boolean) as FilterCommunity[]
+      setMemberCommunities(list.sort((a, b) => a.name.localeCompare(b.name)))
+    }
+
+    fetchMemberCommunities()
+  }, [open, user])
+
+  const runSearch = React.useCallback(
+    async (offset: number) => {
+      const params = new URLSearchParams({ q: searchQuery.trim(), offset: String(offset) })
+      if (typeFilter !== "all") params.set("type", typeFilter)
+      if (communityFilter !== "all") params.set("community", communityFilter)
+      const from = getSearchDateFrom(dateFilter)
+      if (from) params.set("from", from.toISOString())
+
+      const response = await fetch(`/api/search?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Search failed")
+      }
+      return data as { results: SearchResult[]; hasMore: boolean }
+    },
+    [searchQuery, typeFilter, communityFilter, dateFilter]
+  )
+
+  // Search topics and the unified search API
+  React.useEffect(() => {
+    if (searchQuery.trim().length < SEARCH_MIN_QUERY_LENGTH) {
       setTopics([])
-      setCommunities([])
-      setUsers([])
+      setResults([])
+      setHasMore(false)
       setIsSearching(false)
       return
     }
 
+    let cancelled = false
+
     const searchAll = async () => {
       setIsSearching(true)
-      const query = searchQuery.toLowerCase().trim()
-      
-      console.log("Searching for:", query)
+      // Commas and parentheses would break out of the or() filter
+      const searchPattern = `%${searchQuery.toLowerCase().trim().replace(/[,()%_\\*]/g, "")}%`
 
       try {
-        // Parallel search across all entities - use separate queries for reliability
-        const searchPattern = `%${query}%`
-        
-        // Search topics - try both label and slug separately, then combine
-        const [topicsByLabel, topicsBySlug] = await Promise.all([
-          supabase
-            .from("topics")
-            .select("id, slug, label, description, is_featured")
-            .eq("is_active", true)
-            .ilike("label", searchPattern)
-            .limit(10),
-          supabase
-            .from("topics")
-            .select("id, slug, label, description, is_featured")
-            .eq("is_active", true)
-            .ilike("slug", searchPattern)
-            .limit(10),
+        const [topicsResult, searchResult] = await Promise.all([
+          typeFilter === "all"
+            ? supabase
+                .from("topics")
+                .select("id, slug, label, description, is_featured")
+                .eq("is_active", true)
+                .or(`label.ilike.${searchPattern},slug.ilike.${searchPattern}`)
+                .limit(10)
+            : Promise.resolve({ data: [] as Topic[], error: null }),
+          runSearch(0),
         ])
-        
-        const topicsMap = new Map()
-        if (topicsByLabel.data) topicsByLabel.data.forEach(t => topicsMap.set(t.id, t))
-        if (topicsBySlug.data) topicsBySlug.data.forEach(t => topicsMap.set(t.id, t))
-        const topicsData = Array.from(topicsMap.values()).slice(0, 10)
-        
-        if (topicsByLabel.error) console.error("Topics by label error:", topicsByLabel.error)
-        if (topicsBySlug.error) console.error("Topics by slug error:", topicsBySlug.error)
-        console.log("Topics found:", topicsData.length)
-        
-        // Search communities - try both name and slug separately, then combine
-        const [communitiesByName, communitiesBySlug] = await Promise.all([
-          supabase
-            .from("communities")
-            .select("id, name, slug, description, logo_url")
-            .eq("is_active", true)
-            .ilike("name", searchPattern)
-            .limit(10),
-          supabase
-            .from("communities")
-            .select("id, name, slug, description, logo_url")
-            .eq("is_active", true)
-            .ilike("slug", searchPattern)
-            .limit(10),
-        ])
-        
-        const communitiesMap = new Map()
-        if (communitiesByName.data) communitiesByName.data.forEach(c => communitiesMap.set(c.id, c))
-        if (communitiesBySlug.data) communitiesBySlug.data.forEach(c => communitiesMap.set(c.id, c))
-        const communitiesData = Array.from(communitiesMap.values()).slice(0, 10)
-        
-        if (communitiesByName.error) console.error("Communities by name error:", communitiesByName.error)
-        if (communitiesBySlug.error) console.error("Communities by slug error:", communitiesBySlug.error)
-        console.log("Communities found:", communitiesData.length)
-        
-        // Search users - try username, first_name, and last_name separately, then combine
-        const [usersByUsername, usersByFirstName, usersByLastName] = await Promise.all([
-          supabase
-            .from("users")
-            .select("id, username, first_name, last_name, profile_picture")
-            .ilike("username", searchPattern)
-            .limit(10),
-          supabase
-            .from("users")
-            .select("id, username, first_name, last_name, profile_picture")
-            .ilike("first_name", searchPattern)
-            .limit(10),
-          supabase
-            .from("users")
-            .select("id, username, first_name, last_name, profile_picture")
-            .ilike("last_name", searchPattern)
-            .limit(10),
-        ])
-        
-        const usersMap = new Map()
-        if (usersByUsername.data) usersByUsername.data.forEach(u => usersMap.set(u.id, u))
-        if (usersByFirstName.data) usersByFirstName.data.forEach(u => usersMap.set(u.id, u))
-        if (usersByLastName.data) usersByLastName.data.forEach(u => usersMap.set(u.id, u))
-        const usersData = Array.from(usersMap.values()).slice(0, 10)
-        
-        if (usersByUsername.error) console.error("Users by username error:", usersByUsername.error)
-        if (usersByFirstName.error) console.error("Users by first name error:", usersByFirstName.error)
-        if (usersByLastName.error) console.error("Users by last name error:", usersByLastName.error)
-        console.log("Users found:", usersData.length)
-
-        // Set results
-        setTopics(topicsData)
-        setCommunities(communitiesData)
-        setUsers(usersData)
-
-        // Log results for debugging
-        console.log("Search query:", query)
-        console.log("Search pattern:", searchPattern)
-        console.log("Final results:", { 
-          topics: topicsData.length, 
-          communities: communitiesData.length,
-          users: usersData.length
-        })
-        if (topicsData.length > 0) {
-          console.log("Sample topic:", topicsData[0])
-        }
-        if (communitiesData.length > 0) {
-          console.log("Sample community:", communitiesData[0])
-        }
-        if (usersData.length > 0) {
-          console.log("Sample user:", usersData[0])
-        }
+
+        if (cancelled) return
+
+        if (topicsResult.error) console.error("Topics search error:", topicsResult.error)
+        setTopics((topicsResult.data || []) as Topic[])
+        setResults(searchResult.results)
+        setHasMore(searchResult.hasMore)
       } catch (error) {
         console.error("Search error:", error)
+        if (cancelled) return
         setTopics([])
-        setCommunities([])
-        setUsers([])
+        setResults([])
+        setHasMore(false)
       } finally {
-        setIsSearching(false)
+        if (!cancelled) setIsSearching(false)
       }
     }
 
     const timeoutId = setTimeout(searchAll, 300) // Debounce
-    return () => clearTimeout(timeoutId)
-  }, [searchQuery])
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [searchQuery, typeFilter, runSearch])
 
-  // Debug: Log state changes
-  React.useEffect(() => {
-    console.log("State updated - Topics:", topics.length, "Communities:", communities.length, "Users:", users.length)
-    if (topics.length > 0) console.log("Topics data:", topics)
-    if (communities.length > 0) console.log("Communities data:", communities)
-    if (users.length > 0) console.log("Users data:", users)
-  }, [topics, communities, users])
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true)
+    try {
+      const next = await runSearch(results.length)
+      setResults((prev) => [...prev, ...next.results])
+      setHasMore(next.hasMore)
+    } catch (error) {
+      console.error("Search error:", error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
 
   // Keyboard shortcut to open (Cmd/Ctrl + K)
   React.useEffect(() => {
@@ -221,16 +254,12 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
     }
   }
 
-  const handleSelectCommunity = (community: Community) => {
-    setOpen(false)
-    setSearchQuery("")
-    router.push(`/${community.slug}`)
-  }
-
-  const handleSelectUser = (user: UserType) => {
+  const handleSelectResult = (result: SearchResult) => {
+    const href = getSearchResultHref(result)
+    if (!href) return
     setOpen(false)
     setSearchQuery("")
-    router.push(`/profile/${user.username}`)
+    router.push(href)
   }
 
   const handleSelectFeed = (feed: "for-you" | "trending" | "popular" | "recent" | "new-creators") => {
@@ -241,7 +270,16 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
     }
   }
 
-  const hasResults = topics.length > 0 || communities.length > 0 || users.length > 0
+  const hasResults = topics.length > 0 || results.length > 0
+
+  // Groups follow the ranking: the type with the best match comes first
+  const resultGroups = React.useMemo(() => {
+    const groups = new Map<SearchResultType, SearchResult[]>()
+    results.forEach((result) => {
+      groups.set(result.result_type, [...(groups.get(result.result_type) ?? []), result])
+    })
+    return Array.from(groups.entries())
+  }, [results])
 
   // Get active view label and icon
   const getActiveViewInfo = () => {
@@ -294,7 +332,7 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
                 <span className="font-semibold text-white/90">{activeViewInfo.label}</span>
               </span>
             ) : (
-              "Search communities, profiles, topics..."
+              "Search posts, communities, events, people..."
             )}
           </span>
           <kbd className="hidden md:inline-flex h-6 items-center gap-1 rounded-md border border-white/20 bg-white/10 px-2 text-[10px] font-semibold text-white/70 shadow-sm">
@@ -324,21 +362,69 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
           // Reset search when dialog closes
           setSearchQuery("")
           setTopics([])
-          setCommunities([])
-          setUsers([])
+          setResults([])
+          setHasMore(false)
         }
       }}>
         <CommandInput
-          placeholder="Search communities, profiles, topics..."
+          placeholder="Search posts, communities, events, people..."
           value={searchQuery}
           onValueChange={setSearchQuery}
           loading={isSearching}
         />
+        <div className="flex flex-wrap items-center gap-2 border-b border-white/10 px-4 py-3">
+          {(["all", ...SEARCH_RESULT_TYPES] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setTypeFilter(type)}
+              className={cn(
+                "rounded-full border px-3 py-1 text-xs font-medium transition-colors cursor-pointer",
+                typeFilter === type
+                  ? "border-white/40 bg-white/20 text-white"
+                  : "border-white/15 bg-white/5 text-white/60 hover:bg-white/10 hover:text-white/80"
+              )}
+            >
+              {type === "all" ? "All" : searchResultTypeLabels[type]}
+            </button>
+          ))}
+          <div className="flex w-full gap-2 sm:ml-auto sm:w-auto">
+            {user && memberCommunities.length > 0 && (
+              <Select value={communityFilter} onValueChange={setCommunityFilter}>
+                <SelectTrigger className="h-8 w-full sm:w-[170px] bg-white/10 border-white/20 text-xs text-white/80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All communities</SelectItem>
+                  {memberCommunities.map((community) => (
+                    <SelectItem key={community.id} value={community.id}>
+                      {community.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={dateFilter} onValueChange={(value) => setDateFilter(value as SearchDateRange)}>
+              <SelectTrigger className="h-8 w-full sm:w-[140px] bg-white/10 border-white/20 text-xs text-white/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEARCH_DATE_RANGES.map((range) => (
+                  <SelectItem key={range.value} value={range.value}>
+                    {range.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
         <CommandList>
           {/* Only show CommandEmpty when there are no results and not searching */}
-          {!isSearching && topics.length === 0 && communities.length === 0 && users.length === 0 && (
+          {!isSearching && !hasResults && (
             <CommandEmpty>
-              {searchQuery.length < 2 ? "Type at least 2 characters to search" : "No results found."}
+              {searchQuery.trim().length < SEARCH_MIN_QUERY_LENGTH
+                ? "Type at least 2 characters to search"
+                : "No results found."}
             </CommandEmpty>
           )}
 
@@ -404,56 +490,67 @@ export function CommandSearch({ onSelect, activeView, activeTopicId }: CommandSe
             </CommandGroup>
           )}
 
-          {/* Communities Results */}
-          {communities.length > 0 && (
-            <CommandGroup heading="Communities">
-              {communities.map((community) => (
-                <CommandItem
-                  key={community.id}
-                  onSelect={() => handleSelectCommunity(community)}
-                  className="text-white"
-                >
-                  {community.logo_url ? (
-                    <Avatar className="h-6 w-6 border border-white/20">
-                      <AvatarImage src={community.logo_url} alt={community.name} />
-                      <AvatarFallback className="bg-white/10 text-white/80 text-xs">
-                        {community.name.slice(0, 2).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                  ) : (
-                    <Building2 className="h-4 w-4 text-white/60" />
-                  )}
-                  <span className="font-medium">{community.name}</span>
-                </CommandItem>
-              ))}
-            </CommandGroup>
-          )}
-
-          {/* Users/Profiles Results */}
-          {users.length > 0 && (
-            <CommandGroup heading="Profiles">
-              {users.map((userItem) => (
-                <CommandItem
-                  key={userItem.id}
-                  onSelect={() => handleSelectUser(userItem)}
-                  className="text-white"
-                >
-                  <Avatar className="h-6 w-6 border border-white/20">
-                    <AvatarImage src={userItem.profile_picture || undefined} alt={userItem.username} />
-                    <AvatarFallback className="bg-white/10 text-white/80 text-xs">
-                      {userItem.first_name?.[0] || userItem.username[0].toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex flex-col min-w-0 flex-1">
-                    <span className="font-medium">@{userItem.username}</span>
-                    {(userItem.first_name || userItem.last_name) && (
-                      <span className="text-white/50 text-xs truncate">
-                        {userItem.first_name} {userItem.last_name}
-                      </span>
+          {/* Ranked search results */}
+          {resultGroups.map(([type, groupResults]) => {
+            const Icon = resultTypeIcons[type]
+            return (
+              <CommandGroup key={type} heading={searchResultTypeLabels[type]}>
+                {groupResults.map((result) => (
+                  <CommandItem
+                    key={`${result.result_type}-${result.id}`}
+                    value={`${result.result_type}-${result.id}`}
+                    onSelect={() => handleSelectResult(result)}
+                    className="text-white items-start"
+                  >
+                    {result.image_url || result.result_type === "member" ? (
+                      <Avatar className="h-6 w-6 border border-white/20">
+                        <AvatarImage src={result.image_url || undefined} alt={result.title || ""} />
+                        <AvatarFallback className="bg-white/10 text-white/80 text-xs">
+                          {(result.title || "?").slice(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                    ) : (
+                      <Icon className="h-4 w-4 mt-0.5 text-white/60" />
                     )}
-                  </div>
-                </CommandItem>
-              ))}
+                    <div className="flex flex-col min-w-0 flex-1 gap-0.5">
+                      <span className="font-medium truncate">
+                        {result.result_type === "member"
+                          ? `@${result.title}`
+                          : result.title || result.community_name}
+                      </span>
+                      {result.snippet && (
+                        <span className="text-white/60 text-xs line-clamp-2">
+                          <SearchSnippet snippet={result.snippet} />
+                        </span>
+                      )}
+                      {result.result_type !== "member" && result.result_type !== "community" && (
+                        <span className="text-white/40 text-[11px]">
+                          {[
+                            result.title ? result.community_name : null,
+                            formatDistanceToNow(new Date(result.created_at), { addSuffix: true }),
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )
+          })}
+
+          {hasMore && (
+            <CommandGroup>
+              <CommandItem
+                value="load-more"
+                onSelect={handleLoadMore}
+                disabled={isLoadingMore}
+                className="justify-center text-white/70"
+              >
+                {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                Show more results
+              </CommandItem>
             </CommandGroup>
           )}
         </CommandList>
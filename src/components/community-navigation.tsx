@@ -18,7 +18,7 @@ interface CommunityNavigationProps {
 
 /**
  * Shared navigation component for all community pages
- * Displays tabs for Home, Feed, Events, Recordings (if owner/member), Members, Settings (if owner only)
+ * Displays tabs for Home, Feed, Events, Recordings (if owner/member), Members, Settings (if owner/member)
  */
 export function CommunityNavigation({ slug, isOwner: propIsOwner, isMember: propIsMember, communityOwnerId }: CommunityNavigationProps) {
   const pathname = usePathname()
@@ -131,7 +131,8 @@ export function CommunityNavigation({ slug, isOwner: propIsOwner, isMember: prop
   }, [slug, user, authLoading, communityOwnerId, permissions])
   
   // Determine what to show - only show restricted tabs once we have confirmed permissions
-  const showSettings = permissions?.isOwner === true
+  // Members get a settings page for their own membership (billing, cancel at period end)
+  const showSettings = permissions?.isOwner === true || permissions?.isMember === true
   const showVideosPlaylists = permissions?.isOwner === true || permissions?.isMember === true
   
   // Determine active tab based on pathname
@@ -1,17 +1,20 @@
 "use client"
 
 import * as React from "react"
-import { X, Image as ImageIcon, Mic, Play, Pause, Trash2, Crown } from "lucide-react"
+import { X, Image as ImageIcon, Mic, Play, Pause, Trash2, Crown, FileText } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/components/auth-provider"
-import { MediaType, PostWithAuthor } from "@/types"
+import { MediaType, PostDraft, PostWithAuthor } from "@/types"
 import { cn } from "@/lib/utils"
 import { VoiceNoteRecorder } from "@/components/voice-note-recorder"
 import { toast } from "sonner"
 import { PostMediaSlider } from "@/components/post-media-slider"
 import { BoostRewardsDialog } from "@/components/boost-rewards-dialog"
+import { usePostDraft } from "@/hooks/use-post-draft"
+import { deletePostDraft, fetchEditDraft } from "@/lib/api/drafts"
 
 interface EditPostDialogProps {
   open: boolean
@@ -58,6 +61,22 @@ export function EditPostDialog({
   const audioRefs = React.useRef<Record<string, HTMLAudioElement>>({})
   const fileInputRef = React.useRef<HTMLInputElement>(null)
   const textareaRef = React.useRef<HTMLTextAreaElement>(null)
+  // Unsaved edits from an earlier session, waiting for restore or discard
+  const [pendingDraft, setPendingDraft] = React.useState<PostDraft | null>(null)
+  // Autosave stays off until any pending draft has been dealt with
+  const [draftReady, setDraftReady] = React.useState(false)
+  const {
+    status: draftStatus,
+    save: saveDraft,
+    discard: discardDraft,
+    detach: detachDraft,
+    restore: restoreDraft,
+  } = usePostDraft({
+    userId: user?.id,
+    communityId: post.community_id,
+    postId: post.id,
+    enabled: open && draftReady,
+  })
 
   // Load existing media when dialog opens
   React.useEffect(() => {
@@ -98,6 +117,103 @@ export function EditPostDialog({
     }
   }, [open, post])
 
+  // Look for unsaved edits when the dialog opens
+  React.useEffect(() => {
+    if (!open || !user) return
+
+    let cancelled = false
+    setPendingDraft(null)
+    setDraftReady(false)
+
+    fetchEditDraft(post.id, user.id)
+      .then((draft) => {
+        if (cancelled) return
+        if (draft) {
+          setPendingDraft(draft)
+        } else {
+          setDraftReady(true)
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading edit draft:', error)
+        if (!cancelled) setDraftReady(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, post.id, user])
+
+  // Autosave edits; nothing changed means nothing to keep
+  React.useEffect(() => {
+    if (!open || !draftReady || submitting) return
+
+    const originalBoost = new Map((post.media ?? []).map(m => [m.id, m.requires_boost || false]))
+    const existingMediaBoost: Record<string, boolean> = {}
+    existingMedia.forEach(m => {
+      if ((m.requiresBoost || false) !== originalBoost.get(m.id)) {
+        existingMediaBoost[m.id] = m.requiresBoost || false
+      }
+    })
+
+    const isDirty =
+      content !== post.content ||
+      boostRewardMessage !== (post.boost_reward_message || "") ||
+      mediaFiles.length > 0 ||
+      Object.keys(existingMediaBoost).length > 0
+
+    saveDraft(isDirty ? {
+      content,
+      boostRewardMessage,
+      media: mediaFiles.map(m => ({ file: m.file, type: m.type, requiresBoost: m.requiresBoost })),
+      existingMediaBoost,
+    } : null)
+  }, [open, draftReady, submitting, content, boostRewardMessage, mediaFiles, existingMedia, post, saveDraft])
+
+  const handleRestoreDraft = async () => {
+    if (!pendingDraft) return
+
+    try {
+      const media = await restoreDraft(pendingDraft)
+      setContent(pendingDraft.content)
+      setBoostRewardMessage(pendingDraft.boost_reward_message || "")
+      setMediaFiles(media.map(m => ({
+        file: m.file,
+        preview: URL.createObjectURL(m.file),
+        type: m.type,
+        requiresBoost: m.requiresBoost
+      })))
+      const overrides = pendingDraft.existing_media_boost
+      setExistingMedia(prev => prev.map(m => m.id in overrides ? { ...m, requiresBoost: overrides[m.id] } : m))
+      setPendingDraft(null)
+      setDraftReady(true)
+    } catch (error) {
+      console.error('Error restoring draft:', error)
+      toast.error('Failed to restore your changes')
+    }
+  }
+
+  const handleDiscardDraft = async () => {
+    if (!pendingDraft) return
+
+    try {
+      await deletePostDraft(pendingDraft)
+    } catch (error) {
+      console.error('Error discarding draft:', error)
+    }
+    setPendingDraft(null)
+    setDraftReady(true)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      // Keep unsaved edits for next time
+      setDraftReady(false)
+      void detachDraft()
+    }
+    onOpenChange(nextOpen)
+  }
+
   const reset = () => {
     setMediaFiles([])
     boostRewardAttachments.forEach(att => URL.revokeObjectURL(att.preview))
@@ -499,6 +615,9 @@ export function EditPostDialog({
 
       if (fetchError) throw fetchError
 
+      await discardDraft()
+      setDraftReady(false)
+
       toast.success("Post updated successfully")
       onPostUpdated(updatedPostData as PostWithAuthor)
       reset()
@@ -513,7 +632,7 @@ export function EditPostDialog({
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Post</DialogTitle>
@@ -521,6 +640,21 @@ export function EditPostDialog({
         </DialogHeader>
 
         <div className="space-y-4">
+          {pendingDraft && (
+            <div className="flex items-center gap-3 rounded-lg bg-white/10 border border-white/20 p-3">
+              <FileText className="h-4 w-4 text-white/70 flex-shrink-0" />
+              <p className="flex-1 text-sm text-white/80">
+                You have unsaved changes from {formatDistanceToNow(new Date(pendingDraft.updated_at), { addSuffix: true })}.
+              </p>
+              <Button size="sm" variant="ghost" onClick={handleDiscardDraft} className="text-white/70 hover:text-white">
+                Discard
+              </Button>
+              <Button size="sm" onClick={handleRestoreDraft}>
+                Restore
+              </Button>
+            </div>
+          )}
+
           <div>
             <textarea
               ref={textareaRef}
@@ -760,12 +894,21 @@ export function EditPostDialog({
             <div className="text-sm text-destructive">{error}</div>
           )}
 
-          <div className="flex justify-end gap-2">
+          <div className="flex items-center justify-end gap-2">
+            {draftStatus !== "idle" && (
+              <span className="mr-auto text-xs text-white/40">
+                {draftStatus === "saving"
+                  ? "Saving changes…"
+                  : draftStatus === "error"
+                    ? "Changes not saved"
+                    : "Changes saved as draft"}
+              </span>
+            )}
             <Button
               variant="outline"
               onClick={() => {
+                handleOpenChange(false)
                 reset()
-                onOpenChange(false)
               }}
               disabled={submitting}
             >
@@ -0,0 +1,151 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { downloadCsv } from "@/lib/csv"
+import { buildAttendanceCsv, formatWatchTime, getAttendeeName, getRegistrationStatusLabel } from "@/lib/event-attendance"
+import { supabase } from "@/lib/supabase"
+import type { CommunityEvent, EventAttendanceReport } from "@/types"
+
+interface EventAttendanceReportDialogProps {
+  event: CommunityEvent | null
+  onOpenChange: (open: boolean) => void
+}
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" }) : "—"
+}
+
+/**
+ * Host view of who registered, who showed up and for how long, with a CSV export
+ */
+export function EventAttendanceReportDialog({ event, onOpenChange }: EventAttendanceReportDialogProps) {
+  const [report, setReport] = useState<EventAttendanceReport | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!event) {
+      setReport(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    supabase
+      .rpc("get_event_attendance_report", { p_event_id: event.id })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error("Error loading attendance report:", error)
+          toast.error(error.message || "Failed to load attendance report")
+          return
+        }
+        setReport(data as EventAttendanceReport)
+      })
+      .then(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [event])
+
+  const handleExport = () => {
+    if (!event || !report) return
+    const date = new Date(event.scheduled_at).toISOString().slice(0, 10)
+    downloadCsv(`event-attendance-${date}-${event.id.slice(0, 8)}.csv`, buildAttendanceCsv(report))
+  }
+
+  const stats = report
+    ? [
+        { label: "Registered", value: report.registered },
+        { label: "Attended", value: report.attended },
+        { label: report.status === "live" ? "Not Joined Yet" : "No-shows", value: report.no_shows },
+        { label: "Peak Concurrent", value: report.peak_concurrency },
+        { label: "Avg. Watch Time", value: formatWatchTime(report.average_watch_seconds) },
+        { label: "Revenue", value: `${report.revenue_points.toLocaleString()} pts` },
+      ]
+    : []
+
+  return (
+    <Dialog open={!!event} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Attendance Report</DialogTitle>
+          <DialogDescription>
+            {event?.description || "Event"} ·{" "}
+            {event && new Date(event.scheduled_at).toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" })}
+            {report?.status === "live" && " · Live, figures update as people come and go"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !report ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-white/20 border-t-white" />
+          </div>
+        ) : report ? (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {stats.map((stat) => (
+                <div key={stat.label} className="rounded-lg bg-white/5 p-3">
+                  <p className="text-white/50 text-xs">{stat.label}</p>
+                  <p className="text-white text-lg font-semibold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.attendees.length === 0 ? (
+              <p className="text-white/50 text-sm text-center py-4">No registrations or attendance yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto rounded-lg border border-white/10">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-black/60 backdrop-blur-md text-white/50 text-xs text-left">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Name</th>
+                      <th className="px-3 py-2 font-medium">Registration</th>
+                      <th className="px-3 py-2 font-medium text-right">Paid</th>
+                      <th className="px-3 py-2 font-medium">Joined</th>
+                      <th className="px-3 py-2 font-medium text-right">Watched</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.attendees.map((row) => (
+                      <tr key={row.user_id} className="border-t border-white/10 text-white/80">
+                        <td className="px-3 py-2">{getAttendeeName(row)}</td>
+                        <td className="px-3 py-2 text-white/60">{getRegistrationStatusLabel(row)}</td>
+                        <td className="px-3 py-2 text-right">{row.points_charged > 0 ? row.points_charged : "—"}</td>
+                        <td className="px-3 py-2">
+                          {row.attended ? formatTime(row.first_joined_at) : <span className="text-white/40">{report.status === "live" ? "Not yet" : "No-show"}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {row.sessions > 0 ? formatWatchTime(row.watch_seconds) : "—"}
+                          {row.sessions > 1 && <span className="text-white/40 text-xs"> ({row.sessions}×)</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={!report}
+            className="bg-white/10 text-white/80 hover:bg-white/20"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { Loader2, MessageSquare, Pin } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useEventChat } from "@/hooks/use-event-chat"
+import { formatChatOffset, getChatAuthorName } from "@/lib/event-chat"
+
+interface EventChatReplayDialogProps {
+  eventId: string
+  // When the recording starts, so offsets line up with the video
+  startedAt?: string | null
+  title: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Read-only chat from a finished event, shown next to its recording on the videos page
+ */
+export function EventChatReplayDialog({ eventId, startedAt, title, open, onOpenChange }: EventChatReplayDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Chat replay
+          </DialogTitle>
+          <DialogDescription className="truncate">{title}</DialogDescription>
+        </DialogHeader>
+        {open && <ChatReplay eventId={eventId} startedAt={startedAt} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function ChatReplay({ eventId, startedAt }: { eventId: string; startedAt?: string | null }) {
+  const { messages, loading } = useEventChat(eventId)
+  const visibleMessages = messages.filter((message) => !message.deleted_at)
+  const origin = startedAt || visibleMessages[0]?.created_at
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+      </div>
+    )
+  }
+
+  if (visibleMessages.length === 0) {
+    return <p className="py-8 text-center text-sm text-white/60">No chat messages were sent during this event</p>
+  }
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto scrollbar-thin space-y-3 pr-1">
+      {visibleMessages.map((message) => {
+        const authorName = getChatAuthorName(message)
+        const reactions = Object.entries(message.reaction_counts ?? {}).filter(([, count]) => count > 0)
+
+        return (
+          <div key={message.id} className="flex items-start gap-2">
+            <span className="w-14 flex-shrink-0 pt-0.5 text-right font-mono text-xs text-white/40">
+              {origin ? formatChatOffset(message.created_at, origin) : ""}
+            </span>
+            <Avatar className="h-7 w-7 border border-white/20 flex-shrink-0">
+              <AvatarImage src={message.user?.profile_picture} alt={authorName} />
+              <AvatarFallback className="bg-gradient-to-br from-primary to-primary/70 text-white text-[10px]">
+                {authorName.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-1.5">
+                <span className="truncate text-sm font-medium text-white">{authorName}</span>
+                {message.is_pinned && <Pin className="h-3 w-3 flex-shrink-0 text-white/60" />}
+              </div>
+              <p className="whitespace-pre-wrap break-words text-sm text-white/90">{message.content}</p>
+              {reactions.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {reactions.map(([emoji, count]) => (
+                    <span
+                      key={emoji}
+                      className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-xs text-white/70"
+                    >
+                      <span>{emoji}</span>
+                      <span>{count}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
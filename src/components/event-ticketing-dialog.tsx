@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { supabase } from "@/lib/supabase"
+import type { CommunityEvent } from "@/types"
+
+interface EventTicketingDialogProps {
+  event: CommunityEvent | null
+  platformJoinCost: number
+  onOpenChange: (open: boolean) => void
+  onSaved: (event: CommunityEvent, appliedToFollowing: boolean) => void
+}
+
+interface TierDraft {
+  pointsCost: string
+  endsAt: string // datetime-local value
+}
+
+// datetime-local inputs work in local time without a zone
+function toDateTimeLocal(value: string | Date) {
+  const date = new Date(value)
+  const offset = date.getTimezoneOffset() * 60_000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+function parsePositiveInteger(value: string) {
+  const parsed = parseInt(value, 10)
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed
+}
+
+/**
+ * Owner settings for an event's price, capacity and early-bird tiers
+ */
+export function EventTicketingDialog({ event, platformJoinCost, onOpenChange, onSaved }: EventTicketingDialogProps) {
+  const [joinCost, setJoinCost] = useState("")
+  const [capacity, setCapacity] = useState("")
+  const [tiers, setTiers] = useState<TierDraft[]>([])
+  const [applyToFollowing, setApplyToFollowing] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!event) return
+    setJoinCost(event.join_cost ? String(event.join_cost) : "")
+    setCapacity(event.capacity ? String(event.capacity) : "")
+    setTiers(
+      (event.price_tiers ?? [])
+        .slice()
+        .sort((a, b) => new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime())
+        .map((tier) => ({ pointsCost: String(tier.points_cost), endsAt: toDateTimeLocal(tier.ends_at) }))
+    )
+    setApplyToFollowing(false)
+  }, [event])
+
+  const updateTier = (index: number, changes: Partial<TierDraft>) => {
+    setTiers((prev) => prev.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)))
+  }
+
+  const handleSave = async () => {
+    if (!event) return
+
+    if (joinCost && parsePositiveInteger(joinCost) === null) {
+      toast.error("Price must be a whole number of points")
+      return
+    }
+
+    if (capacity && parsePositiveInteger(capacity) === null) {
+      toast.error("Capacity must be a whole number")
+      return
+    }
+
+    const priceTiers = []
+    for (const tier of tiers) {
+      const pointsCost = parsePositiveInteger(tier.pointsCost)
+      if (pointsCost === null || !tier.endsAt) {
+        toast.error("Each early-bird price needs a price and an end time")
+        return
+      }
+      const endsAt = new Date(tier.endsAt)
+      if (endsAt > new Date(event.scheduled_at)) {
+        toast.error("Early-bird prices must end before the event starts")
+        return
+      }
+      priceTiers.push({ points_cost: pointsCost, ends_at: endsAt.toISOString() })
+    }
+
+    setSaving(true)
+
+    try {
+      const { error } = await supabase.rpc("update_event_ticketing", {
+        p_event_id: event.id,
+        p_join_cost: joinCost ? parsePositiveInteger(joinCost) : null,
+        p_capacity: capacity ? parsePositiveInteger(capacity) : null,
+        p_price_tiers: priceTiers,
+        p_apply_to_following: !!event.series_id && applyToFollowing,
+      })
+
+      if (error) throw error
+
+      toast.success("Ticket settings saved")
+      onSaved(event, !!event.series_id && applyToFollowing)
+      onOpenChange(false)
+    } catch (error: any) {
+      console.error("Error saving ticket settings:", error)
+      toast.error(error.message || "Failed to save ticket settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!event} onOpenChange={(open) => !saving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Tickets & Capacity</DialogTitle>
+          <DialogDescription>
+            When the event is full, new sign-ups join a waitlist and are registered and charged automatically as spots open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-white/70">Price (points)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={joinCost}
+                onChange={(e) => setJoinCost(e.target.value)}
+                placeholder={`${platformJoinCost} (default)`}
+                className="bg-white/5 border-white/20 text-white"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-white/70">Capacity</Label>
+              <Input
+                type="number"
+                min={1}
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+                placeholder="Unlimited"
+                className="bg-white/5 border-white/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-white/70">Early-bird prices</Label>
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => setTiers((prev) => [...prev, { pointsCost: "", endsAt: "" }])}
+                className="bg-white/5 text-white/70 hover:bg-white/10 h-7"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+            </div>
+            {tiers.length === 0 && (
+              <p className="text-white/40 text-xs">No early-bird pricing. Everyone pays the price above.</p>
+            )}
+            {tiers.map((tier, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={tier.pointsCost}
+                  onChange={(e) => updateTier(index, { pointsCost: e.target.value })}
+                  placeholder="Points"
+                  className="w-24 bg-white/5 border-white/20 text-white"
+                />
+                <span className="text-white/50 text-sm">until</span>
+                <Input
+                  type="datetime-local"
+                  value={tier.endsAt}
+                  max={toDateTimeLocal(event?.scheduled_at ?? new Date())}
+                  onChange={(e) => updateTier(index, { endsAt: e.target.value })}
+                  className="flex-1 bg-white/5 border-white/20 text-white"
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))}
+                  className="bg-white/5 text-white/60 hover:bg-white/10 h-8 w-8 flex-shrink-0"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {event?.series_id && (
+            <label className="flex items-center gap-2 text-white/70 text-sm cursor-pointer">
+              <Checkbox checked={applyToFollowing} onCheckedChange={(checked) => setApplyToFollowing(checked === true)} />
+              Apply price and capacity to all future events in this series
+            </label>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving} className="bg-white/10 text-white/80 hover:bg-white/20">
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
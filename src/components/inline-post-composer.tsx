@@ -3,7 +3,7 @@
 import * as React from "react"
 import { createPortal } from "react-dom"
 import { useRouter } from "next/navigation"
-import { X, Plus, ChevronLeft, ChevronRight, Mic, Image as ImageIcon, Play, Pause, Trash2, Crown, Hash, Star } from "lucide-react"
+import { X, Plus, ChevronLeft, ChevronRight, Mic, Image as ImageIcon, Play, Pause, Trash2, Crown, Hash, Star, CalendarClock, BarChart3 } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/components/auth-provider"
-import type { MediaType, PostWithAuthor, Topic } from "@/types"
+import type { MediaType, PostDraft, PostWithAuthor, Topic } from "@/types"
 import { cn, extractFirstUrl } from "@/lib/utils"
 import { VoiceNoteRecorder } from "@/components/voice-note-recorder"
 import { toast } from "sonner"
@@ -20,6 +20,11 @@ import { EmojiPicker } from "@/components/emoji-picker"
 import { LinkPreviewCard } from "@/components/link-preview-card"
 import { useLinkPreview } from "@/hooks/use-link-preview"
 import { TiptapEditor } from "@/components/tiptap-editor"
+import { SchedulePostDialog, formatScheduledFor } from "@/components/schedule-post-dialog"
+import { PostDraftsPicker } from "@/components/post-drafts-picker"
+import { PollComposer } from "@/components/poll-composer"
+import { POLL_MIN_OPTIONS, cleanPollOptions, emptyPollDraft, getPollClosesAt, type PollDraft } from "@/lib/polls"
+import { usePostDraft } from "@/hooks/use-post-draft"
 import {
   Select,
   SelectContent,
@@ -41,6 +46,7 @@ interface InlinePostComposerProps {
   disableRouterRefresh?: boolean
   hideCollapsedTrigger?: boolean
   onPostCreated?: (post: PostWithAuthor) => void
+  onPostScheduled?: (post: PostWithAuthor) => void
   onExpandedChange?: (isExpanded: boolean) => void
   className?: string
   contentClassName?: string
@@ -75,6 +81,7 @@ export function InlinePostComposer({
   disableRouterRefresh,
   hideCollapsedTrigger,
   onPostCreated,
+  onPostScheduled,
   onExpandedChange,
   className,
   contentClassName,
@@ -140,6 +147,11 @@ export function InlinePostComposer({
   const [topicDropdownPosition, setTopicDropdownPosition] = React.useState<{ top?: number; bottom?: number; left: number; width: number; maxHeight: number } | null>(null)
   const [highlightedTopicIndex, setHighlightedTopicIndex] = React.useState<number>(-1)
   const [showBoostRewardsDialog, setShowBoostRewardsDialog] = React.useState(false)
+  const [showScheduleDialog, setShowScheduleDialog] = React.useState(false)
+  // Only top-level posts can be scheduled; null publishes immediately
+  const [scheduledFor, setScheduledFor] = React.useState<Date | null>(null)
+  // Only top-level posts can carry a poll; null means no poll
+  const [poll, setPoll] = React.useState<PollDraft | null>(null)
   const [boostRewardMessage, setBoostRewardMessage] = React.useState<string>("")
   const [boostRewardAttachments, setBoostRewardAttachments] = React.useState<Array<{ file: File; preview: string; type: 'image' | 'document' }>>([])
   const [uploadProgress, setUploadProgress] = React.useState<{ current: number; total: number } | null>(null)
@@ -153,6 +165,17 @@ export function InlinePostComposer({
   const audioRefs = React.useRef<Record<string, HTMLAudioElement>>({})
   const [canScrollLeft, setCanScrollLeft] = React.useState(false)
   const [canScrollRight, setCanScrollRight] = React.useState(false)
+  // Top-level posts autosave as drafts so they survive refreshes and device switches
+  const draftsEnabled = resolvedMode === "post" && !parentPostId
+  const {
+    draftId,
+    status: draftStatus,
+    save: saveDraft,
+    discard: discardDraft,
+    detach: detachDraft,
+    restore: restoreDraft,
+  } = usePostDraft({ userId: user?.id, communityId, enabled: draftsEnabled })
+  const [draftsRefreshKey, setDraftsRefreshKey] = React.useState(0)
   const trimmedContent = content.trim()
   const hasVoiceNote = !!voiceNote
   const hasImages = imageFiles.length > 0
@@ -162,7 +185,9 @@ export function InlinePostComposer({
     (resolvedAllowImages && hasImages)
   const isSubmitDisabled = disabled || submitting || showVoiceRecorder || !canSubmitContent
   const submitLabel =
-    resolvedMode === "post" ? "Post" : resolvedMode === "comment" ? "Contribute" : "Reply"
+    resolvedMode === "post"
+      ? scheduledFor ? "Schedule" : "Post"
+      : resolvedMode === "comment" ? "Contribute" : "Reply"
   const showCommunitySelector =
     isExpanded &&
     resolvedCommunityOptions.length > 0 &&
@@ -186,6 +211,8 @@ export function InlinePostComposer({
     setTopicSearchResults([])
     setShowTopicSearch(false)
     setHighlightedTopicIndex(-1)
+    setScheduledFor(null)
+    setPoll(null)
     // Cleanup audio elements
     Object.values(audioRefs.current).forEach(audio => {
       audio.pause()
@@ -451,13 +478,18 @@ export function InlinePostComposer({
       return
     }
 
-    // Create preview URL
-    const preview = URL.createObjectURL(audioBlob)
-
     // Create file from blob
     const fileName = `voice-note-${Date.now()}.webm`
     const file = new File([audioBlob], fileName, { type: 'audio/webm' })
 
+    attachVoiceNote(file)
+    setShowVoiceRecorder(false)
+  }
+
+  const attachVoiceNote = (file: File, requiresBoost = false) => {
+    // Create preview URL
+    const preview = URL.createObjectURL(file)
+
     // Immediately load audio metadata to get duration
     const audio = new Audio(preview)
 
@@ -503,8 +535,7 @@ export function InlinePostComposer({
     audio.load()
 
     // Replace existing voice note if any (only one allowed)
-    setVoiceNote({ file, preview, type: 'audio', requiresBoost: false })
-    setShowVoiceRecorder(false)
+    setVoiceNote({ file, preview, type: 'audio', requiresBoost })
   }
 
   const handleVoiceNoteCancel = () => {
@@ -593,6 +624,85 @@ export function InlinePostComposer({
     })
   }
 
+  // Autosave while composing; an empty composer drops its draft
+  React.useEffect(() => {
+    if (!draftsEnabled || submitting) return
+
+    const media = [
+      ...(voiceNote ? [{ file: voiceNote.file, type: voiceNote.type, requiresBoost: voiceNote.requiresBoost }] : []),
+      ...imageFiles.map(image => ({ file: image.file, type: image.type })),
+    ]
+    const isEmpty =
+      content.trim().length === 0 &&
+      media.length === 0 &&
+      boostRewardMessage.trim().length === 0 &&
+      selectedTopics.length === 0
+
+    saveDraft(isEmpty ? null : {
+      content,
+      boostRewardMessage,
+      topicIds: selectedTopics,
+      media,
+    })
+  }, [draftsEnabled, submitting, content, voiceNote, imageFiles, boostRewardMessage, selectedTopics, saveDraft])
+
+  // Refresh the drafts picker whenever the composer opens
+  React.useEffect(() => {
+    if (isExpanded) {
+      setDraftsRefreshKey(prev => prev + 1)
+    }
+  }, [isExpanded])
+
+  const handleRestoreDraft = async (selected: PostDraft) => {
+    try {
+      // Saves and lets go of the current draft before switching
+      const media = await restoreDraft(selected)
+
+      if (voiceNote) removeVoiceNote()
+      imageFiles.forEach(image => URL.revokeObjectURL(image.preview))
+
+      setContent(selected.content)
+      setBoostRewardMessage(selected.boost_reward_message ?? "")
+
+      const restoredVoiceNote = media.find(m => m.type === 'audio')
+      if (restoredVoiceNote && resolvedAllowVoiceNote) {
+        attachVoiceNote(restoredVoiceNote.file, restoredVoiceNote.requiresBoost)
+      }
+      setImageFiles(
+        media
+          .filter(m => m.type === 'image' && resolvedAllowImages)
+          .map(m => ({ file: m.file, preview: URL.createObjectURL(m.file), type: m.type }))
+      )
+
+      setSelectedTopics(selected.topic_ids)
+      if (selected.topic_ids.length > 0) {
+        const { data: topicsData } = await supabase
+          .from("topics")
+          .select("id, slug, label, description, is_featured")
+          .in("id", selected.topic_ids)
+        setSelectedTopicsData((topicsData || []) as Topic[])
+      } else {
+        setSelectedTopicsData([])
+      }
+
+      setDraftsRefreshKey(prev => prev + 1)
+    } catch (error) {
+      console.error('Error restoring draft:', error)
+      toast.error("Failed to open draft")
+    }
+  }
+
+  const handleCancel = async () => {
+    if (draftsEnabled) {
+      // Keep the draft for later instead of throwing the work away
+      await detachDraft()
+      if (canSubmitContent || boostRewardMessage.trim().length > 0) {
+        toast.success("Draft saved")
+      }
+    }
+    reset()
+  }
+
   const handleEmojiSelect = (emoji: string) => {
     if (!textareaRef.current) return
 
@@ -827,6 +937,24 @@ export function InlinePostComposer({
       return
     }
 
+    const publishAt = resolvedMode === "post" ? scheduledFor : null
+    if (publishAt && publishAt <= new Date()) {
+      setError("The scheduled time has passed. Pick a new time or post now.")
+      return
+    }
+
+    const pollOptions = poll ? cleanPollOptions(poll.options) : []
+    if (poll) {
+      if (currentTrimmedContent.length === 0) {
+        setError("Add a question for your poll.")
+        return
+      }
+      if (pollOptions.length < POLL_MIN_OPTIONS) {
+        setError(`Add at least ${POLL_MIN_OPTIONS} different poll options.`)
+        return
+      }
+    }
+
     setSubmitting(true)
     setError(null)
 
@@ -854,7 +982,7 @@ export function InlinePostComposer({
           author_id: user.id,
           content: contentToSave,
           parent_post_id: parentPostId,
-          published_at: new Date().toISOString(),
+          published_at: (publishAt ?? new Date()).toISOString(),
           boost_reward_message: boostRewardMessage.trim() || null
         })
         .select(`
@@ -880,6 +1008,28 @@ export function InlinePostComposer({
         throw new Error(`Failed to create post: ${postError.message}`)
       }
 
+      // Create the poll before charging points or uploading anything, so a failure
+      // can remove the post instead of leaving it published without its poll
+      if (resolvedMode === "post" && poll) {
+        const closesAt = getPollClosesAt(poll.duration, publishAt ?? new Date())
+        const { error: pollError } = await supabase.rpc('create_post_poll', {
+          p_post_id: insertedPost.id,
+          p_options: pollOptions,
+          p_allows_multiple: poll.allowsMultiple,
+          p_is_anonymous: poll.isAnonymous,
+          p_closes_at: closesAt?.toISOString() ?? null
+        })
+
+        if (pollError) {
+          console.error('Poll creation error:', pollError)
+          const { error: deleteError } = await supabase.from('posts').delete().eq('id', insertedPost.id)
+          if (deleteError) {
+            console.error('Failed to remove post after poll creation error:', deleteError)
+          }
+          throw new Error(`Failed to create poll: ${pollError.message}`)
+        }
+      }
+
       // Deduct points for boost reward message/attachments if present (admins bypass this)
       if (hasBoostReward && user) {
         const isAdmin = userProfile?.role === 'admin'
@@ -1011,10 +1161,18 @@ export function InlinePostComposer({
         })()
       }
 
-      if (onPostCreated && createdPost) {
+      if (publishAt) {
+        // Scheduled posts stay out of the feed until they're published
+        toast.success(`Post scheduled for ${formatScheduledFor(publishAt)}`)
+        onPostScheduled?.(createdPost as PostWithAuthor)
+      } else if (onPostCreated && createdPost) {
         onPostCreated(createdPost as PostWithAuthor)
       }
 
+      if (draftsEnabled) {
+        await discardDraft()
+      }
+
       reset()
       if (!disableRouterRefresh) {
         router.refresh()
@@ -1072,6 +1230,17 @@ export function InlinePostComposer({
                 <span className="text-white/80 text-sm font-medium">
                   {userProfile.first_name} {userProfile.last_name}
                 </span>
+                {draftsEnabled && (
+                  <div className="ml-auto">
+                    <PostDraftsPicker
+                      communityId={communityId}
+                      currentDraftId={draftId}
+                      refreshKey={draftsRefreshKey}
+                      disabled={disabled || submitting}
+                      onSelect={handleRestoreDraft}
+                    />
+                  </div>
+                )}
               </div>
 
               {showCommunitySelector && (
@@ -1404,6 +1573,15 @@ export function InlinePostComposer({
               </div>
             )}
 
+            {resolvedMode === "post" && poll && (
+              <PollComposer
+                value={poll}
+                onChange={setPoll}
+                onRemove={() => setPoll(null)}
+                disabled={disabled || submitting}
+              />
+            )}
+
             {resolvedAllowImages && (
               <input
                 ref={fileInputRef}
@@ -1474,15 +1652,67 @@ export function InlinePostComposer({
                 </button>
               )}
 
+              {resolvedMode === "post" && (
+                <button
+                  type="button"
+                  onClick={() => setPoll(prev => prev ? null : emptyPollDraft())}
+                  disabled={disabled || submitting || showVoiceRecorder}
+                  className={cn(
+                    "group relative flex items-center justify-center p-2 rounded-full border transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/30",
+                    poll && "bg-white/10 border-white/30"
+                  )}
+                  title={poll ? "Remove poll" : "Add poll"}
+                >
+                  <BarChart3 className={cn(
+                    "h-4 w-4 text-white/70 group-hover:text-white/80 transition-all",
+                    poll && "text-white/90"
+                  )} />
+                  <span className="sr-only">Poll</span>
+                </button>
+              )}
+
+              {resolvedMode === "post" && (
+                <button
+                  type="button"
+                  onClick={() => setShowScheduleDialog(true)}
+                  disabled={disabled || submitting || showVoiceRecorder}
+                  className={cn(
+                    "group relative flex items-center gap-1.5 justify-center p-2 rounded-full border transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed bg-white/5 border-white/20 hover:bg-white/10 hover:border-white/30",
+                    scheduledFor && "px-3 bg-white/10 border-white/30"
+                  )}
+                  title="Schedule post"
+                >
+                  <CalendarClock className={cn(
+                    "h-4 w-4 text-white/70 group-hover:text-white/80 transition-all",
+                    scheduledFor && "text-white/90"
+                  )} />
+                  {scheduledFor ? (
+                    <span className="text-xs text-white/80">{formatScheduledFor(scheduledFor)}</span>
+                  ) : (
+                    <span className="sr-only">Schedule</span>
+                  )}
+                </button>
+              )}
+
               <div className="flex-1" />
 
+              {draftsEnabled && draftStatus !== "idle" && (
+                <span className="text-xs text-white/40">
+                  {draftStatus === "saving"
+                    ? "Saving draft…"
+                    : draftStatus === "error"
+                      ? "Draft not saved"
+                      : "Draft saved"}
+                </span>
+              )}
+
               <Button
                 type="button"
                 size="sm"
                 variant="ghost"
                 onClick={(e) => {
                   e.preventDefault()
-                  reset()
+                  handleCancel()
                 }}
                 disabled={submitting}
                 className="text-white/70 hover:text-white"
@@ -1522,6 +1752,17 @@ export function InlinePostComposer({
         mediaType={voiceNote ? "audio" : undefined}
         hasVoiceNote={!!voiceNote}
       />
+
+      {resolvedMode === "post" && (
+        <SchedulePostDialog
+          open={showScheduleDialog}
+          onOpenChange={setShowScheduleDialog}
+          scheduledFor={scheduledFor}
+          onConfirm={setScheduledFor}
+          onClear={() => setScheduledFor(null)}
+          confirmLabel="Set Time"
+        />
+      )}
     </Card>
   )
 }
\ No newline at end of file
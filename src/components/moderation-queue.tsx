@@ -0,0 +1,425 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { EyeOff, Trash2, AlertTriangle, X, RotateCcw, Loader2, Flag, History } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { supabase } from "@/lib/supabase"
+import { formatRelativeTime } from "@/lib/utils"
+import {
+  moderationActionLabels,
+  reportReasonLabels,
+  reportTargetLabels,
+  type ReportResolution,
+} from "@/lib/moderation"
+import type { ContentReport, ModerationAction, ReportStatus, User } from "@/types"
+
+type UserSummary = Pick<User, "id" | "username" | "first_name" | "last_name">
+
+type ReportRow = ContentReport & {
+  reporter: UserSummary | null
+  reported_user: UserSummary | null
+  community: { name: string; slug: string } | null
+  post: { id: string; is_hidden: boolean } | null
+}
+
+type ActionRow = ModerationAction & {
+  actor: UserSummary | null
+  target_user: UserSummary | null
+  community: { name: string; slug: string } | null
+}
+
+interface ModerationQueueProps {
+  // Omit to review reports across the whole platform (admins only)
+  communityId?: string
+}
+
+const USER_FIELDS = "id, username, first_name, last_name"
+
+const resolutionCopy: Record<ReportResolution, { title: string; description: string; confirm: string }> = {
+  hide: {
+    title: "Hide content",
+    description: "The content stays in place for the author and moderators but is hidden from everyone else.",
+    confirm: "Hide",
+  },
+  delete: {
+    title: "Delete content",
+    description: "The content is removed permanently. The report keeps a copy of the text.",
+    confirm: "Delete",
+  },
+  warn: {
+    title: "Warn user",
+    description: "The author gets a warning notification. Your note is shown to them if you add one.",
+    confirm: "Send Warning",
+  },
+  dismiss: {
+    title: "Dismiss report",
+    description: "Close this report without taking action on the content.",
+    confirm: "Dismiss",
+  },
+}
+
+function displayName(user: UserSummary | null) {
+  if (!user) return "Deleted user"
+  return `${user.first_name} ${user.last_name}`.trim() || `@${user.username}`
+}
+
+/**
+ * Report queue and audit trail, shared by the admin moderation page and community settings.
+ */
+export function ModerationQueue({ communityId }: ModerationQueueProps) {
+  const [statusFilter, setStatusFilter] = useState<ReportStatus>("open")
+  const [reports, setReports] = useState<ReportRow[]>([])
+  const [actions, setActions] = useState<ActionRow[]>([])
+  const [loadingReports, setLoadingReports] = useState(true)
+  const [loadingActions, setLoadingActions] = useState(true)
+  const [pending, setPending] = useState<{ report: ReportRow; action: ReportResolution } | null>(null)
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [restoringPostId, setRestoringPostId] = useState<string | null>(null)
+
+  const fetchReports = useCallback(async () => {
+    setLoadingReports(true)
+    try {
+      let query = supabase
+        .from("content_reports")
+        .select(`
+          *,
+          reporter:users!content_reports_reporter_id_fkey(${USER_FIELDS}),
+          reported_user:users!content_reports_reported_user_id_fkey(${USER_FIELDS}),
+          community:communities(name, slug),
+          post:posts(id, is_hidden)
+        `)
+        .eq("status", statusFilter)
+        .order("created_at", { ascending: statusFilter === "open" })
+        .limit(100)
+
+      if (communityId) {
+        query = query.eq("community_id", communityId)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+      setReports((data || []) as ReportRow[])
+    } catch (error) {
+      console.error("Error fetching reports:", error)
+      toast.error("Failed to load reports")
+    } finally {
+      setLoadingReports(false)
+    }
+  }, [communityId, statusFilter])
+
+  const fetchActions = useCallback(async () => {
+    setLoadingActions(true)
+    try {
+      let query = supabase
+        .from("moderation_actions")
+        .select(`
+          *,
+          actor:users!moderation_actions_actor_id_fkey(${USER_FIELDS}),
+          target_user:users!moderation_actions_target_user_id_fkey(${USER_FIELDS}),
+          community:communities(name, slug)
+        `)
+        .order("created_at", { ascending: false })
+        .limit(100)
+
+      if (communityId) {
+        query = query.eq("community_id", communityId)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+      setActions((data || []) as ActionRow[])
+    } catch (error) {
+      console.error("Error fetching moderation log:", error)
+      toast.error("Failed to load audit log")
+    } finally {
+      setLoadingActions(false)
+    }
+  }, [communityId])
+
+  useEffect(() => {
+    fetchReports()
+  }, [fetchReports])
+
+  useEffect(() => {
+    fetchActions()
+  }, [fetchActions])
+
+  const openResolution = (report: ReportRow, action: ReportResolution) => {
+    setNote("")
+    setPending({ report, action })
+  }
+
+  const handleResolve = async () => {
+    if (!pending) return
+
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/moderation/reports/${pending.report.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: pending.action, note: note.trim() || null }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resolve report")
+      }
+
+      toast.success(`${moderationActionLabels[pending.action]} ${reportTargetLabels[pending.report.target_type].toLowerCase()} report`)
+      setPending(null)
+      await Promise.all([fetchReports(), fetchActions()])
+    } catch (error: any) {
+      console.error("Error resolving report:", error)
+      toast.error(error?.message || "Failed to resolve report")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRestore = async (postId: string) => {
+    setRestoringPostId(postId)
+    try {
+      const { error } = await supabase.rpc("unhide_post", { p_post_id: postId })
+      if (error) throw error
+
+      toast.success("Content restored")
+      await Promise.all([fetchReports(), fetchActions()])
+    } catch (error: any) {
+      console.error("Error restoring post:", error)
+      toast.error(error?.message || "Failed to restore content")
+    } finally {
+      setRestoringPostId(null)
+    }
+  }
+
+  return (
+    <>
+      <Tabs defaultValue="reports" className="space-y-4">
+        <TabsList className="bg-white/10 border-white/20">
+          <TabsTrigger value="reports" className="text-white data-[state=active]:bg-white/20">
+            <Flag className="h-4 w-4 mr-2" />
+            Reports
+          </TabsTrigger>
+          <TabsTrigger value="audit" className="text-white data-[state=active]:bg-white/20">
+            <History className="h-4 w-4 mr-2" />
+            Audit Log
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="reports" className="space-y-4">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReportStatus)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="actioned">Actioned</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {loadingReports ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+            </div>
+          ) : reports.length === 0 ? (
+            <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+              <CardContent className="py-12 text-center">
+                <p className="text-white/60">
+                  {statusFilter === "open" ? "No open reports. Nice and quiet." : "No reports here yet."}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            reports.map((report) => {
+              const isPost = report.target_type !== "dm_message"
+              const contentGone = isPost ? !report.post_id : !report.dm_message_id
+
+              return (
+                <Card key={report.id} className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="rounded-full bg-red-500/20 text-red-300 px-2 py-0.5 text-xs">
+                        {reportReasonLabels[report.reason]}
+                      </span>
+                      <span className="rounded-full bg-white/10 text-white/70 px-2 py-0.5 text-xs">
+                        {reportTargetLabels[report.target_type]}
+                      </span>
+                      {!communityId && report.community && (
+                        <Link href={`/${report.community.slug}/feed`} className="text-white/60 hover:text-white/80 text-xs">
+                          {report.community.name} →
+                        </Link>
+                      )}
+                      {report.post?.is_hidden && (
+                        <span className="rounded-full bg-yellow-500/20 text-yellow-300 px-2 py-0.5 text-xs">Hidden</span>
+                      )}
+                      {contentGone && (
+                        <span className="rounded-full bg-white/10 text-white/50 px-2 py-0.5 text-xs">Removed</span>
+                      )}
+                      <span className="text-white/40 text-xs ml-auto">{formatRelativeTime(report.created_at)}</span>
+                    </div>
+
+                    {report.content_snapshot && (
+                      <p className="text-white/80 text-sm whitespace-pre-wrap line-clamp-6 border-l-2 border-white/20 pl-3">
+                        {report.content_snapshot}
+                      </p>
+                    )}
+
+                    {report.details && (
+                      <p className="text-white/60 text-sm">&ldquo;{report.details}&rdquo;</p>
+                    )}
+
+                    <div className="text-white/50 text-xs space-y-1">
+                      <p>
+                        Reported by {displayName(report.reporter)} · Author {displayName(report.reported_user)}
+                      </p>
+                      {report.resolved_at && (
+                        <p>
+                          Resolved {formatRelativeTime(report.resolved_at)}
+                          {report.resolution_note ? ` · ${report.resolution_note}` : ""}
+                        </p>
+                      )}
+                    </div>
+
+                    {report.status === "open" && (
+                      <div className="flex flex-wrap gap-2 pt-1">
+                        {isPost && (
+                          <Button size="sm" variant="outline" onClick={() => openResolution(report, "hide")} disabled={contentGone}>
+                            <EyeOff className="h-4 w-4 mr-2" />
+                            Hide
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => openResolution(report, "delete")} disabled={contentGone}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openResolution(report, "warn")}
+                          disabled={!report.reported_user_id}
+                        >
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                          Warn
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => openResolution(report, "dismiss")}>
+                          <X className="h-4 w-4 mr-2" />
+                          Dismiss
+                        </Button>
+                      </div>
+                    )}
+
+                    {report.status !== "open" && report.post?.is_hidden && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRestore(report.post!.id)}
+                        disabled={restoringPostId === report.post.id}
+                      >
+                        {restoringPostId === report.post.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              )
+            })
+          )}
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+            <CardContent className="p-0">
+              {loadingActions ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+                </div>
+              ) : actions.length === 0 ? (
+                <p className="text-white/60 text-center py-12">No moderation actions yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className="text-white/70">When</TableHead>
+                      <TableHead className="text-white/70">Moderator</TableHead>
+                      <TableHead className="text-white/70">Action</TableHead>
+                      <TableHead className="text-white/70">User</TableHead>
+                      {!communityId && <TableHead className="text-white/70">Community</TableHead>}
+                      <TableHead className="text-white/70">Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {actions.map((entry) => (
+                      <TableRow key={entry.id} className="border-white/10">
+                        <TableCell className="text-white/60 whitespace-nowrap">{formatRelativeTime(entry.created_at)}</TableCell>
+                        <TableCell className="text-white">{displayName(entry.actor)}</TableCell>
+                        <TableCell className="text-white/80 whitespace-nowrap">
+                          {moderationActionLabels[entry.action]} {reportTargetLabels[entry.target_type].toLowerCase()}
+                        </TableCell>
+                        <TableCell className="text-white/80">{entry.target_user_id ? displayName(entry.target_user) : "—"}</TableCell>
+                        {!communityId && (
+                          <TableCell className="text-white/60">{entry.community?.name ?? "Direct messages"}</TableCell>
+                        )}
+                        <TableCell className="text-white/60 max-w-[240px] truncate">{entry.note || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !submitting && !open && setPending(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader className="space-y-2">
+            <DialogTitle>{pending ? resolutionCopy[pending.action].title : null}</DialogTitle>
+            <DialogDescription>{pending ? resolutionCopy[pending.action].description : null}</DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={pending?.action === "warn" ? "Message to the user (optional)" : "Note for the audit log (optional)"}
+            maxLength={1000}
+            className="min-h-[80px]"
+          />
+
+          <DialogFooter className="mt-4">
+            <Button
+              onClick={handleResolve}
+              disabled={submitting}
+              variant={pending?.action === "delete" ? "destructive" : "default"}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pending ? resolutionCopy[pending.action].confirm : null}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import * as React from "react"
+import { Bell, Loader2, Moon, Save } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { supabase } from "@/lib/supabase"
+import {
+  DEFAULT_CHANNEL_PREFERENCES,
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  notificationChannelLabels,
+  notificationTypeLabels,
+  type NotificationChannelPreferences,
+} from "@/lib/notification-preferences"
+import type {
+  NotificationChannel,
+  NotificationDigestFrequency,
+  NotificationPreference,
+  NotificationSettings,
+  NotificationType,
+} from "@/types"
+
+type SettingsForm = Pick<
+  NotificationSettings,
+  "quiet_hours_enabled" | "quiet_hours_start" | "quiet_hours_end" | "timezone" | "digest_frequency"
+>
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+
+const defaultPreferences = () =>
+  Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, { ...DEFAULT_CHANNEL_PREFERENCES }])
+  ) as Record<NotificationType, NotificationChannelPreferences>
+
+interface NotificationPreferencesCardProps {
+  userId: string
+}
+
+/**
+ * Per-type channel toggles, quiet hours and the email digest, shown on the account page.
+ */
+export function NotificationPreferencesCard({ userId }: NotificationPreferencesCardProps) {
+  const [preferences, setPreferences] = React.useState(defaultPreferences)
+  const [settings, setSettings] = React.useState<SettingsForm>(() => ({
+    quiet_hours_enabled: false,
+    quiet_hours_start: "22:00",
+    quiet_hours_end: "07:00",
+    timezone: browserTimezone(),
+    digest_frequency: "off",
+  }))
+  const [loading, setLoading] = React.useState(true)
+  const [saving, setSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const [preferencesResult, settingsResult] = await Promise.all([
+        supabase.from("notification_preferences").select("*").eq("user_id", userId),
+        supabase.from("notification_settings").select("*").eq("user_id", userId).maybeSingle(),
+      ])
+
+      if (cancelled) return
+
+      if (preferencesResult.error || settingsResult.error) {
+        console.error("Error loading notification preferences:", preferencesResult.error || settingsResult.error)
+        toast.error("Failed to load notification preferences")
+      }
+
+      const next = defaultPreferences()
+      ;((preferencesResult.data || []) as NotificationPreference[]).forEach((row) => {
+        next[row.type] = { in_app: row.in_app, push: row.push, email: row.email }
+      })
+      setPreferences(next)
+
+      const saved = settingsResult.data as NotificationSettings | null
+      if (saved) {
+        setSettings({
+          quiet_hours_enabled: saved.quiet_hours_enabled,
+          quiet_hours_start: saved.quiet_hours_start.slice(0, 5),
+          quiet_hours_end: saved.quiet_hours_end.slice(0, 5),
+          timezone: saved.timezone,
+          digest_frequency: saved.digest_frequency,
+        })
+      }
+      setLoading(false)
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    setPreferences((prev) => ({ ...prev, [type]: { ...prev[type], [channel]: enabled } }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const { error: preferencesError } = await supabase.from("notification_preferences").upsert(
+        NOTIFICATION_TYPES.map((type) => ({ user_id: userId, type, ...preferences[type] })),
+        { onConflict: "user_id,type" }
+      )
+      if (preferencesError) throw preferencesError
+
+      const { error: settingsError } = await supabase
+        .from("notification_settings")
+        .upsert({ user_id: userId, ...settings }, { onConflict: "user_id" })
+      if (settingsError) throw settingsError
+
+      toast.success("Notification preferences saved")
+    } catch (error: any) {
+      console.error("Error saving notification preferences:", error)
+      toast.error(error?.message || "Failed to save notification preferences")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-white flex items-center gap-2 text-xl">
+          <Bell className="h-5 w-5 text-white/70" />
+          Notifications
+        </CardTitle>
+        <CardDescription className="text-white/60 text-sm mt-2">
+          Choose how you hear about each kind of activity
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-white/60">
+                    <th className="py-2 pr-4 text-left font-medium">Activity</th>
+                    {NOTIFICATION_CHANNELS.map((channel) => (
+                      <th key={channel} className="px-3 py-2 text-center font-medium whitespace-nowrap">
+                        {notificationChannelLabels[channel]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {NOTIFICATION_TYPES.map((type) => (
+                    <tr key={type} className="border-t border-white/10">
+                      <td className="py-3 pr-4">
+                        <p className="text-white font-medium">{notificationTypeLabels[type].label}</p>
+                        <p className="text-white/50 text-xs">{notificationTypeLabels[type].description}</p>
+                      </td>
+                      {NOTIFICATION_CHANNELS.map((channel) => (
+                        <td key={channel} className="px-3 py-3 text-center">
+                          <Checkbox
+                            checked={preferences[type][channel]}
+                            onCheckedChange={(checked) => toggleChannel(type, channel, checked === true)}
+                            aria-label={`${notificationTypeLabels[type].label} ${notificationChannelLabels[channel]}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-white font-medium cursor-pointer">
+                <Checkbox
+                  checked={settings.quiet_hours_enabled}
+                  onCheckedChange={(checked) =>
+                    setSettings((prev) => ({ ...prev, quiet_hours_enabled: checked === true }))
+                  }
+                />
+                <Moon className="h-4 w-4 text-white/70" />
+                Quiet hours
+              </label>
+              <p className="text-white/50 text-xs">
+                No push notifications between these times. They still appear in-app and in your digest.
+              </p>
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="quiet-hours-start" className="text-white/80 text-sm">From</Label>
+                  <Input
+                    id="quiet-hours-start"
+                    type="time"
+                    value={settings.quiet_hours_start}
+                    onChange={(e) => setSettings((prev) => ({ ...prev, quiet_hours_start: e.target.value }))}
+                    disabled={!settings.quiet_hours_enabled}
+                    className="w-[130px] bg-white/10 border-white/20 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiet-hours-end" className="text-white/80 text-sm">To</Label>
+                  <Input
+                    id="quiet-hours-end"
+                    type="time"
+                    value={settings.quiet_hours_end}
+                    onChange={(e) => setSettings((prev) => ({ ...prev, quiet_hours_end: e.target.value }))}
+                    disabled={!settings.quiet_hours_enabled}
+                    className="w-[130px] bg-white/10 border-white/20 text-white"
+                  />
+                </div>
+                <p className="text-white/50 text-xs pb-2">
+                  {settings.timezone}
+                  {settings.timezone !== browserTimezone() && (
+                    <button
+                      type="button"
+                      onClick={() => setSettings((prev) => ({ ...prev, timezone: browserTimezone() }))}
+                      className="ml-2 text-white/70 hover:text-white underline cursor-pointer"
+                    >
+                      Use {browserTimezone()}
+                    </button>
+                  )}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white font-medium">Email digest</Label>
+              <p className="text-white/50 text-xs">
+                A summary of unread notifications for the types ticked under Email digest.
+              </p>
+              <Select
+                value={settings.digest_frequency}
+                onValueChange={(value) =>
+                  setSettings((prev) => ({ ...prev, digest_frequency: value as NotificationDigestFrequency }))
+                }
+              >
+                <SelectTrigger className="w-[160px] bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FREQUENCIES.map((frequency) => (
+                    <SelectItem key={frequency.value} value={frequency.value}>
+                      {frequency.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-primary text-primary-foreground hover:bg-primary/90 transition-colors touch-feedback min-w-[160px]"
+                size="lg"
+              >
+                {saving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Preferences
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
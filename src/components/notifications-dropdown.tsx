@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react'
 import Link from 'next/link'
-import { Bell, Check, MessageCircle, Heart, UserPlus, DollarSign, Calendar, AtSign, Users } from 'lucide-react'
+import { Bell, Check, MessageCircle, Heart, UserPlus, DollarSign, Calendar, AtSign, Users, ShieldAlert, Coins } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -16,6 +16,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { cn } from '@/lib/utils'
 import { markNotificationAsRead, markAllNotificationsAsRead } from '@/lib/notifications'
+import { getNotificationBody } from '@/lib/notification-groups'
 import type { Notification } from '@/types'
 import { formatDistanceToNow } from 'date-fns'
 
@@ -257,6 +258,10 @@ function NotificationItem({ notification }: { notification: Notification }) {
         return <Calendar className={iconClass} />
       case 'mention':
         return <AtSign className={iconClass} />
+      case 'moderation_warning':
+        return <ShieldAlert className={iconClass} />
+      case 'tip_received':
+        return <Coins className={iconClass} />
       default:
         return <Bell className={iconClass} />
     }
@@ -272,7 +277,7 @@ function NotificationItem({ notification }: { notification: Notification }) {
           {notification.title}
         </div>
         <div className="text-white/70 text-xs mt-1.5 line-clamp-2 leading-snug break-words">
-          {notification.body}
+          {getNotificationBody(notification)}
         </div>
         <div className="text-white/50 text-xs mt-2">
           {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
@@ -0,0 +1,333 @@
+"use client"
+
+import * as React from "react"
+import { Building2, Loader2, Plus, Star, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { supabase } from "@/lib/supabase"
+import {
+  PAYOUT_DESTINATION_COLUMNS,
+  accountTypeLabels,
+  isValidAccountNumber,
+  maskAccountNumber,
+  normalizeAccountNumber,
+  payoutDestinationStatusLabels,
+} from "@/lib/payout-destinations"
+import { cn } from "@/lib/utils"
+import type { AccountType, PayoutDestination, PayoutDestinationStatus } from "@/types"
+
+const MAX_DESTINATIONS = 5
+
+const EMPTY_FORM = {
+  bank_name: "",
+  account_type: "savings" as AccountType,
+  account_name: "",
+  account_number: "",
+}
+
+const STATUS_STYLES: Record<PayoutDestinationStatus, string> = {
+  pending: "bg-amber-500/15 text-amber-200 border-amber-500/30",
+  verified: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30",
+  rejected: "bg-rose-500/15 text-rose-200 border-rose-500/30",
+}
+
+interface PayoutDestinationsCardProps {
+  userId: string
+  // Open payouts move to the new default, so the payouts list is refreshed after changes
+  onChange?: () => void
+}
+
+/**
+ * The bank accounts a creator's earnings are paid into. Account numbers are shown
+ * masked once saved; an admin verifies each one before it can receive a payout.
+ */
+export function PayoutDestinationsCard({ userId, onChange }: PayoutDestinationsCardProps) {
+  const [destinations, setDestinations] = React.useState<PayoutDestination[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [dialogOpen, setDialogOpen] = React.useState(false)
+  const [form, setForm] = React.useState(EMPTY_FORM)
+  const [saving, setSaving] = React.useState(false)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+
+  const load = React.useCallback(async () => {
+    const { data, error } = await supabase
+      .from("payout_destinations")
+      .select(PAYOUT_DESTINATION_COLUMNS)
+      .eq("user_id", userId)
+      .order("is_default", { ascending: false })
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching payout destinations:", error)
+      toast.error("Failed to load payout destinations")
+    } else {
+      setDestinations((data || []) as PayoutDestination[])
+    }
+    setLoading(false)
+  }, [userId])
+
+  React.useEffect(() => {
+    load()
+  }, [load])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!isValidAccountNumber(form.account_number)) {
+      toast.error("Account number must be 4 to 20 digits")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase.rpc("add_payout_destination", {
+        p_bank_name: form.bank_name.trim(),
+        p_account_type: form.account_type,
+        p_account_name: form.account_name.trim(),
+        p_account_number: normalizeAccountNumber(form.account_number),
+      })
+      if (error) throw error
+
+      // The full number isn't kept around once it's saved
+      setForm(EMPTY_FORM)
+      setDialogOpen(false)
+      toast.success("Payout destination added. We'll verify it before your next payout.")
+      await load()
+      onChange?.()
+    } catch (error: any) {
+      console.error("Error adding payout destination:", error)
+      toast.error(error?.message || "Failed to add payout destination")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const runAction = async (destinationId: string, action: () => PromiseLike<{ error: any }>, success: string) => {
+    setBusyId(destinationId)
+    try {
+      const { error } = await action()
+      if (error) throw error
+      toast.success(success)
+      await load()
+      onChange?.()
+    } catch (error: any) {
+      console.error("Error updating payout destination:", error)
+      toast.error(error?.message || "Failed to update payout destination")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSetDefault = (destination: PayoutDestination) =>
+    runAction(
+      destination.id,
+      () => supabase.rpc("set_default_payout_destination", { p_destination_id: destination.id }),
+      "Default payout destination updated"
+    )
+
+  const handleRemove = (destination: PayoutDestination) => {
+    if (!confirm(`Remove ${destination.bank_name} ${maskAccountNumber(destination.account_number_last4)}?`)) return
+    runAction(
+      destination.id,
+      () => supabase.rpc("remove_payout_destination", { p_destination_id: destination.id }),
+      "Payout destination removed"
+    )
+  }
+
+  const handleDialogChange = (open: boolean) => {
+    setDialogOpen(open)
+    if (!open) setForm(EMPTY_FORM)
+  }
+
+  const defaultDestination = destinations.find((destination) => destination.is_default)
+
+  return (
+    <div className="rounded-lg bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border border-white/20 p-4 space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <div className="text-base font-semibold text-white">Payout destinations</div>
+          <p className="text-sm text-white/60">
+            {defaultDestination
+              ? "Payouts are sent to your default account once it has been verified."
+              : "Add the bank account you'd like your earnings paid into."}
+          </p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={handleDialogChange}>
+          <DialogTrigger asChild>
+            <Button
+              disabled={destinations.length >= MAX_DESTINATIONS}
+              className="bg-white/10 text-white/80 hover:bg-white/20 w-full sm:w-auto"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add account
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add payout destination</DialogTitle>
+              <DialogDescription>
+                Enter the account exactly as your bank has it. We verify every new account before paying into it.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="payout_bank_name">Bank Name</Label>
+                <Input
+                  id="payout_bank_name"
+                  value={form.bank_name}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, bank_name: e.target.value })}
+                  placeholder="e.g., Republic Bank"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="payout_account_type">Account Type</Label>
+                <Select
+                  value={form.account_type}
+                  onValueChange={(value) => setForm({ ...form, account_type: value as AccountType })}
+                >
+                  <SelectTrigger id="payout_account_type">
+                    <SelectValue placeholder="Select account type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="savings">Savings</SelectItem>
+                    <SelectItem value="checking">Checking</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="payout_account_name">Name on Account</Label>
+                <Input
+                  id="payout_account_name"
+                  value={form.account_name}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, account_name: e.target.value })}
+                  placeholder="e.g., Jordan Ali"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="payout_account_number">Account Number</Label>
+                <Input
+                  id="payout_account_number"
+                  value={form.account_number}
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={30}
+                  onChange={(e) => setForm({ ...form, account_number: e.target.value })}
+                  placeholder="e.g., 123456789"
+                  required
+                />
+                <p className="mt-1 text-xs text-white/50">Only the last four digits are shown after you save.</p>
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1" disabled={saving}>
+                  {saving ? (
+                    <span className="flex items-center gap-2 justify-center">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span>Saving...</span>
+                    </span>
+                  ) : (
+                    "Save"
+                  )}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => handleDialogChange(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+        </div>
+      ) : destinations.length === 0 ? (
+        <div className="rounded-md bg-white/5 border border-white/10 p-6 text-center">
+          <Building2 className="h-8 w-8 text-white/50 mx-auto mb-2" />
+          <p className="text-sm text-white/60">No payout destination yet. Payouts can't be sent until you add one.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {destinations.map((destination) => (
+            <div
+              key={destination.id}
+              className="flex flex-col gap-3 rounded-md bg-white/5 border border-white/10 p-3 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-white">{destination.bank_name}</span>
+                  <span className="font-mono text-sm text-white/70">{maskAccountNumber(destination.account_number_last4)}</span>
+                  {destination.is_default && (
+                    <span className="inline-flex items-center gap-1 rounded-full border border-white/20 bg-white/10 px-2 py-0.5 text-xs text-white/80">
+                      <Star className="h-3 w-3" />
+                      Default
+                    </span>
+                  )}
+                  <span
+                    className={cn(
+                      "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border",
+                      STATUS_STYLES[destination.status]
+                    )}
+                  >
+                    {payoutDestinationStatusLabels[destination.status]}
+                  </span>
+                </div>
+                <div className="text-xs text-white/50">
+                  {destination.account_name} · {accountTypeLabels[destination.account_type]}
+                </div>
+                {destination.status === "rejected" && destination.rejection_reason && (
+                  <div className="text-xs text-rose-200/80">{destination.rejection_reason}</div>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                {!destination.is_default && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busyId === destination.id}
+                    onClick={() => handleSetDefault(destination)}
+                    className="text-white/80 hover:text-white hover:bg-white/10"
+                  >
+                    Make default
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={busyId === destination.id}
+                  onClick={() => handleRemove(destination)}
+                  className="text-white/60 hover:bg-red-500/20 hover:text-red-400"
+                  title="Remove"
+                >
+                  {busyId === destination.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import * as React from "react"
+import { BarChart3, Plus, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  POLL_DURATIONS,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  type PollDraft,
+  type PollDuration,
+} from "@/lib/polls"
+
+interface PollComposerProps {
+  value: PollDraft
+  onChange: (value: PollDraft) => void
+  onRemove: () => void
+  disabled?: boolean
+}
+
+/**
+ * Poll options editor shown inside the post composer.
+ */
+export function PollComposer({ value, onChange, onRemove, disabled }: PollComposerProps) {
+  const updateOption = (index: number, label: string) => {
+    onChange({ ...value, options: value.options.map((option, i) => (i === index ? label : option)) })
+  }
+
+  const removeOption = (index: number) => {
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="rounded-lg bg-white/5 border border-white/20 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <BarChart3 className="h-4 w-4 text-white/70" />
+        <span className="flex-1 text-sm font-medium text-white/80">Poll</span>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="text-white/50 hover:text-white cursor-pointer"
+          title="Remove poll"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {value.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => updateOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              maxLength={POLL_OPTION_MAX_LENGTH}
+              disabled={disabled}
+              className="bg-white/10 border-white/20 text-white placeholder:text-white/40 focus:border-white/30"
+            />
+            {value.options.length > POLL_MIN_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                disabled={disabled}
+                className="text-white/50 hover:text-white cursor-pointer"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {value.options.length < POLL_MAX_OPTIONS && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, options: [...value.options, ""] })}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs text-white/60 hover:text-white cursor-pointer"
+          >
+            <Plus className="h-3 w-3" />
+            Add option
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+          <Checkbox
+            checked={value.allowsMultiple}
+            onCheckedChange={(checked) => onChange({ ...value, allowsMultiple: checked === true })}
+            disabled={disabled}
+          />
+          Allow multiple answers
+        </label>
+        <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+          <Checkbox
+            checked={value.isAnonymous}
+            onCheckedChange={(checked) => onChange({ ...value, isAnonymous: checked === true })}
+            disabled={disabled}
+          />
+          Anonymous votes
+        </label>
+        <Select
+          value={value.duration}
+          onValueChange={(duration) => onChange({ ...value, duration: duration as PollDuration })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[140px] bg-white/10 border-white/20 text-white/80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {POLL_DURATIONS.map((duration) => (
+              <SelectItem key={duration.value} value={duration.value}>
+                {duration.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
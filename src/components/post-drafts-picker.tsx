@@ -0,0 +1,135 @@
+"use client"
+
+import * as React from "react"
+import { formatDistanceToNow } from "date-fns"
+import { FileText, Image as ImageIcon, Mic, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useAuth } from "@/components/auth-provider"
+import { deletePostDraft, fetchPostDrafts } from "@/lib/api/drafts"
+import type { PostDraft } from "@/types"
+
+interface PostDraftsPickerProps {
+  communityId: string
+  // The draft open in the composer, left out of the list
+  currentDraftId?: string | null
+  // Bump to refetch, e.g. when the composer opens
+  refreshKey?: number
+  disabled?: boolean
+  onSelect: (draft: PostDraft) => void
+}
+
+const draftPreview = (draft: PostDraft) => {
+  const text = draft.content.replace(/[#*_>`~[\]()]/g, "").replace(/\s+/g, " ").trim()
+  return text || "(no text)"
+}
+
+/**
+ * Lists the user's saved drafts for a community so one can be reopened in the composer.
+ * Renders nothing when there are none.
+ */
+export function PostDraftsPicker({
+  communityId,
+  currentDraftId,
+  refreshKey = 0,
+  disabled,
+  onSelect,
+}: PostDraftsPickerProps) {
+  const { user } = useAuth()
+  const [drafts, setDrafts] = React.useState<PostDraft[]>([])
+
+  React.useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    fetchPostDrafts(communityId, user.id)
+      .then((data) => {
+        if (!cancelled) setDrafts(data)
+      })
+      .catch((error) => {
+        console.error("Error fetching drafts:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [communityId, user, refreshKey])
+
+  const handleDelete = async (draft: PostDraft) => {
+    try {
+      await deletePostDraft(draft)
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id))
+      toast.success("Draft deleted")
+    } catch (error) {
+      console.error("Error deleting draft:", error)
+      toast.error("Failed to delete draft")
+    }
+  }
+
+  const otherDrafts = drafts.filter((d) => d.id !== currentDraftId)
+  if (otherDrafts.length === 0) return null
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className="flex items-center gap-1.5 rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs text-white/70 transition-all hover:bg-white/10 hover:border-white/30 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FileText className="h-3.5 w-3.5" />
+          Drafts ({otherDrafts.length})
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Saved drafts</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {otherDrafts.map((draft) => {
+          const imageCount = draft.media.filter((m) => m.media_type === "image").length
+          const hasAudio = draft.media.some((m) => m.media_type === "audio")
+
+          return (
+            <DropdownMenuItem
+              key={draft.id}
+              onSelect={() => onSelect(draft)}
+              className="flex items-start gap-2 cursor-pointer"
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm line-clamp-2">{draftPreview(draft)}</p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Edited {formatDistanceToNow(new Date(draft.updated_at), { addSuffix: true })}</span>
+                  {imageCount > 0 && (
+                    <span className="flex items-center gap-1">
+                      <ImageIcon className="h-3 w-3" />
+                      {imageCount}
+                    </span>
+                  )}
+                  {hasAudio && <Mic className="h-3 w-3" />}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  handleDelete(draft)
+                }}
+                className="p-1 rounded text-muted-foreground hover:text-destructive"
+                title="Delete draft"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </DropdownMenuItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,280 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { formatDistanceToNow } from "date-fns"
+import { BarChart3, CheckCircle2, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { supabase } from "@/lib/supabase"
+import { cn } from "@/lib/utils"
+import type { PostPoll as PostPollType, User } from "@/types"
+
+type PollVoter = Pick<User, "id" | "username" | "first_name" | "last_name" | "profile_picture">
+
+interface PostPollProps {
+  poll: PostPollType
+  authorId: string
+  currentUserId?: string | null
+  onVote: (poll: PostPollType, optionIds: string[]) => Promise<void>
+}
+
+/**
+ * Poll attached to a post. Members vote first and see results afterwards;
+ * the author, signed-out visitors and everyone after closing see results straight away.
+ */
+export function PostPoll({ poll, authorId, currentUserId, onVote }: PostPollProps) {
+  const userVotes = React.useMemo(() => poll.user_votes ?? [], [poll.user_votes])
+  const [selected, setSelected] = React.useState<string[]>(userVotes)
+  const [changingVote, setChangingVote] = React.useState(false)
+  const [submitting, setSubmitting] = React.useState(false)
+  const [showVoters, setShowVoters] = React.useState(false)
+  const [voters, setVoters] = React.useState<Record<string, PollVoter[]> | null>(null)
+  const [loadingVoters, setLoadingVoters] = React.useState(false)
+
+  React.useEffect(() => {
+    setSelected(userVotes)
+  }, [userVotes])
+
+  const isClosed = !!poll.closes_at && new Date(poll.closes_at) <= new Date()
+  const hasVoted = userVotes.length > 0
+  const showResults =
+    !changingVote && (hasVoted || isClosed || !currentUserId || currentUserId === authorId)
+  const totalVoters = Math.max(poll.voter_count, 1)
+
+  const submitVote = async (optionIds: string[]) => {
+    setSubmitting(true)
+    try {
+      await onVote(poll, optionIds)
+      setChangingVote(false)
+    } catch (error: any) {
+      console.error("Error voting:", error)
+      toast.error(error?.message || "Failed to record your vote")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const toggleOption = (optionId: string) => {
+    setSelected((prev) =>
+      prev.includes(optionId) ? prev.filter((id) => id !== optionId) : [...prev, optionId]
+    )
+  }
+
+  const openVoters = async () => {
+    setShowVoters(true)
+    setLoadingVoters(true)
+    try {
+      const { data, error } = await supabase
+        .from("poll_votes")
+        .select(`
+          option_id,
+          user:users!poll_votes_user_id_fkey(id, username, first_name, last_name, profile_picture)
+        `)
+        .eq("poll_id", poll.id)
+        .order("created_at", { ascending: true })
+
+      if (error) throw error
+
+      const grouped: Record<string, PollVoter[]> = {}
+      ;(data || []).forEach((row: any) => {
+        const voter = Array.isArray(row.user) ? row.user[0] : row.user
+        if (!voter) return
+        grouped[row.option_id] = [...(grouped[row.option_id] ?? []), voter]
+      })
+      setVoters(grouped)
+    } catch (error) {
+      console.error("Error loading voters:", error)
+      toast.error("Failed to load voters")
+    } finally {
+      setLoadingVoters(false)
+    }
+  }
+
+  const statusParts = [
+    `${poll.voter_count} ${poll.voter_count === 1 ? "vote" : "votes"}`,
+    poll.allows_multiple ? "Multiple choice" : null,
+    poll.is_anonymous ? "Anonymous" : null,
+    poll.closes_at
+      ? isClosed
+        ? "Closed"
+        : `Closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`
+      : null,
+  ].filter(Boolean)
+
+  return (
+    <div
+      className="rounded-lg bg-white/5 border border-white/10 p-3 space-y-2"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="space-y-2">
+        {poll.options.map((option) => {
+          const percent = Math.round((option.vote_count / totalVoters) * 100)
+          const isMine = userVotes.includes(option.id)
+
+          if (showResults) {
+            return (
+              <div
+                key={option.id}
+                className="relative overflow-hidden rounded-md border border-white/10 px-3 py-2"
+              >
+                <div
+                  className={cn(
+                    "absolute inset-y-0 left-0 transition-all duration-500",
+                    isMine ? "bg-white/20" : "bg-white/10"
+                  )}
+                  style={{ width: `${percent}%` }}
+                />
+                <div className="relative flex items-center gap-2 text-sm">
+                  <span className="flex-1 text-white/80 break-words">{option.label}</span>
+                  {isMine && <CheckCircle2 className="h-4 w-4 text-white/80 flex-shrink-0" />}
+                  <span className="text-white/60 tabular-nums">{percent}%</span>
+                </div>
+              </div>
+            )
+          }
+
+          if (poll.allows_multiple) {
+            return (
+              <label
+                key={option.id}
+                className="flex items-center gap-3 rounded-md border border-white/20 px-3 py-2 text-sm text-white/80 hover:bg-white/10 cursor-pointer"
+              >
+                <Checkbox
+                  checked={selected.includes(option.id)}
+                  onCheckedChange={() => toggleOption(option.id)}
+                  disabled={submitting}
+                />
+                <span className="flex-1 break-words">{option.label}</span>
+              </label>
+            )
+          }
+
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => submitVote([option.id])}
+              disabled={submitting}
+              className="w-full rounded-md border border-white/20 px-3 py-2 text-left text-sm text-white/80 transition-colors hover:bg-white/10 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {option.label}
+            </button>
+          )
+        })}
+      </div>
+
+      {!showResults && poll.allows_multiple && (
+        <Button
+          size="sm"
+          onClick={() => submitVote(selected)}
+          disabled={submitting || selected.length === 0}
+        >
+          {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Vote
+        </Button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-white/50">
+        <span className="flex items-center gap-1">
+          <BarChart3 className="h-3 w-3" />
+          {statusParts.join(" · ")}
+        </span>
+        {hasVoted && !isClosed && !changingVote && (
+          <button
+            type="button"
+            onClick={() => setChangingVote(true)}
+            className="hover:text-white/80 cursor-pointer"
+          >
+            Change vote
+          </button>
+        )}
+        {changingVote && (
+          <>
+            <button
+              type="button"
+              onClick={() => submitVote([])}
+              disabled={submitting}
+              className="hover:text-white/80 cursor-pointer"
+            >
+              Remove vote
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setSelected(userVotes)
+                setChangingVote(false)
+              }}
+              className="hover:text-white/80 cursor-pointer"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+        {!poll.is_anonymous && poll.voter_count > 0 && showResults && (
+          <button
+            type="button"
+            onClick={openVoters}
+            className="hover:text-white/80 cursor-pointer"
+          >
+            View voters
+          </button>
+        )}
+      </div>
+
+      <Dialog open={showVoters} onOpenChange={setShowVoters}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader className="space-y-2">
+            <DialogTitle>Voters</DialogTitle>
+            <DialogDescription>
+              {poll.voter_count} {poll.voter_count === 1 ? "person has" : "people have"} voted
+            </DialogDescription>
+          </DialogHeader>
+          {loadingVoters ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+            </div>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto space-y-4">
+              {poll.options.map((option) => {
+                const optionVoters = voters?.[option.id] ?? []
+                return (
+                  <div key={option.id} className="space-y-2">
+                    <p className="text-sm font-medium text-white/80">
+                      {option.label}{" "}
+                      <span className="text-white/50 font-normal">({optionVoters.length})</span>
+                    </p>
+                    {optionVoters.map((voter) => (
+                      <Link
+                        key={voter.id}
+                        href={`/profile/${voter.username}`}
+                        className="flex items-center gap-2 text-sm text-white/70 hover:text-white"
+                      >
+                        <Avatar className="h-6 w-6" userId={voter.id}>
+                          <AvatarImage src={voter.profile_picture} alt={voter.username} />
+                          <AvatarFallback className="text-xs">
+                            {voter.first_name?.[0]}{voter.last_name?.[0]}
+                          </AvatarFallback>
+                        </Avatar>
+                        {voter.first_name} {voter.last_name}
+                      </Link>
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { supabase } from "@/lib/supabase"
+import { cn } from "@/lib/utils"
+import { REPORT_REASONS, reportReasonLabels, reportTargetLabels } from "@/lib/moderation"
+import type { ReportReason, ReportTargetType } from "@/types"
+
+export interface ReportTarget {
+  type: ReportTargetType
+  id: string
+}
+
+interface ReportContentDialogProps {
+  target: ReportTarget | null
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Lets a user report a post, comment or DM message to the community reviewers and admins.
+ */
+export function ReportContentDialog({ target, onOpenChange }: ReportContentDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null)
+  const [details, setDetails] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!target) return
+    setReason(null)
+    setDetails("")
+  }, [target])
+
+  const handleSubmit = async () => {
+    if (!target || !reason) return
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc("report_content", {
+        p_target_type: target.type,
+        p_target_id: target.id,
+        p_reason: reason,
+        p_details: details.trim() || null,
+      })
+
+      if (error) throw error
+
+      toast.success("Thanks, your report has been sent to the moderators")
+      onOpenChange(false)
+    } catch (error: any) {
+      console.error("Error reporting content:", error)
+      toast.error(error?.message || "Failed to send report")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !submitting && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[425px]" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader className="space-y-2">
+          <DialogTitle>Report {target ? reportTargetLabels[target.type].toLowerCase() : "content"}</DialogTitle>
+          <DialogDescription>
+            Reports are anonymous to the person you report. Tell us what&apos;s wrong.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-2">
+            {REPORT_REASONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setReason(option)}
+                className={cn(
+                  "rounded-md border px-3 py-2 text-sm text-left transition-colors cursor-pointer",
+                  reason === option
+                    ? "border-white/60 bg-white/10 text-white"
+                    : "border-white/20 text-white/70 hover:bg-white/10"
+                )}
+              >
+                {reportReasonLabels[option]}
+              </button>
+            ))}
+          </div>
+
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Add any details that will help moderators (optional)"
+            maxLength={1000}
+            className="min-h-[80px]"
+          />
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button onClick={handleSubmit} disabled={submitting || !reason}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { CustomDateTimePicker } from "@/components/ui/custom-date-time-picker"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+
+interface SchedulePostDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scheduledFor: Date | null
+  onConfirm: (scheduledFor: Date) => void | Promise<void>
+  onClear?: () => void
+  confirmLabel?: string
+}
+
+const toTimeString = (date: Date) =>
+  `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+export function formatScheduledFor(date: Date | string) {
+  return format(new Date(date), "MMM d, h:mm a")
+}
+
+/**
+ * Picks a future publish time for a post.
+ */
+export function SchedulePostDialog({
+  open,
+  onOpenChange,
+  scheduledFor,
+  onConfirm,
+  onClear,
+  confirmLabel = "Schedule",
+}: SchedulePostDialogProps) {
+  const [date, setDate] = React.useState<Date>(scheduledFor ?? new Date())
+  const [time, setTime] = React.useState<string | null>(scheduledFor ? toTimeString(scheduledFor) : null)
+  const [saving, setSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!open) return
+    setDate(scheduledFor ?? new Date())
+    setTime(scheduledFor ? toTimeString(scheduledFor) : null)
+  }, [open, scheduledFor])
+
+  // Past slots on today's date can't be picked
+  const timeSlots = React.useMemo(() => {
+    const now = new Date()
+    const slots: Array<{ time: string; available: boolean }> = []
+    for (let hour = 0; hour < 24; hour++) {
+      for (let minute = 0; minute < 60; minute += 30) {
+        const slot = new Date(date)
+        slot.setHours(hour, minute, 0, 0)
+        slots.push({
+          time: `${hour.toString().padStart(2, "0")}:${minute.toString().padStart(2, "0")}`,
+          available: !isSameDay(date, now) || slot > now,
+        })
+      }
+    }
+    return slots
+  }, [date])
+
+  const handleConfirm = async () => {
+    if (!time) {
+      toast.error("Please select a time")
+      return
+    }
+
+    const [hours, minutes] = time.split(":")
+    const publishAt = new Date(date)
+    publishAt.setHours(parseInt(hours, 10), parseInt(minutes, 10), 0, 0)
+
+    if (isNaN(publishAt.getTime())) {
+      toast.error("Invalid date or time")
+      return
+    }
+
+    if (publishAt <= new Date()) {
+      toast.error("Pick a time in the future")
+      return
+    }
+
+    setSaving(true)
+    try {
+      await onConfirm(publishAt)
+      onOpenChange(false)
+    } catch {
+      // onConfirm reports its own errors; keep the dialog open so the user can retry
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Schedule Post</DialogTitle>
+          <DialogDescription>
+            Your post stays private until this time, then appears in the feed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 w-full self-stretch">
+          <CustomDateTimePicker
+            date={date}
+            time={time}
+            onDateChange={(newDate) => {
+              setDate(newDate)
+              setTime(null)
+            }}
+            onTimeChange={setTime}
+            disabledDates={(candidate) => {
+              const today = new Date()
+              today.setHours(0, 0, 0, 0)
+              return candidate < today
+            }}
+            timeSlots={timeSlots}
+          />
+        </div>
+
+        <DialogFooter className="gap-3">
+          {onClear && scheduledFor && (
+            <Button
+              onClick={() => {
+                onClear()
+                onOpenChange(false)
+              }}
+              disabled={saving}
+              className="bg-white/10 text-white/80 hover:bg-white/20 border border-white/20"
+            >
+              Post Immediately
+            </Button>
+          )}
+          <Button
+            onClick={handleConfirm}
+            disabled={saving || !time}
+            className="bg-white/10 text-white/80 hover:bg-white/20"
+          >
+            {saving ? "Saving..." : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
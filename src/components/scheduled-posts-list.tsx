@@ -0,0 +1,275 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { CalendarClock, ChevronDown, ChevronRight, Edit, Send, Trash2, ImageIcon, Mic } from "lucide-react"
+import { toast } from "sonner"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { EditPostDialog } from "@/components/edit-post-dialog"
+import { SchedulePostDialog, formatScheduledFor } from "@/components/schedule-post-dialog"
+import { useAuth } from "@/components/auth-provider"
+import { supabase } from "@/lib/supabase"
+import type { PostWithAuthor } from "@/types"
+
+interface ScheduledPostsListProps {
+  communityId: string
+  // Bump to refetch, e.g. after the composer schedules a new post
+  refreshKey?: number
+}
+
+/**
+ * The current user's scheduled posts in a community, with edit, reschedule and cancel.
+ * Renders nothing when there are none.
+ */
+export function ScheduledPostsList({ communityId, refreshKey = 0 }: ScheduledPostsListProps) {
+  const router = useRouter()
+  const { user } = useAuth()
+  const [posts, setPosts] = React.useState<PostWithAuthor[]>([])
+  const [expanded, setExpanded] = React.useState(true)
+  const [editingPost, setEditingPost] = React.useState<PostWithAuthor | null>(null)
+  const [reschedulingPost, setReschedulingPost] = React.useState<PostWithAuthor | null>(null)
+  const [cancellingPost, setCancellingPost] = React.useState<PostWithAuthor | null>(null)
+  const [busyPostId, setBusyPostId] = React.useState<string | null>(null)
+
+  const fetchScheduledPosts = React.useCallback(async () => {
+    if (!user) return
+
+    const { data, error } = await supabase
+      .from("posts")
+      .select(`
+        *,
+        author:users!posts_author_id_fkey(
+          id,
+          username,
+          first_name,
+          last_name,
+          profile_picture
+        ),
+        media:post_media(
+          id,
+          media_type,
+          storage_path,
+          file_name,
+          display_order,
+          requires_boost
+        )
+      `)
+      .eq("community_id", communityId)
+      .eq("author_id", user.id)
+      .eq("depth", 0)
+      .gt("published_at", new Date().toISOString())
+      .order("published_at", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching scheduled posts:", error)
+      return
+    }
+
+    setPosts((data || []) as PostWithAuthor[])
+  }, [communityId, user])
+
+  React.useEffect(() => {
+    fetchScheduledPosts()
+  }, [fetchScheduledPosts, refreshKey])
+
+  const removeFromList = (postId: string) => {
+    setPosts((prev) => prev.filter((p) => p.id !== postId))
+  }
+
+  const handleReschedule = async (publishAt: Date) => {
+    if (!reschedulingPost) return
+
+    const { error } = await supabase
+      .from("posts")
+      .update({ published_at: publishAt.toISOString() })
+      .eq("id", reschedulingPost.id)
+
+    if (error) {
+      console.error("Error rescheduling post:", error)
+      toast.error(error.message || "Failed to reschedule post")
+      throw error
+    }
+
+    setPosts((prev) =>
+      prev
+        .map((p) => (p.id === reschedulingPost.id ? { ...p, published_at: publishAt.toISOString() } : p))
+        .sort((a, b) => new Date(a.published_at!).getTime() - new Date(b.published_at!).getTime())
+    )
+    toast.success(`Post rescheduled for ${formatScheduledFor(publishAt)}`)
+  }
+
+  const handlePublishNow = async (post: PostWithAuthor) => {
+    setBusyPostId(post.id)
+    try {
+      // The schedule trigger clamps past times to now()
+      const { error } = await supabase
+        .from("posts")
+        .update({ published_at: new Date().toISOString() })
+        .eq("id", post.id)
+
+      if (error) throw error
+
+      removeFromList(post.id)
+      toast.success("Post published")
+      router.refresh()
+    } catch (error: any) {
+      console.error("Error publishing post:", error)
+      toast.error(error?.message || "Failed to publish post")
+    } finally {
+      setBusyPostId(null)
+    }
+  }
+
+  const confirmCancel = async () => {
+    if (!cancellingPost) return
+
+    setBusyPostId(cancellingPost.id)
+    try {
+      // Delete post media from storage first
+      const paths = (cancellingPost.media ?? []).map((m) => m.storage_path).filter(Boolean)
+      if (paths.length > 0) {
+        await supabase.storage.from("post-media").remove(paths)
+      }
+
+      const { error } = await supabase
+        .from("posts")
+        .delete()
+        .eq("id", cancellingPost.id)
+
+      if (error) throw error
+
+      removeFromList(cancellingPost.id)
+      toast.success("Scheduled post cancelled")
+      setCancellingPost(null)
+    } catch (error: any) {
+      console.error("Error cancelling scheduled post:", error)
+      toast.error("Failed to cancel post. Please try again.")
+    } finally {
+      setBusyPostId(null)
+    }
+  }
+
+  if (!user || posts.length === 0) return null
+
+  return (
+    <Card className="bg-gradient-to-br from-white/10 to-transparent backdrop-blur-md border-0">
+      <CardContent className="p-3 space-y-3">
+        <button
+          type="button"
+          onClick={() => setExpanded((prev) => !prev)}
+          className="flex w-full items-center gap-2 text-left cursor-pointer"
+        >
+          <CalendarClock className="h-4 w-4 text-white/70" />
+          <span className="text-white/80 text-sm font-medium flex-1">
+            Scheduled ({posts.length})
+          </span>
+          {expanded ? (
+            <ChevronDown className="h-4 w-4 text-white/50" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-white/50" />
+          )}
+        </button>
+
+        {expanded && (
+          <div className="space-y-2">
+            {posts.map((post) => {
+              const imageCount = post.media?.filter((m) => m.media_type === "image").length ?? 0
+              const hasAudio = post.media?.some((m) => m.media_type === "audio") ?? false
+              const isBusy = busyPostId === post.id
+
+              return (
+                <div key={post.id} className="rounded-lg bg-white/5 p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs text-white/50">
+                    <span>Publishes {formatScheduledFor(post.published_at!)}</span>
+                    {imageCount > 0 && (
+                      <span className="flex items-center gap-1">
+                        <ImageIcon className="h-3 w-3" />
+                        {imageCount}
+                      </span>
+                    )}
+                    {hasAudio && <Mic className="h-3 w-3" />}
+                  </div>
+                  <p className="text-white/80 text-sm line-clamp-2 whitespace-pre-wrap">
+                    {post.content || "(no text)"}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setEditingPost(post)} disabled={isBusy}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setReschedulingPost(post)} disabled={isBusy}>
+                      <CalendarClock className="h-4 w-4 mr-2" />
+                      Reschedule
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handlePublishNow(post)} disabled={isBusy}>
+                      <Send className="h-4 w-4 mr-2" />
+                      Publish Now
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setCancellingPost(post)}
+                      disabled={isBusy}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {editingPost && (
+        <EditPostDialog
+          open={!!editingPost}
+          onOpenChange={(open) => !open && setEditingPost(null)}
+          post={editingPost}
+          onPostUpdated={(updatedPost) => {
+            setPosts((prev) => prev.map((p) => (p.id === updatedPost.id ? updatedPost : p)))
+          }}
+        />
+      )}
+
+      <SchedulePostDialog
+        open={!!reschedulingPost}
+        onOpenChange={(open) => !open && setReschedulingPost(null)}
+        scheduledFor={reschedulingPost?.published_at ? new Date(reschedulingPost.published_at) : null}
+        onConfirm={handleReschedule}
+        confirmLabel="Reschedule"
+      />
+
+      <Dialog open={!!cancellingPost} onOpenChange={(open) => !open && !busyPostId && setCancellingPost(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader className="space-y-2">
+            <DialogTitle>Cancel Scheduled Post</DialogTitle>
+            <DialogDescription>
+              This post will be deleted and won&apos;t be published. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="mt-4">
+            <Button
+              variant="destructive"
+              onClick={confirmCancel}
+              disabled={!!busyPostId}
+            >
+              {busyPostId ? "Cancelling..." : "Cancel Post"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
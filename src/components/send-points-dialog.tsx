@@ -0,0 +1,240 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Coins, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/components/auth-provider"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { TIP_AMOUNT_PRESETS, TIP_NOTE_MAX_LENGTH, getMaxTipPoints, getTipAmountError } from "@/lib/point-transfers"
+import { supabase } from "@/lib/supabase"
+import { cn } from "@/lib/utils"
+import type { PointTransferContext, TipAllowance, User } from "@/types"
+
+interface SendPointsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  recipient: Pick<User, "id" | "username"> & { first_name?: string | null; last_name?: string | null }
+  context: PointTransferContext
+  // The post or DM thread the tip is sent from
+  contextId?: string | null
+  onSent?: (points: number) => void
+}
+
+/**
+ * Tip another user from your purchased points, with an optional note.
+ * Shows what's left of the 24 hour allowance and asks for confirmation before sending.
+ */
+export function SendPointsDialog({ open, onOpenChange, recipient, context, contextId, onSent }: SendPointsDialogProps) {
+  const { refreshWalletBalance } = useAuth()
+  const [allowance, setAllowance] = useState<TipAllowance | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [amount, setAmount] = useState("")
+  const [note, setNote] = useState("")
+  const [confirming, setConfirming] = useState(false)
+  const [sending, setSending] = useState(false)
+
+  const recipientName = [recipient.first_name, recipient.last_name].filter(Boolean).join(" ") || `@${recipient.username}`
+
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setLoading(true)
+
+    supabase
+      .rpc("get_tip_allowance")
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error("Error loading tip allowance:", error)
+          toast.error(error.message || "Failed to load your tip limits")
+          setAllowance(null)
+          return
+        }
+        setAllowance(data as TipAllowance)
+      })
+      .then(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  const close = () => {
+    onOpenChange(false)
+    setAmount("")
+    setNote("")
+    setConfirming(false)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (sending) return
+    if (next) onOpenChange(true)
+    else close()
+  }
+
+  const points = Number(amount)
+  const maxPoints = allowance ? getMaxTipPoints(allowance) : 0
+  const amountError = allowance && amount ? getTipAmountError(points, allowance) : null
+
+  const handleSend = async () => {
+    setSending(true)
+    try {
+      const { error } = await supabase.rpc("send_points", {
+        p_recipient_id: recipient.id,
+        p_points: points,
+        p_note: note.trim() || null,
+        p_context_type: context,
+        p_context_id: contextId ?? null,
+      })
+      if (error) throw error
+
+      toast.success(`Sent ${points} points to ${recipientName}`)
+      refreshWalletBalance()
+      onSent?.(points)
+      close()
+    } catch (error: any) {
+      console.error("Error sending points:", error)
+      toast.error(error?.message || "Failed to send points")
+      setConfirming(false)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{confirming ? "Confirm tip" : `Send points to ${recipientName}`}</DialogTitle>
+          <DialogDescription>
+            {confirming
+              ? "Tips can't be undone once sent."
+              : "Tips come out of your purchased points and are added to their earnings."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+          </div>
+        ) : !allowance ? (
+          <p className="py-6 text-center text-sm text-white/60">Tipping isn't available right now.</p>
+        ) : confirming ? (
+          <div className="rounded-md border border-white/10 bg-white/5 p-4 space-y-2 text-sm text-white/80">
+            <div className="flex items-center justify-between">
+              <span>To</span>
+              <span className="font-medium text-white">{recipientName}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>Points</span>
+              <span className="font-medium text-white">{points.toLocaleString()}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>Balance after</span>
+              <span>{(allowance.points_balance - points).toLocaleString()}</span>
+            </div>
+            {note.trim() && <p className="border-t border-white/10 pt-2 text-white/70 break-words">"{note.trim()}"</p>}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tip_amount">Points</Label>
+              <Input
+                id="tip_amount"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                max={maxPoints || undefined}
+                step={1}
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                placeholder="e.g., 25"
+              />
+              <div className="flex flex-wrap gap-2">
+                {TIP_AMOUNT_PRESETS.map((preset) => (
+                  <Button
+                    key={preset}
+                    type="button"
+                    disabled={preset > maxPoints}
+                    onClick={() => setAmount(String(preset))}
+                    className={cn(
+                      "bg-white/10 text-white/80 hover:bg-white/20 h-8 px-3",
+                      amount === String(preset) && "bg-white/20 text-white"
+                    )}
+                  >
+                    {preset}
+                  </Button>
+                ))}
+              </div>
+              {amountError ? (
+                <p className="text-xs text-rose-200/80">{amountError}</p>
+              ) : (
+                <p className="text-xs text-white/50">
+                  {allowance.points_balance.toLocaleString()} purchased points available ·{" "}
+                  {allowance.remaining_points.toLocaleString()} points and {allowance.remaining_count} tips left in the
+                  next 24 hours
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tip_note">Note (optional)</Label>
+              <Textarea
+                id="tip_note"
+                value={note}
+                maxLength={TIP_NOTE_MAX_LENGTH}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="Say thanks"
+                rows={3}
+              />
+              <p className="text-right text-xs text-white/40">
+                {note.length}/{TIP_NOTE_MAX_LENGTH}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {confirming ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setConfirming(false)}
+                disabled={sending}
+                className="bg-white/10 text-white/80 hover:bg-white/20"
+              >
+                Back
+              </Button>
+              <Button onClick={handleSend} disabled={sending}>
+                {sending ? (
+                  <span className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Sending...</span>
+                  </span>
+                ) : (
+                  `Send ${points.toLocaleString()} points`
+                )}
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={() => setConfirming(true)}
+              disabled={!allowance || loading || !amount || Boolean(amountError)}
+              className="bg-white/10 text-white/80 hover:bg-white/20"
+            >
+              <Coins className="h-4 w-4 mr-2" />
+              Review tip
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,308 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { FileText, Loader2, Pencil, Plus, RefreshCw, Search, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { supabase } from "@/lib/supabase"
+import { formatTranscriptTimestamp } from "@/lib/video-transcripts"
+import type { TranscriptChapter, TranscriptSegment, VideoTranscript } from "@/types"
+
+interface VideoTranscriptDialogProps {
+  transcript: VideoTranscript
+  title: string
+  // People with the upload_videos permission can edit chapters and re-run the transcript
+  canManage?: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSeek: (seconds: number) => void
+  onRegenerate?: () => Promise<void>
+  onChaptersSaved?: (chapters: TranscriptChapter[]) => void
+}
+
+/**
+ * Chapters and the timestamped transcript of a recording or uploaded video.
+ * Clicking a line or chapter jumps the player to it.
+ */
+export function VideoTranscriptDialog({
+  transcript,
+  title,
+  canManage = false,
+  open,
+  onOpenChange,
+  onSeek,
+  onRegenerate,
+  onChaptersSaved,
+}: VideoTranscriptDialogProps) {
+  const [segments, setSegments] = useState<TranscriptSegment[] | null>(null)
+  const [filter, setFilter] = useState("")
+  const [chapters, setChapters] = useState<TranscriptChapter[]>(transcript.chapters)
+  const [draftChapters, setDraftChapters] = useState<TranscriptChapter[] | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRegenerating, setIsRegenerating] = useState(false)
+
+  useEffect(() => {
+    setChapters(transcript.chapters)
+  }, [transcript.chapters])
+
+  // Segments are left out of the page query, so they load when the dialog opens
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setSegments(null)
+
+    supabase
+      .from("video_transcripts")
+      .select("segments")
+      .eq("id", transcript.id)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error("Error fetching transcript:", error)
+          toast.error("Failed to load transcript")
+          setSegments([])
+          return
+        }
+        setSegments((data?.segments || []) as TranscriptSegment[])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, transcript.id])
+
+  const query = filter.trim().toLowerCase()
+  const visibleSegments = useMemo(
+    () => (segments ?? []).filter((segment) => !query || segment.text.toLowerCase().includes(query)),
+    [segments, query]
+  )
+
+  const handleSeek = (seconds: number) => {
+    onSeek(seconds)
+    onOpenChange(false)
+  }
+
+  const updateDraft = (index: number, changes: Partial<TranscriptChapter>) => {
+    setDraftChapters((current) =>
+      (current ?? []).map((chapter, position) => (position === index ? { ...chapter, ...changes } : chapter))
+    )
+  }
+
+  const handleSaveChapters = async () => {
+    if (!draftChapters) return
+    setIsSaving(true)
+    try {
+      const { data, error } = await supabase.rpc("save_video_transcript_chapters", {
+        p_transcript_id: transcript.id,
+        p_chapters: draftChapters.map((chapter) => ({ start: chapter.start, title: chapter.title.trim() })),
+      })
+      if (error) throw error
+
+      const saved = (data || []) as TranscriptChapter[]
+      setChapters(saved)
+      setDraftChapters(null)
+      onChaptersSaved?.(saved)
+      toast.success("Chapters saved")
+    } catch (error: any) {
+      console.error("Error saving chapters:", error)
+      toast.error(error?.message || "Failed to save chapters")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRegenerate = async () => {
+    if (!onRegenerate) return
+    setIsRegenerating(true)
+    try {
+      await onRegenerate()
+      onOpenChange(false)
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            Transcript
+          </DialogTitle>
+          <DialogDescription className="truncate">{title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Chapters */}
+          {(chapters.length > 0 || canManage) && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium uppercase tracking-wide text-white/60">Chapters</p>
+                {canManage && !draftChapters && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraftChapters(chapters)}
+                    className="h-7 gap-1.5 px-2 text-xs text-white/70 hover:bg-white/10 hover:text-white"
+                  >
+                    <Pencil className="h-3 w-3" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+
+              {draftChapters ? (
+                <div className="space-y-2">
+                  {draftChapters.map((chapter, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={Math.floor(chapter.start)}
+                        onChange={(event) => updateDraft(index, { start: Math.max(Number(event.target.value) || 0, 0) })}
+                        className="w-20 border-white/20 bg-white/5 text-white"
+                        aria-label="Start (seconds)"
+                      />
+                      <Input
+                        value={chapter.title}
+                        maxLength={100}
+                        onChange={(event) => updateDraft(index, { title: event.target.value })}
+                        className="flex-1 border-white/20 bg-white/5 text-white"
+                        aria-label="Chapter title"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraftChapters((current) => (current ?? []).filter((_, position) => position !== index))}
+                        className="h-8 w-8 p-0 text-white/60 hover:bg-red-500/20 hover:text-red-400"
+                        title="Remove chapter"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between gap-2 pt-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setDraftChapters((current) => {
+                          const list = current ?? []
+                          const lastStart = list.length > 0 ? list[list.length - 1].start : 0
+                          return [...list, { start: Math.floor(lastStart) + 60, title: "" }]
+                        })
+                      }
+                      className="h-8 gap-1.5 px-2 text-xs text-white/70 hover:bg-white/10 hover:text-white"
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      Add chapter
+                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraftChapters(null)}
+                        disabled={isSaving}
+                        className="h-8 text-white/70 hover:bg-white/10 hover:text-white"
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleSaveChapters}
+                        disabled={isSaving || draftChapters.some((chapter) => !chapter.title.trim())}
+                        className="h-8 bg-white/10 text-white hover:bg-white/20"
+                      >
+                        {isSaving && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ) : chapters.length === 0 ? (
+                <p className="text-sm text-white/50">No chapters yet</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {chapters.map((chapter) => (
+                    <button
+                      key={`${chapter.start}-${chapter.title}`}
+                      type="button"
+                      onClick={() => handleSeek(chapter.start)}
+                      className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs text-white/80 transition hover:bg-white/10 hover:text-white"
+                    >
+                      <span className="mr-1.5 font-mono text-white/50">{formatTranscriptTimestamp(chapter.start)}</span>
+                      {chapter.title}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Transcript */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/50" />
+            <Input
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              placeholder="Find in transcript..."
+              className="border-white/20 bg-white/5 pl-10 text-white placeholder:text-white/40"
+            />
+          </div>
+
+          {segments === null ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+            </div>
+          ) : visibleSegments.length === 0 ? (
+            <p className="py-8 text-center text-sm text-white/60">
+              {query ? "Nothing in the transcript matches" : "This transcript is empty"}
+            </p>
+          ) : (
+            <div className="max-h-[45vh] space-y-1 overflow-y-auto scrollbar-thin pr-1">
+              {visibleSegments.map((segment) => (
+                <button
+                  key={`${segment.start}-${segment.end}`}
+                  type="button"
+                  onClick={() => handleSeek(segment.start)}
+                  className="flex w-full items-start gap-3 rounded-md px-2 py-1.5 text-left transition hover:bg-white/10"
+                >
+                  <span className="w-14 flex-shrink-0 pt-0.5 text-right font-mono text-xs text-white/40">
+                    {formatTranscriptTimestamp(segment.start)}
+                  </span>
+                  <span className="text-sm text-white/85">{segment.text}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {canManage && onRegenerate && (
+            <div className="flex justify-end border-t border-white/10 pt-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={isRegenerating}
+                className="gap-1.5 text-white/70 hover:bg-white/10 hover:text-white"
+              >
+                {isRegenerating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+                Regenerate transcript
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/components/auth-provider"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { supabase } from "@/lib/supabase"
+import type { User, Wallet, WalletAdjustmentBalance, WalletAdjustmentStatus } from "@/types"
+
+const REASON_MIN_LENGTH = 10
+const REASON_MAX_LENGTH = 500
+// Matches the window request_wallet_adjustment() counts towards the threshold
+const APPROVAL_WINDOW_MS = 24 * 60 * 60 * 1000
+
+interface WalletAdjustmentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: Pick<User, "id" | "email" | "username"> & { first_name?: string | null; last_name?: string | null }
+  onSubmitted?: (status: WalletAdjustmentStatus) => void
+}
+
+/**
+ * Credit or debit a user's points or earnings with a required reason.
+ * Adjustments that take this admin over the approval threshold for the user in 24 hours
+ * are queued for a second admin instead of applied.
+ */
+export function WalletAdjustmentDialog({ open, onOpenChange, user, onSubmitted }: WalletAdjustmentDialogProps) {
+  const { user: admin } = useAuth()
+  const adminId = admin?.id
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [threshold, setThreshold] = useState<number | null>(null)
+  const [recentPoints, setRecentPoints] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [balance, setBalance] = useState<WalletAdjustmentBalance>("points")
+  const [direction, setDirection] = useState<"credit" | "debit">("credit")
+  const [amount, setAmount] = useState("")
+  const [reason, setReason] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const userName = [user.first_name, user.last_name].filter(Boolean).join(" ") || user.username || user.email
+
+  useEffect(() => {
+    if (!open || !adminId) return
+
+    let cancelled = false
+    setLoading(true)
+
+    Promise.all([
+      supabase.from("wallets").select("*").eq("user_id", user.id).maybeSingle(),
+      supabase.from("platform_settings").select("adjustment_approval_threshold_points").eq("id", 1).single(),
+      supabase
+        .from("wallet_adjustments")
+        .select("points")
+        .eq("user_id", user.id)
+        .eq("requested_by", adminId)
+        .eq("status", "applied")
+        .gt("applied_at", new Date(Date.now() - APPROVAL_WINDOW_MS).toISOString()),
+    ]).then(([walletResult, settingsResult, recentResult]) => {
+      if (cancelled) return
+      if (walletResult.error) {
+        console.error("Error loading wallet:", walletResult.error)
+        toast.error(walletResult.error.message || "Failed to load wallet")
+      }
+      setWallet((walletResult.data as Wallet) ?? null)
+      setThreshold(settingsResult.data?.adjustment_approval_threshold_points ?? null)
+      setRecentPoints((recentResult.data ?? []).reduce((sum, row) => sum + Math.abs(Number(row.points)), 0))
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, user.id, adminId])
+
+  const close = () => {
+    onOpenChange(false)
+    setBalance("points")
+    setDirection("credit")
+    setAmount("")
+    setReason("")
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (saving) return
+    if (next) onOpenChange(true)
+    else close()
+  }
+
+  const points = Number(amount)
+  const current = balance === "points" ? wallet?.points_balance ?? 0 : wallet?.earnings_points ?? 0
+  const delta = direction === "credit" ? points : -points
+  const amountError =
+    amount && (!Number.isInteger(points) || points <= 0)
+      ? "Enter a whole number of points"
+      : amount && current + delta < 0
+        ? `The ${balance === "points" ? "points balance" : "earnings balance"} is only ${current.toLocaleString()}`
+        : null
+  const needsApproval = threshold !== null && points + recentPoints > threshold
+  const canSubmit = !loading && !saving && Boolean(amount) && !amountError && reason.trim().length >= REASON_MIN_LENGTH
+
+  const handleSubmit = async () => {
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc("request_wallet_adjustment", {
+        p_user_id: user.id,
+        p_balance: balance,
+        p_points: delta,
+        p_reason: reason.trim(),
+      })
+      if (error) throw error
+
+      const status = (data as { status: WalletAdjustmentStatus }).status
+      toast.success(
+        status === "pending"
+          ? "Adjustment sent to another admin for approval"
+          : `${direction === "credit" ? "Credited" : "Debited"} ${points.toLocaleString()} ${balance === "points" ? "points" : "earnings points"}`
+      )
+      onSubmitted?.(status)
+      close()
+    } catch (error: any) {
+      console.error("Error adjusting wallet:", error)
+      toast.error(error?.message || "Failed to adjust wallet")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Adjust balance for {userName}</DialogTitle>
+          <DialogDescription>
+            Posts a manual adjustment to their wallet history.
+            {threshold !== null &&
+              ` Once your adjustments to this user pass ${threshold.toLocaleString()} points in 24 hours, a second admin has to approve them.`}
+            {recentPoints > 0 && ` You've adjusted ${recentPoints.toLocaleString()} points in that time.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 rounded-md border border-white/10 bg-white/5 p-3 text-sm">
+              <div>
+                <div className="text-white/60">Points</div>
+                <div className="font-medium text-white">{(wallet?.points_balance ?? 0).toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-white/60">Earnings</div>
+                <div className="font-medium text-white">{(wallet?.earnings_points ?? 0).toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-white/60">Locked</div>
+                <div className="font-medium text-white">{(wallet?.locked_earnings_points ?? 0).toLocaleString()}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="adjustment_balance">Balance</Label>
+                <Select value={balance} onValueChange={(value) => setBalance(value as WalletAdjustmentBalance)}>
+                  <SelectTrigger id="adjustment_balance">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="points">Points</SelectItem>
+                    <SelectItem value="earnings">Earnings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment_direction">Type</Label>
+                <Select value={direction} onValueChange={(value) => setDirection(value as "credit" | "debit")}>
+                  <SelectTrigger id="adjustment_direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="credit">Credit</SelectItem>
+                    <SelectItem value="debit">Debit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment_points">Points</Label>
+              <Input
+                id="adjustment_points"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                step={1}
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                placeholder="e.g., 250"
+              />
+              {amountError ? (
+                <p className="text-xs text-rose-200/80">{amountError}</p>
+              ) : amount ? (
+                <p className="text-xs text-white/50">
+                  {needsApproval ? "Needs approval · " : ""}
+                  Balance after: {(current + delta).toLocaleString()}
+                </p>
+              ) : null}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment_reason">Reason</Label>
+              <Textarea
+                id="adjustment_reason"
+                value={reason}
+                maxLength={REASON_MAX_LENGTH}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="e.g., Refund for failed live stream on 12 Oct, support ticket #482"
+                rows={3}
+              />
+              <p className="text-xs text-white/40">
+                Required, at least {REASON_MIN_LENGTH} characters. Shown in the audit log.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={close}
+            disabled={saving}
+            className="bg-white/10 text-white/80 hover:bg-white/20"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {saving ? (
+              <span className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>Saving...</span>
+              </span>
+            ) : needsApproval ? (
+              "Request approval"
+            ) : (
+              `${direction === "credit" ? "Credit" : "Debit"} ${amount ? points.toLocaleString() : ""} points`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
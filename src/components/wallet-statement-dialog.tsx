@@ -0,0 +1,218 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Download, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { downloadCsv } from "@/lib/csv"
+import { downloadPdf } from "@/lib/pdf"
+import { supabase } from "@/lib/supabase"
+import {
+  buildWalletStatementCsv,
+  buildWalletStatementPdf,
+  formatStatementPoints,
+  formatStatementTtd,
+  getRecentStatementMonths,
+  getStatementFilename,
+  getStatementPeriodLabel,
+} from "@/lib/wallet-statements"
+import type { WalletStatement } from "@/types"
+
+const CUSTOM_PERIOD = "custom"
+
+interface WalletStatementDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Printed on the PDF
+  accountName?: string | null
+}
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+
+/**
+ * Statement for a month or custom range with opening and closing balances, downloadable as CSV or PDF
+ */
+export function WalletStatementDialog({ open, onOpenChange, accountName }: WalletStatementDialogProps) {
+  const months = useMemo(() => getRecentStatementMonths(), [])
+  // Last month is the usual one to file, so it's picked first
+  const [period, setPeriod] = useState(months[1].from)
+  const [customFrom, setCustomFrom] = useState(months[0].from)
+  const [customTo, setCustomTo] = useState(months[0].to)
+  const [statement, setStatement] = useState<WalletStatement | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const range = useMemo(() => {
+    if (period === CUSTOM_PERIOD) return { from: customFrom, to: customTo }
+    const month = months.find((entry) => entry.from === period)
+    return month ? { from: month.from, to: month.to } : null
+  }, [period, customFrom, customTo, months])
+
+  useEffect(() => {
+    if (!open || !range?.from || !range?.to) return
+    if (range.from > range.to) {
+      setStatement(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    supabase
+      .rpc("get_wallet_statement", { p_from: range.from, p_to: range.to, p_timezone: browserTimezone() })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error("Error loading wallet statement:", error)
+          toast.error(error.message || "Failed to load statement")
+          setStatement(null)
+          return
+        }
+        setStatement(data as WalletStatement)
+      })
+      .then(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, range])
+
+  const handleCsv = () => {
+    if (!statement) return
+    downloadCsv(getStatementFilename(statement, "csv"), buildWalletStatementCsv(statement))
+  }
+
+  const handlePdf = () => {
+    if (!statement) return
+    downloadPdf(getStatementFilename(statement, "pdf"), buildWalletStatementPdf(statement, { accountName }))
+  }
+
+  const rows = statement
+    ? [
+        {
+          label: "Wallet points",
+          opening: statement.opening.points,
+          closing: statement.closing.points,
+          value: statement.totals.points_value_ttd,
+        },
+        {
+          label: "Earnings points",
+          opening: statement.opening.earnings_points,
+          closing: statement.closing.earnings_points,
+          value: statement.totals.earnings_value_ttd,
+        },
+      ]
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Wallet Statement</DialogTitle>
+          <DialogDescription>
+            Balances and every transaction for a period, valued at the point rate when each one happened.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="statement_period">Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger id="statement_period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {months.map((month) => (
+                  <SelectItem key={month.from} value={month.from}>
+                    {month.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_PERIOD}>Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {period === CUSTOM_PERIOD && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="statement_from">From</Label>
+                <Input
+                  id="statement_from"
+                  type="date"
+                  value={customFrom}
+                  max={customTo}
+                  onChange={(event) => setCustomFrom(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statement_to">To</Label>
+                <Input
+                  id="statement_to"
+                  type="date"
+                  value={customTo}
+                  min={customFrom}
+                  onChange={(event) => setCustomTo(event.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+            </div>
+          ) : statement ? (
+            <div className="rounded-md border border-white/10 bg-white/5 p-3 space-y-3">
+              <div className="text-sm font-medium text-white">{getStatementPeriodLabel(statement)}</div>
+              <div className="grid grid-cols-4 gap-2 text-xs text-white/50 uppercase tracking-wide">
+                <span />
+                <span className="text-right">Opening</span>
+                <span className="text-right">Closing</span>
+                <span className="text-right">Net TTD</span>
+              </div>
+              {rows.map((row) => (
+                <div key={row.label} className="grid grid-cols-4 gap-2 text-sm text-white/80">
+                  <span>{row.label}</span>
+                  <span className="text-right">{formatStatementPoints(row.opening)}</span>
+                  <span className="text-right">{formatStatementPoints(row.closing)}</span>
+                  <span className="text-right">{formatStatementTtd(row.value)}</span>
+                </div>
+              ))}
+              <div className="border-t border-white/10 pt-2 text-xs text-white/50">
+                {statement.transactions.length} transactions · {statement.earnings.length} earnings ·{" "}
+                {statement.payouts.length} payouts
+              </div>
+            </div>
+          ) : (
+            <p className="py-6 text-center text-sm text-white/60">Choose a start date on or before the end date.</p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={handleCsv}
+            disabled={!statement || loading}
+            className="bg-white/10 text-white/80 hover:bg-white/20"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button
+            onClick={handlePdf}
+            disabled={!statement || loading}
+            className="bg-white/10 text-white/80 hover:bg-white/20"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { EventBreakoutAssignment, EventBreakoutRoom, EventBreakoutSession } from "@/types"
+
+interface UseEventBreakoutsOptions {
+  userId: string
+  isHost?: boolean
+}
+
+export interface BreakoutRoomDraft {
+  name: string
+  userIds: string[]
+}
+
+/**
+ * The event's open round of breakout rooms, kept live over realtime
+ * Attendees only see their own assignment; hosts see everyone's and get the controls
+ */
+export function useEventBreakouts(eventId: string, { userId, isHost = false }: UseEventBreakoutsOptions) {
+  const [session, setSession] = useState<EventBreakoutSession | null>(null)
+  const [rooms, setRooms] = useState<EventBreakoutRoom[]>([])
+  const [assignments, setAssignments] = useState<EventBreakoutAssignment[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const loadIdRef = useRef(0)
+  const autoClosedRef = useRef<string | null>(null)
+
+  // Realtime rows carry no joins, so every change reloads the whole round
+  const load = useCallback(async () => {
+    const loadId = ++loadIdRef.current
+
+    const { data: openSession, error } = await supabase
+      .from("event_breakout_sessions")
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("status", "open")
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error fetching breakout rooms:", error)
+      return
+    }
+
+    if (!openSession) {
+      if (loadId !== loadIdRef.current) return
+      setSession(null)
+      setRooms([])
+      setAssignments([])
+      return
+    }
+
+    const [{ data: roomRows }, { data: assignmentRows }] = await Promise.all([
+      supabase
+        .from("event_breakout_rooms")
+        .select("*")
+        .eq("session_id", openSession.id)
+        .order("position", { ascending: true }),
+      supabase
+        .from("event_breakout_assignments")
+        .select("*, user:users(id, username, first_name, last_name, profile_picture)")
+        .eq("session_id", openSession.id),
+    ])
+
+    if (loadId !== loadIdRef.current) return
+    setSession(openSession as EventBreakoutSession)
+    setRooms((roomRows || []) as EventBreakoutRoom[])
+    setAssignments((assignmentRows || []) as EventBreakoutAssignment[])
+  }, [eventId])
+
+  useEffect(() => {
+    load()
+
+    const channel = supabase
+      .channel(`event-breakouts-${eventId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "event_breakout_sessions", filter: `event_id=eq.${eventId}` },
+        () => load()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "event_breakout_assignments", filter: `event_id=eq.${eventId}` },
+        () => load()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [eventId, load])
+
+  // Tick the countdown while a round is open
+  useEffect(() => {
+    if (!session) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [session])
+
+  const secondsLeft = session ? Math.max((new Date(session.ends_at).getTime() - now) / 1000, 0) : 0
+  const isOpen = !!session && secondsLeft > 0
+  const myAssignment = assignments.find((assignment) => assignment.user_id === userId) ?? null
+  const myRoom = isOpen ? rooms.find((room) => room.id === myAssignment?.room_id) ?? null : null
+
+  const closeRooms = useCallback(async () => {
+    if (!session) return
+    const { error } = await supabase.rpc("close_event_breakouts", { p_session_id: session.id })
+    if (error) throw error
+    await load()
+  }, [session, load])
+
+  // Everyone heads back when the timer runs out; a host also records the close
+  useEffect(() => {
+    if (!isHost || !session || secondsLeft > 0 || autoClosedRef.current === session.id) return
+    autoClosedRef.current = session.id
+    closeRooms().catch((error) => console.error("Error closing breakout rooms:", error))
+  }, [isHost, session, secondsLeft, closeRooms])
+
+  const openRooms = useCallback(async (drafts: BreakoutRoomDraft[], durationMinutes: number) => {
+    const { error } = await supabase.rpc("open_event_breakouts", {
+      p_event_id: eventId,
+      p_rooms: drafts.map((draft) => ({ name: draft.name, user_ids: draft.userIds })),
+      p_duration_minutes: durationMinutes,
+    })
+    if (error) throw error
+    await load()
+  }, [eventId, load])
+
+  const moveParticipant = useCallback(async (participantId: string, roomId: string | null) => {
+    if (!session) return
+    const { error } = await supabase.rpc("move_event_breakout_participant", {
+      p_session_id: session.id,
+      p_user_id: participantId,
+      p_room_id: roomId,
+    })
+    if (error) throw error
+    await load()
+  }, [session, load])
+
+  const broadcast = useCallback(async (message: string) => {
+    if (!session) return
+    const { error } = await supabase.rpc("broadcast_event_breakout_message", {
+      p_session_id: session.id,
+      p_message: message,
+    })
+    if (error) throw error
+  }, [session])
+
+  return {
+    session: isOpen ? session : null,
+    rooms: isOpen ? rooms : [],
+    assignments: isOpen ? assignments : [],
+    secondsLeft,
+    isOpen,
+    myRoom,
+    openRooms,
+    moveParticipant,
+    broadcast,
+    closeRooms,
+  }
+}
+
+export type EventBreakouts = ReturnType<typeof useEventBreakouts>
@@ -0,0 +1,253 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import {
+  EVENT_CHAT_LIVE_HISTORY,
+  EVENT_CHAT_MESSAGE_SELECT,
+  EVENT_CHAT_REPLAY_HISTORY,
+} from "@/lib/event-chat"
+import type { CommunityEvent, EventChatMessage, EventStatus } from "@/types"
+
+type ChatAuthor = NonNullable<EventChatMessage["user"]>
+
+interface UseEventChatOptions {
+  userId?: string | null
+  // Live chats subscribe to changes; replays load the full history once
+  live?: boolean
+  initialSlowModeSeconds?: number
+  initialStatus?: EventStatus
+}
+
+/**
+ * Chat history for an event, kept live while the event is running
+ * Writes go through the event chat RPCs, which enforce registration, slow mode and host rights
+ */
+export function useEventChat(
+  eventId: string,
+  { userId, live = false, initialSlowModeSeconds = 0, initialStatus = "completed" }: UseEventChatOptions = {}
+) {
+  const [messages, setMessages] = useState<EventChatMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [slowModeSeconds, setSlowModeSeconds] = useState(initialSlowModeSeconds)
+  const [eventStatus, setEventStatus] = useState<EventStatus>(initialStatus)
+  const authorsRef = useRef(new Map<string, ChatAuthor>())
+
+  // Realtime rows carry no joins, so authors are looked up once and cached
+  const withAuthor = useCallback(async (message: EventChatMessage): Promise<EventChatMessage> => {
+    const cached = authorsRef.current.get(message.user_id)
+    if (cached) return { ...message, user: cached }
+
+    const { data } = await supabase
+      .from("users")
+      .select("id, username, first_name, last_name, profile_picture")
+      .eq("id", message.user_id)
+      .maybeSingle()
+
+    if (data) authorsRef.current.set(message.user_id, data as ChatAuthor)
+    return { ...message, user: (data as ChatAuthor | null) ?? undefined }
+  }, [])
+
+  const upsertMessage = useCallback((message: EventChatMessage) => {
+    setMessages((prev) => {
+      const index = prev.findIndex((m) => m.id === message.id)
+      if (index === -1) return [...prev, message]
+      const next = [...prev]
+      next[index] = { ...prev[index], ...message, user: message.user ?? prev[index].user }
+      return next
+    })
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchMessages = async () => {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from("event_chat_messages")
+        .select(EVENT_CHAT_MESSAGE_SELECT)
+        .eq("event_id", eventId)
+        .order("created_at", { ascending: false })
+        .limit(live ? EVENT_CHAT_LIVE_HISTORY : EVENT_CHAT_REPLAY_HISTORY)
+
+      if (error) {
+        console.error("Error fetching event chat:", error)
+        if (!cancelled) setLoading(false)
+        return
+      }
+
+      const rows = ((data || []) as EventChatMessage[]).reverse()
+      rows.forEach((row) => {
+        if (row.user) authorsRef.current.set(row.user_id, row.user)
+      })
+
+      const reactionsByMessage = new Map<string, string[]>()
+      if (live && userId && rows.length > 0) {
+        const { data: reactions } = await supabase
+          .from("event_chat_reactions")
+          .select("message_id, emoji")
+          .eq("user_id", userId)
+          .in("message_id", rows.map((row) => row.id))
+
+        reactions?.forEach((reaction) => {
+          reactionsByMessage.set(reaction.message_id, [
+            ...(reactionsByMessage.get(reaction.message_id) ?? []),
+            reaction.emoji,
+          ])
+        })
+      }
+
+      if (cancelled) return
+
+      setMessages(rows.map((row) => ({ ...row, user_reactions: reactionsByMessage.get(row.id) ?? [] })))
+      setLoading(false)
+    }
+
+    fetchMessages()
+
+    return () => {
+      cancelled = true
+    }
+  }, [eventId, live, userId])
+
+  useEffect(() => {
+    if (!live) return
+
+    const channel = supabase
+      .channel(`event-chat-${eventId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "event_chat_messages",
+          filter: `event_id=eq.${eventId}`,
+        },
+        async (payload) => {
+          const message = await withAuthor(payload.new as EventChatMessage)
+          upsertMessage(message)
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "event_chat_messages",
+          filter: `event_id=eq.${eventId}`,
+        },
+        (payload) => {
+          const updated = payload.new as EventChatMessage
+          setMessages((prev) => prev.map((m) => {
+            if (m.id === updated.id) {
+              return { ...m, ...updated, user: m.user, user_reactions: updated.deleted_at ? [] : m.user_reactions }
+            }
+            // A new pin replaces the old one even if the unpin update hasn't arrived yet
+            return updated.is_pinned && m.is_pinned ? { ...m, is_pinned: false } : m
+          }))
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "community_events",
+          filter: `id=eq.${eventId}`,
+        },
+        (payload) => {
+          const event = payload.new as CommunityEvent
+          setSlowModeSeconds(event.chat_slow_mode_seconds ?? 0)
+          setEventStatus(event.status)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [eventId, live, withAuthor, upsertMessage])
+
+  const sendMessage = useCallback(async (content: string) => {
+    const { data, error } = await supabase.rpc("send_event_chat_message", {
+      p_event_id: eventId,
+      p_content: content,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    upsertMessage(await withAuthor({ ...(data as EventChatMessage), user_reactions: [] }))
+  }, [eventId, upsertMessage, withAuthor])
+
+  const toggleReaction = useCallback(async (message: EventChatMessage, emoji: string) => {
+    const { data: added, error } = await supabase.rpc("toggle_event_chat_reaction", {
+      p_message_id: message.id,
+      p_emoji: emoji,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    // Counts arrive over realtime; only the caller's own state is tracked here
+    setMessages((prev) => prev.map((m) => {
+      if (m.id !== message.id) return m
+      const own = (m.user_reactions ?? []).filter((e) => e !== emoji)
+      return { ...m, user_reactions: added ? [...own, emoji] : own }
+    }))
+  }, [])
+
+  const setPinned = useCallback(async (message: EventChatMessage, isPinned: boolean) => {
+    const { error } = await supabase.rpc("set_event_chat_message_pinned", {
+      p_message_id: message.id,
+      p_is_pinned: isPinned,
+    })
+
+    if (error) {
+      throw error
+    }
+  }, [])
+
+  const deleteMessage = useCallback(async (message: EventChatMessage) => {
+    const { error } = await supabase.rpc("delete_event_chat_message", {
+      p_message_id: message.id,
+    })
+
+    if (error) {
+      throw error
+    }
+  }, [])
+
+  const updateSlowMode = useCallback(async (seconds: number) => {
+    const { error } = await supabase.rpc("set_event_chat_slow_mode", {
+      p_event_id: eventId,
+      p_seconds: seconds,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    setSlowModeSeconds(seconds)
+  }, [eventId])
+
+  const pinnedMessage = useMemo(
+    () => messages.find((m) => m.is_pinned && !m.deleted_at) ?? null,
+    [messages]
+  )
+
+  return {
+    messages,
+    pinnedMessage,
+    loading,
+    slowModeSeconds,
+    isLive: eventStatus === "live",
+    sendMessage,
+    toggleReaction,
+    setPinned,
+    deleteMessage,
+    updateSlowMode,
+  }
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { EventStageRequest } from "@/types"
+
+interface UseEventStageOptions {
+  userId: string
+  isHost?: boolean
+  initialAudienceMode?: boolean
+}
+
+/**
+ * Audience mode and the speaker queue for an event, kept live over realtime
+ * Attendees only see their own request; hosts see the whole queue and get the controls
+ */
+export function useEventStage(
+  eventId: string,
+  { userId, isHost = false, initialAudienceMode = false }: UseEventStageOptions
+) {
+  const [audienceMode, setAudienceMode] = useState(initialAudienceMode)
+  const [requests, setRequests] = useState<EventStageRequest[]>([])
+  const loadIdRef = useRef(0)
+
+  // Realtime rows carry no joins, so every change reloads the queue
+  const load = useCallback(async () => {
+    const loadId = ++loadIdRef.current
+
+    const [{ data: event }, { data: rows, error }] = await Promise.all([
+      supabase
+        .from("community_events")
+        .select("audience_mode")
+        .eq("id", eventId)
+        .single(),
+      supabase
+        .from("event_stage_requests")
+        .select("*, user:users(id, username, first_name, last_name, profile_picture)")
+        .eq("event_id", eventId)
+        .order("raised_at", { ascending: true }),
+    ])
+
+    if (error) {
+      console.error("Error fetching speaker queue:", error)
+      return
+    }
+
+    if (loadId !== loadIdRef.current) return
+    if (event) setAudienceMode(!!event.audience_mode)
+    setRequests((rows || []) as EventStageRequest[])
+  }, [eventId])
+
+  useEffect(() => {
+    load()
+
+    const channel = supabase
+      .channel(`event-stage-${eventId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "community_events", filter: `id=eq.${eventId}` },
+        (payload) => setAudienceMode(!!(payload.new as { audience_mode?: boolean }).audience_mode)
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "event_stage_requests", filter: `event_id=eq.${eventId}` },
+        () => load()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [eventId, load])
+
+  const myRequest = requests.find((request) => request.user_id === userId) ?? null
+  const myStatus = audienceMode ? myRequest?.status ?? null : null
+
+  const raiseHand = useCallback(async () => {
+    const { error } = await supabase.rpc("raise_event_hand", { p_event_id: eventId })
+    if (error) throw error
+    await load()
+  }, [eventId, load])
+
+  const lowerHand = useCallback(async () => {
+    const { error } = await supabase.rpc("lower_event_hand", { p_event_id: eventId })
+    if (error) throw error
+    await load()
+  }, [eventId, load])
+
+  // Speaker and mode changes go through the API so GetStream permissions follow
+  const updateStage = useCallback(async (body: Record<string, unknown>) => {
+    const response = await fetch(`/api/events/${eventId}/stage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      throw new Error(data?.error || "Failed to update the stage")
+    }
+
+    await load()
+  }, [eventId, load])
+
+  const promote = useCallback(
+    (participantId: string) => updateStage({ action: "promote", userId: participantId }),
+    [updateStage]
+  )
+
+  const demote = useCallback(
+    (participantId: string) => updateStage({ action: "demote", userId: participantId }),
+    [updateStage]
+  )
+
+  const changeAudienceMode = useCallback(
+    (enabled: boolean) => updateStage({ action: "audience_mode", enabled }),
+    [updateStage]
+  )
+
+  return {
+    audienceMode,
+    raisedHands: isHost ? requests.filter((request) => request.status === "raised") : [],
+    speakers: isHost ? requests.filter((request) => request.status === "speaker") : [],
+    myStatus,
+    raiseHand,
+    lowerHand,
+    promote,
+    demote,
+    setAudienceMode: changeAudienceMode,
+  }
+}
+
+export type EventStage = ReturnType<typeof useEventStage>
@@ -0,0 +1,277 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  deletePostDraft,
+  downloadDraftMedia,
+  getDraftMediaPath,
+  removeDraftMedia,
+  savePostDraft,
+  uploadDraftMedia,
+  type RestoredDraftMedia,
+} from "@/lib/api/drafts"
+import type { MediaType, PostDraft, PostDraftMedia } from "@/types"
+
+export interface PostDraftMediaInput {
+  file: File
+  type: MediaType
+  requiresBoost?: boolean
+}
+
+export interface PostDraftSnapshot {
+  content: string
+  boostRewardMessage?: string
+  topicIds?: string[]
+  media: PostDraftMediaInput[]
+  existingMediaBoost?: Record<string, boolean>
+}
+
+export type PostDraftStatus = "idle" | "saving" | "saved" | "error"
+
+interface UsePostDraftOptions {
+  userId?: string | null
+  communityId: string
+  // Set to autosave edits to an existing post instead of a new one
+  postId?: string | null
+  enabled?: boolean
+  debounceMs?: number
+}
+
+/**
+ * Autosaves composer state to post_drafts with debouncing
+ * Media is uploaded once per file and reused by later saves
+ */
+export function usePostDraft({
+  userId,
+  communityId,
+  postId = null,
+  enabled = true,
+  debounceMs = 1500,
+}: UsePostDraftOptions) {
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [status, setStatus] = useState<PostDraftStatus>("idle")
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+
+  const optionsRef = useRef({ userId, communityId, postId })
+  optionsRef.current = { userId, communityId, postId }
+
+  const draftIdRef = useRef<string | null>(null)
+  const savedMediaRef = useRef<PostDraftMedia[]>([])
+  // Storage path of every file uploaded for the current draft
+  const uploadedRef = useRef<Map<File, string>>(new Map())
+  const lastKeyRef = useRef<string | null>(null)
+  // undefined = nothing pending, null = pending delete (the composer is empty)
+  const pendingRef = useRef<PostDraftSnapshot | null | undefined>(undefined)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Saves run one at a time so uploads never race each other
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const fileIdsRef = useRef(new WeakMap<File, number>())
+  const nextFileIdRef = useRef(0)
+
+  const enqueue = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const result = queueRef.current.then(task)
+    queueRef.current = result.catch(() => undefined)
+    return result
+  }, [])
+
+  const fileId = (file: File) => {
+    let id = fileIdsRef.current.get(file)
+    if (id === undefined) {
+      id = nextFileIdRef.current++
+      fileIdsRef.current.set(file, id)
+    }
+    return id
+  }
+
+  const snapshotKey = (snapshot: PostDraftSnapshot) =>
+    JSON.stringify([
+      snapshot.content,
+      snapshot.boostRewardMessage ?? "",
+      snapshot.topicIds ?? [],
+      snapshot.media.map((m) => [fileId(m.file), m.type, m.requiresBoost || false]),
+      snapshot.existingMediaBoost ?? {},
+    ])
+
+  const forget = () => {
+    draftIdRef.current = null
+    savedMediaRef.current = []
+    uploadedRef.current = new Map()
+    lastKeyRef.current = null
+    setDraftId(null)
+    setStatus("idle")
+    setLastSavedAt(null)
+  }
+
+  const persist = async (snapshot: PostDraftSnapshot | null) => {
+    const { userId: ownerId, communityId: targetCommunityId, postId: targetPostId } = optionsRef.current
+    if (!ownerId) return
+
+    // Nothing worth keeping any more
+    if (!snapshot) {
+      if (!draftIdRef.current) return
+      try {
+        await deletePostDraft({ id: draftIdRef.current, media: savedMediaRef.current })
+      } catch (error) {
+        console.error("Error deleting draft:", error)
+      }
+      forget()
+      return
+    }
+
+    const key = snapshotKey(snapshot)
+    if (draftIdRef.current && key === lastKeyRef.current) return
+
+    const id = draftIdRef.current ?? crypto.randomUUID()
+    draftIdRef.current = id
+    setStatus("saving")
+
+    try {
+      const media: PostDraftMedia[] = []
+      for (let i = 0; i < snapshot.media.length; i++) {
+        const item = snapshot.media[i]
+        let path = uploadedRef.current.get(item.file)
+        if (!path) {
+          path = getDraftMediaPath(ownerId, id, item.file, i)
+          await uploadDraftMedia(path, item.file)
+          uploadedRef.current.set(item.file, path)
+        }
+
+        media.push({
+          storage_path: path,
+          media_type: item.type,
+          file_name: item.file.name,
+          file_size: item.file.size,
+          mime_type: item.file.type,
+          display_order: i,
+          requires_boost: item.requiresBoost || false,
+        })
+      }
+
+      await savePostDraft({
+        id,
+        userId: ownerId,
+        communityId: targetCommunityId,
+        postId: targetPostId,
+        content: snapshot.content,
+        boostRewardMessage: snapshot.boostRewardMessage,
+        topicIds: snapshot.topicIds,
+        media,
+        existingMediaBoost: snapshot.existingMediaBoost,
+      })
+
+      // Drop files that were removed from the composer since the last save
+      const keep = new Set(media.map((m) => m.storage_path))
+      const removed: string[] = []
+      uploadedRef.current.forEach((path, file) => {
+        if (!keep.has(path)) {
+          removed.push(path)
+          uploadedRef.current.delete(file)
+        }
+      })
+      await removeDraftMedia(removed)
+
+      savedMediaRef.current = media
+      lastKeyRef.current = key
+      setDraftId(id)
+      setStatus("saved")
+      setLastSavedAt(new Date())
+    } catch (error) {
+      console.error("Error saving draft:", error)
+      setStatus("error")
+    }
+  }
+
+  const flush = useCallback((): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    if (pendingRef.current === undefined) {
+      return queueRef.current.then(() => undefined)
+    }
+
+    const snapshot = pendingRef.current
+    pendingRef.current = undefined
+    return enqueue(() => persist(snapshot))
+    // persist only reads refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enqueue])
+
+  /** Schedules an autosave. Pass null when the composer is empty to drop the draft. */
+  const save = useCallback((snapshot: PostDraftSnapshot | null) => {
+    if (!enabled || !optionsRef.current.userId) return
+
+    pendingRef.current = snapshot
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = setTimeout(() => {
+      void flush()
+    }, debounceMs)
+  }, [enabled, debounceMs, flush])
+
+  /** Deletes the current draft and its media, e.g. after it's been published. */
+  const discard = useCallback((): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    pendingRef.current = undefined
+    return enqueue(() => persist(null))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enqueue])
+
+  /** Saves pending changes, then stops tracking the draft without deleting it. */
+  const detach = useCallback(async (): Promise<void> => {
+    await flush()
+    await enqueue(async () => forget())
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flush, enqueue])
+
+  /** Makes `draft` the current draft and returns its media as files. */
+  const restore = useCallback(async (draft: PostDraft): Promise<RestoredDraftMedia[]> => {
+    await detach()
+
+    return enqueue(async () => {
+      const restored = await downloadDraftMedia(draft.media)
+
+      draftIdRef.current = draft.id
+      savedMediaRef.current = draft.media
+      uploadedRef.current = new Map(restored.map((item) => [item.file, item.storagePath]))
+      lastKeyRef.current = snapshotKey({
+        content: draft.content,
+        boostRewardMessage: draft.boost_reward_message ?? "",
+        topicIds: draft.topic_ids,
+        media: restored,
+        existingMediaBoost: draft.existing_media_boost,
+      })
+      setDraftId(draft.id)
+      setStatus("saved")
+      setLastSavedAt(new Date(draft.updated_at))
+
+      return restored
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [detach, enqueue])
+
+  // Best effort: save whatever is pending when the page goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      void flush()
+    }
+    window.addEventListener("pagehide", handlePageHide)
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide)
+      void flush()
+    }
+  }, [flush])
+
+  return {
+    draftId,
+    status,
+    lastSavedAt,
+    save,
+    flush,
+    discard,
+    detach,
+    restore,
+  }
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useCallback, useEffect, useId, useMemo, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { PollOption, PostPoll } from "@/types"
+
+interface CastPollVoteResult {
+  poll_id: string
+  voter_count: number
+  options: Array<{ id: string; vote_count: number }>
+  user_votes: string[]
+}
+
+/**
+ * Loads the polls for a page of posts in one go and keeps their counts live
+ * Returns polls keyed by post id
+ */
+export function usePostPolls(postIds: string[], userId?: string | null) {
+  const channelId = useId().replace(/[^a-zA-Z0-9]/g, "")
+  const [polls, setPolls] = useState<Record<string, PostPoll>>({})
+
+  // Stable key so re-renders with the same posts don't refetch
+  const postIdsKey = useMemo(() => Array.from(new Set(postIds)).sort().join(","), [postIds])
+  const pollIdsKey = useMemo(
+    () => Object.values(polls).map((poll) => poll.id).sort().join(","),
+    [polls]
+  )
+
+  useEffect(() => {
+    if (!postIdsKey) {
+      setPolls({})
+      return
+    }
+
+    let cancelled = false
+
+    const fetchPolls = async () => {
+      const { data, error } = await supabase
+        .from("post_polls")
+        .select(`
+          *,
+          options:poll_options(id, poll_id, label, position, vote_count)
+        `)
+        .in("post_id", postIdsKey.split(","))
+
+      if (error) {
+        console.error("Error fetching polls:", error)
+        return
+      }
+
+      const pollRows = (data || []) as PostPoll[]
+      const votesByPoll = new Map<string, string[]>()
+
+      if (userId && pollRows.length > 0) {
+        const { data: votes } = await supabase
+          .from("poll_votes")
+          .select("poll_id, option_id")
+          .eq("user_id", userId)
+          .in("poll_id", pollRows.map((poll) => poll.id))
+
+        votes?.forEach((vote) => {
+          votesByPoll.set(vote.poll_id, [...(votesByPoll.get(vote.poll_id) ?? []), vote.option_id])
+        })
+      }
+
+      if (cancelled) return
+
+      const next: Record<string, PostPoll> = {}
+      pollRows.forEach((poll) => {
+        next[poll.post_id] = {
+          ...poll,
+          options: [...poll.options].sort((a, b) => a.position - b.position),
+          user_votes: votesByPoll.get(poll.id) ?? [],
+        }
+      })
+      setPolls(next)
+    }
+
+    fetchPolls()
+
+    return () => {
+      cancelled = true
+    }
+  }, [postIdsKey, userId])
+
+  // Live counts: votes only ever change the totals on these two tables
+  useEffect(() => {
+    if (!pollIdsKey) return
+
+    const channel = supabase
+      .channel(`post-polls-${channelId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "poll_options",
+          filter: `poll_id=in.(${pollIdsKey})`,
+        },
+        (payload) => {
+          const option = payload.new as PollOption
+          setPolls((prev) => {
+            const entry = Object.entries(prev).find(([, poll]) => poll.id === option.poll_id)
+            if (!entry) return prev
+            const [postId, poll] = entry
+            return {
+              ...prev,
+              [postId]: {
+                ...poll,
+                options: poll.options.map((o) => (o.id === option.id ? { ...o, vote_count: option.vote_count } : o)),
+              },
+            }
+          })
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "post_polls",
+          filter: `id=in.(${pollIdsKey})`,
+        },
+        (payload) => {
+          const updated = payload.new as PostPoll
+          setPolls((prev) => {
+            const poll = prev[updated.post_id]
+            if (!poll) return prev
+            return { ...prev, [updated.post_id]: { ...poll, voter_count: updated.voter_count } }
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [pollIdsKey, channelId])
+
+  const vote = useCallback(async (poll: PostPoll, optionIds: string[]) => {
+    const { data, error } = await supabase.rpc("cast_poll_vote", {
+      p_poll_id: poll.id,
+      p_option_ids: optionIds,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const result = data as CastPollVoteResult
+    const counts = new Map(result.options.map((o) => [o.id, o.vote_count]))
+
+    setPolls((prev) => {
+      const current = prev[poll.post_id]
+      if (!current) return prev
+      return {
+        ...prev,
+        [poll.post_id]: {
+          ...current,
+          voter_count: result.voter_count,
+          user_votes: result.user_votes,
+          options: current.options.map((o) => ({ ...o, vote_count: counts.get(o.id) ?? o.vote_count })),
+        },
+      }
+    })
+  }, [])
+
+  return { polls, vote }
+}
@@ -0,0 +1,144 @@
+import { supabase } from "@/lib/supabase"
+import type { MediaType, PostDraft, PostDraftMedia } from "@/types"
+
+export const POST_DRAFT_BUCKET = "post-media"
+
+export interface SavePostDraftInput {
+  id: string
+  userId: string
+  communityId: string
+  postId?: string | null
+  content: string
+  boostRewardMessage?: string | null
+  topicIds?: string[]
+  media: PostDraftMedia[]
+  existingMediaBoost?: Record<string, boolean>
+}
+
+export interface RestoredDraftMedia {
+  file: File
+  type: MediaType
+  requiresBoost: boolean
+  storagePath: string
+}
+
+// Draft uploads sit apart from published media so cleanup can't touch a live post
+export function getDraftMediaPath(userId: string, draftId: string, file: File, index: number): string {
+  const fileExt = file.name.split(".").pop()
+  return `${userId}/drafts/${draftId}/${Date.now()}-${index}.${fileExt}`
+}
+
+export async function fetchPostDrafts(communityId: string, userId: string): Promise<PostDraft[]> {
+  const { data, error } = await supabase
+    .from("post_drafts")
+    .select("*")
+    .eq("community_id", communityId)
+    .eq("user_id", userId)
+    .is("post_id", null)
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as PostDraft[]
+}
+
+export async function fetchEditDraft(postId: string, userId: string): Promise<PostDraft | null> {
+  const { data, error } = await supabase
+    .from("post_drafts")
+    .select("*")
+    .eq("post_id", postId)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as PostDraft | null
+}
+
+export async function savePostDraft(input: SavePostDraftInput): Promise<PostDraft> {
+  const { data, error } = await supabase
+    .from("post_drafts")
+    .upsert({
+      id: input.id,
+      user_id: input.userId,
+      community_id: input.communityId,
+      post_id: input.postId ?? null,
+      content: input.content,
+      boost_reward_message: input.boostRewardMessage || null,
+      topic_ids: input.topicIds ?? [],
+      media: input.media,
+      existing_media_boost: input.existingMediaBoost ?? {},
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as PostDraft
+}
+
+export async function uploadDraftMedia(path: string, file: File): Promise<void> {
+  const { error } = await supabase.storage
+    .from(POST_DRAFT_BUCKET)
+    .upload(path, file, {
+      contentType: file.type,
+      cacheControl: "0",
+      upsert: false,
+    })
+
+  if (error) {
+    throw new Error(`Failed to upload ${file.name}: ${error.message}`)
+  }
+}
+
+export async function removeDraftMedia(paths: string[]): Promise<void> {
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage.from(POST_DRAFT_BUCKET).remove(paths)
+  if (error) {
+    // Not fatal: the cleanup job sweeps unreferenced draft files
+    console.error("Error removing draft media:", error)
+  }
+}
+
+export async function deletePostDraft(draft: Pick<PostDraft, "id" | "media">): Promise<void> {
+  await removeDraftMedia(draft.media.map((m) => m.storage_path))
+
+  const { error } = await supabase.from("post_drafts").delete().eq("id", draft.id)
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * Downloads a draft's media back into File objects so the composer can treat
+ * them like fresh attachments.
+ */
+export async function downloadDraftMedia(media: PostDraftMedia[]): Promise<RestoredDraftMedia[]> {
+  const ordered = [...media].sort((a, b) => a.display_order - b.display_order)
+
+  const restored = await Promise.all(
+    ordered.map(async (item) => {
+      const { data, error } = await supabase.storage.from(POST_DRAFT_BUCKET).download(item.storage_path)
+      if (error || !data) {
+        console.error(`Error downloading draft media ${item.storage_path}:`, error)
+        return null
+      }
+
+      return {
+        file: new File([data], item.file_name, { type: item.mime_type || data.type }),
+        type: item.media_type,
+        requiresBoost: item.requires_boost || false,
+        storagePath: item.storage_path,
+      }
+    })
+  )
+
+  return restored.filter((item): item is RestoredDraftMedia => item !== null)
+}
@@ -2,6 +2,12 @@ import { createServerSupabaseClient } from './supabase-server'
 import { NextResponse } from 'next/server'
 import type { User } from '@supabase/supabase-js'
 import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  getCommunityAccess,
+  hasCommunityPermission,
+  type CommunityAccess,
+  type CommunityAction,
+} from './community-permissions'
 
 /**
  * Helper function to require authentication in API routes
@@ -55,3 +61,43 @@ export async function requireAuth(): Promise<{ user: User; supabase: SupabaseCli
   }
 }
 
+
+/**
+ * Helper function to require a community permission in API routes
+ * Owners pass every check; moderators need the permission to have been granted
+ * 
+ * @returns Promise<CommunityAccess | NextResponse> - The user's access if permitted, error response otherwise
+ * 
+ * @example
+ * ```ts
+ * const access = await requireCommunityPermission(supabase, communityId, user.id, 'upload_videos')
+ * if (access instanceof NextResponse) {
+ *   return access // 404 or 403
+ * }
+ * ```
+ */
+export async function requireCommunityPermission(
+  supabase: SupabaseClient<any>,
+  communityId: string,
+  userId: string,
+  action: CommunityAction,
+  forbiddenMessage = 'You do not have permission to do this in this community'
+): Promise<CommunityAccess | NextResponse> {
+  const access = await getCommunityAccess(supabase, communityId, userId)
+
+  if (!access) {
+    return NextResponse.json(
+      { error: 'Community not found' },
+      { status: 404 }
+    )
+  }
+
+  if (!hasCommunityPermission(access, action)) {
+    return NextResponse.json(
+      { error: forbiddenMessage },
+      { status: 403 }
+    )
+  }
+
+  return access
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CommunityMemberRole, CommunityPermission } from "@/types"
+
+export const COMMUNITY_PERMISSIONS: CommunityPermission[] = [
+  "pin_posts",
+  "delete_comments",
+  "host_events",
+  "upload_videos",
+  "manage_playlists",
+  "review_reports",
+]
+
+export const communityPermissionLabels: Record<CommunityPermission, string> = {
+  pin_posts: "Pin posts",
+  delete_comments: "Delete comments",
+  host_events: "Host events",
+  upload_videos: "Upload videos",
+  manage_playlists: "Manage playlists",
+  review_reports: "Review reports",
+}
+
+/**
+ * Actions reserved for the community owner, on top of the grantable permissions.
+ */
+export type CommunityOwnerAction = "manage_settings" | "manage_members"
+
+export type CommunityAction = CommunityPermission | CommunityOwnerAction
+
+export interface CommunityAccess {
+  communityId: string
+  ownerId: string
+  isOwner: boolean
+  role: CommunityMemberRole | null // null when the user is not a member
+  permissions: CommunityPermission[]
+}
+
+export function isCommunityPermission(value: unknown): value is CommunityPermission {
+  return typeof value === "string" && (COMMUNITY_PERMISSIONS as string[]).includes(value)
+}
+
+/**
+ * Owners can do everything; moderators only what they were granted.
+ * Mirrors has_community_permission() in the database.
+ */
+export function hasCommunityPermission(access: CommunityAccess | null, action: CommunityAction): boolean {
+  if (!access) return false
+  if (access.isOwner) return true
+  if (access.role !== "moderator" || !isCommunityPermission(action)) return false
+  return access.permissions.includes(action)
+}
+
+/**
+ * Loads the user's role and permissions in a community.
+ * Returns null when the community doesn't exist.
+ */
+export async function getCommunityAccess(
+  supabase: SupabaseClient<any>,
+  communityId: string,
+  userId: string,
+): Promise<CommunityAccess | null> {
+  const [{ data: community }, { data: membership }] = await Promise.all([
+    supabase
+      .from("communities")
+      .select("id, owner_id")
+      .eq("id", communityId)
+      .maybeSingle(),
+    supabase
+      .from("community_members")
+      .select("role, permissions")
+      .eq("community_id", communityId)
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ])
+
+  if (!community) return null
+
+  const isOwner = community.owner_id === userId
+
+  return {
+    communityId: community.id,
+    ownerId: community.owner_id,
+    isOwner,
+    role: isOwner ? "owner" : ((membership?.role as CommunityMemberRole | undefined) ?? null),
+    permissions: ((membership?.permissions as string[] | null) ?? []).filter(isCommunityPermission),
+  }
+}
@@ -0,0 +1,64 @@
+import type { Community, CommunityBillingCycle } from "@/types"
+
+type CommunityPricing = Pick<Community, "pricing_type" | "one_time_price" | "monthly_price" | "annual_price">
+
+/**
+ * Billing cycles a member can choose from when joining.
+ * Empty for free communities; only `recurring` communities offer a choice.
+ */
+export function getAvailableBillingCycles(community: CommunityPricing): CommunityBillingCycle[] {
+  switch (community.pricing_type) {
+    case "one_time":
+      return ["one_time"]
+    case "monthly":
+      return ["monthly"]
+    case "annual":
+      return ["annual"]
+    case "recurring": {
+      const cycles: CommunityBillingCycle[] = []
+      if ((community.monthly_price ?? 0) > 0) cycles.push("monthly")
+      if ((community.annual_price ?? 0) > 0) cycles.push("annual")
+      return cycles
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * TTD price for a billing cycle. Mirrors get_community_membership_price_points() in the database.
+ */
+export function getMembershipPriceTtd(community: CommunityPricing, billingCycle: CommunityBillingCycle | null): number {
+  switch (billingCycle) {
+    case "one_time":
+      return community.one_time_price ?? 0
+    case "monthly":
+      return community.monthly_price ?? 0
+    case "annual":
+      return community.annual_price ?? 0
+    default:
+      return 0
+  }
+}
+
+/**
+ * Converts a TTD price into points at the platform buy price (rounded up, like the database does).
+ */
+export function getMembershipPricePoints(
+  community: CommunityPricing,
+  billingCycle: CommunityBillingCycle | null,
+  buyPricePerPoint: number | null | undefined,
+): number {
+  const priceTtd = getMembershipPriceTtd(community, billingCycle)
+  if (priceTtd <= 0 || !buyPricePerPoint || buyPricePerPoint <= 0) {
+    return 0
+  }
+  // Round away float noise first so e.g. 1.1 / 0.1 doesn't become 12 points
+  return Math.ceil(Number((priceTtd / buyPricePerPoint).toFixed(6)))
+}
+
+export const billingCycleLabels: Record<CommunityBillingCycle, string> = {
+  one_time: "One-time",
+  monthly: "Monthly",
+  annual: "Annual",
+}
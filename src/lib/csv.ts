@@ -0,0 +1,29 @@
+export type CsvValue = string | number | boolean | null | undefined
+
+function escapeCsvValue(value: CsvValue) {
+  if (value === null || value === undefined) return ""
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * RFC 4180 CSV: header row first, CRLF line endings
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n")
+}
+
+/**
+ * Save CSV text as a file from the browser. The BOM makes Excel read it as UTF-8.
+ */
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob(["﻿", csv], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
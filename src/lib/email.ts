@@ -53,6 +53,22 @@ const baseEmailTemplate = (content: string) => `
   </div>
 `
 
+// Notification text comes from user content, so it is escaped before going into templates
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+export interface NotificationDigestItem {
+  title: string
+  body: string
+  actionUrl?: string | null
+  createdAt: string
+}
+
 // Pre-built email templates
 export const emailTemplates = {
   welcome: (name: string) => ({
@@ -311,4 +327,108 @@ export const emailTemplates = {
       </div>
     `),
   }),
+
+  communityMembershipRenewalFailed: (userName: string, communityName: string, communitySlug: string, points: number, graceEndsAt: string, lapsed: boolean) => {
+    const graceEndsString = new Date(graceEndsAt).toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' })
+
+    return {
+      subject: lapsed
+        ? `Your ${communityName} membership has lapsed`
+        : `Membership renewal failed - ${communityName}`,
+      html: baseEmailTemplate(`
+        <h2 style="color: ${lapsed ? '#ef4444' : '#f59e0b'}; margin-bottom: 20px;">
+          ${lapsed ? 'Membership Lapsed' : 'Membership Renewal Failed'}
+        </h2>
+        <p style="color: #374151; line-height: 1.6;">Hi ${userName || 'there'},</p>
+        <p style="color: #374151; line-height: 1.6;">
+          ${lapsed
+            ? `We couldn't renew your membership to <strong>${communityName}</strong> before the grace period ended, so you no longer have access to the community feed.`
+            : `We couldn't renew your membership to <strong>${communityName}</strong> because your wallet doesn't have enough points. You keep access until <strong>${graceEndsString}</strong>.`
+          }
+        </p>
+        <div style="background: #f9fafb; padding: 20px; border-radius: 6px; margin: 20px 0;">
+          <p style="margin: 5px 0; color: #374151;"><strong>Community:</strong> ${communityName}</p>
+          <p style="margin: 5px 0; color: #374151;"><strong>Renewal Price:</strong> ${points.toLocaleString()} points</p>
+          ${lapsed ? '' : `<p style="margin: 5px 0; color: #374151;"><strong>Grace Period Ends:</strong> ${graceEndsString}</p>`}
+        </div>
+        <p style="color: #374151; line-height: 1.6;">
+          Top up your wallet and renew from the community feed to restore your membership.
+        </p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/${communitySlug}/feed" style="background: #7c3aed; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Renew Membership</a>
+        </div>
+      `),
+    }
+  },
+
+  notificationDigest: (userName: string, frequency: 'daily' | 'weekly', items: NotificationDigestItem[], totalCount: number) => {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+    const period = frequency === 'daily' ? 'today' : 'this week'
+    const remaining = totalCount - items.length
+
+    return {
+      subject: `You have ${totalCount} unread notification${totalCount !== 1 ? 's' : ''} ${period}`,
+      html: baseEmailTemplate(`
+        <h2 style="color: #111827; margin-bottom: 20px;">Your ${frequency} digest</h2>
+        <p style="color: #374151; line-height: 1.6;">Hi ${escapeHtml(userName || 'there')},</p>
+        <p style="color: #374151; line-height: 1.6;">Here's what you missed ${period}:</p>
+        <div style="background: #f9fafb; padding: 10px 20px; border-radius: 6px; margin: 20px 0;">
+          ${items
+            .map((item) => {
+              const title = escapeHtml(item.title)
+              const link = item.actionUrl ? `${siteUrl}${item.actionUrl.startsWith('/') ? '' : '/'}${item.actionUrl}` : null
+              return `
+                <div style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+                  <p style="margin: 0 0 4px 0; color: #111827;">
+                    <strong>${link ? `<a href="${escapeHtml(link)}" style="color: #7c3aed; text-decoration: none;">${title}</a>` : title}</strong>
+                  </p>
+                  <p style="margin: 0 0 4px 0; color: #374151; font-size: 14px;">${escapeHtml(item.body)}</p>
+                  <p style="margin: 0; color: #9ca3af; font-size: 12px;">${new Date(item.createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</p>
+                </div>
+              `
+            })
+            .join('')}
+        </div>
+        ${remaining > 0 ? `<p style="color: #6b7280; font-size: 14px;">And ${remaining} more.</p>` : ''}
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${siteUrl}" style="background: #7c3aed; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Open Success Family</a>
+        </div>
+        <p style="color: #6b7280; font-size: 14px;">
+          You can change which notifications are included or turn off this digest in your <a href="${siteUrl}/account" style="color: #7c3aed;">account settings</a>.
+        </p>
+      `),
+    }
+  },
+
+  // Event reminders (upcoming and now live)
+  eventReminder: (userName: string, communityName: string, eventDescription: string, scheduledAt: string, actionUrl: string, isLive: boolean) => {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+    const startsAt = new Date(scheduledAt).toLocaleString(undefined, { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })
+    const summary = eventDescription.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+
+    return {
+      subject: isLive ? `${communityName} is live now` : `Reminder: ${communityName} event on ${startsAt}`,
+      html: baseEmailTemplate(`
+        <h2 style="color: #7c3aed; margin-bottom: 20px;">${isLive ? 'Your event is live' : 'Upcoming event reminder'}</h2>
+        <p style="color: #374151; line-height: 1.6;">Hi ${escapeHtml(userName || 'there')},</p>
+        <p style="color: #374151; line-height: 1.6;">
+          ${isLive
+            ? `The <strong>${escapeHtml(communityName)}</strong> event you registered for has started.`
+            : `The <strong>${escapeHtml(communityName)}</strong> event you registered for starts on <strong>${startsAt}</strong>.`
+          }
+        </p>
+        ${summary ? `
+        <div style="background: #f9fafb; padding: 20px; border-radius: 6px; margin: 20px 0;">
+          <p style="margin: 0; color: #374151;">${escapeHtml(summary.length > 280 ? `${summary.slice(0, 277)}...` : summary)}</p>
+        </div>
+        ` : ''}
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${siteUrl}${actionUrl}" style="background: #7c3aed; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">${isLive ? 'Join Now' : 'View Event'}</a>
+        </div>
+        <p style="color: #6b7280; font-size: 14px;">
+          You can turn off event reminders in your <a href="${siteUrl}/account" style="color: #7c3aed;">account settings</a>.
+        </p>
+      `),
+    }
+  },
 }
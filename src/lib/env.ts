@@ -19,6 +19,10 @@ export function validateEnv() {
     NEXT_PUBLIC_VAPID_PUBLIC_KEY: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
     VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
     VAPID_EMAIL: process.env.VAPID_EMAIL || 'hello@successfamily.online',
+    // Transcription: 'local' (self-hosted Whisper server) or 'stub' (canned text, for tests)
+    TRANSCRIPTION_ENGINE: process.env.TRANSCRIPTION_ENGINE,
+    TRANSCRIPTION_LOCAL_URL: process.env.TRANSCRIPTION_LOCAL_URL,
+    TRANSCRIPTION_LOCAL_MODEL: process.env.TRANSCRIPTION_LOCAL_MODEL,
   }
 
   const missingVars = Object.entries(requiredEnvVars)
@@ -0,0 +1,71 @@
+import { toCsv } from "@/lib/csv"
+import type { EventAttendanceReport, EventAttendanceReportRow } from "@/types"
+
+export function formatWatchTime(seconds: number) {
+  const total = Math.max(0, Math.round(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${total}s`
+}
+
+export function getAttendeeName(row: Pick<EventAttendanceReportRow, "first_name" | "last_name" | "username">) {
+  return `${row.first_name ?? ""} ${row.last_name ?? ""}`.trim() || row.username || "Unknown"
+}
+
+const REGISTRATION_STATUS_LABELS: Record<EventAttendanceReportRow["registration_status"], string> = {
+  registered: "Registered",
+  cancelled: "Refunded",
+  not_registered: "Walk-in",
+}
+
+export function getRegistrationStatusLabel(row: EventAttendanceReportRow) {
+  return row.is_host ? "Host" : REGISTRATION_STATUS_LABELS[row.registration_status]
+}
+
+/**
+ * One row per person, with the event totals in a trailing summary block
+ */
+export function buildAttendanceCsv(report: EventAttendanceReport) {
+  const rows = report.attendees.map((row) => [
+    getAttendeeName(row),
+    row.username,
+    getRegistrationStatusLabel(row),
+    row.registered_at,
+    row.points_charged,
+    row.attended ? "Yes" : "No",
+    row.sessions,
+    row.first_joined_at,
+    row.last_left_at,
+    row.watch_seconds,
+  ])
+
+  const summary = [
+    [],
+    ["Registered", report.registered],
+    ["Refunded", report.cancelled],
+    ["Attended", report.attended],
+    ["No-shows", report.no_shows],
+    ["Peak concurrent viewers", report.peak_concurrency],
+    ["Average watch time (seconds)", report.average_watch_seconds],
+    ["Revenue (points)", report.revenue_points],
+  ]
+
+  return toCsv(
+    [
+      "Name",
+      "Username",
+      "Registration",
+      "Registered At",
+      "Points Paid",
+      "Attended",
+      "Sessions",
+      "First Joined",
+      "Last Left",
+      "Watch Time (seconds)",
+    ],
+    [...rows, ...summary]
+  )
+}
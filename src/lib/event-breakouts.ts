@@ -0,0 +1,31 @@
+export const EVENT_BREAKOUT_MIN_ROOMS = 2
+export const EVENT_BREAKOUT_MAX_ROOMS = 20
+export const EVENT_BREAKOUT_DEFAULT_MINUTES = 10
+export const EVENT_BREAKOUT_DURATION_OPTIONS = [5, 10, 15, 20, 30, 45, 60]
+
+export function getDefaultBreakoutRoomName(position: number) {
+  return `Room ${position}`
+}
+
+/**
+ * Shuffles participants and deals them into rooms, so room sizes differ by at most one
+ */
+export function assignBreakoutRoomsRandomly(userIds: string[], roomCount: number) {
+  const shuffled = [...userIds]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  const rooms: string[][] = Array.from({ length: roomCount }, () => [])
+  shuffled.forEach((userId, index) => rooms[index % roomCount].push(userId))
+  return rooms
+}
+
+/**
+ * Time left on the breakout timer as m:ss
+ */
+export function formatBreakoutCountdown(seconds: number) {
+  const total = Math.max(0, Math.ceil(seconds))
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`
+}
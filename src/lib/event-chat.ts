@@ -0,0 +1,48 @@
+import type { EventChatMessage } from "@/types"
+
+// Mirrors the checks in send_event_chat_message
+export const EVENT_CHAT_MAX_LENGTH = 500
+
+// Newest messages loaded when joining a live chat, and the cap for a replay
+export const EVENT_CHAT_LIVE_HISTORY = 200
+export const EVENT_CHAT_REPLAY_HISTORY = 1000
+
+export const EVENT_CHAT_REACTIONS = ["👍", "❤️", "😂", "🎉", "👏", "🔥"] as const
+
+export const EVENT_CHAT_SLOW_MODE_OPTIONS = [
+  { value: 0, label: "Off" },
+  { value: 5, label: "5 seconds" },
+  { value: 15, label: "15 seconds" },
+  { value: 30, label: "30 seconds" },
+  { value: 60, label: "1 minute" },
+  { value: 300, label: "5 minutes" },
+] as const
+
+export const EVENT_CHAT_MESSAGE_SELECT = `
+  *,
+  user:users!event_chat_messages_user_id_fkey(id, username, first_name, last_name, profile_picture)
+`
+
+export function getChatAuthorName(message: Pick<EventChatMessage, "user">) {
+  const user = message.user
+  if (!user) return "Unknown User"
+  return (user.first_name && user.last_name && `${user.first_name} ${user.last_name}`) || user.username || "Unknown User"
+}
+
+/**
+ * Position of a message within the event as m:ss or h:mm:ss, for replaying
+ * the chat alongside the recording. Messages sent before the start show 0:00.
+ */
+export function formatChatOffset(sentAt: string, startedAt: string) {
+  const totalSeconds = Math.max(
+    Math.floor((new Date(sentAt).getTime() - new Date(startedAt).getTime()) / 1000),
+    0
+  )
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0")
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`
+}
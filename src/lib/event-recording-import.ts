@@ -0,0 +1,169 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export const EVENT_RECORDINGS_BUCKET = "event-recordings"
+
+export interface StreamRecordingInput {
+  eventId: string
+  communityId: string
+  ownerId: string
+  streamRecordingId: string
+  streamRecordingUrl: string
+  startedAt?: string | null
+  endedAt?: string | null
+  // Falls back to endedAt - startedAt
+  durationSeconds?: number | null
+}
+
+export type StreamRecordingImportResult =
+  | { status: "imported"; recordingId: string; storagePath: string | null; storageLimitExceeded: boolean }
+  | { status: "duplicate"; recordingId: string }
+
+/**
+ * Copies a GetStream recording into storage and records it on the event, using a
+ * service role client. Safe to call more than once for the same recording: the host's
+ * browser (api/recordings/save) and the webhook may both report it, and the unique
+ * (event_id, stream_recording_id) index settles a race between them.
+ * When the download fails or the owner is over their storage limit, only the
+ * metadata is saved and the recording plays from GetStream.
+ */
+export async function importStreamRecording(
+  adminClient: SupabaseClient<any>,
+  input: StreamRecordingInput
+): Promise<StreamRecordingImportResult> {
+  const existing = await findExistingRecording(adminClient, input)
+  if (existing) {
+    return { status: "duplicate", recordingId: existing }
+  }
+
+  const { error: usageError } = await adminClient.rpc("update_user_storage_usage", {
+    p_user_id: input.ownerId,
+  })
+  if (usageError) {
+    console.error("[Recording import] Error updating storage usage:", usageError)
+  }
+
+  const { data: storage } = await adminClient
+    .from("user_storage")
+    .select("total_storage_bytes, storage_limit_bytes")
+    .eq("user_id", input.ownerId)
+    .maybeSingle()
+
+  const overLimit = !!storage && storage.total_storage_bytes >= storage.storage_limit_bytes
+
+  let storagePath: string | null = null
+  let storageUrl: string | null = null
+  let fileSize: number | null = null
+
+  if (overLimit) {
+    console.warn("[Recording import] Owner is over their storage limit, saving metadata only:", input.ownerId)
+  } else {
+    try {
+      const response = await fetch(input.streamRecordingUrl)
+      if (!response.ok) {
+        throw new Error(`Failed to download recording: ${response.statusText}`)
+      }
+      const blob = await response.blob()
+      fileSize = blob.size
+
+      const fileName = `${input.eventId}/${input.streamRecordingId}-${Date.now()}.mp4`
+      const upload = () =>
+        adminClient.storage.from(EVENT_RECORDINGS_BUCKET).upload(fileName, blob, {
+          contentType: "video/mp4",
+          upsert: false,
+        })
+
+      let { error: uploadError } = await upload()
+
+      // First recording on a new project: create the bucket and try again
+      if (uploadError && /not found|bucket/i.test(uploadError.message)) {
+        const { error: createError } = await adminClient.storage.createBucket(EVENT_RECORDINGS_BUCKET, {
+          public: true,
+          fileSizeLimit: 52428800, // 50MB
+          allowedMimeTypes: ["video/mp4", "video/webm", "video/mpeg"],
+        })
+        if (createError) {
+          console.error("[Recording import] Failed to create bucket:", createError)
+        } else {
+          uploadError = (await upload()).error
+        }
+      }
+
+      if (uploadError) {
+        throw uploadError
+      }
+
+      storagePath = `${EVENT_RECORDINGS_BUCKET}/${fileName}`
+      storageUrl = adminClient.storage.from(EVENT_RECORDINGS_BUCKET).getPublicUrl(fileName).data.publicUrl
+    } catch (error) {
+      console.error("[Recording import] Error copying recording to storage:", error)
+    }
+  }
+
+  const durationSeconds =
+    input.durationSeconds ??
+    (input.startedAt && input.endedAt
+      ? Math.max(Math.floor((new Date(input.endedAt).getTime() - new Date(input.startedAt).getTime()) / 1000), 0)
+      : null)
+
+  const { data: saved, error: insertError } = await adminClient
+    .from("event_recordings")
+    .upsert({
+      event_id: input.eventId,
+      community_id: input.communityId,
+      stream_recording_id: input.streamRecordingId,
+      stream_recording_url: input.streamRecordingUrl,
+      storage_path: storagePath,
+      storage_url: storageUrl,
+      duration_seconds: durationSeconds,
+      file_size_bytes: fileSize,
+      started_at: input.startedAt ?? null,
+      ended_at: input.endedAt ?? null,
+      is_processing: false,
+      title: `Recording - ${new Date(input.startedAt || Date.now()).toLocaleDateString()}`,
+    }, { onConflict: "event_id,stream_recording_id", ignoreDuplicates: true })
+    .select("id")
+    .maybeSingle()
+
+  if (insertError) {
+    throw insertError
+  }
+
+  // The other caller saved it while this one was downloading; drop our copy of the file
+  if (!saved) {
+    if (storagePath) {
+      await adminClient.storage.from(EVENT_RECORDINGS_BUCKET).remove([storagePath.slice(EVENT_RECORDINGS_BUCKET.length + 1)])
+    }
+    const existingId = await findExistingRecording(adminClient, input)
+    if (!existingId) {
+      throw new Error("Recording conflicted with an existing row that could not be found")
+    }
+    return { status: "duplicate", recordingId: existingId }
+  }
+
+  if (storagePath) {
+    await adminClient.rpc("update_user_storage_usage", { p_user_id: input.ownerId })
+  }
+
+  return { status: "imported", recordingId: saved.id, storagePath, storageLimitExceeded: overLimit }
+}
+
+/**
+ * A recording already saved for the event, matched on the GetStream id or URL
+ */
+export async function findExistingRecording(
+  client: SupabaseClient<any>,
+  input: Pick<StreamRecordingInput, "eventId" | "streamRecordingId" | "streamRecordingUrl">
+): Promise<string | null> {
+  const { data } = await client
+    .from("event_recordings")
+    .select("id, stream_recording_id, stream_recording_url")
+    .eq("event_id", input.eventId)
+
+  const match = (data ?? []).find(
+    (row) =>
+      row.stream_recording_id === input.streamRecordingId ||
+      (!!row.stream_recording_url && row.stream_recording_url.split("?")[0] === input.streamRecordingUrl.split("?")[0])
+  )
+
+  return match?.id ?? null
+}
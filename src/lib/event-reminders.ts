@@ -0,0 +1,49 @@
+// Used when platform_settings has no offsets configured: 24 hours and 1 hour before
+export const DEFAULT_EVENT_REMINDER_OFFSETS_MINUTES = [24 * 60, 60]
+
+// Registrants are only told an event went live if it started this recently
+export const EVENT_LIVE_REMINDER_WINDOW_MINUTES = 30
+
+export const EVENT_LIVE_REMINDER = "live"
+
+const MS_PER_MINUTE = 60_000
+
+/**
+ * The reminder a registrant is due for an upcoming event, as its offset in minutes.
+ * Only the smallest offset whose window has opened counts, so a missed cron run or a
+ * late registration never produces a "starts in 24 hours" reminder an hour before.
+ * Returns null when nothing is due, or when the registrant signed up inside the window.
+ */
+export function getDueEventReminder(
+  scheduledAt: Date,
+  registeredAt: Date,
+  offsetsMinutes: number[],
+  now: Date = new Date()
+): number | null {
+  if (now >= scheduledAt) return null
+
+  const due = offsetsMinutes
+    .filter((offset) => offset > 0 && now.getTime() >= scheduledAt.getTime() - offset * MS_PER_MINUTE)
+    .sort((a, b) => a - b)[0]
+
+  if (due === undefined) return null
+
+  // They registered after this reminder would have gone out; the registration itself was the reminder
+  if (registeredAt.getTime() > scheduledAt.getTime() - due * MS_PER_MINUTE) return null
+
+  return due
+}
+
+/**
+ * "in 24 hours", "in 1 hour", "in 15 minutes" for the time left until an event starts
+ */
+export function formatTimeUntilEvent(scheduledAt: Date, now: Date = new Date()) {
+  const minutes = Math.max(Math.round((scheduledAt.getTime() - now.getTime()) / MS_PER_MINUTE), 1)
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? "" : "s"}`
+
+  const hours = Math.round(minutes / 60)
+  if (hours < 48) return `in ${hours} hour${hours === 1 ? "" : "s"}`
+
+  const days = Math.round(hours / 24)
+  return `in ${days} days`
+}
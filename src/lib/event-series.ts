@@ -0,0 +1,85 @@
+import type { EventSeriesFrequency } from "@/types"
+
+// Matches the cap in event_series_occurrences()
+export const EVENT_SERIES_MAX_OCCURRENCES = 52
+
+export const EVENT_SERIES_DEFAULT_OCCURRENCES = 8
+
+export const EVENT_SERIES_FREQUENCY_OPTIONS: { value: EventSeriesFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly_nth_weekday", label: "Monthly" },
+]
+
+const ORDINALS = ["first", "second", "third", "fourth"]
+
+export interface EventSeriesRule {
+  frequency: EventSeriesFrequency
+  firstOccurrence: Date
+  endsOn?: string | null // YYYY-MM-DD
+  occurrenceCount?: number | null
+}
+
+/**
+ * Week of the month the first occurrence falls in, 1-4, or 5 for "the last"
+ */
+function weekOfMonth(date: Date) {
+  return Math.ceil(date.getDate() / 7)
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+/**
+ * Occurrence times for a rule in the browser's time zone. Mirrors
+ * event_series_occurrences(), which creates the events, so the create dialog can
+ * show what will be scheduled and charged before anything is.
+ */
+export function getSeriesOccurrences(rule: EventSeriesRule): Date[] {
+  const { frequency, firstOccurrence, endsOn, occurrenceCount } = rule
+  const weekday = firstOccurrence.getDay()
+  const week = weekOfMonth(firstOccurrence)
+  const occurrences: Date[] = []
+
+  for (let index = 0; index < EVENT_SERIES_MAX_OCCURRENCES; index++) {
+    if (occurrenceCount && index >= occurrenceCount) break
+
+    const occurrence = new Date(firstOccurrence)
+
+    if (frequency === "weekly" || frequency === "biweekly") {
+      occurrence.setDate(firstOccurrence.getDate() + index * (frequency === "weekly" ? 7 : 14))
+    } else {
+      occurrence.setDate(1)
+      occurrence.setMonth(firstOccurrence.getMonth() + index)
+
+      if (week === 5) {
+        // Not every month has a fifth week, so this means the last one
+        occurrence.setMonth(occurrence.getMonth() + 1, 0)
+        occurrence.setDate(occurrence.getDate() - ((occurrence.getDay() - weekday + 7) % 7))
+      } else {
+        occurrence.setDate(1 + ((weekday - occurrence.getDay() + 7) % 7) + (week - 1) * 7)
+      }
+    }
+
+    if (endsOn && toDateKey(occurrence) > endsOn) break
+
+    occurrences.push(occurrence)
+  }
+
+  return occurrences
+}
+
+/**
+ * "Every Tuesday", "Every other Tuesday", "Monthly on the second Tuesday"
+ */
+export function describeEventSeries(frequency: EventSeriesFrequency, firstOccurrence: Date | string) {
+  const date = new Date(firstOccurrence)
+  const weekdayName = date.toLocaleDateString("en-US", { weekday: "long" })
+
+  if (frequency === "weekly") return `Every ${weekdayName}`
+  if (frequency === "biweekly") return `Every other ${weekdayName}`
+
+  const week = weekOfMonth(date)
+  return `Monthly on the ${week === 5 ? "last" : ORDINALS[week - 1]} ${weekdayName}`
+}
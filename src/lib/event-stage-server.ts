@@ -0,0 +1,42 @@
+import { StreamClient } from "@stream-io/node-sdk"
+import { env } from "@/lib/env"
+import { EVENT_STAGE_PUBLISH_PERMISSIONS, canPublishOnStage, type EventStageRole } from "@/lib/event-stage"
+
+function getStreamClient() {
+  const apiKey = env.GETSTREAM_API_KEY
+  const apiSecret = env.GETSTREAM_API_SECRET
+
+  if (!apiKey || !apiSecret) {
+    throw new Error("GetStream API credentials not configured")
+  }
+
+  return new StreamClient(apiKey, apiSecret)
+}
+
+/**
+ * Mirror a stage role onto the user's permissions in the event's GetStream call.
+ * GetStream enforces these on the SFU, so a modified client still can't publish.
+ */
+export async function syncStageCallPermissions(callId: string, userId: string, role: EventStageRole) {
+  const call = getStreamClient().video.call("default", callId)
+
+  // Per-user permission overrides only apply to call members
+  await call.updateCallMembers({
+    update_members: [{ user_id: userId, role: role === "host" ? "host" : "user" }],
+  })
+
+  await call.updateUserPermissions(
+    canPublishOnStage(role)
+      ? { user_id: userId, grant_permissions: EVENT_STAGE_PUBLISH_PERMISSIONS }
+      : { user_id: userId, revoke_permissions: EVENT_STAGE_PUBLISH_PERMISSIONS }
+  )
+}
+
+/**
+ * Everyone currently connected to the call, once each
+ */
+export async function getCallParticipantIds(callId: string) {
+  const response = await getStreamClient().video.call("default", callId).get()
+  const participants = response.call.session?.participants ?? []
+  return Array.from(new Set(participants.map((participant) => participant.user.id)))
+}
@@ -0,0 +1,10 @@
+export type EventStageRole = "host" | "speaker" | "audience" | "participant"
+
+/**
+ * GetStream capabilities an audience member loses until a host promotes them
+ */
+export const EVENT_STAGE_PUBLISH_PERMISSIONS = ["send-audio", "send-video", "screenshare"]
+
+export function canPublishOnStage(role: EventStageRole) {
+  return role !== "audience"
+}
@@ -0,0 +1,25 @@
+import type { CommunityEvent, EventPriceTier } from "@/types"
+
+/**
+ * The early-bird tier in effect, if any: the one ending soonest that hasn't ended
+ */
+export function getActivePriceTier(tiers: EventPriceTier[] | undefined, now: Date = new Date()) {
+  return (tiers ?? [])
+    .filter((tier) => new Date(tier.ends_at) > now)
+    .sort((a, b) => new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime())[0] ?? null
+}
+
+/**
+ * Points to register right now. Mirrors get_event_join_cost(), which is what's charged.
+ */
+export function getEventJoinCost(
+  event: Pick<CommunityEvent, "join_cost" | "price_tiers">,
+  platformJoinCost: number,
+  now: Date = new Date()
+) {
+  return getActivePriceTier(event.price_tiers, now)?.points_cost ?? event.join_cost ?? platformJoinCost
+}
+
+export function isEventFull(event: Pick<CommunityEvent, "capacity" | "registration_count">) {
+  return event.capacity != null && (event.registration_count ?? 0) >= event.capacity
+}
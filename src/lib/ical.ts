@@ -0,0 +1,138 @@
+import type { EventStatus } from "@/types"
+
+// community_events has no end time; calendars need one
+export const EVENT_CALENDAR_DEFAULT_DURATION_MINUTES = 60
+
+// Cancelled and past events stay in feeds this long so subscribed calendars pick up the change
+export const EVENT_CALENDAR_FEED_LOOKBACK_DAYS = 30
+
+const PRODUCT_ID = "-//Success Family Platform//Community Events//EN"
+const MS_PER_MINUTE = 60_000
+
+export interface CalendarEventInput {
+  id: string
+  description: string | null
+  scheduled_at: string
+  started_at?: string | null
+  ended_at?: string | null
+  status: EventStatus
+  created_at: string
+  updated_at: string
+  community: { name: string; slug: string } | null
+}
+
+/**
+ * Escapes TEXT values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+}
+
+/**
+ * Folds content lines longer than 75 octets, without splitting a UTF-8 character
+ */
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ""
+  let currentBytes = 0
+  // Continuation lines start with a space, which counts toward their 75 octets
+  let limit = 75
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length
+    if (currentBytes + charBytes > limit) {
+      parts.push(current)
+      current = ""
+      currentBytes = 0
+      limit = 74
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+
+  return parts.join("\r\n ")
+}
+
+/**
+ * UTC date-time form (20261019T120000Z). Times are always sent in UTC, which every
+ * calendar converts to the viewer's zone, so no VTIMEZONE definitions are needed.
+ */
+function formatDateTime(value: string | Date) {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function plainText(html: string | null) {
+  return (html ?? "").replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Calendar title for an event: its community and the start of its description
+ */
+function eventSummary(event: CalendarEventInput) {
+  const communityName = event.community?.name ?? "Community event"
+  const text = plainText(event.description)
+  if (!text) return communityName
+  return `${communityName}: ${text.length > 60 ? `${text.slice(0, 57)}...` : text}`
+}
+
+function buildEvent(event: CalendarEventInput, baseUrl: string) {
+  const start = event.started_at ?? event.scheduled_at
+  const end =
+    event.ended_at ??
+    new Date(new Date(start).getTime() + EVENT_CALENDAR_DEFAULT_DURATION_MINUTES * MS_PER_MINUTE).toISOString()
+  const url = event.community ? `${baseUrl}/${event.community.slug}/events` : baseUrl
+  const description = [plainText(event.description), url].filter(Boolean).join("\n\n")
+
+  // Calendars only apply an update whose SEQUENCE went up; updated_at only moves forward
+  const sequence = Math.max(
+    Math.floor((new Date(event.updated_at).getTime() - new Date(event.created_at).getTime()) / 1000),
+    0
+  )
+
+  return [
+    "BEGIN:VEVENT",
+    // Stable per event, so a re-import or feed refresh replaces rather than duplicates
+    `UID:${event.id}@community-events`,
+    `DTSTAMP:${formatDateTime(event.updated_at)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updated_at)}`,
+    `CREATED:${formatDateTime(event.created_at)}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(eventSummary(event))}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    `STATUS:${event.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+  ]
+}
+
+/**
+ * An iCalendar document (RFC 5545) for community events, used for single event
+ * downloads and subscribed feeds alike
+ */
+export function buildEventsCalendar(events: CalendarEventInput[], options: { name: string; baseUrl: string }) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    // Suggested refresh interval for subscribed feeds
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...events.flatMap((event) => buildEvent(event, options.baseUrl)),
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
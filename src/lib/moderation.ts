@@ -0,0 +1,44 @@
+import type { ModerationActionType, ReportReason, ReportTargetType } from "@/types"
+
+export const REPORT_REASONS: ReportReason[] = [
+  "spam",
+  "harassment",
+  "hate_speech",
+  "nudity",
+  "violence",
+  "misinformation",
+  "other",
+]
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  spam: "Spam",
+  harassment: "Harassment or bullying",
+  hate_speech: "Hate speech",
+  nudity: "Nudity or sexual content",
+  violence: "Violence or threats",
+  misinformation: "Misinformation",
+  other: "Something else",
+}
+
+export const reportTargetLabels: Record<ReportTargetType, string> = {
+  post: "Post",
+  comment: "Comment",
+  dm_message: "Direct message",
+}
+
+export const moderationActionLabels: Record<ModerationActionType, string> = {
+  hide: "Hid",
+  unhide: "Restored",
+  delete: "Deleted",
+  dismiss: "Dismissed",
+  warn: "Warned",
+}
+
+/**
+ * Decisions a reviewer can take on an open report. unhide is only available from the audit trail.
+ */
+export type ReportResolution = Exclude<ModerationActionType, "unhide">
+
+export function isReportResolution(value: unknown): value is ReportResolution {
+  return value === "hide" || value === "delete" || value === "dismiss" || value === "warn"
+}
@@ -0,0 +1,73 @@
+import type { Notification, NotificationType } from "@/types"
+
+// Push throttle per group, passed through to create_grouped_notification. Events inside
+// the window are counted in the next push rather than sent when the burst ends
+export const NOTIFICATION_PUSH_THROTTLE = "5 minutes"
+
+export interface NotificationGroup {
+  key: string
+  actorId: string | null
+  // Grouped follows point at the recipient's own profile rather than the latest follower
+  linksToRecipientProfile?: boolean
+}
+
+type Metadata = Record<string, unknown> | null | undefined
+
+const metadataString = (metadata: Metadata, key: string) =>
+  typeof metadata?.[key] === "string" ? (metadata[key] as string) : null
+
+// Which metadata fields name the user behind each groupable type
+const groupConfig: Partial<Record<NotificationType, { target: string | null; actorId: string; actorName: string }>> = {
+  post_boost: { target: "post_id", actorId: "booster_id", actorName: "booster_name" },
+  post_comment: { target: "parent_post_id", actorId: "commenter_id", actorName: "commenter_name" },
+  new_message: { target: "thread_id", actorId: "sender_id", actorName: "sender_name" },
+  follow: { target: null, actorId: "follower_id", actorName: "follower_name" },
+}
+
+/**
+ * Group a notification belongs to, or null when the type is never collapsed
+ * (or the metadata is missing the target it would be grouped by)
+ */
+export function getNotificationGroup(type: NotificationType, metadata: Metadata): NotificationGroup | null {
+  const config = groupConfig[type]
+  if (!config) return null
+
+  const target = config.target ? metadataString(metadata, config.target) : null
+  if (config.target && !target) return null
+
+  return {
+    key: target ? `${type}:${target}` : type,
+    actorId: metadataString(metadata, config.actorId),
+    linksToRecipientProfile: type === "follow",
+  }
+}
+
+/**
+ * Body to show for a notification, summarising the group when several events collapsed into it
+ */
+export function getNotificationBody(
+  notification: Pick<Notification, "type" | "body" | "metadata" | "group_count" | "actor_ids">
+): string {
+  const count = notification.group_count ?? 1
+  const config = groupConfig[notification.type]
+  if (count <= 1 || !config) return notification.body
+
+  const actor = metadataString(notification.metadata, config.actorName) || "Someone"
+  const others = Math.max((notification.actor_ids?.length ?? 1) - 1, 0)
+  const withOthers = others > 0 ? `${actor} and ${others} other${others === 1 ? "" : "s"}` : actor
+
+  switch (notification.type) {
+    case "post_boost":
+      return `${withOthers} boosted your post`
+    case "post_comment":
+      return others > 0
+        ? `${withOthers} commented on your post`
+        : `${actor} left ${count} comments on your post`
+    case "follow":
+      return `${withOthers} started following you`
+    case "new_message":
+      return `${count} new messages from ${withOthers}`
+    default:
+      return notification.body
+  }
+}
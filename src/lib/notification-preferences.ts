@@ -0,0 +1,45 @@
+import type {
+  NotificationChannel,
+  NotificationDigestFrequency,
+  NotificationPreference,
+  NotificationType,
+} from "@/types"
+
+export const notificationTypeLabels: Record<NotificationType, { label: string; description: string }> = {
+  new_message: { label: "Messages", description: "New direct messages" },
+  post_comment: { label: "Comments", description: "Comments and replies on your posts" },
+  post_boost: { label: "Boosts", description: "When someone boosts your post" },
+  mention: { label: "Mentions", description: "When someone mentions you" },
+  follow: { label: "Followers", description: "When someone follows you" },
+  community_invite: { label: "Community invites", description: "Invitations to join a community" },
+  event_reminder: { label: "Event reminders", description: "Upcoming events you registered for" },
+  payment_verified: { label: "Payments", description: "Payment and receipt updates" },
+  tip_received: { label: "Tips", description: "When someone sends you points" },
+  moderation_warning: { label: "Moderation", description: "Warnings from community moderators" },
+}
+
+// Display order in settings
+export const NOTIFICATION_TYPES = Object.keys(notificationTypeLabels) as NotificationType[]
+
+export const notificationChannelLabels: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  push: "Push",
+  email: "Email digest",
+}
+
+export const NOTIFICATION_CHANNELS = Object.keys(notificationChannelLabels) as NotificationChannel[]
+
+export const DIGEST_FREQUENCIES: { value: NotificationDigestFrequency; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+]
+
+export type NotificationChannelPreferences = Pick<NotificationPreference, NotificationChannel>
+
+// Every channel is on until the user changes something
+export const DEFAULT_CHANNEL_PREFERENCES: NotificationChannelPreferences = {
+  in_app: true,
+  push: true,
+  email: true,
+}
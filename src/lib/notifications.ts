@@ -2,6 +2,7 @@
 
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { sendPushNotification } from '@/lib/push-notifications-server'
+import { getNotificationBody, getNotificationGroup, NOTIFICATION_PUSH_THROTTLE } from '@/lib/notification-groups'
 import type { NotificationType } from '@/types'
 
 type TypedSupabaseClient = ReturnType<typeof createServerSupabaseClient> extends Promise<infer T> ? T : never
@@ -17,6 +18,9 @@ interface CreateNotificationInput {
 
 /**
  * Create a notification (triggers push notification via API route)
+ * The recipient's preferences are applied in the database: in-app visibility, push
+ * (including quiet hours) and digest inclusion are resolved when the row is inserted.
+ * Boosts, comments, follows and messages collapse into one unread row per target
  */
 export async function createNotification(
   input: CreateNotificationInput
@@ -28,31 +32,90 @@ export async function createNotification(
   })
 
   const supabase = await createServerSupabaseClient()
-  
-  // Use SECURITY DEFINER function to bypass RLS for server-side notification creation
-  // This allows creating notifications for any user (e.g., when Alice boosts Bob's post,
-  // Alice's server action creates a notification for Bob)
-  const { data, error } = await supabase.rpc('create_notification', {
-    p_user_id: input.userId,
-    p_type: input.type,
-    p_title: input.title,
-    p_body: input.body,
-    p_action_url: input.actionUrl || null,
-    p_metadata: input.metadata || {}
-  })
-  
-  // RPC returns the UUID directly, not a row object
-  const notificationId = data as string | null
 
-  if (error) {
-    console.error('[notifications] ❌ Error creating notification:', error)
-    console.error('[notifications] Database error details:', {
-      message: error.message,
-      details: error.details,
-      hint: error.hint,
-      code: error.code
+  const group = getNotificationGroup(input.type, input.metadata)
+  let notificationId: string | null
+  let pushBody = input.body
+  let pushActionUrl = input.actionUrl || null
+  // Grouped notifications get their throttled push decision from the RPC
+  let groupedShouldPush: boolean | null = null
+
+  if (group) {
+    // Grouped follows link to the recipient's own profile once more than one person is involved
+    let groupActionUrl: string | null = null
+    if (group.linksToRecipientProfile) {
+      const { data: recipient } = await supabase
+        .from('users')
+        .select('username')
+        .eq('id', input.userId)
+        .maybeSingle()
+      groupActionUrl = recipient?.username ? `/profile/${recipient.username}` : null
+    }
+
+    const { data, error } = await supabase.rpc('create_grouped_notification', {
+      p_user_id: input.userId,
+      p_type: input.type,
+      p_title: input.title,
+      p_body: input.body,
+      p_action_url: input.actionUrl || null,
+      p_metadata: input.metadata || {},
+      p_group_key: group.key,
+      p_actor_id: group.actorId,
+      p_group_action_url: groupActionUrl,
+      p_push_throttle: NOTIFICATION_PUSH_THROTTLE
     })
-    throw error
+
+    if (error) {
+      console.error('[notifications] ❌ Error creating grouped notification:', error)
+      throw error
+    }
+
+    const grouped = data as {
+      id: string
+      group_count: number
+      actor_ids: string[]
+      action_url: string | null
+      should_push: boolean
+    } | null
+
+    notificationId = grouped?.id ?? null
+    groupedShouldPush = grouped?.should_push ?? false
+    if (grouped) {
+      pushBody = getNotificationBody({
+        type: input.type,
+        body: input.body,
+        metadata: input.metadata,
+        group_count: grouped.group_count,
+        actor_ids: grouped.actor_ids
+      })
+      pushActionUrl = grouped.action_url
+    }
+  } else {
+    // Use SECURITY DEFINER function to bypass RLS for server-side notification creation
+    // This allows creating notifications for any user (e.g., when Alice boosts Bob's post,
+    // Alice's server action creates a notification for Bob)
+    const { data, error } = await supabase.rpc('create_notification', {
+      p_user_id: input.userId,
+      p_type: input.type,
+      p_title: input.title,
+      p_body: input.body,
+      p_action_url: input.actionUrl || null,
+      p_metadata: input.metadata || {}
+    })
+
+    // RPC returns the UUID directly, not a row object
+    notificationId = data as string | null
+
+    if (error) {
+      console.error('[notifications] ❌ Error creating notification:', error)
+      console.error('[notifications] Database error details:', {
+        message: error.message,
+        details: error.details,
+        hint: error.hint,
+        code: error.code
+      })
+      throw error
+    }
   }
 
   console.log('[notifications] ✅ Notification created successfully:', notificationId, {
@@ -77,14 +140,32 @@ export async function createNotification(
       await new Promise(resolve => setTimeout(resolve, 50))
       
       try {
+        // Respect the recipient's push preference for this type and their quiet hours
+        let shouldPush = groupedShouldPush
+        if (shouldPush === null) {
+          const { data: pushAllowed, error: pushCheckError } = await supabase.rpc('should_push_notification', {
+            p_notification_id: notificationId
+          })
+
+          if (pushCheckError) {
+            console.error('[notifications] Error checking push preference:', pushCheckError)
+          }
+          shouldPush = !!pushAllowed
+        }
+
+        if (!shouldPush) {
+          console.log('[notifications] Push skipped by preferences, quiet hours or group throttle:', notificationId)
+          return
+        }
+
         // Pass notification data directly instead of fetching from database
         // This ensures we use the exact data that was created, avoiding race conditions
         const result = await sendPushNotification({
           id: notificationId,
           user_id: input.userId,
           title: input.title,
-          body: input.body,
-          action_url: input.actionUrl || null,
+          body: pushBody,
+          action_url: pushActionUrl,
           type: input.type,
           is_read: false // Notification is just created, so it's unread
         })
@@ -108,7 +189,8 @@ export async function createNotification(
       }
     })()
   } else {
-    console.warn('[notifications] ⚠️ No notificationId returned, cannot trigger push notification')
+    // No row is written when the recipient has every channel off for this type
+    console.log('[notifications] No notification created, recipient has turned off this type:', input.type)
   }
 
   return notificationId || null
@@ -0,0 +1,44 @@
+import type { AccountType, PayoutDestination, PayoutDestinationStatus } from "@/types"
+
+export const PAYOUT_DESTINATION_COLUMNS =
+  "id, user_id, bank_name, account_type, account_name, account_number_last4, status, is_default, verified_at, verified_by, rejection_reason, created_at, updated_at"
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  savings: "Savings",
+  checking: "Checking",
+}
+
+export const payoutDestinationStatusLabels: Record<PayoutDestinationStatus, string> = {
+  pending: "Awaiting verification",
+  verified: "Verified",
+  rejected: "Rejected",
+}
+
+/**
+ * "1234" -> "•••• 1234"
+ */
+export function maskAccountNumber(last4: string | null | undefined) {
+  return `•••• ${last4 || "····"}`
+}
+
+/**
+ * Digits only, the same normalisation add_payout_destination applies
+ */
+export function normalizeAccountNumber(value: string) {
+  return value.replace(/[\s-]/g, "")
+}
+
+export function isValidAccountNumber(value: string) {
+  return /^[0-9]{4,20}$/.test(normalizeAccountNumber(value))
+}
+
+/**
+ * "Republic Bank · Savings •••• 1234"
+ */
+export function describePayoutDestination(
+  destination: Pick<PayoutDestination, "bank_name" | "account_type" | "account_number_last4">
+) {
+  return `${destination.bank_name} · ${accountTypeLabels[destination.account_type]} ${maskAccountNumber(
+    destination.account_number_last4
+  )}`
+}
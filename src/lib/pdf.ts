@@ -0,0 +1,199 @@
+// A small PDF writer for text reports: Helvetica text, rules and filled boxes on
+// any number of pages. Enough for statements without pulling in a PDF library.
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  color?: PdfColor
+  // Right-aligned text ends at x
+  align?: "left" | "right"
+}
+
+export interface PdfDocument {
+  width: number
+  height: number
+  addPage(): void
+  // Positions are in points from the top-left corner of the current page
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void
+  line(x1: number, y1: number, x2: number, y2: number, options?: { color?: PdfColor; width?: number }): void
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void
+  toBytes(): Uint8Array
+}
+
+const BLACK: PdfColor = [0, 0, 0]
+const LIGHT_GRAY: PdfColor = [0.8, 0.8, 0.8]
+
+// Helvetica advance widths for printable ASCII (32-126), in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+]
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+}
+
+const EXTRA_WIDTHS: Record<string, number> = {
+  "…": 1000,
+  "—": 1000,
+  "–": 556,
+  "•": 350,
+}
+
+function toWinAnsi(value: string) {
+  let result = ""
+  for (const char of value) {
+    const code = char.charCodeAt(0)
+    if (WIN_ANSI_EXTRAS[char]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    } else if ((code >= 32 && code < 127) || (code >= 160 && code < 256)) {
+      result += char
+    } else {
+      result += "?"
+    }
+  }
+  return result
+}
+
+function escapePdfString(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString()
+}
+
+function formatColor(color: PdfColor) {
+  return color.map((channel) => formatNumber(channel)).join(" ")
+}
+
+/**
+ * Width of text in points. Bold text measures a little narrow, which only matters for long labels.
+ */
+export function measurePdfText(value: string, size: number) {
+  let units = 0
+  for (const char of value) {
+    const code = char.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : EXTRA_WIDTHS[char] ?? 556
+  }
+  return (units / 1000) * size
+}
+
+/**
+ * Shortens text with an ellipsis so it fits in maxWidth
+ */
+export function fitPdfText(value: string, maxWidth: number, size: number) {
+  if (measurePdfText(value, size) <= maxWidth) return value
+
+  let end = value.length
+  while (end > 0 && measurePdfText(`${value.slice(0, end)}…`, size) > maxWidth) {
+    end--
+  }
+  return end > 0 ? `${value.slice(0, end).trimEnd()}…` : ""
+}
+
+/**
+ * A blank document with one page. Defaults to US Letter, portrait.
+ */
+export function createPdfDocument({ width = 612, height = 792 }: { width?: number; height?: number } = {}): PdfDocument {
+  const pages: string[][] = [[]]
+
+  const current = () => pages[pages.length - 1]
+
+  return {
+    width,
+    height,
+    addPage() {
+      pages.push([])
+    },
+    text(x, y, value, { size = 10, bold = false, color = BLACK, align = "left" } = {}) {
+      const left = align === "right" ? x - measurePdfText(value, size) : x
+      current().push(
+        `BT ${formatColor(color)} rg /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(
+          height - y
+        )} Td (${escapePdfString(toWinAnsi(value))}) Tj ET`
+      )
+    },
+    line(x1, y1, x2, y2, { color = LIGHT_GRAY, width: lineWidth = 0.5 } = {}) {
+      current().push(
+        `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(height - y1)} m ${formatNumber(
+          x2
+        )} ${formatNumber(height - y2)} l S`
+      )
+    },
+    rect(x, y, rectWidth, rectHeight, color) {
+      current().push(
+        `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(height - y - rectHeight)} ${formatNumber(
+          rectWidth
+        )} ${formatNumber(rectHeight)} re f`
+      )
+    },
+    toBytes() {
+      // Objects 1-4 are fixed; each page then takes a page object and a content stream
+      const objects: string[] = [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      ]
+
+      pages.forEach((operations, index) => {
+        const content = operations.join("\n")
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+            6 + index * 2
+          } 0 R >>`
+        )
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+      })
+
+      // Every character is a single byte, so string lengths are byte offsets
+      let output = "%PDF-1.4\n"
+      const offsets: number[] = []
+      objects.forEach((object, index) => {
+        offsets.push(output.length)
+        output += `${index + 1} 0 obj\n${object}\nendobj\n`
+      })
+
+      const xrefOffset = output.length
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+      output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("")
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+      const bytes = new Uint8Array(output.length)
+      for (let index = 0; index < output.length; index++) {
+        bytes[index] = output.charCodeAt(index) & 0xff
+      }
+      return bytes
+    },
+  }
+}
+
+/**
+ * Save a PDF as a file from the browser
+ */
+export function downloadPdf(filename: string, bytes: Uint8Array) {
+  const blob = new Blob([bytes as BlobPart], { type: "application/pdf" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,37 @@
+import type { PointTransferContext, TipAllowance } from "@/types"
+
+// Matches the point_transfers.note check
+export const TIP_NOTE_MAX_LENGTH = 200
+
+export const TIP_AMOUNT_PRESETS = [10, 25, 50, 100]
+
+export const pointTransferContextLabels: Record<PointTransferContext, string> = {
+  profile: "Profile",
+  post: "Post",
+  dm: "Message",
+}
+
+/**
+ * Largest tip the sender can make right now: the smallest of the per-tip limit,
+ * what's left of the 24 hour allowance and their purchased points
+ */
+export function getMaxTipPoints(allowance: TipAllowance) {
+  if (allowance.remaining_count <= 0) return 0
+  return Math.max(Math.min(allowance.max_points, allowance.remaining_points, allowance.points_balance), 0)
+}
+
+/**
+ * Why a tip of this size can't be sent, or null when it can
+ */
+export function getTipAmountError(points: number, allowance: TipAllowance) {
+  if (!Number.isInteger(points) || points <= 0) return "Enter a whole number of points"
+  if (allowance.remaining_count <= 0) {
+    return `You've reached your limit of ${allowance.daily_count_limit} tips in 24 hours`
+  }
+  if (points > allowance.max_points) return `You can send at most ${allowance.max_points} points at a time`
+  if (points > allowance.remaining_points) {
+    return `You can send ${allowance.remaining_points} more points in the next 24 hours`
+  }
+  if (points > allowance.points_balance) return "Tips are sent from purchased points, and you don't have enough"
+  return null
+}
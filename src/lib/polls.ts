@@ -0,0 +1,44 @@
+export const POLL_MIN_OPTIONS = 2
+export const POLL_MAX_OPTIONS = 10
+export const POLL_OPTION_MAX_LENGTH = 100
+
+export const POLL_DURATIONS = [
+  { value: "none", label: "No end date", hours: null },
+  { value: "1d", label: "1 day", hours: 24 },
+  { value: "3d", label: "3 days", hours: 72 },
+  { value: "7d", label: "1 week", hours: 168 },
+] as const
+
+export type PollDuration = (typeof POLL_DURATIONS)[number]["value"]
+
+export interface PollDraft {
+  options: string[]
+  allowsMultiple: boolean
+  isAnonymous: boolean
+  duration: PollDuration
+}
+
+export const emptyPollDraft = (): PollDraft => ({
+  options: Array(POLL_MIN_OPTIONS).fill(""),
+  allowsMultiple: false,
+  isAnonymous: false,
+  duration: "none",
+})
+
+// Trimmed, de-duplicated option labels, in the order they were entered
+export function cleanPollOptions(options: string[]): string[] {
+  const seen = new Set<string>()
+  return options
+    .map((option) => option.trim())
+    .filter((option) => {
+      if (!option || seen.has(option)) return false
+      seen.add(option)
+      return true
+    })
+}
+
+// The poll runs from the moment the post is published
+export function getPollClosesAt(duration: PollDuration, publishAt: Date): Date | null {
+  const hours = POLL_DURATIONS.find((d) => d.value === duration)?.hours ?? null
+  return hours === null ? null : new Date(publishAt.getTime() + hours * 60 * 60 * 1000)
+}
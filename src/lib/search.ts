@@ -0,0 +1,77 @@
+import type { SearchResult, SearchResultType } from "@/types"
+
+export const SEARCH_MIN_QUERY_LENGTH = 2
+export const SEARCH_PAGE_SIZE = 20
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = [
+  "post",
+  "comment",
+  "community",
+  "event",
+  "video",
+  "playlist",
+  "member",
+]
+
+export const searchResultTypeLabels: Record<SearchResultType, string> = {
+  post: "Posts",
+  comment: "Comments",
+  community: "Communities",
+  event: "Events",
+  video: "Videos",
+  playlist: "Playlists",
+  member: "Members",
+}
+
+export const SEARCH_DATE_RANGES = [
+  { value: "any", label: "Any time", days: null },
+  { value: "day", label: "Past 24 hours", days: 1 },
+  { value: "week", label: "Past week", days: 7 },
+  { value: "month", label: "Past month", days: 30 },
+  { value: "year", label: "Past year", days: 365 },
+] as const
+
+export type SearchDateRange = (typeof SEARCH_DATE_RANGES)[number]["value"]
+
+export function isSearchResultType(value: unknown): value is SearchResultType {
+  return SEARCH_RESULT_TYPES.includes(value as SearchResultType)
+}
+
+export function getSearchDateFrom(range: SearchDateRange, now = new Date()): Date | null {
+  const days = SEARCH_DATE_RANGES.find((r) => r.value === range)?.days ?? null
+  return days === null ? null : new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+}
+
+// Splits a search_content snippet into plain text and highlighted parts so it can be
+// rendered as text nodes. The snippet never carries any markup other than <mark>.
+export function parseSearchSnippet(snippet: string): Array<{ text: string; highlighted: boolean }> {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("<mark>") && part.endsWith("</mark>")
+        ? { text: part.slice(6, -7), highlighted: true }
+        : { text: part, highlighted: false }
+    )
+}
+
+export function getSearchResultHref(result: SearchResult): string | null {
+  const slug = result.community_slug
+
+  switch (result.result_type) {
+    case "member":
+      return result.title ? `/profile/${result.title}` : null
+    case "community":
+      return slug ? `/${slug}` : null
+    case "post":
+      return slug ? `/${slug}/feed?post=${result.id}` : null
+    case "comment":
+      return slug && result.post_id ? `/${slug}/feed?post=${result.post_id}` : null
+    case "event":
+      return slug ? `/${slug}/events/${result.id}` : null
+    case "video":
+      return slug ? `/${slug}/videos` : null
+    case "playlist":
+      return slug ? `/${slug}/playlists` : null
+  }
+}
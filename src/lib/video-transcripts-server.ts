@@ -0,0 +1,285 @@
+import { after } from "next/server"
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import { env } from "@/lib/env"
+import { getTranscriptText, suggestChapters } from "@/lib/video-transcripts"
+import type { TranscriptSegment } from "@/types"
+
+// Long enough for the engine to download the whole file
+const MEDIA_URL_TTL_SECONDS = 60 * 60
+
+export type TranscriptSourceType = "recording" | "upload"
+
+export interface TranscriptSource {
+  type: TranscriptSourceType
+  id: string
+  communityId: string
+}
+
+export interface TranscriptionInput {
+  mediaUrl: string
+  durationSeconds?: number | null
+}
+
+export interface TranscriptionResult {
+  language: string | null
+  segments: TranscriptSegment[]
+}
+
+/**
+ * Turns a video into timestamped segments. Engines are picked with TRANSCRIPTION_ENGINE.
+ */
+export interface TranscriptionEngine {
+  name: string
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>
+}
+
+/**
+ * A self-hosted Whisper server that speaks the OpenAI transcription API
+ * (faster-whisper-server, LocalAI, whisper.cpp and others)
+ */
+export function createLocalTranscriptionEngine(baseUrl: string, model = "whisper-1"): TranscriptionEngine {
+  return {
+    name: "local",
+    async transcribe({ mediaUrl }) {
+      const media = await fetch(mediaUrl)
+      if (!media.ok) {
+        throw new Error(`Failed to download video: ${media.statusText}`)
+      }
+
+      const form = new FormData()
+      form.append("file", await media.blob(), "video.mp4")
+      form.append("model", model)
+      form.append("response_format", "verbose_json")
+      form.append("timestamp_granularities[]", "segment")
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/v1/audio/transcriptions`, {
+        method: "POST",
+        body: form,
+      })
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "")
+        throw new Error(`Transcription server returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`)
+      }
+
+      const data = (await response.json()) as {
+        language?: string
+        segments?: Array<{ start?: number; end?: number; text?: string }>
+      }
+
+      return {
+        language: data.language ?? null,
+        segments: normalizeSegments(data.segments ?? []),
+      }
+    },
+  }
+}
+
+const STUB_LINES = [
+  "Welcome everyone, thanks for joining today.",
+  "Let's start with a quick overview of the agenda.",
+  "Here is the first topic we want to cover.",
+  "Now let's look at a few examples together.",
+  "That brings us to questions from the community.",
+  "Thanks again for watching, see you next time.",
+]
+
+/**
+ * Canned segments every few seconds across the video's length, without touching the file.
+ * For tests and local development.
+ */
+export function createStubTranscriptionEngine(): TranscriptionEngine {
+  return {
+    name: "stub",
+    async transcribe({ durationSeconds }) {
+      const duration = durationSeconds && durationSeconds > 0 ? durationSeconds : 60
+      const segmentSeconds = 6
+      const segments: TranscriptSegment[] = []
+
+      for (let start = 0, index = 0; start < duration; start += segmentSeconds, index++) {
+        segments.push({
+          start,
+          end: Math.min(start + segmentSeconds - 0.5, duration),
+          text: STUB_LINES[index % STUB_LINES.length],
+        })
+      }
+
+      return { language: "en", segments }
+    },
+  }
+}
+
+/**
+ * The configured engine, or null when transcription isn't set up
+ */
+export function getTranscriptionEngine(): TranscriptionEngine | null {
+  const engine = env.TRANSCRIPTION_ENGINE ?? (env.TRANSCRIPTION_LOCAL_URL ? "local" : undefined)
+
+  if (engine === "stub") {
+    return createStubTranscriptionEngine()
+  }
+
+  if (engine === "local") {
+    if (!env.TRANSCRIPTION_LOCAL_URL) {
+      console.error("[Transcription] TRANSCRIPTION_ENGINE is local but TRANSCRIPTION_LOCAL_URL is not set")
+      return null
+    }
+    return createLocalTranscriptionEngine(env.TRANSCRIPTION_LOCAL_URL, env.TRANSCRIPTION_LOCAL_MODEL)
+  }
+
+  return null
+}
+
+function normalizeSegments(raw: Array<{ start?: number; end?: number; text?: string }>): TranscriptSegment[] {
+  return raw
+    .map((segment) => ({
+      start: Math.max(Number(segment.start) || 0, 0),
+      end: Math.max(Number(segment.end) || 0, 0),
+      text: (segment.text ?? "").trim(),
+    }))
+    .filter((segment) => segment.text && segment.end > segment.start)
+    .sort((a, b) => a.start - b.start)
+}
+
+function createAdminClient() {
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) return null
+
+  return createClient(env.NEXT_PUBLIC_SUPABASE_URL!, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
+
+/**
+ * Creates or resets the source's transcript to pending. Returns null when no engine is configured.
+ */
+export async function queueVideoTranscription(
+  adminClient: SupabaseClient<any>,
+  source: TranscriptSource,
+  requestedBy?: string | null
+): Promise<string | null> {
+  const engine = getTranscriptionEngine()
+  if (!engine) return null
+
+  const sourceColumn = source.type === "recording" ? "recording_id" : "upload_id"
+
+  const { data, error } = await adminClient
+    .from("video_transcripts")
+    .upsert(
+      {
+        community_id: source.communityId,
+        [sourceColumn]: source.id,
+        status: "pending",
+        engine: engine.name,
+        error: null,
+        requested_by: requestedBy ?? null,
+      },
+      { onConflict: sourceColumn }
+    )
+    .select("id")
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+/**
+ * Transcribes a pending transcript and stores its segments, text and suggested chapters.
+ * Failures are recorded on the row rather than thrown.
+ */
+export async function runVideoTranscription(adminClient: SupabaseClient<any>, transcriptId: string) {
+  // Claiming the row keeps a double-queued transcript from running twice
+  const { data: transcript, error: claimError } = await adminClient
+    .from("video_transcripts")
+    .update({ status: "processing" })
+    .eq("id", transcriptId)
+    .eq("status", "pending")
+    .select("id, recording_id, upload_id")
+    .maybeSingle()
+
+  if (claimError) throw claimError
+  if (!transcript) return
+
+  try {
+    const engine = getTranscriptionEngine()
+    if (!engine) {
+      throw new Error("Transcription is not configured")
+    }
+
+    const { data: video, error: videoError } = transcript.recording_id
+      ? await adminClient
+          .from("event_recordings")
+          .select("storage_path, storage_url, stream_recording_url, duration_seconds")
+          .eq("id", transcript.recording_id)
+          .single()
+      : await adminClient
+          .from("uploaded_videos")
+          .select("storage_path, storage_url, duration_seconds")
+          .eq("id", transcript.upload_id)
+          .single()
+
+    if (videoError || !video) {
+      throw new Error("Video not found")
+    }
+
+    const mediaUrl = await getMediaUrl(adminClient, video)
+    if (!mediaUrl) {
+      throw new Error("Video file is not available yet")
+    }
+
+    const result = await engine.transcribe({ mediaUrl, durationSeconds: video.duration_seconds })
+
+    const { error: saveError } = await adminClient
+      .from("video_transcripts")
+      .update({
+        status: "completed",
+        engine: engine.name,
+        language: result.language,
+        segments: result.segments,
+        chapters: suggestChapters(result.segments),
+        full_text: getTranscriptText(result.segments),
+        error: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", transcriptId)
+
+    if (saveError) throw saveError
+  } catch (error: any) {
+    console.error("[Transcription] Failed to transcribe video:", transcriptId, error)
+    await adminClient
+      .from("video_transcripts")
+      .update({ status: "failed", error: error?.message || "Transcription failed" })
+      .eq("id", transcriptId)
+  }
+}
+
+/**
+ * Queues a transcript and runs it once the response has been sent.
+ * Quietly does nothing when transcription or the service role isn't configured.
+ */
+export async function transcribeVideoInBackground(source: TranscriptSource, requestedBy?: string | null) {
+  const adminClient = createAdminClient()
+  if (!adminClient) return null
+
+  const transcriptId = await queueVideoTranscription(adminClient, source, requestedBy)
+  if (!transcriptId) return null
+
+  after(() => runVideoTranscription(adminClient, transcriptId))
+  return transcriptId
+}
+
+// Stored files get a signed URL so private buckets work too; GetStream URLs are used as-is
+async function getMediaUrl(
+  adminClient: SupabaseClient<any>,
+  video: { storage_path?: string | null; storage_url?: string | null; stream_recording_url?: string | null }
+) {
+  if (video.storage_path) {
+    const [bucket, ...rest] = video.storage_path.split("/")
+    const { data } = await adminClient.storage.from(bucket).createSignedUrl(rest.join("/"), MEDIA_URL_TTL_SECONDS)
+    if (data?.signedUrl) return data.signedUrl
+  }
+
+  return video.storage_url || video.stream_recording_url || null
+}
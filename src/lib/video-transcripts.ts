@@ -0,0 +1,123 @@
+import type { TranscriptChapter, TranscriptSegment, VideoTranscriptStatus } from "@/types"
+
+// Suggested chapters aim for roughly this many per video, each at least a minute long
+const CHAPTER_TARGET_COUNT = 8
+const CHAPTER_MIN_SECONDS = 60
+const CHAPTER_MAX_SECONDS = 600
+// A pause this long is a natural place to start a new chapter
+const CHAPTER_PAUSE_SECONDS = 1.5
+const CHAPTER_TITLE_MAX_WORDS = 8
+
+const FILLER_WORDS = new Set(["so", "um", "uh", "okay", "ok", "alright", "right", "well", "and", "yeah", "now"])
+
+export const transcriptStatusLabels: Record<VideoTranscriptStatus, string> = {
+  pending: "Queued",
+  processing: "Transcribing",
+  completed: "Ready",
+  failed: "Failed",
+}
+
+/**
+ * 75 -> "1:15", 3725 -> "1:02:05"
+ */
+export function formatTranscriptTimestamp(seconds: number) {
+  const total = Math.max(Math.floor(seconds), 0)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toString().padStart(2, "0")
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`
+}
+
+function formatVttTimestamp(seconds: number) {
+  const totalMs = Math.max(Math.round(seconds * 1000), 0)
+  const hours = Math.floor(totalMs / 3_600_000)
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000)
+  const secs = Math.floor((totalMs % 60_000) / 1000)
+  const ms = totalMs % 1000
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}.${ms.toString().padStart(3, "0")}`
+}
+
+// Cue text is parsed as markup, and a blank line would end the cue early
+function escapeVttText(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n\s*\n/g, "\n")
+    .trim()
+}
+
+/**
+ * WebVTT captions, one cue per segment
+ */
+export function buildWebVtt(segments: TranscriptSegment[]) {
+  const cues = segments
+    .filter((segment) => segment.text.trim() && segment.end > segment.start)
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${formatVttTimestamp(segment.start)} --> ${formatVttTimestamp(segment.end)}\n${escapeVttText(segment.text)}`
+    )
+
+  return ["WEBVTT", ...cues].join("\n\n") + "\n"
+}
+
+/**
+ * The full text stored alongside the segments for search
+ */
+export function getTranscriptText(segments: TranscriptSegment[]) {
+  return segments
+    .map((segment) => segment.text.trim())
+    .filter(Boolean)
+    .join(" ")
+}
+
+// The opening words of a chapter, minus filler, as a short title
+function getChapterTitle(segments: TranscriptSegment[], fallback: string) {
+  const text = getTranscriptText(segments)
+  const sentence = text.split(/[.!?]\s+/)[0] ?? ""
+  const words = sentence.replace(/[.!?,;:]+$/, "").split(/\s+/).filter(Boolean)
+
+  while (words.length > 0 && FILLER_WORDS.has(words[0].toLowerCase().replace(/[^a-z]/g, ""))) {
+    words.shift()
+  }
+
+  if (words.length < 2) return fallback
+
+  const title = words.slice(0, CHAPTER_TITLE_MAX_WORDS).join(" ").replace(/[,;:]+$/, "")
+  return `${title.charAt(0).toUpperCase()}${title.slice(1)}${words.length > CHAPTER_TITLE_MAX_WORDS ? "…" : ""}`
+}
+
+/**
+ * Chapter markers spread evenly through the video, each starting at a pause in speech
+ * where possible. Titles come from the first sentence of each chapter; hosts can edit them.
+ */
+export function suggestChapters(segments: TranscriptSegment[]): TranscriptChapter[] {
+  if (segments.length === 0) return []
+
+  const duration = segments[segments.length - 1].end
+  const target = Math.min(Math.max(duration / CHAPTER_TARGET_COUNT, CHAPTER_MIN_SECONDS), CHAPTER_MAX_SECONDS)
+  const starts = [0]
+
+  for (let index = 1; index < segments.length; index++) {
+    const segment = segments[index]
+    const elapsed = segment.start - segments[starts[starts.length - 1]].start
+    const pause = segment.start - segments[index - 1].end
+
+    if ((elapsed >= target && pause >= CHAPTER_PAUSE_SECONDS) || elapsed >= target * 1.5) {
+      starts.push(index)
+    }
+  }
+
+  // One chapter covering the whole video adds nothing
+  if (starts.length < 2) return []
+
+  return starts.map((startIndex, position) => {
+    const endIndex = starts[position + 1] ?? segments.length
+    return {
+      start: position === 0 ? 0 : segments[startIndex].start,
+      title: getChapterTitle(segments.slice(startIndex, endIndex), position === 0 ? "Introduction" : `Chapter ${position + 1}`),
+    }
+  })
+}
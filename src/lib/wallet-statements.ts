@@ -0,0 +1,421 @@
+import { toCsv } from "@/lib/csv"
+import { createPdfDocument, fitPdfText, type PdfColor, type PdfDocument } from "@/lib/pdf"
+import type { WalletStatement } from "@/types"
+
+export const transactionTypeLabels: Record<string, string> = {
+  top_up: "Top Up",
+  payout: "Payout",
+  payout_lock: "Earnings Locked",
+  payout_release: "Locked Released",
+  point_spend: "Point Spend",
+  point_refund: "Point Refund",
+  earning_credit: "Earned",
+  earning_reversal: "Earnings Reversal",
+}
+
+export const earningsSourceLabels: Record<string, string> = {
+  boost: "Post Boost",
+  live_registration: "Live Registration",
+  manual_adjustment: "Manual Adjustment",
+  storage_credit: "Storage Credit",
+  community_membership: "Community Membership",
+  tip: "Tip",
+}
+
+const titleCase = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (char: string) => char.toUpperCase())
+
+export const getTransactionTypeLabel = (type: string) => transactionTypeLabels[type] || titleCase(type)
+
+export const getEarningsSourceLabel = (source: string) => earningsSourceLabels[source] || titleCase(source)
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+/**
+ * First and last day of the month, as YYYY-MM-DD in local time
+ */
+export function getMonthRange(year: number, month: number) {
+  return {
+    from: toDateString(new Date(year, month, 1)),
+    to: toDateString(new Date(year, month + 1, 0)),
+  }
+}
+
+/**
+ * The current month and the ones before it, newest first, for the statement picker
+ */
+export function getRecentStatementMonths(count = 12, now = new Date()) {
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - index, 1)
+    return {
+      ...getMonthRange(date.getFullYear(), date.getMonth()),
+      label: date.toLocaleDateString(undefined, { month: "long", year: "numeric" }),
+    }
+  })
+}
+
+export function formatStatementPoints(value: number, signed = false) {
+  const prefix = signed && value > 0 ? "+" : ""
+  return `${prefix}${value.toLocaleString("en-US")}`
+}
+
+export function formatStatementTtd(value: number | null | undefined) {
+  if (value === null || value === undefined || !Number.isFinite(Number(value))) return "—"
+  const numeric = Number(value)
+  const absolute = Math.abs(numeric).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return `${numeric < 0 ? "-" : ""}$${absolute}`
+}
+
+// Combined TTD value of a line, or null when the rate wasn't recorded
+function getLineValue(line: WalletStatement["transactions"][number]) {
+  if (line.points_value_ttd === null && line.earnings_value_ttd === null) return null
+  return Number(line.points_value_ttd ?? 0) + Number(line.earnings_value_ttd ?? 0)
+}
+
+function createDateFormatters(timezone: string) {
+  const date = new Intl.DateTimeFormat("en-US", { timeZone: timezone, month: "short", day: "numeric", year: "numeric" })
+  const dateTime = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+  return {
+    date: (value: string | null | undefined) => (value ? date.format(new Date(value)) : "—"),
+    dateTime: (value: string | null | undefined) => (value ? dateTime.format(new Date(value)) : "—"),
+  }
+}
+
+// Statement dates are calendar days, so they're formatted without shifting time zones
+function formatStatementDay(value: string) {
+  const [year, month, day] = value.split("-").map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+}
+
+export function getStatementPeriodLabel(statement: Pick<WalletStatement, "from" | "to">) {
+  return `${formatStatementDay(statement.from)} – ${formatStatementDay(statement.to)}`
+}
+
+export function getStatementFilename(statement: Pick<WalletStatement, "from" | "to">, extension: "csv" | "pdf") {
+  return `wallet-statement-${statement.from}-to-${statement.to}.${extension}`
+}
+
+/**
+ * One row per transaction, followed by the balances and the period's earnings and payouts
+ */
+export function buildWalletStatementCsv(statement: WalletStatement) {
+  const rows = statement.transactions.map((line) => [
+    line.created_at,
+    getTransactionTypeLabel(line.type),
+    line.counterparty,
+    line.amount_ttd,
+    line.points_delta,
+    line.earnings_points_delta,
+    line.value_per_point,
+    line.points_value_ttd,
+    line.earnings_value_ttd,
+    line.id,
+  ])
+
+  const summary = [
+    [],
+    ["Period", statement.from, statement.to, statement.timezone],
+    ["Opening wallet points", statement.opening.points],
+    ["Opening earnings points", statement.opening.earnings_points],
+    ["Wallet points in", statement.totals.points_in],
+    ["Wallet points out", statement.totals.points_out],
+    ["Earnings points in", statement.totals.earnings_in],
+    ["Earnings points out", statement.totals.earnings_out],
+    ["Closing wallet points", statement.closing.points],
+    ["Closing earnings points", statement.closing.earnings_points],
+    ["Net wallet value (TTD)", statement.totals.points_value_ttd],
+    ["Net earnings value (TTD)", statement.totals.earnings_value_ttd],
+  ]
+
+  const earnings = [
+    [],
+    ["Earnings"],
+    ["Date", "Source", "Community", "Points", "Amount (TTD)", "Status", "Available At", "Earning ID"],
+    ...statement.earnings.map((entry) => [
+      entry.created_at,
+      getEarningsSourceLabel(entry.source_type),
+      entry.community_name,
+      entry.points,
+      entry.amount_ttd,
+      entry.status,
+      entry.available_at,
+      entry.id,
+    ]),
+  ]
+
+  const payouts = [
+    [],
+    ["Payouts"],
+    ["Created", "Scheduled For", "Status", "Points", "Locked Points", "Amount (TTD)", "Processed At", "Payout ID"],
+    ...statement.payouts.map((payout) => [
+      payout.created_at,
+      payout.scheduled_for,
+      payout.status,
+      payout.points,
+      payout.locked_points,
+      payout.amount_ttd,
+      payout.processed_at,
+      payout.id,
+    ]),
+  ]
+
+  return toCsv(
+    [
+      "Date",
+      "Type",
+      "Counterparty",
+      "Amount (TTD)",
+      "Wallet Points",
+      "Earnings Points",
+      "Value per Point (TTD)",
+      "Wallet Value (TTD)",
+      "Earnings Value (TTD)",
+      "Transaction ID",
+    ],
+    [...rows, ...summary, ...earnings, ...payouts]
+  )
+}
+
+interface PdfColumn {
+  label: string
+  width: number
+  align?: "left" | "right"
+}
+
+const PAGE_MARGIN = 40
+const ROW_HEIGHT = 16
+const FONT_SIZE = 8.5
+const TEXT_COLOR: PdfColor = [0.12, 0.12, 0.12]
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.45]
+const HEADER_FILL: PdfColor = [0.93, 0.93, 0.93]
+
+// Draws tables down the page, starting a new page (with the column headings
+// repeated) when a table runs past the bottom margin
+function createStatementWriter(doc: PdfDocument, footer: string) {
+  let page = 1
+  let y = PAGE_MARGIN
+
+  const writeFooter = () => {
+    doc.text(PAGE_MARGIN, doc.height - PAGE_MARGIN / 2, footer, { size: 7.5, color: MUTED_COLOR })
+    doc.text(doc.width - PAGE_MARGIN, doc.height - PAGE_MARGIN / 2, `Page ${page}`, {
+      size: 7.5,
+      color: MUTED_COLOR,
+      align: "right",
+    })
+  }
+
+  const newPage = () => {
+    writeFooter()
+    doc.addPage()
+    page++
+    y = PAGE_MARGIN
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y + height > doc.height - PAGE_MARGIN) {
+      newPage()
+      return true
+    }
+    return false
+  }
+
+  const writeRow = (columns: PdfColumn[], values: string[], options: { bold?: boolean; fill?: PdfColor } = {}) => {
+    if (options.fill) {
+      doc.rect(PAGE_MARGIN, y, doc.width - PAGE_MARGIN * 2, ROW_HEIGHT, options.fill)
+    }
+
+    let x = PAGE_MARGIN + 4
+    columns.forEach((column, index) => {
+      const value = fitPdfText(values[index] ?? "", column.width - 8, FONT_SIZE)
+      doc.text(column.align === "right" ? x + column.width - 8 : x, y + 11, value, {
+        size: FONT_SIZE,
+        bold: options.bold,
+        color: TEXT_COLOR,
+        align: column.align,
+      })
+      x += column.width
+    })
+
+    y += ROW_HEIGHT
+    doc.line(PAGE_MARGIN, y, doc.width - PAGE_MARGIN, y, { color: [0.85, 0.85, 0.85] })
+  }
+
+  return {
+    get y() {
+      return y
+    },
+    moveDown(amount: number) {
+      y += amount
+    },
+    heading(text: string) {
+      ensureSpace(ROW_HEIGHT * 3)
+      doc.text(PAGE_MARGIN, y + 12, text, { size: 12, bold: true, color: TEXT_COLOR })
+      y += 20
+    },
+    table(columns: PdfColumn[], rows: string[][], emptyMessage: string) {
+      const headings = columns.map((column) => column.label)
+      ensureSpace(ROW_HEIGHT * 2)
+      writeRow(columns, headings, { bold: true, fill: HEADER_FILL })
+
+      if (rows.length === 0) {
+        doc.text(PAGE_MARGIN + 4, y + 12, emptyMessage, { size: FONT_SIZE, color: MUTED_COLOR })
+        y += ROW_HEIGHT
+      }
+
+      rows.forEach((row) => {
+        if (ensureSpace(ROW_HEIGHT)) {
+          writeRow(columns, headings, { bold: true, fill: HEADER_FILL })
+        }
+        writeRow(columns, row)
+      })
+
+      y += 16
+    },
+    finish() {
+      writeFooter()
+    },
+  }
+}
+
+/**
+ * Landscape Letter statement: a balance summary, then the transactions, earnings and payouts
+ */
+export function buildWalletStatementPdf(statement: WalletStatement, { accountName }: { accountName?: string | null } = {}) {
+  const doc = createPdfDocument({ width: 792, height: 612 })
+  const format = createDateFormatters(statement.timezone)
+  const period = getStatementPeriodLabel(statement)
+  const writer = createStatementWriter(doc, `Wallet statement · ${period}`)
+
+  doc.text(PAGE_MARGIN, PAGE_MARGIN + 16, "Wallet Statement", { size: 18, bold: true, color: TEXT_COLOR })
+  doc.text(PAGE_MARGIN, PAGE_MARGIN + 34, [accountName, period].filter(Boolean).join(" · "), {
+    size: 10,
+    color: TEXT_COLOR,
+  })
+  doc.text(
+    PAGE_MARGIN,
+    PAGE_MARGIN + 48,
+    `Generated ${format.dateTime(statement.generated_at)} · Times in ${statement.timezone}`,
+    { size: 8, color: MUTED_COLOR }
+  )
+  writer.moveDown(64)
+
+  writer.heading("Summary")
+  writer.table(
+    [
+      { label: "", width: 200 },
+      { label: "Opening", width: 110, align: "right" },
+      { label: "In", width: 110, align: "right" },
+      { label: "Out", width: 110, align: "right" },
+      { label: "Closing", width: 110, align: "right" },
+      { label: "Net Value (TTD)", width: 72, align: "right" },
+    ],
+    [
+      [
+        "Wallet points",
+        formatStatementPoints(statement.opening.points),
+        formatStatementPoints(statement.totals.points_in, true),
+        formatStatementPoints(statement.totals.points_out),
+        formatStatementPoints(statement.closing.points),
+        formatStatementTtd(statement.totals.points_value_ttd),
+      ],
+      [
+        "Earnings points",
+        formatStatementPoints(statement.opening.earnings_points),
+        formatStatementPoints(statement.totals.earnings_in, true),
+        formatStatementPoints(statement.totals.earnings_out),
+        formatStatementPoints(statement.closing.earnings_points),
+        formatStatementTtd(statement.totals.earnings_value_ttd),
+      ],
+    ],
+    ""
+  )
+
+  if (statement.totals.unvalued_count > 0) {
+    doc.text(
+      PAGE_MARGIN,
+      writer.y - 6,
+      `${statement.totals.unvalued_count} transaction(s) predate recorded point values and are left out of the TTD totals.`,
+      { size: 7.5, color: MUTED_COLOR }
+    )
+    writer.moveDown(8)
+  }
+
+  writer.heading("Transactions")
+  writer.table(
+    [
+      { label: "Date", width: 120 },
+      { label: "Type", width: 110 },
+      { label: "Counterparty", width: 150 },
+      { label: "Wallet Pts", width: 80, align: "right" },
+      { label: "Earnings Pts", width: 80, align: "right" },
+      { label: "TTD / Point", width: 80, align: "right" },
+      { label: "Value (TTD)", width: 92, align: "right" },
+    ],
+    statement.transactions.map((line) => [
+      format.dateTime(line.created_at),
+      getTransactionTypeLabel(line.type),
+      line.counterparty || "—",
+      line.points_delta ? formatStatementPoints(line.points_delta, true) : "—",
+      line.earnings_points_delta ? formatStatementPoints(line.earnings_points_delta, true) : "—",
+      line.value_per_point !== null ? formatStatementTtd(line.value_per_point) : "—",
+      formatStatementTtd(getLineValue(line)),
+    ]),
+    "No transactions in this period."
+  )
+
+  writer.heading("Earnings")
+  writer.table(
+    [
+      { label: "Date", width: 120 },
+      { label: "Source", width: 130 },
+      { label: "Community", width: 170 },
+      { label: "Points", width: 80, align: "right" },
+      { label: "TTD", width: 80, align: "right" },
+      { label: "Status", width: 70 },
+      { label: "Available", width: 62 },
+    ],
+    statement.earnings.map((entry) => [
+      format.dateTime(entry.created_at),
+      getEarningsSourceLabel(entry.source_type),
+      entry.community_name || "—",
+      formatStatementPoints(entry.points),
+      formatStatementTtd(entry.amount_ttd),
+      titleCase(entry.status),
+      format.date(entry.available_at),
+    ]),
+    "No earnings in this period."
+  )
+
+  writer.heading("Payouts")
+  writer.table(
+    [
+      { label: "Created", width: 120 },
+      { label: "Scheduled For", width: 110 },
+      { label: "Status", width: 90 },
+      { label: "Points", width: 90, align: "right" },
+      { label: "Locked Points", width: 90, align: "right" },
+      { label: "TTD", width: 90, align: "right" },
+      { label: "Processed", width: 122 },
+    ],
+    statement.payouts.map((payout) => [
+      format.dateTime(payout.created_at),
+      format.date(payout.scheduled_for),
+      titleCase(payout.status),
+      formatStatementPoints(payout.points),
+      formatStatementPoints(payout.locked_points),
+      formatStatementTtd(payout.amount_ttd),
+      format.dateTime(payout.processed_at),
+    ]),
+    "No payouts in this period."
+  )
+
+  writer.finish()
+  return doc.toBytes()
+}
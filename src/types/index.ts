@@ -19,7 +19,16 @@ export type UserRole = 'admin' | 'community_owner' | 'user'
 export type AccountType = 'savings' | 'checking'
 
 // Community member roles
-export type CommunityMemberRole = 'owner' | 'member'
+export type CommunityMemberRole = 'owner' | 'moderator' | 'member'
+
+// Scoped permissions an owner can grant to moderators (owners hold all of them)
+export type CommunityPermission =
+  | 'pin_posts'
+  | 'delete_comments'
+  | 'host_events'
+  | 'upload_videos'
+  | 'manage_playlists'
+  | 'review_reports'
 
 // Removed legacy subscription and billing types
 
@@ -91,6 +100,11 @@ export interface BankAccount {
 // Community pricing types
 export type CommunityPricingType = 'free' | 'one_time' | 'monthly' | 'annual' | 'recurring'
 
+// Billing cycle a member paid for when joining a paid community
+export type CommunityBillingCycle = 'one_time' | 'monthly' | 'annual'
+
+export type CommunityMemberBillingStatus = 'active' | 'past_due' | 'lapsed'
+
 // Community types
 export interface Community {
   id: string
@@ -101,6 +115,10 @@ export interface Community {
   logo_url?: string
   banner_url?: string
   is_active: boolean
+  pricing_type?: CommunityPricingType | null
+  one_time_price?: number | null // TTD
+  monthly_price?: number | null // TTD
+  annual_price?: number | null // TTD
   created_at: string
   updated_at: string
 }
@@ -111,7 +129,18 @@ export interface CommunityMember {
   community_id: string
   user_id: string
   role: CommunityMemberRole
+  permissions?: CommunityPermission[] // Moderators only
   joined_at: string
+  billing_cycle?: CommunityBillingCycle | null // NULL for free communities
+  points_charged?: number
+  earnings_ledger_id?: string | null
+  // Recurring (monthly/annual) memberships only
+  current_period_start?: string | null
+  current_period_end?: string | null
+  cancel_at_period_end?: boolean
+  billing_status?: CommunityMemberBillingStatus
+  grace_period_ends_at?: string | null
+  last_renewal_attempt_at?: string | null
 }
 
 export interface UserFollow {
@@ -140,6 +169,12 @@ export interface PlatformSettings {
   payout_minimum_ttd: number
   mandatory_topup_ttd: number
   holiday_mode?: HolidayMode
+  event_reminder_offsets_minutes?: number[] // Minutes before an event starts to remind registrants
+  event_live_reminders_enabled?: boolean
+  tip_max_points?: number // Most points a single tip can carry
+  tip_daily_limit_points?: number // Most points a user can tip in any 24 hours
+  tip_daily_count_limit?: number // Most tips a user can send in any 24 hours
+  adjustment_approval_threshold_points?: number // Manual adjustments above this need a second admin
   updated_at: string
 }
 
@@ -219,7 +254,7 @@ export type WalletEarningStatus = 'pending' | 'confirmed' | 'locked' | 'reversed
 export interface WalletEarningsLedgerEntry {
   id: string
   user_id: string
-  source_type: 'boost' | 'live_registration' | 'manual_adjustment' | 'storage_credit'
+  source_type: 'boost' | 'live_registration' | 'manual_adjustment' | 'storage_credit' | 'community_membership'
   source_id?: string
   community_id?: string
   points: number // Column name is "points", not "points_amount" as in outdated migration files
@@ -246,6 +281,189 @@ export interface Payout {
   transaction_id?: string
   notes?: string
   locked_points: number
+  destination_id?: string | null
+}
+
+export type PayoutDestinationStatus = 'pending' | 'verified' | 'rejected'
+
+// The full account number is never selectable by clients; admins reveal it through an RPC
+export interface PayoutDestination {
+  id: string
+  user_id: string
+  bank_name: string
+  account_type: AccountType
+  account_name: string
+  account_number_last4: string
+  status: PayoutDestinationStatus
+  is_default: boolean
+  verified_at?: string | null
+  verified_by?: string | null
+  rejection_reason?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WalletStatementBalance {
+  points: number
+  earnings_points: number
+}
+
+export interface WalletStatementTransaction {
+  id: string
+  created_at: string
+  type: TransactionType
+  status: TransactionStatus
+  counterparty: string | null
+  amount_ttd: number | null
+  // What moved each balance; spends from the combined balance are split between them
+  points_delta: number
+  earnings_points_delta: number
+  // Null for transactions recorded before the rate was stored with them
+  value_per_point: number | null
+  points_value_ttd: number | null
+  earnings_value_ttd: number | null
+}
+
+export interface WalletStatementEarning {
+  id: string
+  created_at: string
+  source_type: WalletEarningsLedgerEntry['source_type']
+  community_name: string | null
+  points: number
+  amount_ttd: number | null
+  status: WalletEarningStatus
+  available_at: string | null
+}
+
+export interface WalletStatementPayout {
+  id: string
+  created_at: string
+  scheduled_for: string
+  status: PayoutStatus
+  points: number
+  locked_points: number
+  amount_ttd: number
+  processed_at: string | null
+}
+
+// Returned by get_wallet_statement; from/to are inclusive dates in the requested time zone
+export interface WalletStatement {
+  from: string
+  to: string
+  timezone: string
+  generated_at: string
+  opening: WalletStatementBalance
+  closing: WalletStatementBalance
+  totals: {
+    points_in: number
+    points_out: number
+    earnings_in: number
+    earnings_out: number
+    points_value_ttd: number
+    earnings_value_ttd: number
+    unvalued_count: number
+  }
+  transactions: WalletStatementTransaction[]
+  earnings: WalletStatementEarning[]
+  payouts: WalletStatementPayout[]
+}
+
+export type PointTransferContext = 'profile' | 'post' | 'dm'
+
+// A tip: the sender's purchased points are credited to the recipient's earnings
+export interface PointTransfer {
+  id: string
+  sender_id: string
+  recipient_id: string
+  points: number
+  note?: string | null
+  context_type: PointTransferContext
+  context_id?: string | null // Post or DM thread id
+  transaction_id?: string | null
+  earnings_ledger_id?: string | null
+  created_at: string
+}
+
+export interface TipAllowance {
+  max_points: number
+  daily_limit_points: number
+  daily_count_limit: number
+  sent_points: number
+  sent_count: number
+  remaining_points: number
+  remaining_count: number
+  points_balance: number // Only purchased points can be tipped
+}
+
+export type LedgerBalance = 'points' | 'earnings' | 'locked_earnings'
+
+export type LedgerDiscrepancyStatus = 'open' | 'resolved' | 'dismissed' | 'superseded'
+
+export interface LedgerReconciliationRun {
+  id: string
+  triggered_by?: string | null // NULL for the nightly job
+  started_at: string
+  completed_at?: string | null
+  wallets_checked: number
+  discrepancy_count: number
+}
+
+// A wallet balance that doesn't match what its ledger history adds up to
+export interface LedgerDiscrepancy {
+  id: string
+  run_id: string
+  user_id: string
+  balance: LedgerBalance
+  wallet_value: number
+  ledger_value: number
+  difference: number // wallet_value - ledger_value
+  proposed_adjustment?: {
+    type: 'manual_adjustment'
+    points_delta: number
+    earnings_points_delta: number
+  } | null // NULL for locked earnings, which are corrected by hand
+  status: LedgerDiscrepancyStatus
+  resolution_note?: string | null
+  resolved_by?: string | null
+  resolved_at?: string | null
+  adjustment_transaction_id?: string | null
+  created_at: string
+}
+
+export type WalletAdjustmentBalance = 'points' | 'earnings'
+
+export type WalletAdjustmentStatus = 'pending' | 'applied' | 'rejected'
+
+// An admin credit (positive points) or debit (negative points) to a user's wallet
+export interface WalletAdjustment {
+  id: string
+  user_id: string
+  balance: WalletAdjustmentBalance
+  points: number
+  reason: string
+  status: WalletAdjustmentStatus
+  requires_approval: boolean
+  requested_by: string
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  review_note?: string | null
+  transaction_id?: string | null
+  earnings_ledger_id?: string | null
+  applied_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Append-only record of an admin financial action
+export interface AdminAuditLogEntry {
+  id: string
+  actor_id?: string | null // NULL when a scheduled job made the change
+  action: string // e.g. 'topup.verified', 'payout.paid', 'adjustment.approved'
+  target_table: string
+  target_id?: string | null
+  target_user_id?: string | null
+  details: Record<string, unknown>
+  created_at: string
 }
 
 export type PlatformWithdrawalStatus = 'pending' | 'processing' | 'completed' | 'cancelled' | 'failed'
@@ -290,6 +508,9 @@ export interface Post {
   author_id: string
   content: string
   is_pinned: boolean
+  is_hidden?: boolean
+  hidden_at?: string | null
+  hidden_by?: string | null
   parent_post_id?: string | null
   depth: number
   created_at: string
@@ -324,6 +545,59 @@ export interface PostMedia {
   created_at?: string
 }
 
+export interface PollOption {
+  id: string
+  poll_id: string
+  label: string
+  position: number
+  vote_count: number
+}
+
+export interface PostPoll {
+  id: string
+  post_id: string
+  allows_multiple: boolean
+  is_anonymous: boolean
+  closes_at: string | null
+  voter_count: number
+  created_at: string
+  options: PollOption[]
+  user_votes?: string[] // option ids the current user picked
+}
+
+export type PostDraftMedia = Omit<PostMedia, 'id' | 'post_id' | 'created_at'>
+
+export interface PostDraft {
+  id: string
+  user_id: string
+  community_id: string
+  post_id: string | null // set for unsaved edits to an existing post
+  content: string
+  boost_reward_message: string | null
+  topic_ids: string[]
+  media: PostDraftMedia[]
+  existing_media_boost: Record<string, boolean>
+  created_at: string
+  updated_at: string
+}
+
+// Full-text search types
+export type SearchResultType = 'post' | 'comment' | 'community' | 'event' | 'video' | 'playlist' | 'member'
+
+export interface SearchResult {
+  result_type: SearchResultType
+  id: string
+  community_id: string | null
+  community_slug: string | null
+  community_name: string | null
+  post_id: string | null // top-level post a comment belongs to
+  title: string | null // username for members
+  snippet: string | null // matches wrapped in <mark></mark>; full name for members
+  image_url: string | null
+  created_at: string
+  rank: number
+}
+
 export type PostAuthorSummary = Pick<User, 'id' | 'username' | 'first_name' | 'last_name' | 'profile_picture' | 'bio'>
 
 export interface PostWithAuthor extends Post {
@@ -432,6 +706,8 @@ export type NotificationType =
   | 'event_reminder'
   | 'follow'
   | 'mention'
+  | 'moderation_warning'
+  | 'tip_received'
 
 export interface Notification {
   id: string
@@ -443,6 +719,86 @@ export interface Notification {
   metadata?: Record<string, unknown> | null
   is_read: boolean
   read_at?: string | null
+  deliver_in_app?: boolean
+  deliver_push?: boolean
+  deliver_email?: boolean
+  group_key?: string | null // set on notifications that collapse, e.g. post_boost:<post id>
+  group_count?: number
+  actor_ids?: string[] // most recent first
+  last_pushed_at?: string | null
+  created_at: string
+}
+
+export type NotificationChannel = 'in_app' | 'push' | 'email'
+
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly'
+
+export interface NotificationPreference {
+  user_id: string
+  type: NotificationType
+  in_app: boolean
+  push: boolean
+  email: boolean // included in the email digest
+  updated_at: string
+}
+
+export interface NotificationSettings {
+  user_id: string
+  quiet_hours_enabled: boolean
+  quiet_hours_start: string // HH:MM[:SS] local time
+  quiet_hours_end: string
+  timezone: string // IANA name
+  digest_frequency: NotificationDigestFrequency
+  last_digest_sent_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Moderation types
+export type ReportTargetType = 'post' | 'comment' | 'dm_message'
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'nudity'
+  | 'violence'
+  | 'misinformation'
+  | 'other'
+
+export type ReportStatus = 'open' | 'actioned' | 'dismissed'
+
+export type ModerationActionType = 'hide' | 'unhide' | 'delete' | 'dismiss' | 'warn'
+
+export interface ContentReport {
+  id: string
+  reporter_id: string
+  target_type: ReportTargetType
+  post_id?: string | null
+  dm_message_id?: string | null
+  community_id?: string | null
+  reported_user_id?: string | null
+  reason: ReportReason
+  details?: string | null
+  content_snapshot?: string | null
+  status: ReportStatus
+  resolved_by?: string | null
+  resolved_at?: string | null
+  resolution_note?: string | null
+  created_at: string
+}
+
+export interface ModerationAction {
+  id: string
+  report_id?: string | null
+  actor_id?: string | null
+  action: ModerationActionType
+  target_type: ReportTargetType
+  post_id?: string | null
+  dm_message_id?: string | null
+  target_user_id?: string | null
+  community_id?: string | null
+  note?: string | null
   created_at: string
 }
 
@@ -471,15 +827,154 @@ export interface CommunityEvent {
   status: EventStatus
   stream_call_id?: string // GetStream call ID
   points_charged: number // Amount charged to owner for starting
+  chat_slow_mode_seconds?: number // 0 when slow mode is off
+  series_id?: string | null
+  series_index?: number | null // 0-based position in the series
+  is_series_exception?: boolean // Edited on its own, away from the rest of the series
+  join_cost?: number | null // Overrides platform stream_join_cost once early-bird tiers end
+  capacity?: number | null // Maximum active registrations; null is unlimited
+  audience_mode?: boolean // Only hosts and promoted speakers can publish
   created_at: string
   updated_at: string
   // Joined fields
   owner?: User
   community?: Community
+  series?: EventSeries | null
+  price_tiers?: EventPriceTier[]
   registration_count?: number
   user_has_registered?: boolean
 }
 
+export interface EventPriceTier {
+  id: string
+  event_id: string
+  points_cost: number
+  ends_at: string // Early-bird price applies until this moment
+  created_at: string
+}
+
+export type EventWaitlistStatus = 'waiting' | 'promoted' | 'left' | 'failed' | 'removed'
+
+export interface EventWaitlistEntry {
+  id: string
+  event_id: string
+  user_id: string
+  points_quoted: number // Price when they joined; promotion never charges more
+  status: EventWaitlistStatus
+  registration_id?: string | null
+  failure_reason?: string | null
+  promoted_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type EventStageRequestStatus = 'raised' | 'speaker'
+
+export interface EventStageRequest {
+  event_id: string
+  user_id: string
+  status: EventStageRequestStatus
+  raised_at: string
+  promoted_at?: string | null
+  promoted_by?: string | null
+  user?: {
+    id: string
+    username: string
+    first_name: string
+    last_name: string
+    profile_picture?: string | null
+  }
+}
+
+export type EventBreakoutSessionStatus = 'open' | 'closed'
+
+export interface EventBreakoutSession {
+  id: string
+  event_id: string
+  status: EventBreakoutSessionStatus
+  ends_at: string
+  broadcast_message?: string | null
+  broadcast_at?: string | null
+  created_by?: string | null
+  created_at: string
+  closed_at?: string | null
+}
+
+export interface EventBreakoutRoom {
+  id: string
+  session_id: string
+  event_id: string
+  position: number
+  name: string
+  stream_call_id: string
+  created_at: string
+}
+
+export interface EventBreakoutAssignment {
+  session_id: string
+  room_id: string
+  event_id: string
+  user_id: string
+  assigned_at: string
+  user?: {
+    id: string
+    username: string
+    first_name: string
+    last_name: string
+    profile_picture?: string | null
+  }
+}
+
+export type EventAttendanceRegistrationStatus = 'registered' | 'cancelled' | 'not_registered'
+
+export interface EventAttendanceReportRow {
+  user_id: string
+  username: string | null
+  first_name: string | null
+  last_name: string | null
+  is_host: boolean
+  registration_status: EventAttendanceRegistrationStatus
+  registered_at: string | null
+  points_charged: number // 0 once refunded
+  attended: boolean
+  sessions: number
+  first_joined_at: string | null
+  last_left_at: string | null
+  watch_seconds: number
+}
+
+export interface EventAttendanceReport {
+  event_id: string
+  status: EventStatus
+  started_at: string | null
+  ended_at: string | null
+  registered: number
+  cancelled: number
+  attended: number // Excludes the host
+  no_shows: number
+  peak_concurrency: number
+  revenue_points: number
+  total_watch_seconds: number
+  average_watch_seconds: number
+  attendees: EventAttendanceReportRow[]
+}
+
+export type EventSeriesFrequency = 'weekly' | 'biweekly' | 'monthly_nth_weekday'
+
+export interface EventSeries {
+  id: string
+  community_id: string
+  owner_id: string
+  description?: string | null
+  frequency: EventSeriesFrequency
+  first_occurrence_at: string
+  timezone: string // IANA zone the rule is evaluated in
+  ends_on?: string | null // YYYY-MM-DD; set when occurrence_count isn't
+  occurrence_count?: number | null
+  created_at: string
+  updated_at: string
+}
+
 export interface EventRegistration {
   id: string
   event_id: string
@@ -494,6 +989,34 @@ export interface EventRegistration {
   event?: CommunityEvent
 }
 
+export interface EventAttendance {
+  id: string
+  event_id: string
+  user_id: string
+  stream_session_id: string
+  role?: string | null
+  joined_at: string
+  left_at?: string | null // null while still in the call
+  duration_seconds?: number | null
+  created_at: string
+}
+
+export interface EventChatMessage {
+  id: string
+  event_id: string
+  user_id: string
+  content: string // Empty once deleted
+  reaction_counts: Record<string, number>
+  is_pinned: boolean
+  pinned_at: string | null
+  deleted_at: string | null
+  deleted_by: string | null
+  created_at: string
+  // Joined fields
+  user?: Pick<User, 'id' | 'username' | 'first_name' | 'last_name' | 'profile_picture'>
+  user_reactions?: string[] // emoji the current user reacted with
+}
+
 export interface EventRecording {
   id: string
   event_id: string
@@ -542,6 +1065,47 @@ export interface UploadedVideo {
   } | null
 }
 
+export type VideoTranscriptStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface TranscriptSegment {
+  start: number // Seconds from the start of the video
+  end: number
+  text: string
+}
+
+export interface TranscriptChapter {
+  start: number
+  title: string
+}
+
+export interface VideoTranscript {
+  id: string
+  community_id: string
+  recording_id?: string | null
+  upload_id?: string | null
+  status: VideoTranscriptStatus
+  engine?: string | null
+  language?: string | null
+  segments?: TranscriptSegment[] // Left out of list queries; load it per transcript
+  chapters: TranscriptChapter[]
+  full_text?: string | null
+  error?: string | null
+  requested_by?: string | null
+  completed_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface VideoTranscriptSearchResult {
+  transcript_id: string
+  recording_id: string | null
+  upload_id: string | null
+  title: string | null
+  snippet: string // Matches wrapped in <mark></mark>
+  start_seconds: number | null
+  rank: number
+}
+
 export type PlaylistStatus = 'draft' | 'published'
 
 export interface CommunityPlaylist {
@@ -704,6 +1268,36 @@ export interface Database {
         Insert: never
         Update: never
       }
+      payout_destinations: {
+        Row: PayoutDestination
+        Insert: never
+        Update: never
+      }
+      point_transfers: {
+        Row: PointTransfer
+        Insert: never
+        Update: never
+      }
+      ledger_reconciliation_runs: {
+        Row: LedgerReconciliationRun
+        Insert: never
+        Update: never
+      }
+      ledger_discrepancies: {
+        Row: LedgerDiscrepancy
+        Insert: never
+        Update: never
+      }
+      wallet_adjustments: {
+        Row: WalletAdjustment
+        Insert: never
+        Update: never
+      }
+      admin_audit_log: {
+        Row: AdminAuditLogEntry
+        Insert: never
+        Update: never
+      }
       posts: {
         Row: Post
         Insert: Omit<Post, 'id' | 'created_at' | 'updated_at' | 'published_at'>
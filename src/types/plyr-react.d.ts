@@ -5,6 +5,15 @@ declare module "plyr-react" {
     type: string
     sources: Array<{ src: string; type?: string }>
     poster?: string
+    tracks?: Array<{ kind: string; label: string; srclang: string; src: string; default?: boolean }>
+  }
+
+  export interface APITypes {
+    plyr: {
+      currentTime: number
+      play(): Promise<void> | void
+      pause(): void
+    }
   }
 
   export interface PlyrProps {
@@ -21,7 +30,7 @@ declare module "plyr-react" {
     className?: string
   }
 
-  const Plyr: React.FC<PlyrProps>
+  const Plyr: React.ForwardRefExoticComponent<PlyrProps & React.RefAttributes<APITypes>>
   export default Plyr
 }
 
@@ -0,0 +1,109 @@
+-- =============================================
+-- DEFINE credit_user_earnings (8-arg)
+-- boost_post (20250114_track_boost_source_for_revenue.sql), join_community, membership renewals
+-- and send_points call credit_user_earnings with
+-- (p_user_id, p_points, p_amount_ttd, p_source_type, p_source_id, p_community_id, p_available_delay_seconds, p_metadata).
+-- That version only existed in the deployed database; the 6-arg one in
+-- 20251107_earnings_and_payouts.sql writes points_amount/release_at, which the real table
+-- doesn't have. Defining it here lets a fresh `supabase db reset` run those functions.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.credit_user_earnings(
+  p_user_id UUID,
+  p_points BIGINT,
+  p_amount_ttd NUMERIC,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_community_id UUID DEFAULT NULL,
+  p_available_delay_seconds INTEGER DEFAULT 0,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+) RETURNS UUID AS $$
+DECLARE
+  v_user_value_per_point NUMERIC;
+  v_amount_ttd NUMERIC(12,2) := p_amount_ttd;
+  v_available_now BOOLEAN := COALESCE(p_available_delay_seconds, 0) <= 0;
+  v_metadata JSONB := COALESCE(p_metadata, '{}'::jsonb);
+  v_ledger_id UUID;
+BEGIN
+  IF p_points IS NULL OR p_points <= 0 THEN
+    RAISE EXCEPTION 'Points credited must be greater than zero';
+  END IF;
+
+  SELECT user_value_per_point INTO v_user_value_per_point
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  IF v_amount_ttd IS NULL THEN
+    v_amount_ttd := ROUND(COALESCE(v_user_value_per_point, 0) * p_points, 2);
+  END IF;
+
+  IF p_community_id IS NOT NULL THEN
+    v_metadata := v_metadata || jsonb_build_object('community_id', p_community_id);
+  END IF;
+
+  -- Ensure wallet row exists before crediting
+  INSERT INTO public.wallets (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  INSERT INTO public.wallet_earnings_ledger (user_id, source_type, source_id, points, amount_ttd, status, available_at, metadata)
+  VALUES (
+    p_user_id,
+    p_source_type,
+    p_source_id,
+    p_points,
+    v_amount_ttd,
+    CASE WHEN v_available_now THEN 'confirmed' ELSE 'pending' END,
+    now() + make_interval(secs => GREATEST(COALESCE(p_available_delay_seconds, 0), 0)),
+    v_metadata
+  )
+  RETURNING id INTO v_ledger_id;
+
+  -- Held earnings are credited by process_matured_earnings() once available_at passes
+  IF v_available_now THEN
+    UPDATE public.wallets
+    SET earnings_points = earnings_points + p_points,
+        updated_at = now()
+    WHERE user_id = p_user_id;
+
+    INSERT INTO public.transactions (
+      user_id,
+      type,
+      points_delta,
+      earnings_points_delta,
+      amount_ttd,
+      recipient_user_id,
+      sender_user_id,
+      source_type,
+      source_id,
+      ledger_entry_id,
+      user_value_per_point_at_time,
+      status,
+      created_at,
+      context
+    )
+    VALUES (
+      p_user_id,
+      'earning_credit',
+      0,
+      p_points,
+      v_amount_ttd,
+      p_user_id,
+      (v_metadata->>'from_user_id')::UUID,
+      p_source_type,
+      p_source_id,
+      v_ledger_id,
+      v_user_value_per_point,
+      'verified',
+      now(),
+      jsonb_build_object('source_type', p_source_type, 'source_id', p_source_id, 'ledger_entry_id', v_ledger_id)
+    );
+  END IF;
+
+  RETURN v_ledger_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.credit_user_earnings(UUID, BIGINT, NUMERIC, TEXT, UUID, UUID, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.credit_user_earnings(UUID, BIGINT, NUMERIC, TEXT, UUID, UUID, INTEGER, JSONB) IS 'Adds an earnings ledger entry and, when available immediately, credits earnings_points with an earning_credit transaction. Internal: used by boosts, memberships, event registrations and tips.';
@@ -0,0 +1,265 @@
+-- =============================================
+-- ENFORCE PAID COMMUNITY MEMBERSHIP
+-- Charges points when joining a paid community and credits the owner's earnings
+-- =============================================
+
+-- 1. Allow the billing cycles already exposed by CommunityPricingType
+ALTER TABLE public.communities
+  DROP CONSTRAINT IF EXISTS communities_pricing_type_check;
+
+ALTER TABLE public.communities
+  ADD CONSTRAINT communities_pricing_type_check
+  CHECK (pricing_type IN ('free', 'one_time', 'monthly', 'annual', 'recurring'));
+
+-- 2. Track what each member paid to join
+ALTER TABLE public.community_members
+  ADD COLUMN IF NOT EXISTS billing_cycle TEXT CHECK (billing_cycle IN ('one_time', 'monthly', 'annual')),
+  ADD COLUMN IF NOT EXISTS points_charged BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS earnings_ledger_id UUID REFERENCES public.wallet_earnings_ledger(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_community_members_earnings_ledger_id ON public.community_members(earnings_ledger_id);
+
+-- 3. Membership earnings are a new earnings source
+-- topup_bonus (apply_topup) and referral_bonus (process_referral_bonus) are existing sources
+ALTER TABLE public.wallet_earnings_ledger
+  DROP CONSTRAINT IF EXISTS wallet_earnings_ledger_source_type_check;
+
+ALTER TABLE public.wallet_earnings_ledger
+  ADD CONSTRAINT wallet_earnings_ledger_source_type_check
+  CHECK (source_type IN ('boost', 'live_registration', 'event_registration', 'manual_adjustment', 'storage_credit', 'topup_bonus', 'referral_bonus', 'community_membership'));
+
+-- 4. Members can no longer insert themselves directly, otherwise paid communities could be joined for free.
+-- Joining goes through join_community() which charges according to pricing_type.
+DROP POLICY IF EXISTS "Users can join communities as members" ON public.community_members;
+
+CREATE POLICY "Users can join free communities as members"
+  ON public.community_members
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    role = 'member' AND
+    EXISTS (
+      SELECT 1 FROM public.communities c
+      WHERE c.id = community_members.community_id
+        AND COALESCE(c.pricing_type, 'free') = 'free'
+    )
+  );
+
+-- 5. Price of a membership in points for a given billing cycle
+-- Community prices are stored in TTD, so they are converted at the current buy price per point.
+-- Returns 0 only for free communities. Recurring communities must be given one of the cycles they
+-- offer, and a paid community without a price for the cycle raises instead of joining for free.
+CREATE OR REPLACE FUNCTION public.get_community_membership_price_points(
+  p_community_id UUID,
+  p_billing_cycle TEXT DEFAULT NULL
+) RETURNS BIGINT AS $$
+DECLARE
+  v_community RECORD;
+  v_buy_price_per_point NUMERIC;
+  v_price_ttd NUMERIC;
+BEGIN
+  SELECT pricing_type, one_time_price, monthly_price, annual_price
+  INTO v_community
+  FROM public.communities
+  WHERE id = p_community_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Community not found';
+  END IF;
+
+  IF COALESCE(v_community.pricing_type, 'free') = 'free' THEN
+    RETURN 0;
+  END IF;
+
+  IF v_community.pricing_type = 'recurring' AND (p_billing_cycle IS NULL OR p_billing_cycle NOT IN ('monthly', 'annual')) THEN
+    RAISE EXCEPTION 'Choose a monthly or annual billing cycle';
+  END IF;
+
+  v_price_ttd := CASE v_community.pricing_type
+    WHEN 'one_time' THEN v_community.one_time_price
+    WHEN 'monthly' THEN v_community.monthly_price
+    WHEN 'annual' THEN v_community.annual_price
+    WHEN 'recurring' THEN
+      CASE p_billing_cycle
+        WHEN 'annual' THEN v_community.annual_price
+        ELSE v_community.monthly_price
+      END
+  END;
+
+  IF v_price_ttd IS NULL OR v_price_ttd <= 0 THEN
+    RAISE EXCEPTION 'This community does not offer % billing', COALESCE(p_billing_cycle, v_community.pricing_type);
+  END IF;
+
+  SELECT buy_price_per_point INTO v_buy_price_per_point
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  IF v_buy_price_per_point IS NULL OR v_buy_price_per_point <= 0 THEN
+    RAISE EXCEPTION 'Platform settings not configured';
+  END IF;
+
+  RETURN CEIL(v_price_ttd / v_buy_price_per_point)::BIGINT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 6. Join a community, charging points for paid communities
+CREATE OR REPLACE FUNCTION public.join_community(
+  p_user_id UUID,
+  p_community_id UUID,
+  p_billing_cycle TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_community RECORD;
+  v_billing_cycle TEXT;
+  v_point_cost BIGINT;
+  v_wallet_spent BIGINT;
+  v_earnings_spent BIGINT;
+  v_user_value_per_point NUMERIC;
+  v_amount_ttd NUMERIC(12,2);
+  v_member_id UUID;
+  v_tx_id UUID;
+  v_ledger_id UUID;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'You can only join communities as yourself';
+  END IF;
+
+  SELECT id, owner_id, is_active, COALESCE(pricing_type, 'free') AS pricing_type
+  INTO v_community
+  FROM public.communities
+  WHERE id = p_community_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Community not found';
+  END IF;
+
+  IF NOT v_community.is_active THEN
+    RAISE EXCEPTION 'This community is not accepting new members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = p_community_id AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'You are already a member of this community';
+  END IF;
+
+  v_billing_cycle := CASE v_community.pricing_type
+    WHEN 'free' THEN NULL
+    WHEN 'one_time' THEN 'one_time'
+    WHEN 'monthly' THEN 'monthly'
+    WHEN 'annual' THEN 'annual'
+    ELSE p_billing_cycle
+  END;
+
+  -- Rejects cycles a recurring community doesn't offer (e.g. 'one_time', which renewals would skip)
+  -- and paid communities without a price, so nobody joins for free
+  v_point_cost := public.get_community_membership_price_points(p_community_id, v_billing_cycle);
+
+  INSERT INTO public.community_members (community_id, user_id, role, billing_cycle, points_charged)
+  VALUES (p_community_id, p_user_id, 'member', v_billing_cycle, v_point_cost)
+  RETURNING id INTO v_member_id;
+
+  -- Free communities join without a charge
+  IF v_point_cost <= 0 THEN
+    RETURN json_build_object(
+      'joined', true,
+      'member_id', v_member_id,
+      'points_charged', 0,
+      'billing_cycle', v_billing_cycle
+    );
+  END IF;
+
+  -- Debit from combined balance (points_balance first, then earnings_points)
+  SELECT wallet_points_spent, earnings_points_spent
+  INTO v_wallet_spent, v_earnings_spent
+  FROM public.debit_user_points(p_user_id, v_point_cost);
+
+  SELECT user_value_per_point INTO v_user_value_per_point
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  v_amount_ttd := ROUND(COALESCE(v_user_value_per_point, 0) * v_point_cost, 2);
+
+  SELECT TRIM(first_name || ' ' || last_name) INTO v_sender_name
+  FROM public.users WHERE id = p_user_id;
+
+  SELECT TRIM(first_name || ' ' || last_name) INTO v_recipient_name
+  FROM public.users WHERE id = v_community.owner_id;
+
+  INSERT INTO public.transactions (
+    user_id,
+    type,
+    points_delta,
+    recipient_user_id,
+    sender_user_id,
+    sender_name,
+    recipient_name,
+    user_value_per_point_at_time,
+    status,
+    created_at,
+    context
+  )
+  VALUES (
+    p_user_id,
+    'point_spend',
+    -v_point_cost,
+    v_community.owner_id,
+    p_user_id,
+    v_sender_name,
+    v_recipient_name,
+    v_user_value_per_point,
+    'verified',
+    now(),
+    jsonb_build_object(
+      'source', 'community_membership',
+      'community_id', p_community_id,
+      'member_id', v_member_id,
+      'billing_cycle', v_billing_cycle,
+      'wallet_points_spent', v_wallet_spent,
+      'earnings_points_spent', v_earnings_spent
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  -- Credit the owner through the earnings ledger, same as event registrations
+  -- Signature: (p_user_id, p_points, p_amount_ttd, p_source_type, p_source_id, p_community_id, p_available_delay_seconds, p_metadata)
+  v_ledger_id := public.credit_user_earnings(
+    v_community.owner_id,
+    v_point_cost,
+    v_amount_ttd,
+    'community_membership',
+    v_member_id,
+    p_community_id,
+    0,
+    jsonb_build_object(
+      'community_id', p_community_id,
+      'member_id', v_member_id,
+      'from_user_id', p_user_id,
+      'billing_cycle', v_billing_cycle,
+      'transaction_id', v_tx_id,
+      'is_transfer', CASE WHEN v_wallet_spent > 0 THEN false ELSE true END
+    )
+  );
+
+  UPDATE public.community_members
+  SET earnings_ledger_id = v_ledger_id
+  WHERE id = v_member_id;
+
+  RETURN json_build_object(
+    'joined', true,
+    'member_id', v_member_id,
+    'points_charged', v_point_cost,
+    'billing_cycle', v_billing_cycle,
+    'transaction_id', v_tx_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_community_membership_price_points(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.join_community(UUID, UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_community_membership_price_points IS 'Converts a community''s TTD price for the given billing cycle into points at the current buy price per point. Returns 0 for free communities.';
+COMMENT ON FUNCTION public.join_community IS 'Adds the user as a community member. Paid communities debit the member''s combined balance and credit the owner through wallet_earnings_ledger (source_type community_membership).';
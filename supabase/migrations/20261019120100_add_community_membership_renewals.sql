@@ -0,0 +1,335 @@
+-- =============================================
+-- COMMUNITY MEMBERSHIP RENEWALS
+-- Tracks billing periods for monthly/annual memberships, renews them from the wallet,
+-- applies a grace period when the wallet runs dry and lapses the membership afterwards
+-- =============================================
+
+-- 1. Billing period tracking on community_members
+ALTER TABLE public.community_members
+  ADD COLUMN IF NOT EXISTS current_period_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS billing_status TEXT NOT NULL DEFAULT 'active' CHECK (billing_status IN ('active', 'past_due', 'lapsed')),
+  ADD COLUMN IF NOT EXISTS grace_period_ends_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_renewal_attempt_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_community_members_current_period_end
+  ON public.community_members(current_period_end)
+  WHERE billing_cycle IN ('monthly', 'annual');
+
+COMMENT ON COLUMN public.community_members.billing_status IS
+'active: paid up. past_due: renewal failed, member is inside the grace period. lapsed: grace period ended, member keeps the row but can''t post or see the feed while signed in until renewed.';
+
+-- 2. Length of one billing period
+CREATE OR REPLACE FUNCTION public.community_billing_interval(p_billing_cycle TEXT)
+RETURNS INTERVAL AS $$
+  SELECT CASE p_billing_cycle
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    WHEN 'annual' THEN INTERVAL '1 year'
+    ELSE NULL
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. Start the first billing period when a recurring membership is created
+CREATE OR REPLACE FUNCTION public.set_community_member_billing_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.billing_cycle IN ('monthly', 'annual') AND NEW.current_period_end IS NULL THEN
+    NEW.current_period_start := COALESCE(NEW.joined_at, now());
+    NEW.current_period_end := NEW.current_period_start + public.community_billing_interval(NEW.billing_cycle);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_community_member_billing_period ON public.community_members;
+CREATE TRIGGER set_community_member_billing_period
+  BEFORE INSERT ON public.community_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_community_member_billing_period();
+
+-- Backfill memberships created before this migration
+UPDATE public.community_members
+SET current_period_start = joined_at,
+    current_period_end = joined_at + public.community_billing_interval(billing_cycle)
+WHERE billing_cycle IN ('monthly', 'annual')
+  AND current_period_end IS NULL;
+
+-- 4. Lapsed members can no longer post...
+DROP POLICY IF EXISTS "Community members can create posts" ON public.posts;
+
+CREATE POLICY "Community members can create posts"
+  ON public.posts
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.community_members cm
+      WHERE cm.community_id = posts.community_id
+        AND cm.user_id = auth.uid()
+        AND cm.billing_status <> 'lapsed'
+    )
+  );
+
+-- ...or read the feed while signed in. Restrictive, so it still applies when the
+-- permissive "Anyone can view posts" policy is redefined. Comments are posts too.
+-- This is not a paywall: posts in active communities stay readable by non-members
+-- and anonymous visitors as the feed preview, and a lapsed member signed out sees
+-- that same preview. It only covers what the membership itself granted.
+CREATE OR REPLACE FUNCTION public.has_lapsed_membership(
+  p_community_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = p_community_id
+      AND user_id = p_user_id
+      AND billing_status = 'lapsed'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_lapsed_membership(UUID, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.has_lapsed_membership IS 'True when the user''s membership of the community lapsed after the grace period.';
+
+DROP POLICY IF EXISTS "Lapsed members cannot view posts" ON public.posts;
+
+CREATE POLICY "Lapsed members cannot view posts"
+  ON public.posts
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT public.has_lapsed_membership(posts.community_id));
+
+DROP POLICY IF EXISTS "Lapsed members cannot view post media" ON public.post_media;
+
+CREATE POLICY "Lapsed members cannot view post media"
+  ON public.post_media
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (
+    NOT EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_media.post_id
+        AND public.has_lapsed_membership(p.community_id)
+    )
+  );
+
+-- 5. Renew a single membership
+-- Called by the renewal cron for every due membership, and by members renewing a lapsed membership themselves.
+-- Returns JSON with status: renewed | cancelled | past_due | lapsed | skipped
+CREATE OR REPLACE FUNCTION public.renew_community_membership(
+  p_member_id UUID,
+  p_grace_period_days INTEGER DEFAULT 3
+) RETURNS JSON AS $$
+DECLARE
+  v_member RECORD;
+  v_price_ttd NUMERIC;
+  v_buy_price_per_point NUMERIC;
+  v_user_value_per_point NUMERIC;
+  v_point_cost BIGINT := 0;
+  v_wallet_spent BIGINT;
+  v_earnings_spent BIGINT;
+  v_amount_ttd NUMERIC(12,2);
+  v_tx_id UUID;
+  v_ledger_id UUID;
+  v_period_start TIMESTAMPTZ;
+  -- Only the cron (service role, no auth.uid()) chooses the grace period; a member
+  -- passing a long one would never lapse
+  v_grace_period_days INTEGER := CASE WHEN auth.uid() IS NULL THEN COALESCE(p_grace_period_days, 3) ELSE 3 END;
+  v_grace_ends_at TIMESTAMPTZ;
+  v_status TEXT;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+BEGIN
+  SELECT cm.*, c.owner_id, c.monthly_price, c.annual_price
+  INTO v_member
+  FROM public.community_members cm
+  JOIN public.communities c ON c.id = cm.community_id
+  WHERE cm.id = p_member_id
+  FOR UPDATE OF cm;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_member.user_id THEN
+    RAISE EXCEPTION 'You can only renew your own membership';
+  END IF;
+
+  IF v_member.role = 'owner' OR v_member.billing_cycle NOT IN ('monthly', 'annual') OR v_member.billing_cycle IS NULL THEN
+    RETURN json_build_object('status', 'skipped', 'reason', 'not_recurring');
+  END IF;
+
+  IF v_member.billing_status = 'active' AND v_member.current_period_end > now() THEN
+    RETURN json_build_object('status', 'skipped', 'reason', 'not_due', 'current_period_end', v_member.current_period_end);
+  END IF;
+
+  -- Member asked to leave at the end of the period
+  IF v_member.cancel_at_period_end THEN
+    DELETE FROM public.community_members WHERE id = p_member_id;
+    RETURN json_build_object('status', 'cancelled');
+  END IF;
+
+  -- Renew at the community's current price for this billing cycle
+  v_price_ttd := CASE v_member.billing_cycle
+    WHEN 'annual' THEN v_member.annual_price
+    ELSE v_member.monthly_price
+  END;
+
+  SELECT buy_price_per_point, user_value_per_point
+  INTO v_buy_price_per_point, v_user_value_per_point
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  IF COALESCE(v_price_ttd, 0) > 0 THEN
+    IF v_buy_price_per_point IS NULL OR v_buy_price_per_point <= 0 THEN
+      RAISE EXCEPTION 'Platform settings not configured';
+    END IF;
+
+    v_point_cost := CEIL(v_price_ttd / v_buy_price_per_point)::BIGINT;
+  END IF;
+
+  IF v_point_cost > 0 THEN
+    BEGIN
+      SELECT wallet_points_spent, earnings_points_spent
+      INTO v_wallet_spent, v_earnings_spent
+      FROM public.debit_user_points(v_member.user_id, v_point_cost);
+    EXCEPTION
+      WHEN raise_exception THEN
+        IF SQLERRM NOT LIKE 'Insufficient balance%' THEN
+          RAISE;
+        END IF;
+
+        -- Wallet ran dry: start (or continue) the grace period, then lapse
+        v_grace_ends_at := COALESCE(
+          v_member.grace_period_ends_at,
+          v_member.current_period_end + make_interval(days => GREATEST(v_grace_period_days, 0))
+        );
+        v_status := CASE WHEN now() >= v_grace_ends_at THEN 'lapsed' ELSE 'past_due' END;
+
+        UPDATE public.community_members
+        SET billing_status = v_status,
+            grace_period_ends_at = v_grace_ends_at,
+            last_renewal_attempt_at = now()
+        WHERE id = p_member_id;
+
+        RETURN json_build_object(
+          'status', v_status,
+          'points_required', v_point_cost,
+          'grace_period_ends_at', v_grace_ends_at
+        );
+    END;
+
+    v_amount_ttd := ROUND(COALESCE(v_user_value_per_point, 0) * v_point_cost, 2);
+
+    SELECT TRIM(first_name || ' ' || last_name) INTO v_sender_name
+    FROM public.users WHERE id = v_member.user_id;
+
+    SELECT TRIM(first_name || ' ' || last_name) INTO v_recipient_name
+    FROM public.users WHERE id = v_member.owner_id;
+
+    INSERT INTO public.transactions (
+      user_id,
+      type,
+      points_delta,
+      recipient_user_id,
+      sender_user_id,
+      sender_name,
+      recipient_name,
+      user_value_per_point_at_time,
+      status,
+      created_at,
+      context
+    )
+    VALUES (
+      v_member.user_id,
+      'point_spend',
+      -v_point_cost,
+      v_member.owner_id,
+      v_member.user_id,
+      v_sender_name,
+      v_recipient_name,
+      v_user_value_per_point,
+      'verified',
+      now(),
+      jsonb_build_object(
+        'source', 'community_membership',
+        'community_id', v_member.community_id,
+        'member_id', p_member_id,
+        'billing_cycle', v_member.billing_cycle,
+        'renewal', true,
+        'wallet_points_spent', v_wallet_spent,
+        'earnings_points_spent', v_earnings_spent
+      )
+    )
+    RETURNING id INTO v_tx_id;
+
+    -- credit_user_earnings records the owner's earning_credit transaction
+    v_ledger_id := public.credit_user_earnings(
+      v_member.owner_id,
+      v_point_cost,
+      v_amount_ttd,
+      'community_membership',
+      p_member_id,
+      v_member.community_id,
+      0,
+      jsonb_build_object(
+        'community_id', v_member.community_id,
+        'member_id', p_member_id,
+        'from_user_id', v_member.user_id,
+        'billing_cycle', v_member.billing_cycle,
+        'transaction_id', v_tx_id,
+        'renewal', true,
+        'is_transfer', CASE WHEN v_wallet_spent > 0 THEN false ELSE true END
+      )
+    );
+  END IF;
+
+  -- Paid-up renewals continue the previous period; recovering members start a fresh one
+  v_period_start := CASE
+    WHEN v_member.billing_status = 'active' THEN COALESCE(v_member.current_period_end, now())
+    ELSE now()
+  END;
+
+  UPDATE public.community_members
+  SET billing_status = 'active',
+      current_period_start = v_period_start,
+      current_period_end = v_period_start + public.community_billing_interval(v_member.billing_cycle),
+      grace_period_ends_at = NULL,
+      last_renewal_attempt_at = now(),
+      points_charged = v_point_cost,
+      earnings_ledger_id = COALESCE(v_ledger_id, earnings_ledger_id)
+  WHERE id = p_member_id;
+
+  RETURN json_build_object(
+    'status', 'renewed',
+    'points_charged', v_point_cost,
+    'transaction_id', v_tx_id,
+    'current_period_end', v_period_start + public.community_billing_interval(v_member.billing_cycle)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Members toggle "cancel at period end" on their own membership
+CREATE OR REPLACE FUNCTION public.set_membership_cancel_at_period_end(
+  p_member_id UUID,
+  p_cancel BOOLEAN
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE public.community_members
+  SET cancel_at_period_end = p_cancel
+  WHERE id = p_member_id
+    AND user_id = auth.uid()
+    AND billing_cycle IN ('monthly', 'annual');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring membership not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.renew_community_membership(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_membership_cancel_at_period_end(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.renew_community_membership IS 'Renews a monthly/annual membership from the member''s combined balance and credits the owner. Failed renewals enter a grace period (past_due) and lapse once it ends. Memberships flagged cancel_at_period_end are removed instead of renewed.';
+COMMENT ON FUNCTION public.set_membership_cancel_at_period_end IS 'Lets a member schedule (or undo) leaving a recurring community at the end of the current billing period.';
@@ -0,0 +1,153 @@
+-- =============================================
+-- COMMUNITY MODERATORS
+-- Adds a moderator role with a scoped permission set granted by the community owner
+-- =============================================
+
+-- 1. New role
+-- NOTE: the new enum value can't be referenced as a literal in this transaction,
+-- so the functions below compare role::text instead.
+ALTER TYPE community_member_role ADD VALUE IF NOT EXISTS 'moderator';
+
+-- 2. Scoped permissions, only meaningful for moderators (owners implicitly hold all of them)
+ALTER TABLE public.community_members
+  ADD COLUMN IF NOT EXISTS permissions TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.community_members
+  DROP CONSTRAINT IF EXISTS community_members_permissions_check;
+
+ALTER TABLE public.community_members
+  ADD CONSTRAINT community_members_permissions_check
+  CHECK (permissions <@ ARRAY['pin_posts', 'delete_comments', 'host_events', 'upload_videos', 'manage_playlists']::TEXT[]);
+
+COMMENT ON COLUMN public.community_members.permissions IS
+'Permissions granted to a moderator: pin_posts, delete_comments, host_events, upload_videos, manage_playlists. Ignored for other roles.';
+
+-- 3. Shared permission check used by RLS policies and RPCs
+-- Mirrors hasCommunityPermission() in src/lib/community-permissions.ts
+CREATE OR REPLACE FUNCTION public.has_community_permission(
+  p_community_id UUID,
+  p_permission TEXT,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.communities
+    WHERE id = p_community_id AND owner_id = p_user_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = p_community_id
+      AND user_id = p_user_id
+      AND role::TEXT = 'moderator'
+      AND p_permission = ANY(permissions)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.has_community_permission(UUID, TEXT, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.has_community_permission IS 'True when the user owns the community or is a moderator holding the given permission.';
+
+-- 4. Pinning posts
+-- Moderators don't get general UPDATE access to posts, so pinning goes through an RPC
+CREATE OR REPLACE FUNCTION public.set_post_pinned(
+  p_post_id UUID,
+  p_is_pinned BOOLEAN
+) RETURNS VOID AS $$
+DECLARE
+  v_community_id UUID;
+BEGIN
+  SELECT community_id INTO v_community_id
+  FROM public.posts
+  WHERE id = p_post_id AND depth = 0;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF NOT public.has_community_permission(v_community_id, 'pin_posts') THEN
+    RAISE EXCEPTION 'You do not have permission to pin posts in this community';
+  END IF;
+
+  UPDATE public.posts
+  SET is_pinned = p_is_pinned
+  WHERE id = p_post_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_post_pinned(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.set_post_pinned IS 'Pins or unpins a top-level post. Requires the pin_posts permission.';
+
+-- 5. Deleting comments (comments are posts with depth > 0)
+DROP POLICY IF EXISTS "Authors and community owners can delete posts" ON public.posts;
+
+CREATE POLICY "Authors and community owners can delete posts"
+  ON public.posts
+  FOR DELETE
+  USING (
+    author_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.communities c
+      WHERE c.id = posts.community_id
+        AND c.owner_id = auth.uid()
+    ) OR
+    (depth > 0 AND public.has_community_permission(posts.community_id, 'delete_comments'))
+  );
+
+-- 6. Hosting events
+DROP POLICY IF EXISTS "Community owners can create events" ON public.community_events;
+
+CREATE POLICY "Community owners can create events"
+  ON public.community_events FOR INSERT
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    public.has_community_permission(community_events.community_id, 'host_events')
+  );
+
+-- 7. Uploading videos
+DROP POLICY IF EXISTS "Community owners can insert uploaded videos" ON public.uploaded_videos;
+
+CREATE POLICY "Community owners can insert uploaded videos"
+  ON public.uploaded_videos
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid() AND
+    public.has_community_permission(uploaded_videos.community_id, 'upload_videos')
+  );
+
+-- 8. Managing playlists
+DROP POLICY IF EXISTS "Community moderators can manage playlists" ON public.community_playlists;
+
+CREATE POLICY "Community moderators can manage playlists"
+  ON public.community_playlists
+  FOR ALL
+  USING (public.has_community_permission(community_playlists.community_id, 'manage_playlists'))
+  WITH CHECK (public.has_community_permission(community_playlists.community_id, 'manage_playlists'));
+
+DROP POLICY IF EXISTS "Community moderators can manage playlist items" ON public.community_playlist_items;
+
+CREATE POLICY "Community moderators can manage playlist items"
+  ON public.community_playlist_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.community_playlists p
+      WHERE p.id = community_playlist_items.playlist_id
+        AND public.has_community_permission(p.community_id, 'manage_playlists')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.community_playlists p
+      WHERE p.id = community_playlist_items.playlist_id
+        AND public.has_community_permission(p.community_id, 'manage_playlists')
+    )
+  );
@@ -0,0 +1,388 @@
+-- =============================================
+-- CONTENT REPORTS & MODERATION QUEUE
+-- Lets users report posts, comments and DM messages, and lets admins and
+-- community reviewers hide, delete, dismiss or warn with an audit trail
+-- =============================================
+
+-- 1. Warning notifications
+-- NOTE: the new enum value can't be referenced as a literal in this transaction
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'moderation_warning';
+
+-- 2. Moderators can be granted report review
+ALTER TABLE public.community_members
+  DROP CONSTRAINT IF EXISTS community_members_permissions_check;
+
+ALTER TABLE public.community_members
+  ADD CONSTRAINT community_members_permissions_check
+  CHECK (permissions <@ ARRAY['pin_posts', 'delete_comments', 'host_events', 'upload_videos', 'manage_playlists', 'review_reports']::TEXT[]);
+
+COMMENT ON COLUMN public.community_members.permissions IS
+'Permissions granted to a moderator: pin_posts, delete_comments, host_events, upload_videos, manage_playlists, review_reports. Ignored for other roles.';
+
+-- 3. Hidden posts
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.posts.is_hidden IS 'Hidden by a moderator. Only the author, community reviewers and admins can still see it.';
+
+CREATE OR REPLACE FUNCTION public.is_platform_admin(
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = p_user_id AND role = 'admin'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_platform_admin(UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.is_platform_admin IS 'True when the user has the platform admin role.';
+
+DROP POLICY IF EXISTS "Anyone can view posts in active communities" ON public.posts;
+
+CREATE POLICY "Anyone can view posts in active communities"
+  ON public.posts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.communities c
+      WHERE c.id = posts.community_id
+        AND c.is_active = true
+    ) AND (
+      is_hidden = false OR
+      author_id = auth.uid() OR
+      public.has_community_permission(posts.community_id, 'review_reports') OR
+      public.is_platform_admin()
+    )
+  );
+
+-- 4. Reports
+CREATE TABLE IF NOT EXISTS public.content_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'dm_message')),
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  dm_message_id UUID REFERENCES public.dm_messages(id) ON DELETE SET NULL,
+  community_id UUID REFERENCES public.communities(id) ON DELETE CASCADE,
+  reported_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate_speech', 'nudity', 'violence', 'misinformation', 'other')),
+  details TEXT,
+  content_snapshot TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolution_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.content_reports IS 'User reports against posts, comments and DM messages. content_snapshot keeps the reported text after deletion.';
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_status ON public.content_reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_reports_community ON public.content_reports(community_id, status);
+
+-- One open report per reporter and target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reports_open_post
+  ON public.content_reports(reporter_id, post_id)
+  WHERE status = 'open' AND post_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reports_open_dm_message
+  ON public.content_reports(reporter_id, dm_message_id)
+  WHERE status = 'open' AND dm_message_id IS NOT NULL;
+
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+-- Inserts and updates go through the RPCs below
+CREATE POLICY "Users can view their own reports"
+  ON public.content_reports
+  FOR SELECT
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Reviewers can view community reports"
+  ON public.content_reports
+  FOR SELECT
+  USING (
+    public.is_platform_admin() OR
+    (community_id IS NOT NULL AND public.has_community_permission(community_id, 'review_reports'))
+  );
+
+-- 5. Audit trail (append-only: no update or delete policies)
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.content_reports(id) ON DELETE SET NULL,
+  actor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'unhide', 'delete', 'dismiss', 'warn')),
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'dm_message')),
+  post_id UUID,
+  dm_message_id UUID,
+  target_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  community_id UUID REFERENCES public.communities(id) ON DELETE CASCADE,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.moderation_actions IS 'Append-only log of moderation decisions. Written only by resolve_content_report().';
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_community ON public.moderation_actions(community_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created ON public.moderation_actions(created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviewers can view moderation actions"
+  ON public.moderation_actions
+  FOR SELECT
+  USING (
+    public.is_platform_admin() OR
+    (community_id IS NOT NULL AND public.has_community_permission(community_id, 'review_reports'))
+  );
+
+-- 6. Filing a report
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_post RECORD;
+  v_message RECORD;
+  v_report_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_target_type = 'dm_message' THEN
+    SELECT m.id, m.sender_id, m.content INTO v_message
+    FROM public.dm_messages m
+    WHERE m.id = p_target_id
+      AND m.is_deleted = false
+      AND EXISTS (
+        SELECT 1 FROM public.dm_participants dp
+        WHERE dp.thread_id = m.thread_id AND dp.user_id = v_user_id
+      );
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    IF v_message.sender_id = v_user_id THEN
+      RAISE EXCEPTION 'You cannot report your own message';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.content_reports
+      WHERE reporter_id = v_user_id AND dm_message_id = p_target_id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'You have already reported this message';
+    END IF;
+
+    INSERT INTO public.content_reports (
+      reporter_id, target_type, dm_message_id, reported_user_id, reason, details, content_snapshot
+    ) VALUES (
+      v_user_id, 'dm_message', p_target_id, v_message.sender_id, p_reason, NULLIF(trim(p_details), ''), v_message.content
+    ) RETURNING id INTO v_report_id;
+  ELSIF p_target_type IN ('post', 'comment') THEN
+    -- Runs as definer, so check visibility explicitly
+    SELECT p.id, p.author_id, p.community_id, p.content, p.depth INTO v_post
+    FROM public.posts p
+    JOIN public.communities c ON c.id = p.community_id
+    WHERE p.id = p_target_id
+      AND c.is_active = true
+      AND p.is_hidden = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Post not found';
+    END IF;
+
+    IF v_post.author_id = v_user_id THEN
+      RAISE EXCEPTION 'You cannot report your own post';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.content_reports
+      WHERE reporter_id = v_user_id AND post_id = p_target_id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'You have already reported this post';
+    END IF;
+
+    INSERT INTO public.content_reports (
+      reporter_id, target_type, post_id, community_id, reported_user_id, reason, details, content_snapshot
+    ) VALUES (
+      v_user_id,
+      CASE WHEN v_post.depth > 0 THEN 'comment' ELSE 'post' END,
+      p_target_id,
+      v_post.community_id,
+      v_post.author_id,
+      p_reason,
+      NULLIF(trim(p_details), ''),
+      v_post.content
+    ) RETURNING id INTO v_report_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid report target';
+  END IF;
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.report_content(TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.report_content IS 'Files a report against a post, comment or DM message the caller can see.';
+
+-- 7. Resolving a report
+-- hide/delete act on the content and close every open report on it,
+-- dismiss/warn only close this report. Every decision is written to moderation_actions.
+CREATE OR REPLACE FUNCTION public.resolve_content_report(
+  p_report_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_report public.content_reports%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_action NOT IN ('hide', 'delete', 'dismiss', 'warn') THEN
+    RAISE EXCEPTION 'Invalid moderation action';
+  END IF;
+
+  SELECT * INTO v_report
+  FROM public.content_reports
+  WHERE id = p_report_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  -- DM reports have no community, so only admins can act on them
+  IF NOT public.is_platform_admin(v_user_id) AND NOT (
+    v_report.community_id IS NOT NULL AND
+    public.has_community_permission(v_report.community_id, 'review_reports', v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to review this report';
+  END IF;
+
+  IF v_report.status <> 'open' THEN
+    RAISE EXCEPTION 'Report has already been resolved';
+  END IF;
+
+  IF p_action IN ('hide', 'delete') THEN
+    IF v_report.post_id IS NULL AND v_report.dm_message_id IS NULL THEN
+      RAISE EXCEPTION 'The reported content no longer exists';
+    END IF;
+
+    IF v_report.dm_message_id IS NOT NULL THEN
+      -- DMs have no hidden state; both actions soft-delete the message
+      UPDATE public.dm_messages
+      SET is_deleted = true, updated_at = now()
+      WHERE id = v_report.dm_message_id;
+    ELSIF p_action = 'hide' THEN
+      UPDATE public.posts
+      SET is_hidden = true, hidden_at = now(), hidden_by = v_user_id
+      WHERE id = v_report.post_id;
+    END IF;
+
+    UPDATE public.content_reports
+    SET status = 'actioned',
+        resolved_by = v_user_id,
+        resolved_at = now(),
+        resolution_note = NULLIF(trim(p_note), '')
+    WHERE status = 'open'
+      AND (
+        (v_report.post_id IS NOT NULL AND post_id = v_report.post_id) OR
+        (v_report.dm_message_id IS NOT NULL AND dm_message_id = v_report.dm_message_id)
+      );
+
+    -- Log before deleting so the post_id is still recorded
+    INSERT INTO public.moderation_actions (
+      report_id, actor_id, action, target_type, post_id, dm_message_id, target_user_id, community_id, note
+    ) VALUES (
+      p_report_id, v_user_id, p_action, v_report.target_type, v_report.post_id, v_report.dm_message_id,
+      v_report.reported_user_id, v_report.community_id, NULLIF(trim(p_note), '')
+    );
+
+    IF p_action = 'delete' AND v_report.post_id IS NOT NULL THEN
+      DELETE FROM public.posts WHERE id = v_report.post_id;
+    END IF;
+
+    v_status := 'actioned';
+  ELSE
+    v_status := CASE WHEN p_action = 'warn' THEN 'actioned' ELSE 'dismissed' END;
+
+    UPDATE public.content_reports
+    SET status = v_status,
+        resolved_by = v_user_id,
+        resolved_at = now(),
+        resolution_note = NULLIF(trim(p_note), '')
+    WHERE id = p_report_id;
+
+    INSERT INTO public.moderation_actions (
+      report_id, actor_id, action, target_type, post_id, dm_message_id, target_user_id, community_id, note
+    ) VALUES (
+      p_report_id, v_user_id, p_action, v_report.target_type, v_report.post_id, v_report.dm_message_id,
+      v_report.reported_user_id, v_report.community_id, NULLIF(trim(p_note), '')
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'report_id', p_report_id,
+    'action', p_action,
+    'status', v_status,
+    'reported_user_id', v_report.reported_user_id,
+    'community_id', v_report.community_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.resolve_content_report(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.resolve_content_report IS 'Applies a moderation decision (hide, delete, dismiss, warn) to a report and logs it.';
+
+-- 8. Restoring hidden posts
+CREATE OR REPLACE FUNCTION public.unhide_post(
+  p_post_id UUID,
+  p_note TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_post RECORD;
+BEGIN
+  SELECT id, community_id, author_id, depth INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id AND is_hidden = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hidden post not found';
+  END IF;
+
+  IF NOT public.is_platform_admin(v_user_id) AND
+     NOT public.has_community_permission(v_post.community_id, 'review_reports', v_user_id) THEN
+    RAISE EXCEPTION 'You do not have permission to restore this post';
+  END IF;
+
+  UPDATE public.posts
+  SET is_hidden = false, hidden_at = NULL, hidden_by = NULL
+  WHERE id = p_post_id;
+
+  INSERT INTO public.moderation_actions (
+    actor_id, action, target_type, post_id, target_user_id, community_id, note
+  ) VALUES (
+    v_user_id, 'unhide', CASE WHEN v_post.depth > 0 THEN 'comment' ELSE 'post' END,
+    p_post_id, v_post.author_id, v_post.community_id, NULLIF(trim(p_note), '')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.unhide_post(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.unhide_post IS 'Restores a hidden post and logs the decision.';
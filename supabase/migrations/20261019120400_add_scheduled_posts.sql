@@ -0,0 +1,114 @@
+-- =============================================
+-- SCHEDULED POSTS
+-- A top-level post with a future published_at stays invisible to everyone but
+-- its author until that time arrives, and can't be commented on or boosted
+-- =============================================
+
+-- 1. Visibility
+DROP POLICY IF EXISTS "Anyone can view posts in active communities" ON public.posts;
+
+CREATE POLICY "Anyone can view posts in active communities"
+  ON public.posts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.communities c
+      WHERE c.id = posts.community_id
+        AND c.is_active = true
+    ) AND (
+      is_hidden = false OR
+      author_id = auth.uid() OR
+      public.has_community_permission(posts.community_id, 'review_reports') OR
+      public.is_platform_admin()
+    ) AND (
+      published_at <= now() OR
+      author_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Anyone can view post media" ON public.post_media;
+
+CREATE POLICY "Anyone can view post media"
+  ON public.post_media
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.posts p
+      INNER JOIN public.communities c ON c.id = p.community_id
+      WHERE p.id = post_media.post_id
+        AND c.is_active = true
+        AND (p.published_at <= now() OR p.author_id = auth.uid())
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_posts_author_scheduled
+  ON public.posts(author_id, published_at)
+  WHERE depth = 0;
+
+-- 2. Scheduling rules
+-- Runs after set_post_hierarchy (triggers fire in name order), so depth is already set
+CREATE OR REPLACE FUNCTION public.handle_post_schedule()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Only top-level posts can be scheduled
+    IF NEW.depth > 0 AND NEW.published_at > NOW() THEN
+      NEW.published_at := NOW();
+    END IF;
+
+    IF NEW.parent_post_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE id = NEW.parent_post_id
+        AND published_at > NOW()
+    ) THEN
+      RAISE EXCEPTION 'You cannot comment on a post that has not been published yet';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.published_at IS DISTINCT FROM OLD.published_at THEN
+    IF OLD.published_at <= NOW() THEN
+      RAISE EXCEPTION 'Published posts cannot be rescheduled';
+    END IF;
+
+    -- Rescheduling into the past publishes the post right away
+    IF NEW.published_at IS NULL OR NEW.published_at < NOW() THEN
+      NEW.published_at := NOW();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_post_schedule ON public.posts;
+CREATE TRIGGER set_post_schedule
+  BEFORE INSERT OR UPDATE OF published_at ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_post_schedule();
+
+-- 3. No boosts before publishing
+-- boost_post() is SECURITY DEFINER, so guard the table it writes to
+CREATE OR REPLACE FUNCTION public.prevent_boosting_scheduled_posts()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE id = NEW.post_id
+      AND published_at > NOW()
+  ) THEN
+    RAISE EXCEPTION 'This post has not been published yet';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_boosting_scheduled_posts ON public.post_boosts;
+CREATE TRIGGER prevent_boosting_scheduled_posts
+  BEFORE INSERT ON public.post_boosts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_boosting_scheduled_posts();
+
+COMMENT ON FUNCTION public.handle_post_schedule IS 'Keeps scheduling to top-level posts, blocks comments on unpublished posts and prevents rescheduling once published.';
@@ -0,0 +1,106 @@
+-- =============================================
+-- POST DRAFTS
+-- Server-side drafts for the post composer and the edit dialog, so work in
+-- progress survives refreshes and follows the user across devices.
+-- Draft media lives in post-media under {user_id}/drafts/{draft_id}/
+-- =============================================
+
+-- 1. Drafts
+CREATE TABLE IF NOT EXISTS public.post_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES public.communities(id) ON DELETE CASCADE,
+  -- Set when the draft holds unsaved edits to an existing post
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  boost_reward_message TEXT,
+  topic_ids UUID[] NOT NULL DEFAULT '{}',
+  -- [{ storage_path, media_type, file_name, file_size, mime_type, display_order, requires_boost }]
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- requires_boost changes to a post's existing media, keyed by post_media id
+  existing_media_boost JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT post_drafts_media_is_array CHECK (jsonb_typeof(media) = 'array')
+);
+
+COMMENT ON TABLE public.post_drafts IS 'Autosaved post composer and edit drafts. Rows with post_id are pending edits to that post.';
+
+CREATE INDEX IF NOT EXISTS idx_post_drafts_user_community
+  ON public.post_drafts(user_id, community_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_drafts_updated ON public.post_drafts(updated_at);
+
+-- One pending edit per user and post
+CREATE UNIQUE INDEX IF NOT EXISTS idx_post_drafts_user_post
+  ON public.post_drafts(user_id, post_id)
+  WHERE post_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_post_drafts_updated_at ON public.post_drafts;
+CREATE TRIGGER update_post_drafts_updated_at
+  BEFORE UPDATE ON public.post_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Row level security: drafts are private to their owner
+ALTER TABLE public.post_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts"
+  ON public.post_drafts
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own drafts"
+  ON public.post_drafts
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid() AND (
+      post_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.posts p
+        WHERE p.id = post_drafts.post_id
+          AND p.author_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own drafts"
+  ON public.post_drafts
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own drafts"
+  ON public.post_drafts
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- 3. Orphaned draft media
+-- Files under {user_id}/drafts/{draft_id}/ that no draft references any more:
+-- the draft was deleted or expired, or the file was swapped out before the
+-- next autosave. The grace period skips uploads whose draft row isn't saved yet.
+CREATE OR REPLACE FUNCTION public.get_orphaned_draft_media(
+  p_older_than INTERVAL DEFAULT INTERVAL '1 day',
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (storage_path TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.name::TEXT
+  FROM storage.objects o
+  WHERE o.bucket_id = 'post-media'
+    AND (storage.foldername(o.name))[2] = 'drafts'
+    AND o.created_at < NOW() - p_older_than
+    AND NOT EXISTS (
+      SELECT 1 FROM public.post_drafts d
+      WHERE d.id::TEXT = (storage.foldername(o.name))[3]
+        AND d.media @> jsonb_build_array(jsonb_build_object('storage_path', o.name))
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, storage;
+
+REVOKE EXECUTE ON FUNCTION public.get_orphaned_draft_media(INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_orphaned_draft_media(INTERVAL, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.get_orphaned_draft_media IS 'Lists post-media draft files no longer referenced by a draft. Used by the draft cleanup job, which deletes them through the Storage API.';
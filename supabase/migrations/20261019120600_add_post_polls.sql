@@ -0,0 +1,277 @@
+-- =============================================
+-- POST POLLS
+-- A poll attached to a top-level post: single or multiple choice, optional
+-- close time and optionally anonymous. Voting is free and never touches
+-- boosts or earnings.
+-- =============================================
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.post_polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  allows_multiple BOOLEAN NOT NULL DEFAULT false,
+  is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  closes_at TIMESTAMPTZ,
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.post_polls IS 'Poll attached to a post. The post content is the question. Created through create_post_poll().';
+
+CREATE TABLE IF NOT EXISTS public.poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES public.post_polls(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  position INTEGER NOT NULL,
+  vote_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  poll_id UUID NOT NULL REFERENCES public.post_polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_options_poll ON public.poll_options(poll_id, position);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_user ON public.poll_votes(poll_id, user_id);
+
+-- 2. Row level security
+-- Polls follow the visibility of their post (hidden and scheduled posts included).
+-- Writes only go through the functions below.
+ALTER TABLE public.post_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view polls on visible posts"
+  ON public.post_polls
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_polls.post_id
+    )
+  );
+
+CREATE POLICY "Anyone can view options on visible polls"
+  ON public.poll_options
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.post_polls pp
+      WHERE pp.id = poll_options.poll_id
+    )
+  );
+
+-- Who voted for what is only visible on non-anonymous polls
+CREATE POLICY "Users can view their own votes"
+  ON public.poll_votes
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Anyone can view votes on public polls"
+  ON public.poll_votes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.post_polls pp
+      WHERE pp.id = poll_votes.poll_id
+        AND pp.is_anonymous = false
+    )
+  );
+
+-- 3. Create a poll
+CREATE OR REPLACE FUNCTION public.create_post_poll(
+  p_post_id UUID,
+  p_options TEXT[],
+  p_allows_multiple BOOLEAN DEFAULT false,
+  p_is_anonymous BOOLEAN DEFAULT false,
+  p_closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_post RECORD;
+  v_options TEXT[];
+  v_poll_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, author_id, depth, published_at INTO v_post
+  FROM public.posts
+  WHERE id = p_post_id;
+
+  IF NOT FOUND OR v_post.author_id <> v_user_id THEN
+    RAISE EXCEPTION 'Only the post author can add a poll';
+  END IF;
+
+  IF v_post.depth <> 0 THEN
+    RAISE EXCEPTION 'Polls can only be added to posts';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.post_polls WHERE post_id = p_post_id) THEN
+    RAISE EXCEPTION 'This post already has a poll';
+  END IF;
+
+  SELECT array_agg(label ORDER BY ord) INTO v_options
+  FROM (
+    SELECT btrim(label) AS label, MIN(ord) AS ord
+    FROM unnest(p_options) WITH ORDINALITY AS t(label, ord)
+    WHERE btrim(label) <> ''
+    GROUP BY btrim(label)
+  ) cleaned;
+
+  IF COALESCE(array_length(v_options, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least two different options';
+  END IF;
+
+  IF array_length(v_options, 1) > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  IF p_closes_at IS NOT NULL AND p_closes_at <= GREATEST(NOW(), v_post.published_at) THEN
+    RAISE EXCEPTION 'The poll must close after the post is published';
+  END IF;
+
+  INSERT INTO public.post_polls (post_id, allows_multiple, is_anonymous, closes_at)
+  VALUES (p_post_id, COALESCE(p_allows_multiple, false), COALESCE(p_is_anonymous, false), p_closes_at)
+  RETURNING id INTO v_poll_id;
+
+  INSERT INTO public.poll_options (poll_id, label, position)
+  SELECT v_poll_id, label, ord - 1
+  FROM unnest(v_options) WITH ORDINALITY AS t(label, ord);
+
+  RETURN v_poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_post_poll(UUID, TEXT[], BOOLEAN, BOOLEAN, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION public.create_post_poll IS 'Attaches a poll to a top-level post owned by the caller. Blank and duplicate options are dropped; 2-10 options are required.';
+
+-- 4. Vote
+-- Replaces the caller's previous choice; an empty array retracts the vote
+CREATE OR REPLACE FUNCTION public.cast_poll_vote(
+  p_poll_id UUID,
+  p_option_ids UUID[]
+)
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_poll RECORD;
+  v_requested INTEGER;
+  v_valid INTEGER;
+  v_result JSON;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the poll so concurrent votes recount in order
+  SELECT pp.id, pp.allows_multiple, pp.closes_at, p.community_id, p.published_at, p.is_hidden
+  INTO v_poll
+  FROM public.post_polls pp
+  INNER JOIN public.posts p ON p.id = pp.post_id
+  WHERE pp.id = p_poll_id
+  FOR UPDATE OF pp;
+
+  IF NOT FOUND OR v_poll.is_hidden OR v_poll.published_at > NOW() THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF v_poll.closes_at IS NOT NULL AND v_poll.closes_at <= NOW() THEN
+    RAISE EXCEPTION 'This poll is closed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = v_poll.community_id
+      AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only community members can vote';
+  END IF;
+
+  SELECT COUNT(DISTINCT option_id) INTO v_requested
+  FROM unnest(COALESCE(p_option_ids, '{}'::UUID[])) AS option_id;
+
+  SELECT COUNT(*) INTO v_valid
+  FROM public.poll_options
+  WHERE poll_id = p_poll_id
+    AND id = ANY(COALESCE(p_option_ids, '{}'::UUID[]));
+
+  IF v_valid <> v_requested THEN
+    RAISE EXCEPTION 'Invalid poll option';
+  END IF;
+
+  IF NOT v_poll.allows_multiple AND v_valid > 1 THEN
+    RAISE EXCEPTION 'This poll only allows one choice';
+  END IF;
+
+  DELETE FROM public.poll_votes
+  WHERE poll_id = p_poll_id
+    AND user_id = v_user_id;
+
+  INSERT INTO public.poll_votes (poll_id, option_id, user_id)
+  SELECT p_poll_id, id, v_user_id
+  FROM public.poll_options
+  WHERE poll_id = p_poll_id
+    AND id = ANY(COALESCE(p_option_ids, '{}'::UUID[]));
+
+  -- Recount rather than increment so the totals can't drift
+  UPDATE public.poll_options o
+  SET vote_count = (
+    SELECT COUNT(*) FROM public.poll_votes v WHERE v.option_id = o.id
+  )
+  WHERE o.poll_id = p_poll_id;
+
+  UPDATE public.post_polls
+  SET voter_count = (
+    SELECT COUNT(DISTINCT user_id) FROM public.poll_votes WHERE poll_id = p_poll_id
+  )
+  WHERE id = p_poll_id;
+
+  SELECT json_build_object(
+    'poll_id', pp.id,
+    'voter_count', pp.voter_count,
+    'options', (
+      SELECT json_agg(json_build_object('id', o.id, 'vote_count', o.vote_count) ORDER BY o.position)
+      FROM public.poll_options o
+      WHERE o.poll_id = pp.id
+    ),
+    'user_votes', (
+      SELECT COALESCE(json_agg(v.option_id), '[]'::json)
+      FROM public.poll_votes v
+      WHERE v.poll_id = pp.id
+        AND v.user_id = v_user_id
+    )
+  ) INTO v_result
+  FROM public.post_polls pp
+  WHERE pp.id = p_poll_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.cast_poll_vote(UUID, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.cast_poll_vote IS 'Records the caller''s choice on an open poll, replacing any earlier vote, and returns the updated counts.';
+
+-- 5. Realtime
+-- Counts live on post_polls and poll_options, so anonymous votes never hit the wire
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.post_polls;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_options;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,271 @@
+-- =============================================
+-- FULL-TEXT SEARCH
+-- Ranked search over posts, comments, communities, events, uploaded videos,
+-- playlists and members, with highlighted snippets
+-- =============================================
+
+-- 1. Search document helper
+-- Post content is stored as rich text HTML, so tags are stripped before indexing
+CREATE OR REPLACE FUNCTION public.search_document(p_text TEXT)
+RETURNS tsvector AS $$
+  SELECT to_tsvector('english', regexp_replace(COALESCE(p_text, ''), '<[^>]*>', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+COMMENT ON FUNCTION public.search_document IS 'English tsvector of a text column with HTML tags stripped. Used by the full-text search indexes and search_content.';
+
+-- 2. Expression indexes
+-- Expressions must match the ones used in search_content exactly
+CREATE INDEX IF NOT EXISTS idx_posts_search
+  ON public.posts USING GIN (public.search_document(content));
+
+CREATE INDEX IF NOT EXISTS idx_communities_search
+  ON public.communities USING GIN (
+    (setweight(public.search_document(name), 'A') || setweight(public.search_document(description), 'B'))
+  );
+
+-- Events have no title (it was folded into description), so the description is the whole document
+CREATE INDEX IF NOT EXISTS idx_community_events_search
+  ON public.community_events USING GIN (public.search_document(description));
+
+CREATE INDEX IF NOT EXISTS idx_uploaded_videos_search
+  ON public.uploaded_videos USING GIN (
+    (setweight(public.search_document(title), 'A') || setweight(public.search_document(description), 'B'))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_community_playlists_search
+  ON public.community_playlists USING GIN (
+    (setweight(public.search_document(title), 'A') || setweight(public.search_document(description), 'B'))
+  );
+
+-- 3. Community content access
+-- Owners and members who have not lapsed can read a community's posts, events and videos
+CREATE OR REPLACE FUNCTION public.can_view_community_content(
+  p_community_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.communities
+    WHERE id = p_community_id AND owner_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = p_community_id
+      AND user_id = p_user_id
+      AND billing_status <> 'lapsed'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_view_community_content(UUID, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.can_view_community_content IS 'True when the user owns the community or is a member whose billing has not lapsed.';
+
+-- 4. Unified search
+-- SECURITY INVOKER so every table's RLS still applies on top of the membership checks below.
+-- Community descriptions and member names are searchable by anyone; everything else only
+-- inside communities the caller can read. Member results never expose or match on email.
+-- Snippets wrap matches in <mark></mark> and contain no other markup.
+CREATE OR REPLACE FUNCTION public.search_content(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_community_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  community_id UUID,
+  community_slug TEXT,
+  community_name TEXT,
+  post_id UUID,
+  title TEXT,
+  snippet TEXT,
+  image_url TEXT,
+  created_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery;
+  v_pattern TEXT;
+  v_headline_options CONSTANT TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  IF p_query IS NULL OR length(trim(p_query)) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_query := websearch_to_tsquery('english', p_query);
+  v_pattern := '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  p_limit := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+  p_offset := GREATEST(COALESCE(p_offset, 0), 0);
+
+  RETURN QUERY
+  WITH results AS (
+    -- Posts and comments. Comments carry the top-level post they belong to (max depth is 2)
+    SELECT
+      CASE WHEN p.depth = 0 THEN 'post' ELSE 'comment' END AS result_type,
+      p.id,
+      p.community_id,
+      CASE WHEN p.depth = 0 THEN NULL ELSE COALESCE(parent.parent_post_id, p.parent_post_id) END AS post_id,
+      NULL::TEXT AS title,
+      ts_headline('english', regexp_replace(p.content, '<[^>]*>', ' ', 'g'), v_query, v_headline_options) AS snippet,
+      NULL::TEXT AS image_url,
+      p.published_at AS created_at,
+      ts_rank(public.search_document(p.content), v_query) AS rank
+    FROM public.posts p
+    LEFT JOIN public.posts parent ON parent.id = p.parent_post_id
+    WHERE public.search_document(p.content) @@ v_query
+      AND (p_types IS NULL OR (CASE WHEN p.depth = 0 THEN 'post' ELSE 'comment' END) = ANY(p_types))
+      AND (p_community_id IS NULL OR p.community_id = p_community_id)
+      AND (p_from IS NULL OR p.published_at >= p_from)
+      AND (p_to IS NULL OR p.published_at < p_to)
+      AND p.is_hidden = false
+      AND p.published_at <= now()
+      AND public.can_view_community_content(p.community_id)
+
+    UNION ALL
+
+    -- Communities
+    SELECT
+      'community',
+      c.id,
+      c.id,
+      NULL::UUID,
+      c.name,
+      ts_headline('english', COALESCE(c.description, c.name), v_query, v_headline_options),
+      c.logo_url,
+      c.created_at,
+      ts_rank(setweight(public.search_document(c.name), 'A') || setweight(public.search_document(c.description), 'B'), v_query)
+    FROM public.communities c
+    WHERE (setweight(public.search_document(c.name), 'A') || setweight(public.search_document(c.description), 'B')) @@ v_query
+      AND (p_types IS NULL OR 'community' = ANY(p_types))
+      AND (p_community_id IS NULL OR c.id = p_community_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+      AND c.is_active = true
+
+    UNION ALL
+
+    -- Events
+    SELECT
+      'event',
+      e.id,
+      e.community_id,
+      NULL::UUID,
+      NULL::TEXT,
+      ts_headline('english', regexp_replace(e.description, '<[^>]*>', ' ', 'g'), v_query, v_headline_options),
+      NULL::TEXT,
+      e.scheduled_at,
+      ts_rank(public.search_document(e.description), v_query)
+    FROM public.community_events e
+    WHERE public.search_document(e.description) @@ v_query
+      AND (p_types IS NULL OR 'event' = ANY(p_types))
+      AND (p_community_id IS NULL OR e.community_id = p_community_id)
+      AND (p_from IS NULL OR e.scheduled_at >= p_from)
+      AND (p_to IS NULL OR e.scheduled_at < p_to)
+      AND public.can_view_community_content(e.community_id)
+
+    UNION ALL
+
+    -- Uploaded videos
+    SELECT
+      'video',
+      v.id,
+      v.community_id,
+      NULL::UUID,
+      v.title,
+      ts_headline('english', COALESCE(v.description, v.title, ''), v_query, v_headline_options),
+      NULL::TEXT,
+      v.created_at,
+      ts_rank(setweight(public.search_document(v.title), 'A') || setweight(public.search_document(v.description), 'B'), v_query)
+    FROM public.uploaded_videos v
+    WHERE (setweight(public.search_document(v.title), 'A') || setweight(public.search_document(v.description), 'B')) @@ v_query
+      AND (p_types IS NULL OR 'video' = ANY(p_types))
+      AND (p_community_id IS NULL OR v.community_id = p_community_id)
+      AND (p_from IS NULL OR v.created_at >= p_from)
+      AND (p_to IS NULL OR v.created_at < p_to)
+      AND public.can_view_community_content(v.community_id)
+
+    UNION ALL
+
+    -- Playlists (drafts only for people who manage them)
+    SELECT
+      'playlist',
+      pl.id,
+      pl.community_id,
+      NULL::UUID,
+      pl.title,
+      ts_headline('english', COALESCE(pl.description, pl.title), v_query, v_headline_options),
+      NULL::TEXT,
+      COALESCE(pl.published_at, pl.created_at),
+      ts_rank(setweight(public.search_document(pl.title), 'A') || setweight(public.search_document(pl.description), 'B'), v_query)
+    FROM public.community_playlists pl
+    WHERE (setweight(public.search_document(pl.title), 'A') || setweight(public.search_document(pl.description), 'B')) @@ v_query
+      AND (p_types IS NULL OR 'playlist' = ANY(p_types))
+      AND (p_community_id IS NULL OR pl.community_id = p_community_id)
+      AND (p_from IS NULL OR COALESCE(pl.published_at, pl.created_at) >= p_from)
+      AND (p_to IS NULL OR COALESCE(pl.published_at, pl.created_at) < p_to)
+      AND public.can_view_community_content(pl.community_id)
+      AND (pl.status = 'published' OR public.has_community_permission(pl.community_id, 'manage_playlists'))
+
+    UNION ALL
+
+    -- Members: names are short, so substring matching beats stemming here
+    SELECT
+      'member',
+      u.id,
+      NULL::UUID,
+      NULL::UUID,
+      u.username,
+      NULLIF(trim(COALESCE(u.first_name, '') || ' ' || COALESCE(u.last_name, '')), ''),
+      u.profile_picture,
+      u.created_at,
+      (CASE WHEN lower(u.username) = lower(trim(p_query)) THEN 1.0 ELSE 0.5 END)::REAL
+    FROM public.users u
+    WHERE (
+        u.username ILIKE v_pattern
+        OR u.first_name ILIKE v_pattern
+        OR u.last_name ILIKE v_pattern
+        OR (COALESCE(u.first_name, '') || ' ' || COALESCE(u.last_name, '')) ILIKE v_pattern
+      )
+      AND (p_types IS NULL OR 'member' = ANY(p_types))
+      AND (
+        p_community_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.community_members cm
+          WHERE cm.community_id = p_community_id
+            AND cm.user_id = u.id
+        )
+      )
+      AND (p_from IS NULL OR u.created_at >= p_from)
+      AND (p_to IS NULL OR u.created_at < p_to)
+  )
+  SELECT
+    r.result_type,
+    r.id,
+    r.community_id,
+    c.slug,
+    c.name,
+    r.post_id,
+    r.title,
+    r.snippet,
+    r.image_url,
+    r.created_at,
+    r.rank
+  FROM results r
+  LEFT JOIN public.communities c ON c.id = r.community_id
+  ORDER BY r.rank DESC, r.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_content(TEXT, TEXT[], UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_content IS 'Ranked full-text search across posts, comments, communities, events, uploaded videos, playlists and members. Respects RLS and community membership.';
@@ -0,0 +1,195 @@
+-- =============================================
+-- NOTIFICATION PREFERENCES
+-- Per type x channel (in-app, push, email) preferences, quiet hours
+-- and an optional daily or weekly email digest
+-- =============================================
+
+-- 1. Per-type channel preferences
+-- Missing rows mean every channel is on, so existing users keep today's behaviour
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  push BOOLEAN NOT NULL DEFAULT true,
+  email BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+  ON public.notification_preferences
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE public.notification_preferences IS 'Which channels each notification type is delivered on. email controls inclusion in the digest.';
+
+-- 2. Quiet hours and digest settings
+CREATE TABLE IF NOT EXISTS public.notification_settings (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+  quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+  last_digest_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_settings_digest
+  ON public.notification_settings(digest_frequency, last_digest_sent_at)
+  WHERE digest_frequency <> 'off';
+
+-- Reject timezones Postgres can't resolve so quiet hours never fail at delivery time
+CREATE OR REPLACE FUNCTION public.validate_notification_settings()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_notification_settings ON public.notification_settings;
+CREATE TRIGGER validate_notification_settings
+  BEFORE INSERT OR UPDATE OF timezone ON public.notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_notification_settings();
+
+DROP TRIGGER IF EXISTS update_notification_settings_updated_at ON public.notification_settings;
+CREATE TRIGGER update_notification_settings_updated_at
+  BEFORE UPDATE ON public.notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notification_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification settings"
+  ON public.notification_settings
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.notification_settings.quiet_hours_start IS 'Local time in timezone. Ranges may wrap past midnight (22:00-07:00).';
+COMMENT ON COLUMN public.notification_settings.last_digest_sent_at IS 'Set by the digest cron; the next digest covers notifications created after it.';
+
+-- 3. Resolved channels on each notification
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS deliver_in_app BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deliver_push BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deliver_email BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_digest
+  ON public.notifications(user_id, created_at DESC)
+  WHERE deliver_email = true AND is_read = false;
+
+COMMENT ON COLUMN public.notifications.deliver_in_app IS 'False when the user turned in-app off for this type. The row is kept only for push or the digest.';
+COMMENT ON COLUMN public.notifications.deliver_push IS 'False when push is off for this type or the notification arrived during quiet hours.';
+COMMENT ON COLUMN public.notifications.deliver_email IS 'Whether the notification is included in the email digest.';
+
+-- Users only see notifications they want in-app
+DROP POLICY IF EXISTS "Users can view their own notifications" ON public.notifications;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id AND deliver_in_app = true);
+
+-- Marking everything read in-app must not consume digest-only notifications
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id AND deliver_in_app = true)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 4. Quiet hours check
+CREATE OR REPLACE FUNCTION public.is_in_quiet_hours(
+  p_user_id UUID,
+  p_at TIMESTAMPTZ DEFAULT now()
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_settings public.notification_settings%ROWTYPE;
+  v_local_time TIME;
+BEGIN
+  SELECT * INTO v_settings
+  FROM public.notification_settings
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR NOT v_settings.quiet_hours_enabled
+    OR v_settings.quiet_hours_start = v_settings.quiet_hours_end THEN
+    RETURN false;
+  END IF;
+
+  v_local_time := (p_at AT TIME ZONE v_settings.timezone)::TIME;
+
+  IF v_settings.quiet_hours_start < v_settings.quiet_hours_end THEN
+    RETURN v_local_time >= v_settings.quiet_hours_start AND v_local_time < v_settings.quiet_hours_end;
+  END IF;
+
+  -- Range wraps past midnight
+  RETURN v_local_time >= v_settings.quiet_hours_start OR v_local_time < v_settings.quiet_hours_end;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.is_in_quiet_hours IS 'True when the given moment falls inside the user''s quiet hours.';
+
+-- 5. Apply preferences when a notification is written
+-- Runs for every insert path (create_notification and direct inserts).
+-- Returning NULL skips the row entirely when every channel is off.
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS trigger AS $$
+DECLARE
+  v_pref public.notification_preferences%ROWTYPE;
+BEGIN
+  SELECT * INTO v_pref
+  FROM public.notification_preferences
+  WHERE user_id = NEW.user_id AND type = NEW.type;
+
+  IF FOUND THEN
+    IF NOT v_pref.in_app AND NOT v_pref.push AND NOT v_pref.email THEN
+      RETURN NULL;
+    END IF;
+
+    NEW.deliver_in_app := v_pref.in_app;
+    NEW.deliver_push := v_pref.push;
+    NEW.deliver_email := v_pref.email;
+  END IF;
+
+  IF NEW.deliver_push AND public.is_in_quiet_hours(NEW.user_id) THEN
+    NEW.deliver_push := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS apply_notification_preferences ON public.notifications;
+CREATE TRIGGER apply_notification_preferences
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_notification_preferences();
+
+-- 6. Push decision for the server
+-- The sender's session creates notifications for other users, so it can't read their rows directly
+CREATE OR REPLACE FUNCTION public.should_push_notification(p_notification_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT deliver_push AND NOT is_read FROM public.notifications WHERE id = p_notification_id),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.should_push_notification(UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.should_push_notification IS 'Whether a web push should go out for the notification, after type preferences and quiet hours.';
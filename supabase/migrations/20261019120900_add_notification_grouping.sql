@@ -0,0 +1,129 @@
+-- =============================================
+-- NOTIFICATION GROUPING
+-- Collapses high-volume notifications (boosts, comments, follows, messages)
+-- into one unread row per type and target, with throttled push
+-- =============================================
+
+-- 1. Group columns
+-- A group is the single unread row for (user_id, group_key). Once it is read,
+-- the next event starts a new group, so read state always covers the whole group.
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS group_key TEXT,
+  ADD COLUMN IF NOT EXISTS group_count INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS actor_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS last_pushed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_unread_group
+  ON public.notifications(user_id, group_key)
+  WHERE is_read = false AND group_key IS NOT NULL;
+
+COMMENT ON COLUMN public.notifications.group_key IS 'type:target, e.g. post_boost:<post id>. NULL for notifications that are never grouped.';
+COMMENT ON COLUMN public.notifications.group_count IS 'Number of events collapsed into this row.';
+COMMENT ON COLUMN public.notifications.actor_ids IS 'Distinct users behind the events, most recent first.';
+COMMENT ON COLUMN public.notifications.last_pushed_at IS 'When a push last went out for this group. Used to throttle pushes.';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_group_last_pushed
+  ON public.notifications(user_id, group_key, last_pushed_at DESC)
+  WHERE group_key IS NOT NULL;
+
+-- 2. Create or extend a group
+-- Preferences and quiet hours are applied by the apply_notification_preferences trigger,
+-- which also fires for the insert half of ON CONFLICT. Returns NULL when the recipient
+-- has every channel off for the type.
+--
+-- Pushes are throttled, not debounced: the first event after a quiet window pushes
+-- straight away and later events in the window only update the row. Nothing is sent
+-- when a burst ends; those events are counted in the group's next push.
+-- Push-only groups are never seen in the app or the digest, so they are marked read once
+-- pushed and the next event starts a new group instead of growing one unread row forever.
+CREATE OR REPLACE FUNCTION public.create_grouped_notification(
+  p_user_id UUID,
+  p_type notification_type,
+  p_title TEXT,
+  p_body TEXT,
+  p_action_url TEXT,
+  p_metadata JSONB,
+  p_group_key TEXT,
+  p_actor_id UUID DEFAULT NULL,
+  p_group_action_url TEXT DEFAULT NULL,
+  p_push_throttle INTERVAL DEFAULT '5 minutes'
+) RETURNS JSON AS $$
+DECLARE
+  v_notification public.notifications%ROWTYPE;
+  v_last_pushed_at TIMESTAMPTZ;
+  v_should_push BOOLEAN := false;
+BEGIN
+  IF p_group_key IS NULL OR length(p_group_key) = 0 THEN
+    RAISE EXCEPTION 'Group key is required';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, action_url, metadata, group_key, actor_ids)
+  VALUES (
+    p_user_id,
+    p_type,
+    p_title,
+    p_body,
+    p_action_url,
+    COALESCE(p_metadata, '{}'::jsonb),
+    p_group_key,
+    CASE WHEN p_actor_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[p_actor_id] END
+  )
+  ON CONFLICT (user_id, group_key) WHERE is_read = false AND group_key IS NOT NULL
+  DO UPDATE SET
+    title = EXCLUDED.title,
+    body = EXCLUDED.body,
+    action_url = COALESCE(p_group_action_url, EXCLUDED.action_url),
+    metadata = EXCLUDED.metadata,
+    group_count = notifications.group_count + 1,
+    actor_ids = CASE
+      WHEN p_actor_id IS NULL THEN notifications.actor_ids
+      ELSE array_prepend(p_actor_id, array_remove(notifications.actor_ids, p_actor_id))
+    END,
+    deliver_in_app = EXCLUDED.deliver_in_app,
+    deliver_push = EXCLUDED.deliver_push,
+    deliver_email = EXCLUDED.deliver_email,
+    created_at = now()
+  RETURNING * INTO v_notification;
+
+  IF v_notification.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Earlier groups with the same key count too, since push-only groups close after every push
+  SELECT max(last_pushed_at) INTO v_last_pushed_at
+  FROM public.notifications
+  WHERE user_id = p_user_id AND group_key = p_group_key;
+
+  IF v_notification.deliver_push
+    AND (v_last_pushed_at IS NULL OR v_last_pushed_at < now() - p_push_throttle) THEN
+    UPDATE public.notifications
+    SET last_pushed_at = now(),
+        is_read = CASE WHEN deliver_in_app OR deliver_email THEN is_read ELSE true END,
+        read_at = CASE WHEN deliver_in_app OR deliver_email THEN read_at ELSE now() END
+    WHERE id = v_notification.id;
+
+    v_should_push := true;
+  END IF;
+
+  RETURN json_build_object(
+    'id', v_notification.id,
+    'group_count', v_notification.group_count,
+    'actor_ids', v_notification.actor_ids,
+    'action_url', v_notification.action_url,
+    'should_push', v_should_push
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_grouped_notification(UUID, notification_type, TEXT, TEXT, TEXT, JSONB, TEXT, UUID, TEXT, INTERVAL) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.create_grouped_notification IS 'Adds an event to the recipient''s unread group for p_group_key, creating it if needed. should_push is true at most once per throttle window.';
+
+-- 3. Grouped rows can be marked read even when they aren't delivered in-app,
+-- otherwise a push-only group could never be closed by its recipient
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id AND (deliver_in_app = true OR group_key IS NOT NULL))
+  WITH CHECK (auth.uid() = user_id);
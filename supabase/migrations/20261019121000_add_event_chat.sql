@@ -0,0 +1,397 @@
+-- =============================================
+-- EVENT CHAT
+-- Realtime chat during live events: history per event, emoji reactions,
+-- host pin and delete, and slow mode. Registered attendees and hosts can
+-- chat; community members can replay it next to the recording afterwards.
+-- =============================================
+
+-- 1. Slow mode on the event
+ALTER TABLE public.community_events
+  ADD COLUMN IF NOT EXISTS chat_slow_mode_seconds INTEGER NOT NULL DEFAULT 0
+    CHECK (chat_slow_mode_seconds BETWEEN 0 AND 300);
+
+COMMENT ON COLUMN public.community_events.chat_slow_mode_seconds IS 'Minimum seconds between chat messages from the same attendee. 0 turns slow mode off. Hosts are exempt.';
+
+-- 2. Tables
+CREATE TABLE IF NOT EXISTS public.event_chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  reaction_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_pinned BOOLEAN NOT NULL DEFAULT false,
+  pinned_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Deleted messages keep their row (and place in the replay) but lose their content
+  CHECK (
+    (deleted_at IS NULL AND char_length(content) BETWEEN 1 AND 500)
+    OR (deleted_at IS NOT NULL AND content = '')
+  )
+);
+
+COMMENT ON TABLE public.event_chat_messages IS 'Chat messages sent during a community event. Written only through the functions below.';
+COMMENT ON COLUMN public.event_chat_messages.reaction_counts IS 'emoji -> number of users who reacted with it. Kept in sync by toggle_event_chat_reaction().';
+
+CREATE INDEX IF NOT EXISTS idx_event_chat_messages_event ON public.event_chat_messages(event_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_event_chat_messages_user ON public.event_chat_messages(event_id, user_id, created_at DESC);
+
+-- At most one pinned message per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_chat_messages_pinned
+  ON public.event_chat_messages(event_id)
+  WHERE is_pinned = true;
+
+CREATE TABLE IF NOT EXISTS public.event_chat_reactions (
+  message_id UUID NOT NULL REFERENCES public.event_chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+-- 3. Access helpers
+-- Hosts are the event owner and anyone holding host_events in the community
+CREATE OR REPLACE FUNCTION public.can_moderate_event_chat(
+  p_event_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_event RECORD;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT owner_id, community_id INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_event.owner_id = p_user_id
+    OR public.has_community_permission(v_event.community_id, 'host_events', p_user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_moderate_event_chat(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.can_moderate_event_chat IS 'True when the user owns the event or holds host_events in its community.';
+
+-- Hosts and attendees with an active registration can read and post
+CREATE OR REPLACE FUNCTION public.can_join_event_chat(
+  p_event_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.can_moderate_event_chat(p_event_id, p_user_id)
+    OR EXISTS (
+      SELECT 1 FROM public.event_registrations
+      WHERE event_id = p_event_id
+        AND user_id = p_user_id
+        AND cancelled_at IS NULL
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_join_event_chat(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.can_join_event_chat IS 'True when the user can take part in the event chat: hosts and registered attendees.';
+
+-- Once the event has ended, the chat is readable by anyone who can watch its recording
+CREATE OR REPLACE FUNCTION public.can_view_event_chat(
+  p_event_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+BEGIN
+  IF public.can_join_event_chat(p_event_id, p_user_id) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.community_events
+    WHERE id = p_event_id
+      AND status = 'completed'
+      AND public.can_view_community_content(community_id, p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_view_event_chat(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.can_view_event_chat IS 'True when the user can read the event chat, live or as a replay.';
+
+-- 4. Row level security
+-- Writes only go through the functions below
+ALTER TABLE public.event_chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_chat_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Attendees can view event chat messages"
+  ON public.event_chat_messages
+  FOR SELECT
+  USING (public.can_view_event_chat(event_id));
+
+CREATE POLICY "Users can view their own event chat reactions"
+  ON public.event_chat_reactions
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- 5. Send a message
+CREATE OR REPLACE FUNCTION public.send_event_chat_message(
+  p_event_id UUID,
+  p_content TEXT
+) RETURNS public.event_chat_messages AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event RECORD;
+  v_content TEXT := btrim(COALESCE(p_content, ''));
+  v_last_sent_at TIMESTAMPTZ;
+  v_wait INTEGER;
+  v_message public.event_chat_messages%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, status, chat_slow_mode_seconds INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.status <> 'live' THEN
+    RAISE EXCEPTION 'Chat is only open while the event is live';
+  END IF;
+
+  IF NOT public.can_join_event_chat(p_event_id, v_user_id) THEN
+    RAISE EXCEPTION 'Only registered attendees can chat in this event';
+  END IF;
+
+  IF char_length(v_content) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF char_length(v_content) > 500 THEN
+    RAISE EXCEPTION 'Messages can be at most 500 characters';
+  END IF;
+
+  IF v_event.chat_slow_mode_seconds > 0 AND NOT public.can_moderate_event_chat(p_event_id, v_user_id) THEN
+    SELECT created_at INTO v_last_sent_at
+    FROM public.event_chat_messages
+    WHERE event_id = p_event_id AND user_id = v_user_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_last_sent_at IS NOT NULL
+      AND v_last_sent_at > now() - make_interval(secs => v_event.chat_slow_mode_seconds) THEN
+      v_wait := CEIL(EXTRACT(EPOCH FROM (v_last_sent_at + make_interval(secs => v_event.chat_slow_mode_seconds) - now())));
+      RAISE EXCEPTION 'Slow mode is on. You can send another message in % seconds', GREATEST(v_wait, 1);
+    END IF;
+  END IF;
+
+  INSERT INTO public.event_chat_messages (event_id, user_id, content)
+  VALUES (p_event_id, v_user_id, v_content)
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.send_event_chat_message(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.send_event_chat_message IS 'Posts a chat message to a live event, enforcing registration and slow mode.';
+
+-- 6. Reactions
+-- Returns true when the reaction was added, false when it was removed
+CREATE OR REPLACE FUNCTION public.toggle_event_chat_reaction(
+  p_message_id UUID,
+  p_emoji TEXT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_message RECORD;
+  v_added BOOLEAN;
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT m.id, m.event_id, m.deleted_at, e.status INTO v_message
+  FROM public.event_chat_messages m
+  JOIN public.community_events e ON e.id = m.event_id
+  WHERE m.id = p_message_id
+  FOR UPDATE OF m;
+
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.status <> 'live' THEN
+    RAISE EXCEPTION 'Chat is only open while the event is live';
+  END IF;
+
+  IF NOT public.can_join_event_chat(v_message.event_id, v_user_id) THEN
+    RAISE EXCEPTION 'Only registered attendees can react in this event';
+  END IF;
+
+  DELETE FROM public.event_chat_reactions
+  WHERE message_id = p_message_id AND user_id = v_user_id AND emoji = p_emoji;
+
+  v_added := NOT FOUND;
+
+  IF v_added THEN
+    INSERT INTO public.event_chat_reactions (message_id, user_id, emoji)
+    VALUES (p_message_id, v_user_id, p_emoji);
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.event_chat_reactions
+  WHERE message_id = p_message_id AND emoji = p_emoji;
+
+  UPDATE public.event_chat_messages
+  SET reaction_counts = CASE
+    WHEN v_count = 0 THEN reaction_counts - p_emoji
+    ELSE jsonb_set(reaction_counts, ARRAY[p_emoji], to_jsonb(v_count))
+  END
+  WHERE id = p_message_id;
+
+  RETURN v_added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.toggle_event_chat_reaction(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.toggle_event_chat_reaction IS 'Adds or removes the caller''s emoji reaction on a chat message and refreshes its counts.';
+
+-- 7. Host tools
+-- Pinning a message unpins whatever was pinned before
+CREATE OR REPLACE FUNCTION public.set_event_chat_message_pinned(
+  p_message_id UUID,
+  p_is_pinned BOOLEAN
+) RETURNS VOID AS $$
+DECLARE
+  v_message RECORD;
+BEGIN
+  SELECT id, event_id, deleted_at INTO v_message
+  FROM public.event_chat_messages
+  WHERE id = p_message_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF NOT public.can_moderate_event_chat(v_message.event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can pin messages';
+  END IF;
+
+  IF p_is_pinned AND v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be pinned';
+  END IF;
+
+  IF p_is_pinned THEN
+    UPDATE public.event_chat_messages
+    SET is_pinned = false, pinned_at = NULL
+    WHERE event_id = v_message.event_id AND is_pinned = true AND id <> p_message_id;
+  END IF;
+
+  UPDATE public.event_chat_messages
+  SET is_pinned = p_is_pinned,
+      pinned_at = CASE WHEN p_is_pinned THEN now() ELSE NULL END
+  WHERE id = p_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_event_chat_message_pinned(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.set_event_chat_message_pinned IS 'Pins or unpins a chat message. Restricted to event hosts.';
+
+-- Hosts can delete any message, attendees their own
+CREATE OR REPLACE FUNCTION public.delete_event_chat_message(
+  p_message_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_message RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, event_id, user_id, deleted_at INTO v_message
+  FROM public.event_chat_messages
+  WHERE id = p_message_id;
+
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.user_id <> v_user_id AND NOT public.can_moderate_event_chat(v_message.event_id, v_user_id) THEN
+    RAISE EXCEPTION 'Only event hosts can delete other people''s messages';
+  END IF;
+
+  DELETE FROM public.event_chat_reactions WHERE message_id = p_message_id;
+
+  UPDATE public.event_chat_messages
+  SET content = '',
+      reaction_counts = '{}'::jsonb,
+      is_pinned = false,
+      pinned_at = NULL,
+      deleted_at = now(),
+      deleted_by = v_user_id
+  WHERE id = p_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_event_chat_message(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.delete_event_chat_message IS 'Soft-deletes a chat message, clearing its content and reactions.';
+
+-- Hosts may not own the event, so slow mode can't rely on the event UPDATE policy
+CREATE OR REPLACE FUNCTION public.set_event_chat_slow_mode(
+  p_event_id UUID,
+  p_seconds INTEGER
+) RETURNS VOID AS $$
+BEGIN
+  IF NOT public.can_moderate_event_chat(p_event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can change slow mode';
+  END IF;
+
+  IF p_seconds IS NULL OR p_seconds < 0 OR p_seconds > 300 THEN
+    RAISE EXCEPTION 'Slow mode must be between 0 and 300 seconds';
+  END IF;
+
+  UPDATE public.community_events
+  SET chat_slow_mode_seconds = p_seconds
+  WHERE id = p_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_event_chat_slow_mode(UUID, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.set_event_chat_slow_mode IS 'Sets the chat slow mode interval for an event. Restricted to event hosts.';
+
+-- 8. Realtime
+-- New messages, reaction counts, pins and deletes all arrive as message rows;
+-- slow mode changes arrive on the event row
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.event_chat_messages;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.community_events;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
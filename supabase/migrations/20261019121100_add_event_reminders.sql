@@ -0,0 +1,37 @@
+-- =============================================
+-- EVENT REMINDERS
+-- Settings and a per-registration delivery log for the event reminder cron
+-- (/api/events/reminders), which sends event_reminder notifications ahead of
+-- scheduled events and when they go live
+-- =============================================
+
+-- 1. Reminder offsets
+ALTER TABLE public.platform_settings
+  ADD COLUMN IF NOT EXISTS event_reminder_offsets_minutes INTEGER[] NOT NULL DEFAULT '{1440,60}',
+  ADD COLUMN IF NOT EXISTS event_live_reminders_enabled BOOLEAN NOT NULL DEFAULT true;
+
+UPDATE public.platform_settings
+SET
+  event_reminder_offsets_minutes = COALESCE(event_reminder_offsets_minutes, '{1440,60}'),
+  event_live_reminders_enabled = COALESCE(event_live_reminders_enabled, true)
+WHERE id = 1;
+
+COMMENT ON COLUMN public.platform_settings.event_reminder_offsets_minutes IS 'Minutes before scheduled_at to remind registrants, e.g. {1440,60} for 24 hours and 1 hour';
+COMMENT ON COLUMN public.platform_settings.event_live_reminders_enabled IS 'Whether registrants are notified when an event they registered for goes live';
+
+-- 2. Delivery log
+-- One row per registration and reminder, claimed before sending so overlapping
+-- cron runs never remind the same registrant twice
+CREATE TABLE IF NOT EXISTS public.event_reminder_deliveries (
+  registration_id UUID NOT NULL REFERENCES public.event_registrations(id) ON DELETE CASCADE,
+  reminder TEXT NOT NULL, -- Offset in minutes, or 'live'
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'skipped')),
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (registration_id, reminder)
+);
+
+-- Only the service role (the cron) reads or writes deliveries
+ALTER TABLE public.event_reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.event_reminder_deliveries IS 'Event reminders already handled per registration. skipped rows record reminders that were due but not sent.';
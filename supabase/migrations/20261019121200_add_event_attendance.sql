@@ -0,0 +1,56 @@
+-- =============================================
+-- EVENT ATTENDANCE
+-- Join and leave times per call session, written by the GetStream webhook
+-- (/api/stream-webhook) so attendance no longer depends on the browser
+-- =============================================
+
+-- 1. Attendance sessions
+-- One row per participant session; rejoining the call starts a new row
+CREATE TABLE IF NOT EXISTS public.event_attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  stream_session_id TEXT NOT NULL UNIQUE, -- GetStream user_session_id
+  role TEXT,
+  joined_at TIMESTAMPTZ NOT NULL,
+  left_at TIMESTAMPTZ,
+  duration_seconds INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_attendance_event ON public.event_attendance(event_id, joined_at);
+CREATE INDEX IF NOT EXISTS idx_event_attendance_user ON public.event_attendance(user_id);
+
+COMMENT ON TABLE public.event_attendance IS 'Participant sessions reported by GetStream webhooks. left_at is NULL while the participant is still in the call.';
+
+-- 2. Row level security
+-- Written only by the webhook with the service role
+ALTER TABLE public.event_attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own attendance"
+  ON public.event_attendance
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Event hosts can view attendance"
+  ON public.event_attendance
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.community_events e
+      WHERE e.id = event_attendance.event_id
+        AND (e.owner_id = auth.uid() OR public.has_community_permission(e.community_id, 'host_events'))
+    )
+  );
+
+-- 3. One row per GetStream recording
+-- The webhook and the host's browser both import recordings; the unique index lets
+-- them upsert instead of racing a check-then-insert. Earlier duplicates keep the oldest row.
+DELETE FROM public.event_recordings r
+USING public.event_recordings older
+WHERE r.event_id = older.event_id
+  AND r.stream_recording_id = older.stream_recording_id
+  AND (r.created_at, r.id) > (older.created_at, older.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_recordings_event_stream_recording
+  ON public.event_recordings(event_id, stream_recording_id);
@@ -0,0 +1,401 @@
+-- =============================================
+-- EVENT SERIES
+-- Recurring events: a series holds the recurrence rule (weekly, every two
+-- weeks, or monthly on the nth weekday) and ends on a date or after a count.
+-- Occurrences are ordinary community_events rows created up front, so going
+-- live, chat, reminders and recordings work on them unchanged.
+-- =============================================
+
+-- 1. Series
+CREATE TABLE IF NOT EXISTS public.event_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id UUID NOT NULL REFERENCES public.communities(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  description TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly_nth_weekday')),
+  first_occurrence_at TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone the rule is evaluated in, so the local start time survives DST changes
+  ends_on DATE,
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 52),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A series ends on a date or after a number of occurrences, never both
+  CHECK ((ends_on IS NULL) <> (occurrence_count IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_series_community ON public.event_series(community_id);
+
+COMMENT ON TABLE public.event_series IS 'Recurrence rule for a group of community events. Written only through create_event_series() and update_event_occurrence().';
+COMMENT ON COLUMN public.event_series.frequency IS 'weekly, biweekly (every two weeks), or monthly_nth_weekday (same weekday and week of the month as the first occurrence; a fifth week means the last).';
+
+-- 2. Occurrences
+ALTER TABLE public.community_events
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.event_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_index INTEGER,
+  ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_community_events_series
+  ON public.community_events(series_id, series_index)
+  WHERE series_id IS NOT NULL;
+
+COMMENT ON COLUMN public.community_events.series_index IS '0-based position of the occurrence in its series.';
+COMMENT ON COLUMN public.community_events.is_series_exception IS 'True once this occurrence was edited on its own, away from the rest of the series.';
+
+-- 3. Row level security
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view event series"
+  ON public.event_series
+  FOR SELECT
+  USING (public.can_view_community_content(community_id));
+
+-- 4. Expand a rule into occurrence times
+CREATE OR REPLACE FUNCTION public.event_series_occurrences(
+  p_frequency TEXT,
+  p_first_occurrence TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_ends_on DATE,
+  p_occurrence_count INTEGER
+) RETURNS TABLE(series_index INTEGER, scheduled_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_local TIMESTAMP := p_first_occurrence AT TIME ZONE p_timezone;
+  v_weekday INTEGER := EXTRACT(DOW FROM v_local)::INTEGER;
+  v_week INTEGER := CEIL(EXTRACT(DAY FROM v_local) / 7.0)::INTEGER;
+  v_month_start DATE;
+  v_month_end DATE;
+  v_day DATE;
+  v_occurrence TIMESTAMP;
+  v_index INTEGER := 0;
+BEGIN
+  IF p_frequency NOT IN ('weekly', 'biweekly', 'monthly_nth_weekday') THEN
+    RAISE EXCEPTION 'Unknown recurrence: %', p_frequency;
+  END IF;
+
+  WHILE v_index < 52 AND (p_occurrence_count IS NULL OR v_index < p_occurrence_count) LOOP
+    IF p_frequency = 'weekly' THEN
+      v_occurrence := v_local + make_interval(days => v_index * 7);
+    ELSIF p_frequency = 'biweekly' THEN
+      v_occurrence := v_local + make_interval(days => v_index * 14);
+    ELSE
+      v_month_start := (date_trunc('month', v_local) + make_interval(months => v_index))::DATE;
+
+      IF v_week = 5 THEN
+        -- Started in the fifth week, which not every month has: use the last weekday
+        v_month_end := (v_month_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE;
+        v_day := v_month_end - ((EXTRACT(DOW FROM v_month_end)::INTEGER - v_weekday + 7) % 7);
+      ELSE
+        v_day := v_month_start + ((v_weekday - EXTRACT(DOW FROM v_month_start)::INTEGER + 7) % 7) + (v_week - 1) * 7;
+      END IF;
+
+      v_occurrence := v_day + v_local::TIME;
+    END IF;
+
+    EXIT WHEN p_ends_on IS NOT NULL AND v_occurrence::DATE > p_ends_on;
+
+    series_index := v_index;
+    scheduled_at := v_occurrence AT TIME ZONE p_timezone;
+    RETURN NEXT;
+
+    v_index := v_index + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.event_series_occurrences(TEXT, TIMESTAMPTZ, TEXT, DATE, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.event_series_occurrences IS 'Occurrence times for a recurrence rule, capped at 52. src/lib/event-series.ts mirrors this for the create dialog preview.';
+
+-- 5. Create a series
+-- Every occurrence is charged the stream start cost, the same as creating it on its own
+CREATE OR REPLACE FUNCTION public.create_event_series(
+  p_community_id UUID,
+  p_description TEXT,
+  p_frequency TEXT,
+  p_first_occurrence TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_ends_on DATE DEFAULT NULL,
+  p_occurrence_count INTEGER DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_point_cost BIGINT;
+  v_series_id UUID;
+  v_event_id UUID;
+  v_occurrence RECORD;
+  v_created INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_community_permission(p_community_id, 'host_events', v_user_id) THEN
+    RAISE EXCEPTION 'You do not have permission to host events in this community';
+  END IF;
+
+  IF p_first_occurrence <= now() THEN
+    RAISE EXCEPTION 'Event must be scheduled for a future date';
+  END IF;
+
+  IF (p_ends_on IS NULL) = (p_occurrence_count IS NULL) THEN
+    RAISE EXCEPTION 'Choose either an end date or a number of occurrences';
+  END IF;
+
+  IF p_occurrence_count IS NOT NULL AND p_occurrence_count NOT BETWEEN 2 AND 52 THEN
+    RAISE EXCEPTION 'A series can have between 2 and 52 occurrences';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', p_timezone;
+  END IF;
+
+  IF p_ends_on IS NOT NULL AND p_ends_on < (p_first_occurrence AT TIME ZONE p_timezone)::DATE THEN
+    RAISE EXCEPTION 'End date must be after the first occurrence';
+  END IF;
+
+  SELECT COALESCE(NULLIF(stream_start_cost, 0), 1) INTO v_point_cost
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  INSERT INTO public.event_series (
+    community_id, owner_id, description, frequency, first_occurrence_at, timezone, ends_on, occurrence_count
+  )
+  VALUES (
+    p_community_id, v_user_id, NULLIF(btrim(p_description), ''), p_frequency, p_first_occurrence, p_timezone, p_ends_on, p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  FOR v_occurrence IN
+    SELECT * FROM public.event_series_occurrences(p_frequency, p_first_occurrence, p_timezone, p_ends_on, p_occurrence_count)
+  LOOP
+    INSERT INTO public.community_events (
+      community_id, owner_id, description, scheduled_at, status, series_id, series_index
+    )
+    VALUES (
+      p_community_id, v_user_id, NULLIF(btrim(p_description), ''), v_occurrence.scheduled_at, 'scheduled', v_series_id, v_occurrence.series_index
+    )
+    RETURNING id INTO v_event_id;
+
+    -- Raises on insufficient balance, rolling back the whole series
+    PERFORM public.deduct_points_for_stream_creation(v_user_id, v_event_id, COALESCE(v_point_cost, 1));
+
+    v_created := v_created + 1;
+  END LOOP;
+
+  IF v_created < 2 THEN
+    RAISE EXCEPTION 'A series needs at least two occurrences before its end date';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series_id', v_series_id,
+    'occurrences', v_created,
+    'points_charged', v_created * COALESCE(v_point_cost, 1)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_event_series(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT, DATE, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.create_event_series IS 'Creates a series and all of its occurrences, charging the stream start cost for each.';
+
+-- 6. Edit one occurrence, or it and every later one
+-- Later occurrences move by the same amount as this one, keeping the rhythm of the series
+CREATE OR REPLACE FUNCTION public.update_event_occurrence(
+  p_event_id UUID,
+  p_description TEXT,
+  p_scheduled_at TIMESTAMPTZ,
+  p_apply_to_following BOOLEAN DEFAULT false
+) RETURNS INTEGER AS $$
+DECLARE
+  v_event RECORD;
+  v_shift INTERVAL;
+  v_updated INTEGER;
+BEGIN
+  SELECT * INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+    AND owner_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or not owned by you';
+  END IF;
+
+  IF v_event.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Only scheduled events can be edited';
+  END IF;
+
+  IF p_scheduled_at <= now() THEN
+    RAISE EXCEPTION 'Event must be scheduled for a future date';
+  END IF;
+
+  IF NOT p_apply_to_following OR v_event.series_id IS NULL THEN
+    UPDATE public.community_events
+    SET description = NULLIF(btrim(p_description), ''),
+        scheduled_at = p_scheduled_at,
+        is_series_exception = series_id IS NOT NULL,
+        updated_at = now()
+    WHERE id = p_event_id;
+
+    RETURN 1;
+  END IF;
+
+  v_shift := p_scheduled_at - v_event.scheduled_at;
+
+  IF EXISTS (
+    SELECT 1 FROM public.community_events
+    WHERE series_id = v_event.series_id
+      AND series_index >= v_event.series_index
+      AND status = 'scheduled'
+      AND scheduled_at + v_shift <= now()
+  ) THEN
+    RAISE EXCEPTION 'That change would move an occurrence into the past';
+  END IF;
+
+  UPDATE public.community_events
+  SET description = NULLIF(btrim(p_description), ''),
+      scheduled_at = scheduled_at + v_shift,
+      is_series_exception = false,
+      updated_at = now()
+  WHERE series_id = v_event.series_id
+    AND series_index >= v_event.series_index
+    AND status = 'scheduled';
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE public.event_series
+  SET description = NULLIF(btrim(p_description), ''),
+      updated_at = now()
+  WHERE id = v_event.series_id;
+
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.update_event_occurrence(UUID, TEXT, TIMESTAMPTZ, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.update_event_occurrence IS 'Edits a scheduled event, or that occurrence and all later scheduled ones in its series. Returns the number of events updated.';
+
+-- 7. Cancel a single occurrence
+-- Same refunds as cancel_event_and_refund_all; the rest of the series is untouched
+CREATE OR REPLACE FUNCTION public.cancel_event_occurrence(
+  p_event_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_event RECORD;
+  v_registration_id UUID;
+  v_refunded_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+    AND owner_id = auth.uid()
+    AND status IN ('scheduled', 'live')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found, not owned by you, or cannot be cancelled';
+  END IF;
+
+  IF v_event.points_charged > 0 THEN
+    INSERT INTO public.wallets (user_id)
+    VALUES (v_event.owner_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    UPDATE public.wallets
+    SET points_balance = points_balance + v_event.points_charged,
+        updated_at = now()
+    WHERE user_id = v_event.owner_id;
+
+    INSERT INTO public.transactions (user_id, type, points_delta, recipient_user_id, status, created_at)
+    VALUES (v_event.owner_id, 'point_refund', v_event.points_charged, v_event.owner_id, 'verified', now());
+  END IF;
+
+  FOR v_registration_id IN
+    SELECT id FROM public.event_registrations
+    WHERE event_id = p_event_id
+      AND cancelled_at IS NULL
+  LOOP
+    PERFORM public.refund_event_registration(v_registration_id, 'event_cancelled');
+    v_refunded_count := v_refunded_count + 1;
+  END LOOP;
+
+  UPDATE public.community_events
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object(
+    'cancelled', true,
+    'refunded_registrations', v_refunded_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.cancel_event_occurrence(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.cancel_event_occurrence IS 'Cancels one event of a series, refunding its registrations through refund_event_registration() and the creation cost to the owner.';
+
+-- 8. Register for a whole series
+-- Registers for every upcoming occurrence the user isn't already registered for
+CREATE OR REPLACE FUNCTION public.register_for_event_series(
+  p_series_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_series RECORD;
+  v_point_cost BIGINT;
+  v_event_id UUID;
+  v_registered INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, owner_id, community_id INTO v_series
+  FROM public.event_series
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  IF v_series.owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You host this series';
+  END IF;
+
+  SELECT COALESCE(NULLIF(stream_join_cost, 0), 1) INTO v_point_cost
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  FOR v_event_id IN
+    SELECT e.id FROM public.community_events e
+    WHERE e.series_id = p_series_id
+      AND e.status = 'scheduled'
+      AND e.scheduled_at > now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.event_registrations r
+        WHERE r.event_id = e.id
+          AND r.user_id = v_user_id
+          AND r.cancelled_at IS NULL
+      )
+    ORDER BY e.scheduled_at
+  LOOP
+    -- Raises on insufficient balance, rolling back every registration made here
+    PERFORM public.deduct_points_for_stream_join(v_user_id, v_event_id, COALESCE(v_point_cost, 1));
+    v_registered := v_registered + 1;
+  END LOOP;
+
+  IF v_registered = 0 THEN
+    RAISE EXCEPTION 'You are already registered for every upcoming event in this series';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'registered', v_registered,
+    'points_charged', v_registered * COALESCE(v_point_cost, 1)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.register_for_event_series(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.register_for_event_series IS 'Registers the current user for all upcoming occurrences of a series in one transaction, at the stream join cost each.';
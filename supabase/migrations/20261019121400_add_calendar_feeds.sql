@@ -0,0 +1,36 @@
+-- =============================================
+-- CALENDAR FEEDS
+-- A private token per user for subscribing to their events from Google
+-- Calendar, Apple Calendar or Outlook (/api/calendar/feed/<token>). The feed is
+-- served with the service role, so the token is the only credential.
+-- =============================================
+
+-- 1. Feed tokens
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE CHECK (char_length(token) >= 32),
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Secret calendar feed token per user. Replacing the token revokes the old feed URL.';
+
+-- 2. Row level security
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feed token"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their calendar feed token"
+  ON public.calendar_feed_tokens
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can replace their calendar feed token"
+  ON public.calendar_feed_tokens
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
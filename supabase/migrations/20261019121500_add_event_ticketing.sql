@@ -0,0 +1,798 @@
+-- =============================================
+-- EVENT TICKETING
+-- Per-event join price overriding platform_settings.stream_join_cost,
+-- early-bird price tiers, a cap on attendees, and a waitlist that registers
+-- (and charges) the next person in line when a spot opens.
+-- =============================================
+
+-- 1. Price and capacity on the event
+ALTER TABLE public.community_events
+  ADD COLUMN IF NOT EXISTS join_cost BIGINT CHECK (join_cost > 0),
+  ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity > 0);
+
+COMMENT ON COLUMN public.community_events.join_cost IS 'Points to register once early-bird tiers have ended. NULL uses platform_settings.stream_join_cost.';
+COMMENT ON COLUMN public.community_events.capacity IS 'Maximum active registrations. NULL means unlimited.';
+
+-- 2. Early-bird tiers
+-- The tier with the earliest ends_at still in the future sets the price
+CREATE TABLE IF NOT EXISTS public.event_price_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  points_cost BIGINT NOT NULL CHECK (points_cost > 0),
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (event_id, ends_at)
+);
+
+COMMENT ON TABLE public.event_price_tiers IS 'Early-bird prices for an event, each valid until ends_at. Written only through update_event_ticketing().';
+
+-- 3. Waitlist
+CREATE TABLE IF NOT EXISTS public.event_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  points_quoted BIGINT NOT NULL CHECK (points_quoted > 0), -- price when they joined; they're never charged more
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'promoted', 'left', 'failed', 'removed')),
+  registration_id UUID REFERENCES public.event_registrations(id) ON DELETE SET NULL,
+  failure_reason TEXT,
+  promoted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_waitlist_waiting
+  ON public.event_waitlist(event_id, user_id)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_event_waitlist_queue
+  ON public.event_waitlist(event_id, created_at)
+  WHERE status = 'waiting';
+
+COMMENT ON TABLE public.event_waitlist IS 'Queue for full events. failed means promotion was attempted but the charge didn''t go through; removed means the event was cancelled or ended.';
+
+-- 4. Row level security
+-- Writes only go through the functions below
+ALTER TABLE public.event_price_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_waitlist ENABLE ROW LEVEL SECURITY;
+
+-- Registrations are written by register_event_attendee() and refund_event_registration()
+-- (and joined_at by the GetStream webhook). A direct insert would skip capacity, the
+-- waitlist and pricing, and an update could rewrite the charged split a refund pays back.
+DROP POLICY IF EXISTS "Users can register for events" ON public.event_registrations;
+DROP POLICY IF EXISTS "Users can update their own registrations" ON public.event_registrations;
+
+-- Visible to whoever can see the event
+CREATE POLICY "Users can view price tiers of visible events"
+  ON public.event_price_tiers
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.community_events e WHERE e.id = event_price_tiers.event_id));
+
+CREATE POLICY "Users can view their own waitlist entries"
+  ON public.event_waitlist
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Event hosts can view the waitlist"
+  ON public.event_waitlist
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.community_events e
+      WHERE e.id = event_waitlist.event_id
+        AND (e.owner_id = auth.uid() OR public.has_community_permission(e.community_id, 'host_events'))
+    )
+  );
+
+-- 5. Current price
+CREATE OR REPLACE FUNCTION public.get_event_join_cost(
+  p_event_id UUID
+) RETURNS BIGINT AS $$
+  SELECT COALESCE(
+    (
+      SELECT points_cost FROM public.event_price_tiers
+      WHERE event_id = p_event_id AND ends_at > now()
+      ORDER BY ends_at
+      LIMIT 1
+    ),
+    (SELECT join_cost FROM public.community_events WHERE id = p_event_id),
+    (SELECT NULLIF(stream_join_cost, 0) FROM public.platform_settings WHERE id = 1),
+    1
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_event_join_cost(UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.get_event_join_cost IS 'Points to register for an event right now: the active early-bird tier, else the event price, else the platform default.';
+
+-- 6. Registration
+-- Which balances paid for it, so a refund goes back where it came from
+ALTER TABLE public.event_registrations
+  ADD COLUMN IF NOT EXISTS wallet_points_charged BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS earnings_points_charged BIGINT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.event_registrations.wallet_points_charged IS 'Part of points_charged taken from points_balance';
+COMMENT ON COLUMN public.event_registrations.earnings_points_charged IS 'Part of points_charged taken from earnings_points';
+
+-- Shared by direct registration and waitlist promotion. Locks the event row so
+-- concurrent registrations can't overfill it.
+CREATE OR REPLACE FUNCTION public.register_event_attendee(
+  p_user_id UUID,
+  p_event_id UUID,
+  p_point_cost BIGINT,
+  p_from_waitlist BOOLEAN DEFAULT false
+) RETURNS UUID AS $$
+DECLARE
+  v_event RECORD;
+  v_taken INTEGER;
+  v_tx_id UUID;
+  v_registration_id UUID;
+  v_existing RECORD;
+  v_ledger_id UUID;
+  v_wallet_spent BIGINT;
+  v_earnings_spent BIGINT;
+BEGIN
+  IF p_point_cost IS NULL OR p_point_cost <= 0 THEN
+    RAISE EXCEPTION 'Point cost must be greater than zero';
+  END IF;
+
+  SELECT owner_id, status, capacity INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Event is not available for registration (current status: %)', v_event.status;
+  END IF;
+
+  SELECT id, cancelled_at INTO v_existing
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND user_id = p_user_id
+  ORDER BY registered_at DESC
+  LIMIT 1;
+
+  IF v_existing.id IS NOT NULL AND v_existing.cancelled_at IS NULL THEN
+    RAISE EXCEPTION 'Already registered for this event';
+  END IF;
+
+  IF v_event.capacity IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_taken
+    FROM public.event_registrations
+    WHERE event_id = p_event_id AND cancelled_at IS NULL;
+
+    -- People already waiting get open spots before anyone new
+    IF v_taken >= v_event.capacity OR (
+      NOT p_from_waitlist AND EXISTS (
+        SELECT 1 FROM public.event_waitlist
+        WHERE event_id = p_event_id AND status = 'waiting' AND user_id <> p_user_id
+      )
+    ) THEN
+      RAISE EXCEPTION 'This event is full. Join the waitlist to be registered when a spot opens';
+    END IF;
+  END IF;
+
+  -- Debit from combined balance (points_balance first, then earnings_points)
+  SELECT wallet_points_spent, earnings_points_spent
+  INTO v_wallet_spent, v_earnings_spent
+  FROM public.debit_user_points(p_user_id, p_point_cost);
+
+  INSERT INTO public.transactions (user_id, type, points_delta, recipient_user_id, status, created_at, context)
+  VALUES (
+    p_user_id,
+    'point_spend',
+    -p_point_cost,
+    v_event.owner_id,
+    'verified',
+    now(),
+    jsonb_build_object(
+      'source', 'event_registration',
+      'event_id', p_event_id,
+      'wallet_points_spent', v_wallet_spent,
+      'earnings_points_spent', v_earnings_spent
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  IF v_existing.id IS NOT NULL THEN
+    UPDATE public.event_registrations
+    SET points_charged = p_point_cost,
+        wallet_points_charged = v_wallet_spent,
+        earnings_points_charged = v_earnings_spent,
+        registered_at = now(),
+        cancelled_at = NULL,
+        refunded_at = NULL,
+        joined_at = NULL,
+        earnings_ledger_id = NULL
+    WHERE id = v_existing.id
+    RETURNING id INTO v_registration_id;
+  ELSE
+    INSERT INTO public.event_registrations (event_id, user_id, points_charged, wallet_points_charged, earnings_points_charged)
+    VALUES (p_event_id, p_user_id, p_point_cost, v_wallet_spent, v_earnings_spent)
+    RETURNING id INTO v_registration_id;
+  END IF;
+
+  -- Signature: (p_user_id, p_points, p_amount_ttd, p_source_type, p_source_id, p_community_id, p_available_delay_seconds, p_metadata)
+  v_ledger_id := public.credit_user_earnings(
+    v_event.owner_id,
+    p_point_cost,
+    NULL,
+    'event_registration',
+    v_registration_id,
+    NULL,
+    0,
+    jsonb_build_object('event_id', p_event_id, 'registration_id', v_registration_id, 'from_user_id', p_user_id)
+  );
+
+  UPDATE public.event_registrations
+  SET earnings_ledger_id = v_ledger_id
+  WHERE id = v_registration_id;
+
+  -- A waitlisted user who got in counts as promoted however they registered
+  UPDATE public.event_waitlist
+  SET status = 'promoted',
+      registration_id = v_registration_id,
+      promoted_at = now(),
+      updated_at = now()
+  WHERE event_id = p_event_id
+    AND user_id = p_user_id
+    AND status = 'waiting';
+
+  RETURN v_tx_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.register_event_attendee(UUID, UUID, BIGINT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.register_event_attendee IS 'Charges and registers a user, enforcing capacity. Internal: called by deduct_points_for_stream_join() and promote_event_waitlist().';
+
+-- The client passes the price it showed; a tier ending in between never charges more than that
+CREATE OR REPLACE FUNCTION public.deduct_points_for_stream_join(
+  p_user_id UUID,
+  p_event_id UUID,
+  p_point_cost BIGINT
+) RETURNS UUID AS $$
+DECLARE
+  v_price BIGINT := public.get_event_join_cost(p_event_id);
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'You can only register for events as yourself';
+  END IF;
+
+  IF p_point_cost IS NULL OR p_point_cost < v_price THEN
+    RAISE EXCEPTION 'The price for this event is now % point(s)', v_price;
+  END IF;
+
+  RETURN public.register_event_attendee(p_user_id, p_event_id, v_price, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.deduct_points_for_stream_join(UUID, UUID, BIGINT) TO authenticated;
+
+-- 7. Waitlist promotion
+-- Fills open spots from the front of the queue. Anyone whose charge fails is
+-- marked failed and skipped, so one empty wallet can't block the rest.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(
+  p_event_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_event RECORD;
+  v_entry RECORD;
+  v_taken INTEGER;
+  v_promoted INTEGER := 0;
+BEGIN
+  SELECT e.status, e.capacity, c.slug AS community_slug INTO v_event
+  FROM public.community_events e
+  JOIN public.communities c ON c.id = e.community_id
+  WHERE e.id = p_event_id;
+
+  IF NOT FOUND OR v_event.status NOT IN ('scheduled', 'live') THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    IF v_event.capacity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_taken
+      FROM public.event_registrations
+      WHERE event_id = p_event_id AND cancelled_at IS NULL;
+
+      EXIT WHEN v_taken >= v_event.capacity;
+    END IF;
+
+    SELECT * INTO v_entry
+    FROM public.event_waitlist
+    WHERE event_id = p_event_id AND status = 'waiting'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    EXIT WHEN NOT FOUND;
+
+    BEGIN
+      PERFORM public.register_event_attendee(
+        v_entry.user_id,
+        p_event_id,
+        LEAST(v_entry.points_quoted, public.get_event_join_cost(p_event_id)),
+        true
+      );
+
+      INSERT INTO public.notifications (user_id, type, title, body, action_url, metadata)
+      VALUES (
+        v_entry.user_id,
+        'event_reminder',
+        'You''re off the waitlist',
+        'A spot opened up and you''re now registered for the event.',
+        '/' || v_event.community_slug || '/events',
+        jsonb_build_object('event_id', p_event_id, 'waitlist_id', v_entry.id, 'reason', 'waitlist_promoted')
+      );
+
+      v_promoted := v_promoted + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.event_waitlist
+      SET status = 'failed',
+          failure_reason = SQLERRM,
+          updated_at = now()
+      WHERE id = v_entry.id;
+    END;
+  END LOOP;
+
+  RETURN v_promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.promote_event_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.promote_event_waitlist IS 'Registers waitlisted users into open spots in queue order. Returns how many were promoted.';
+
+-- 8. Refunds free a spot
+-- Same as before, then hands the spot to the waitlist
+CREATE OR REPLACE FUNCTION public.refund_event_registration(
+  p_registration_id UUID,
+  p_reason TEXT DEFAULT 'user_requested'
+) RETURNS UUID AS $$
+DECLARE
+  v_registration RECORD;
+  v_tx_id UUID;
+  v_wallet_refund BIGINT;
+  v_earnings_refund BIGINT;
+BEGIN
+  SELECT er.*, ce.owner_id
+  INTO v_registration
+  FROM public.event_registrations er
+  JOIN public.community_events ce ON ce.id = er.event_id
+  WHERE er.id = p_registration_id
+    AND er.cancelled_at IS NULL
+  FOR UPDATE;
+
+  IF v_registration.id IS NULL THEN
+    RAISE EXCEPTION 'Registration not found or already cancelled';
+  END IF;
+
+  -- The attendee cancelling, or the owner cancelling the event. The service role has no auth.uid().
+  IF auth.uid() IS NOT NULL AND auth.uid() NOT IN (v_registration.user_id, v_registration.owner_id) THEN
+    RAISE EXCEPTION 'Only the attendee or the event owner can cancel this registration';
+  END IF;
+
+  INSERT INTO public.wallets (user_id)
+  VALUES (v_registration.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Registrations from before the split was recorded go back to points_balance
+  IF v_registration.wallet_points_charged + v_registration.earnings_points_charged = v_registration.points_charged THEN
+    v_wallet_refund := v_registration.wallet_points_charged;
+  ELSE
+    v_wallet_refund := v_registration.points_charged;
+  END IF;
+  v_earnings_refund := v_registration.points_charged - v_wallet_refund;
+
+  UPDATE public.wallets
+  SET points_balance = points_balance + v_wallet_refund,
+      earnings_points = earnings_points + v_earnings_refund,
+      updated_at = now()
+  WHERE user_id = v_registration.user_id;
+
+  INSERT INTO public.transactions (user_id, type, points_delta, earnings_points_delta, recipient_user_id, status, created_at, context)
+  VALUES (
+    v_registration.user_id,
+    'point_refund',
+    v_wallet_refund,
+    v_earnings_refund,
+    v_registration.user_id,
+    'verified',
+    now(),
+    jsonb_build_object('source', 'event_registration', 'registration_id', p_registration_id, 'reason', p_reason)
+  )
+  RETURNING id INTO v_tx_id;
+
+  IF v_registration.earnings_ledger_id IS NOT NULL THEN
+    PERFORM public.reverse_earnings_entry(v_registration.earnings_ledger_id, p_reason);
+  END IF;
+
+  UPDATE public.event_registrations
+  SET cancelled_at = now(),
+      refunded_at = now(),
+      earnings_ledger_id = NULL
+  WHERE id = p_registration_id;
+
+  -- No-op once the event itself is cancelled or over
+  PERFORM public.promote_event_waitlist(v_registration.event_id);
+
+  RETURN v_tx_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancelling an occurrence marks it cancelled before refunding, so the freed
+-- spots aren't handed to the waitlist
+CREATE OR REPLACE FUNCTION public.cancel_event_occurrence(
+  p_event_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_event RECORD;
+  v_registration_id UUID;
+  v_refunded_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+    AND owner_id = auth.uid()
+    AND status IN ('scheduled', 'live')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found, not owned by you, or cannot be cancelled';
+  END IF;
+
+  UPDATE public.community_events
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_event_id;
+
+  IF v_event.points_charged > 0 THEN
+    INSERT INTO public.wallets (user_id)
+    VALUES (v_event.owner_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    UPDATE public.wallets
+    SET points_balance = points_balance + v_event.points_charged,
+        updated_at = now()
+    WHERE user_id = v_event.owner_id;
+
+    INSERT INTO public.transactions (user_id, type, points_delta, recipient_user_id, status, created_at)
+    VALUES (v_event.owner_id, 'point_refund', v_event.points_charged, v_event.owner_id, 'verified', now());
+  END IF;
+
+  FOR v_registration_id IN
+    SELECT id FROM public.event_registrations
+    WHERE event_id = p_event_id
+      AND cancelled_at IS NULL
+  LOOP
+    PERFORM public.refund_event_registration(v_registration_id, 'event_cancelled');
+    v_refunded_count := v_refunded_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'cancelled', true,
+    'refunded_registrations', v_refunded_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Nobody is left waiting on an event that was cancelled or has ended
+CREATE OR REPLACE FUNCTION public.close_event_waitlist()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.event_waitlist
+  SET status = 'removed',
+      updated_at = now()
+  WHERE event_id = NEW.id
+    AND status = 'waiting';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS close_event_waitlist ON public.community_events;
+CREATE TRIGGER close_event_waitlist
+  AFTER UPDATE OF status ON public.community_events
+  FOR EACH ROW
+  WHEN (NEW.status IN ('cancelled', 'completed') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.close_event_waitlist();
+
+-- 9. Joining and leaving the waitlist
+-- Nothing is charged until promotion, but the wallet must cover the price now
+CREATE OR REPLACE FUNCTION public.join_event_waitlist(
+  p_event_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event RECORD;
+  v_taken INTEGER;
+  v_price BIGINT;
+  v_available BIGINT;
+  v_entry_created_at TIMESTAMPTZ;
+  v_position INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT owner_id, status, capacity INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.status NOT IN ('scheduled', 'live') THEN
+    RAISE EXCEPTION 'Event is not available for registration (current status: %)', v_event.status;
+  END IF;
+
+  IF v_event.owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You host this event';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_registrations
+    WHERE event_id = p_event_id AND user_id = v_user_id AND cancelled_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Already registered for this event';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_waitlist
+    WHERE event_id = p_event_id AND user_id = v_user_id AND status = 'waiting'
+  ) THEN
+    RAISE EXCEPTION 'You are already on the waitlist';
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND cancelled_at IS NULL;
+
+  IF v_event.capacity IS NULL OR v_taken < v_event.capacity THEN
+    RAISE EXCEPTION 'This event has open spots. Register instead';
+  END IF;
+
+  v_price := public.get_event_join_cost(p_event_id);
+
+  SELECT points_balance + earnings_points INTO v_available
+  FROM public.wallets
+  WHERE user_id = v_user_id;
+
+  IF COALESCE(v_available, 0) < v_price THEN
+    RAISE EXCEPTION 'You need at least % point(s) to join the waitlist', v_price;
+  END IF;
+
+  INSERT INTO public.event_waitlist (event_id, user_id, points_quoted)
+  VALUES (p_event_id, v_user_id, v_price)
+  RETURNING created_at INTO v_entry_created_at;
+
+  SELECT COUNT(*) INTO v_position
+  FROM public.event_waitlist
+  WHERE event_id = p_event_id
+    AND status = 'waiting'
+    AND created_at <= v_entry_created_at;
+
+  RETURN v_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.join_event_waitlist(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.join_event_waitlist IS 'Adds the current user to a full event''s waitlist at today''s price. Returns their position.';
+
+CREATE OR REPLACE FUNCTION public.leave_event_waitlist(
+  p_event_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE public.event_waitlist
+  SET status = 'left',
+      updated_at = now()
+  WHERE event_id = p_event_id
+    AND user_id = auth.uid()
+    AND status = 'waiting';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not on the waitlist for this event';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.leave_event_waitlist(UUID) TO authenticated;
+
+-- Queue length per event and the caller's place in it
+CREATE OR REPLACE FUNCTION public.get_event_waitlist_summary(
+  p_event_ids UUID[]
+) RETURNS TABLE(event_id UUID, waiting_count INTEGER, my_position INTEGER) AS $$
+  SELECT
+    w.event_id,
+    COUNT(*)::INTEGER AS waiting_count,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.event_waitlist mine
+      JOIN public.event_waitlist ahead
+        ON ahead.event_id = mine.event_id
+        AND ahead.status = 'waiting'
+        AND ahead.created_at <= mine.created_at
+      WHERE mine.event_id = w.event_id
+        AND mine.user_id = auth.uid()
+        AND mine.status = 'waiting'
+    ) AS my_position
+  FROM public.event_waitlist w
+  WHERE w.event_id = ANY(p_event_ids)
+    AND w.status = 'waiting'
+  GROUP BY w.event_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_event_waitlist_summary(UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.get_event_waitlist_summary IS 'Waitlist length for each event, and the current user''s position (0 when not waiting).';
+
+-- 10. Owner settings
+-- Price and capacity can also be copied to the rest of a series; early-bird
+-- tiers have fixed end times, so they stay on this event
+CREATE OR REPLACE FUNCTION public.update_event_ticketing(
+  p_event_id UUID,
+  p_join_cost BIGINT,
+  p_capacity INTEGER,
+  p_price_tiers JSONB DEFAULT '[]'::jsonb,
+  p_apply_to_following BOOLEAN DEFAULT false
+) RETURNS VOID AS $$
+DECLARE
+  v_event RECORD;
+  v_tier JSONB;
+  v_tier_ends_at TIMESTAMPTZ;
+  v_target_id UUID;
+BEGIN
+  SELECT * INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+    AND owner_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or not owned by you';
+  END IF;
+
+  IF v_event.status NOT IN ('scheduled', 'live') THEN
+    RAISE EXCEPTION 'Tickets can only be changed before the event ends';
+  END IF;
+
+  IF p_join_cost IS NOT NULL AND p_join_cost <= 0 THEN
+    RAISE EXCEPTION 'Price must be greater than zero';
+  END IF;
+
+  IF p_capacity IS NOT NULL AND p_capacity <= 0 THEN
+    RAISE EXCEPTION 'Capacity must be greater than zero';
+  END IF;
+
+  IF p_capacity IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.community_events e
+    WHERE (
+        e.id = p_event_id
+        OR (p_apply_to_following AND e.series_id = v_event.series_id AND e.series_index >= v_event.series_index AND e.status = 'scheduled')
+      )
+      AND (
+        SELECT COUNT(*) FROM public.event_registrations r
+        WHERE r.event_id = e.id AND r.cancelled_at IS NULL
+      ) > p_capacity
+  ) THEN
+    RAISE EXCEPTION 'Capacity can''t be lower than the number of people already registered';
+  END IF;
+
+  DELETE FROM public.event_price_tiers WHERE event_id = p_event_id;
+
+  FOR v_tier IN SELECT * FROM jsonb_array_elements(COALESCE(p_price_tiers, '[]'::jsonb))
+  LOOP
+    v_tier_ends_at := (v_tier->>'ends_at')::TIMESTAMPTZ;
+
+    IF (v_tier->>'points_cost')::BIGINT IS NULL OR (v_tier->>'points_cost')::BIGINT <= 0 THEN
+      RAISE EXCEPTION 'Early-bird prices must be greater than zero';
+    END IF;
+
+    IF v_tier_ends_at IS NULL OR v_tier_ends_at > v_event.scheduled_at THEN
+      RAISE EXCEPTION 'Early-bird prices must end before the event starts';
+    END IF;
+
+    INSERT INTO public.event_price_tiers (event_id, points_cost, ends_at)
+    VALUES (p_event_id, (v_tier->>'points_cost')::BIGINT, v_tier_ends_at);
+  END LOOP;
+
+  FOR v_target_id IN
+    SELECT id FROM public.community_events
+    WHERE id = p_event_id
+      OR (p_apply_to_following AND v_event.series_id IS NOT NULL
+        AND series_id = v_event.series_id AND series_index >= v_event.series_index AND status = 'scheduled')
+  LOOP
+    UPDATE public.community_events
+    SET join_cost = p_join_cost,
+        capacity = p_capacity,
+        updated_at = now()
+    WHERE id = v_target_id;
+
+    -- A raised or removed cap opens spots for people waiting
+    PERFORM public.promote_event_waitlist(v_target_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.update_event_ticketing(UUID, BIGINT, INTEGER, JSONB, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.update_event_ticketing IS 'Sets an event''s price, capacity and early-bird tiers (tiers: [{points_cost, ends_at}]). NULL price or capacity means the platform default or unlimited.';
+
+-- 11. Series registration uses each occurrence's price and skips full ones
+CREATE OR REPLACE FUNCTION public.register_for_event_series(
+  p_series_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_series RECORD;
+  v_event RECORD;
+  v_price BIGINT;
+  v_registered INTEGER := 0;
+  v_full INTEGER := 0;
+  v_points_charged BIGINT := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, owner_id INTO v_series
+  FROM public.event_series
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  IF v_series.owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You host this series';
+  END IF;
+
+  FOR v_event IN
+    SELECT e.id, e.capacity FROM public.community_events e
+    WHERE e.series_id = p_series_id
+      AND e.status = 'scheduled'
+      AND e.scheduled_at > now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.event_registrations r
+        WHERE r.event_id = e.id
+          AND r.user_id = v_user_id
+          AND r.cancelled_at IS NULL
+      )
+    ORDER BY e.scheduled_at
+  LOOP
+    IF v_event.capacity IS NOT NULL AND (
+      (SELECT COUNT(*) FROM public.event_registrations r WHERE r.event_id = v_event.id AND r.cancelled_at IS NULL) >= v_event.capacity
+      OR EXISTS (SELECT 1 FROM public.event_waitlist w WHERE w.event_id = v_event.id AND w.status = 'waiting')
+    ) THEN
+      v_full := v_full + 1;
+      CONTINUE;
+    END IF;
+
+    v_price := public.get_event_join_cost(v_event.id);
+
+    -- Raises on insufficient balance, rolling back every registration made here
+    PERFORM public.deduct_points_for_stream_join(v_user_id, v_event.id, v_price);
+    v_registered := v_registered + 1;
+    v_points_charged := v_points_charged + v_price;
+  END LOOP;
+
+  IF v_registered = 0 THEN
+    IF v_full > 0 THEN
+      RAISE EXCEPTION 'Every upcoming event in this series you aren''t registered for is full';
+    END IF;
+    RAISE EXCEPTION 'You are already registered for every upcoming event in this series';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'registered', v_registered,
+    'full', v_full,
+    'points_charged', v_points_charged
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
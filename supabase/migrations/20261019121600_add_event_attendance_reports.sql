@@ -0,0 +1,219 @@
+-- =============================================
+-- EVENT ATTENDANCE REPORTS
+-- The stream page reports its own join and leave alongside the GetStream
+-- webhook (both keyed on the GetStream session id, so they merge), and hosts
+-- get a per-event report: who showed up, for how long, and what it earned.
+-- =============================================
+
+-- 1. Join and leave from the stream client
+CREATE OR REPLACE FUNCTION public.record_event_attendance(
+  p_event_id UUID,
+  p_session_id TEXT,
+  p_action TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event RECORD;
+  v_is_host BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_session_id IS NULL OR char_length(p_session_id) = 0 OR char_length(p_session_id) > 200 THEN
+    RAISE EXCEPTION 'Invalid session id';
+  END IF;
+
+  SELECT id, owner_id, community_id, status INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF p_action = 'join' THEN
+    v_is_host := v_event.owner_id = v_user_id
+      OR public.has_community_permission(v_event.community_id, 'host_events', v_user_id);
+
+    -- Live events are open to members who didn't register, same as the stream page
+    IF NOT v_is_host AND NOT EXISTS (
+      SELECT 1 FROM public.event_registrations
+      WHERE event_id = p_event_id AND user_id = v_user_id AND cancelled_at IS NULL
+    ) AND NOT (v_event.status = 'live' AND public.can_view_community_content(v_event.community_id, v_user_id)) THEN
+      RAISE EXCEPTION 'Not allowed to join this event';
+    END IF;
+
+    IF v_event.status NOT IN ('scheduled', 'live') THEN
+      RAISE EXCEPTION 'Event is not running (current status: %)', v_event.status;
+    END IF;
+
+    -- The webhook may already have recorded this session
+    INSERT INTO public.event_attendance (event_id, user_id, stream_session_id, role, joined_at)
+    VALUES (p_event_id, v_user_id, p_session_id, CASE WHEN v_is_host THEN 'host' ELSE 'user' END, now())
+    ON CONFLICT (stream_session_id) DO NOTHING;
+
+    UPDATE public.event_registrations
+    SET joined_at = now()
+    WHERE event_id = p_event_id
+      AND user_id = v_user_id
+      AND cancelled_at IS NULL
+      AND joined_at IS NULL;
+  ELSIF p_action = 'leave' THEN
+    UPDATE public.event_attendance
+    SET left_at = now(),
+        duration_seconds = GREATEST(EXTRACT(EPOCH FROM (now() - joined_at))::INTEGER, 0)
+    WHERE stream_session_id = p_session_id
+      AND event_id = p_event_id
+      AND user_id = v_user_id
+      AND left_at IS NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown attendance action: %', p_action;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_event_attendance(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.record_event_attendance IS 'Records the caller joining (p_action = join) or leaving (leave) an event call session.';
+
+-- 2. Report
+-- Sessions still open count until the event ended (or now, while it's live).
+-- Registrations from before session tracking only have joined_at, so they
+-- count as attended with no watch time.
+CREATE OR REPLACE FUNCTION public.get_event_attendance_report(
+  p_event_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_event RECORD;
+  v_end TIMESTAMPTZ;
+  v_peak INTEGER;
+  v_summary RECORD;
+BEGIN
+  SELECT id, owner_id, community_id, status, started_at, ended_at INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.owner_id <> auth.uid()
+    AND NOT public.has_community_permission(v_event.community_id, 'host_events') THEN
+    RAISE EXCEPTION 'Only event hosts can view attendance';
+  END IF;
+
+  v_end := COALESCE(v_event.ended_at, now());
+
+  -- Sweep joins (+1) and leaves (-1) in time order; leaves sort first on ties
+  SELECT COALESCE(MAX(running), 0) INTO v_peak
+  FROM (
+    SELECT SUM(delta) OVER (ORDER BY at, delta ROWS UNBOUNDED PRECEDING) AS running
+    FROM (
+      SELECT joined_at AS at, 1 AS delta
+      FROM public.event_attendance
+      WHERE event_id = p_event_id
+      UNION ALL
+      SELECT LEAST(COALESCE(left_at, v_end), v_end), -1
+      FROM public.event_attendance
+      WHERE event_id = p_event_id
+    ) changes
+  ) sweep;
+
+  WITH sessions AS (
+    SELECT
+      user_id,
+      COUNT(*) AS session_count,
+      MIN(joined_at) AS first_joined_at,
+      MAX(COALESCE(left_at, v_end)) AS last_left_at,
+      SUM(
+        COALESCE(
+          duration_seconds,
+          GREATEST(EXTRACT(EPOCH FROM (LEAST(COALESCE(left_at, v_end), v_end) - joined_at))::INTEGER, 0)
+        )
+      ) AS watch_seconds
+    FROM public.event_attendance
+    WHERE event_id = p_event_id
+    GROUP BY user_id
+  ),
+  people AS (
+    SELECT
+      COALESCE(r.user_id, s.user_id) AS user_id,
+      r.registered_at,
+      r.cancelled_at,
+      r.points_charged,
+      r.joined_at,
+      s.session_count,
+      s.first_joined_at,
+      s.last_left_at,
+      s.watch_seconds
+    FROM (
+      SELECT * FROM public.event_registrations WHERE event_id = p_event_id
+    ) r
+    FULL OUTER JOIN sessions s ON s.user_id = r.user_id
+  ),
+  report_rows AS (
+    SELECT
+      p.*,
+      u.username,
+      u.first_name,
+      u.last_name,
+      (p.session_count IS NOT NULL OR p.joined_at IS NOT NULL) AS attended,
+      p.user_id = v_event.owner_id AS is_host
+    FROM people p
+    JOIN public.users u ON u.id = p.user_id
+  )
+  SELECT
+    COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'user_id', user_id,
+        'username', username,
+        'first_name', first_name,
+        'last_name', last_name,
+        'is_host', is_host,
+        'registration_status', CASE
+          WHEN registered_at IS NULL THEN 'not_registered'
+          WHEN cancelled_at IS NOT NULL THEN 'cancelled'
+          ELSE 'registered'
+        END,
+        'registered_at', registered_at,
+        'points_charged', CASE WHEN registered_at IS NOT NULL AND cancelled_at IS NULL THEN points_charged ELSE 0 END,
+        'attended', attended,
+        'sessions', COALESCE(session_count, 0),
+        'first_joined_at', COALESCE(first_joined_at, joined_at),
+        'last_left_at', last_left_at,
+        'watch_seconds', COALESCE(watch_seconds, 0)
+      )
+      ORDER BY is_host DESC, attended DESC, COALESCE(first_joined_at, joined_at, registered_at)
+    ), '[]'::jsonb) AS attendees,
+    COUNT(*) FILTER (WHERE registered_at IS NOT NULL AND cancelled_at IS NULL) AS registered,
+    COUNT(*) FILTER (WHERE registered_at IS NOT NULL AND cancelled_at IS NOT NULL) AS cancelled,
+    COUNT(*) FILTER (WHERE attended AND NOT is_host) AS attended,
+    COUNT(*) FILTER (WHERE registered_at IS NOT NULL AND cancelled_at IS NULL AND NOT attended) AS no_shows,
+    COALESCE(SUM(points_charged) FILTER (WHERE registered_at IS NOT NULL AND cancelled_at IS NULL), 0) AS revenue_points,
+    COALESCE(SUM(watch_seconds) FILTER (WHERE NOT is_host), 0) AS total_watch_seconds,
+    COALESCE(AVG(watch_seconds) FILTER (WHERE NOT is_host AND session_count IS NOT NULL), 0) AS average_watch_seconds
+  INTO v_summary
+  FROM report_rows;
+
+  RETURN jsonb_build_object(
+    'event_id', p_event_id,
+    'status', v_event.status,
+    'started_at', v_event.started_at,
+    'ended_at', v_event.ended_at,
+    'registered', v_summary.registered,
+    'cancelled', v_summary.cancelled,
+    'attended', v_summary.attended,
+    'no_shows', v_summary.no_shows,
+    'peak_concurrency', v_peak,
+    'revenue_points', v_summary.revenue_points,
+    'total_watch_seconds', v_summary.total_watch_seconds,
+    'average_watch_seconds', ROUND(v_summary.average_watch_seconds)::INTEGER,
+    'attendees', v_summary.attendees
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_event_attendance_report(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_event_attendance_report IS 'Attendance summary and per-person rows for an event. Hosts only. Revenue counts registrations that weren''t refunded.';
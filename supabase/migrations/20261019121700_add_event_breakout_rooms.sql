@@ -0,0 +1,378 @@
+-- =============================================
+-- EVENT BREAKOUT ROOMS
+-- Hosts split a live event into breakout rooms for a fixed time. Each room is
+-- its own GetStream call; clients follow their assignment over realtime, move
+-- into their room, and return to the main call when the rooms close or the
+-- timer runs out. Hosts can message every room at once.
+-- =============================================
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.event_breakout_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  ends_at TIMESTAMPTZ NOT NULL,
+  broadcast_message TEXT CHECK (char_length(broadcast_message) BETWEEN 1 AND 500),
+  broadcast_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE public.event_breakout_sessions IS 'A round of breakout rooms during a live event. Written only through the functions below.';
+COMMENT ON COLUMN public.event_breakout_sessions.ends_at IS 'Countdown end. Clients return to the main call once it passes, even if the session was never closed.';
+COMMENT ON COLUMN public.event_breakout_sessions.broadcast_message IS 'Latest host message to all rooms; broadcast_at changes with every send.';
+
+-- One round at a time per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_breakout_sessions_open
+  ON public.event_breakout_sessions(event_id)
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS public.event_breakout_rooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.event_breakout_sessions(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position BETWEEN 1 AND 20),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  stream_call_id TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(session_id, position)
+);
+
+COMMENT ON COLUMN public.event_breakout_rooms.stream_call_id IS 'GetStream call id for the room (call type default), created on first join.';
+
+CREATE TABLE IF NOT EXISTS public.event_breakout_assignments (
+  session_id UUID NOT NULL REFERENCES public.event_breakout_sessions(id) ON DELETE CASCADE,
+  room_id UUID NOT NULL REFERENCES public.event_breakout_rooms(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_breakout_assignments_room ON public.event_breakout_assignments(room_id);
+CREATE INDEX IF NOT EXISTS idx_event_breakout_assignments_event ON public.event_breakout_assignments(event_id, user_id);
+
+-- 2. Access helpers
+CREATE OR REPLACE FUNCTION public.can_host_event(
+  p_event_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_event RECORD;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT owner_id, community_id INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_event.owner_id = p_user_id
+    OR public.has_community_permission(v_event.community_id, 'host_events', p_user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_host_event(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.can_host_event IS 'True when the user owns the event or holds host_events in its community.';
+
+-- 3. Row level security
+-- Anyone who can be in the live call sees the rooms; assignments are private
+-- to the attendee and the hosts
+ALTER TABLE public.event_breakout_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_breakout_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_breakout_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event viewers can view breakout sessions"
+  ON public.event_breakout_sessions
+  FOR SELECT
+  USING (
+    public.can_host_event(event_id)
+    OR EXISTS (
+      SELECT 1 FROM public.community_events e
+      WHERE e.id = event_id
+        AND public.can_view_community_content(e.community_id)
+    )
+  );
+
+CREATE POLICY "Event viewers can view breakout rooms"
+  ON public.event_breakout_rooms
+  FOR SELECT
+  USING (
+    public.can_host_event(event_id)
+    OR EXISTS (
+      SELECT 1 FROM public.community_events e
+      WHERE e.id = event_id
+        AND public.can_view_community_content(e.community_id)
+    )
+  );
+
+CREATE POLICY "Users and hosts can view breakout assignments"
+  ON public.event_breakout_assignments
+  FOR SELECT
+  USING (user_id = auth.uid() OR public.can_host_event(event_id));
+
+-- 4. Open rooms
+-- p_rooms: [{ "name": "Room 1", "user_ids": ["..."] }, ...]. Random or manual
+-- assignment is decided by the host's client; the host stays in the main call.
+CREATE OR REPLACE FUNCTION public.open_event_breakouts(
+  p_event_id UUID,
+  p_rooms JSONB,
+  p_duration_minutes INTEGER
+) RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event RECORD;
+  v_session_id UUID;
+  v_room_id UUID;
+  v_room JSONB;
+  v_position INTEGER := 0;
+  v_name TEXT;
+  v_member TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, status INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NOT public.can_host_event(p_event_id, v_user_id) THEN
+    RAISE EXCEPTION 'Only event hosts can open breakout rooms';
+  END IF;
+
+  IF v_event.status <> 'live' THEN
+    RAISE EXCEPTION 'Breakout rooms can only be opened while the event is live';
+  END IF;
+
+  IF p_duration_minutes IS NULL OR p_duration_minutes < 1 OR p_duration_minutes > 120 THEN
+    RAISE EXCEPTION 'Breakout duration must be between 1 and 120 minutes';
+  END IF;
+
+  IF jsonb_typeof(p_rooms) <> 'array' OR jsonb_array_length(p_rooms) NOT BETWEEN 2 AND 20 THEN
+    RAISE EXCEPTION 'Choose between 2 and 20 breakout rooms';
+  END IF;
+
+  -- A round whose timer ran out without being closed doesn't block the next one
+  UPDATE public.event_breakout_sessions
+  SET status = 'closed', closed_at = ends_at
+  WHERE event_id = p_event_id AND status = 'open' AND ends_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_breakout_sessions
+    WHERE event_id = p_event_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'Breakout rooms are already open for this event';
+  END IF;
+
+  INSERT INTO public.event_breakout_sessions (event_id, ends_at, created_by)
+  VALUES (p_event_id, now() + make_interval(mins => p_duration_minutes), v_user_id)
+  RETURNING id INTO v_session_id;
+
+  FOR v_room IN SELECT value FROM jsonb_array_elements(p_rooms)
+  LOOP
+    v_position := v_position + 1;
+    v_name := COALESCE(NULLIF(btrim(v_room->>'name'), ''), 'Room ' || v_position);
+
+    IF char_length(v_name) > 60 THEN
+      RAISE EXCEPTION 'Room names can be at most 60 characters';
+    END IF;
+
+    v_room_id := gen_random_uuid();
+
+    INSERT INTO public.event_breakout_rooms (id, session_id, event_id, position, name, stream_call_id)
+    VALUES (v_room_id, v_session_id, p_event_id, v_position, v_name, 'breakout-' || v_room_id::TEXT);
+
+    FOR v_member IN SELECT value FROM jsonb_array_elements_text(COALESCE(v_room->'user_ids', '[]'::jsonb))
+    LOOP
+      IF EXISTS (
+        SELECT 1 FROM public.event_breakout_assignments
+        WHERE session_id = v_session_id AND user_id = v_member::UUID
+      ) THEN
+        RAISE EXCEPTION 'Each participant can only be assigned to one room';
+      END IF;
+
+      INSERT INTO public.event_breakout_assignments (session_id, room_id, event_id, user_id)
+      VALUES (v_session_id, v_room_id, p_event_id, v_member::UUID);
+    END LOOP;
+  END LOOP;
+
+  RETURN v_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.open_event_breakouts(UUID, JSONB, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.open_event_breakouts IS 'Opens a timed round of breakout rooms with the given assignments. Restricted to event hosts.';
+
+-- 5. Host tools for an open round
+-- A NULL room sends the participant back to the main call
+CREATE OR REPLACE FUNCTION public.move_event_breakout_participant(
+  p_session_id UUID,
+  p_user_id UUID,
+  p_room_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  SELECT id, event_id, status INTO v_session
+  FROM public.event_breakout_sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Breakout session not found';
+  END IF;
+
+  IF NOT public.can_host_event(v_session.event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can move participants';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'Breakout rooms are closed';
+  END IF;
+
+  IF p_room_id IS NULL THEN
+    DELETE FROM public.event_breakout_assignments
+    WHERE session_id = p_session_id AND user_id = p_user_id;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.event_breakout_rooms
+    WHERE id = p_room_id AND session_id = p_session_id
+  ) THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  INSERT INTO public.event_breakout_assignments (session_id, room_id, event_id, user_id)
+  VALUES (p_session_id, p_room_id, v_session.event_id, p_user_id)
+  ON CONFLICT (session_id, user_id) DO UPDATE
+  SET room_id = EXCLUDED.room_id,
+      assigned_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.move_event_breakout_participant(UUID, UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.move_event_breakout_participant IS 'Assigns a participant to another breakout room, or back to the main call. Restricted to event hosts.';
+
+CREATE OR REPLACE FUNCTION public.broadcast_event_breakout_message(
+  p_session_id UUID,
+  p_message TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_session RECORD;
+  v_message TEXT := btrim(COALESCE(p_message, ''));
+BEGIN
+  SELECT id, event_id, status INTO v_session
+  FROM public.event_breakout_sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Breakout session not found';
+  END IF;
+
+  IF NOT public.can_host_event(v_session.event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can message breakout rooms';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'Breakout rooms are closed';
+  END IF;
+
+  IF char_length(v_message) = 0 OR char_length(v_message) > 500 THEN
+    RAISE EXCEPTION 'Messages must be between 1 and 500 characters';
+  END IF;
+
+  UPDATE public.event_breakout_sessions
+  SET broadcast_message = v_message,
+      broadcast_at = now()
+  WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.broadcast_event_breakout_message(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.broadcast_event_breakout_message IS 'Sends a message to every breakout room in an open round. Restricted to event hosts.';
+
+-- Closing brings everyone back to the main call
+CREATE OR REPLACE FUNCTION public.close_event_breakouts(
+  p_session_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  SELECT id, event_id, status INTO v_session
+  FROM public.event_breakout_sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Breakout session not found';
+  END IF;
+
+  IF NOT public.can_host_event(v_session.event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can close breakout rooms';
+  END IF;
+
+  UPDATE public.event_breakout_sessions
+  SET status = 'closed',
+      closed_at = LEAST(now(), ends_at)
+  WHERE id = p_session_id AND status = 'open';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.close_event_breakouts(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.close_event_breakouts IS 'Closes a round of breakout rooms. Restricted to event hosts.';
+
+-- 6. Ending the event ends any open round
+CREATE OR REPLACE FUNCTION public.close_event_breakouts_on_end()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    UPDATE public.event_breakout_sessions
+    SET status = 'closed',
+        closed_at = LEAST(now(), ends_at)
+    WHERE event_id = NEW.id AND status = 'open';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS close_event_breakouts_on_end ON public.community_events;
+CREATE TRIGGER close_event_breakouts_on_end
+  AFTER UPDATE OF status ON public.community_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_event_breakouts_on_end();
+
+-- 7. Realtime
+-- Opening, broadcasting and closing arrive as session rows; moves as assignment rows
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.event_breakout_sessions;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.event_breakout_assignments;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Deleted assignments only carry their key columns without a full replica identity
+ALTER TABLE public.event_breakout_assignments REPLICA IDENTITY FULL;
@@ -0,0 +1,261 @@
+-- =============================================
+-- EVENT AUDIENCE MODE AND SPEAKER QUEUE
+-- In audience mode only hosts and promoted speakers can publish audio, video
+-- or screen share. Attendees raise a hand to join the queue and hosts promote
+-- or demote them. The stream-token and stage API routes mirror these roles
+-- onto GetStream call permissions, so a client can't unmute on its own.
+-- =============================================
+
+-- 1. Audience mode on the event
+ALTER TABLE public.community_events
+  ADD COLUMN IF NOT EXISTS audience_mode BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.community_events.audience_mode IS 'When true, attendees join muted with camera off and need a host to promote them before they can speak.';
+
+-- 2. Raised hands and speakers
+-- One row per attendee on stage or in the queue; lowering or demoting deletes it
+CREATE TABLE IF NOT EXISTS public.event_stage_requests (
+  event_id UUID NOT NULL REFERENCES public.community_events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'raised' CHECK (status IN ('raised', 'speaker')),
+  raised_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  promoted_at TIMESTAMPTZ,
+  promoted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (event_id, user_id)
+);
+
+COMMENT ON TABLE public.event_stage_requests IS 'Audience-mode speaker queue. Written only through the functions below.';
+
+CREATE INDEX IF NOT EXISTS idx_event_stage_requests_queue ON public.event_stage_requests(event_id, status, raised_at);
+
+ALTER TABLE public.event_stage_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and hosts can view stage requests"
+  ON public.event_stage_requests
+  FOR SELECT
+  USING (user_id = auth.uid() OR public.can_host_event(event_id));
+
+-- 3. Roles
+-- host: owner or host_events holder. speaker: promoted. audience: everyone
+-- else while audience mode is on. participant: everyone else otherwise.
+CREATE OR REPLACE FUNCTION public.event_stage_role(
+  p_event_id UUID,
+  p_user_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  v_audience_mode BOOLEAN;
+BEGIN
+  IF public.can_host_event(p_event_id, p_user_id) THEN
+    RETURN 'host';
+  END IF;
+
+  SELECT audience_mode INTO v_audience_mode
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT COALESCE(v_audience_mode, false) THEN
+    RETURN 'participant';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_stage_requests
+    WHERE event_id = p_event_id AND user_id = p_user_id AND status = 'speaker'
+  ) THEN
+    RETURN 'speaker';
+  END IF;
+
+  RETURN 'audience';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.event_stage_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.event_stage_role IS 'Internal: host, speaker, audience or participant for a user in an event.';
+
+-- The caller's role, checked against the same access rules as the stream page
+CREATE OR REPLACE FUNCTION public.get_my_event_stage_role(
+  p_event_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, community_id, status INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NOT public.can_host_event(p_event_id, v_user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.event_registrations
+      WHERE event_id = p_event_id AND user_id = v_user_id AND cancelled_at IS NULL
+    )
+    AND NOT (v_event.status = 'live' AND public.can_view_community_content(v_event.community_id, v_user_id)) THEN
+    RAISE EXCEPTION 'Not allowed to join this event';
+  END IF;
+
+  RETURN public.event_stage_role(p_event_id, v_user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_my_event_stage_role(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_my_event_stage_role IS 'The caller''s stage role in an event (host, speaker, audience or participant).';
+
+-- Hosts resolve roles for everyone in the call when audience mode changes
+CREATE OR REPLACE FUNCTION public.get_event_stage_roles(
+  p_event_id UUID,
+  p_user_ids UUID[]
+) RETURNS TABLE (user_id UUID, role TEXT) AS $$
+BEGIN
+  IF NOT public.can_host_event(p_event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can view stage roles';
+  END IF;
+
+  RETURN QUERY
+  SELECT ids.user_id, public.event_stage_role(p_event_id, ids.user_id)
+  FROM unnest(p_user_ids) AS ids(user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_event_stage_roles(UUID, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.get_event_stage_roles IS 'Stage roles for a list of users in an event. Restricted to event hosts.';
+
+-- 4. Attendee actions
+CREATE OR REPLACE FUNCTION public.raise_event_hand(
+  p_event_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_event RECORD;
+BEGIN
+  SELECT id, status, audience_mode INTO v_event
+  FROM public.community_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.status <> 'live' THEN
+    RAISE EXCEPTION 'Hands can only be raised while the event is live';
+  END IF;
+
+  IF NOT v_event.audience_mode THEN
+    RAISE EXCEPTION 'Everyone can already speak in this event';
+  END IF;
+
+  IF public.get_my_event_stage_role(p_event_id) <> 'audience' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.event_stage_requests (event_id, user_id)
+  VALUES (p_event_id, v_user_id)
+  ON CONFLICT (event_id, user_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.raise_event_hand(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.raise_event_hand IS 'Adds the caller to the event''s speaker queue.';
+
+CREATE OR REPLACE FUNCTION public.lower_event_hand(
+  p_event_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.event_stage_requests
+  WHERE event_id = p_event_id AND user_id = auth.uid() AND status = 'raised';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.lower_event_hand(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.lower_event_hand IS 'Takes the caller out of the speaker queue.';
+
+-- 5. Host actions
+-- Called by the stage API route, which then updates GetStream permissions.
+-- Speakers may also step down themselves.
+CREATE OR REPLACE FUNCTION public.set_event_speaker(
+  p_event_id UUID,
+  p_user_id UUID,
+  p_is_speaker BOOLEAN
+) RETURNS VOID AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.can_host_event(p_event_id, v_caller)
+    AND NOT (p_user_id = v_caller AND NOT p_is_speaker) THEN
+    RAISE EXCEPTION 'Only event hosts can change speakers';
+  END IF;
+
+  IF NOT p_is_speaker THEN
+    DELETE FROM public.event_stage_requests
+    WHERE event_id = p_event_id AND user_id = p_user_id;
+    RETURN;
+  END IF;
+
+  IF public.can_host_event(p_event_id, p_user_id) THEN
+    RAISE EXCEPTION 'Hosts can always speak';
+  END IF;
+
+  INSERT INTO public.event_stage_requests (event_id, user_id, status, promoted_at, promoted_by)
+  VALUES (p_event_id, p_user_id, 'speaker', now(), v_caller)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+  SET status = 'speaker',
+      promoted_at = now(),
+      promoted_by = v_caller;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_event_speaker(UUID, UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.set_event_speaker IS 'Promotes an attendee to speaker or moves them back to the audience. Hosts only, except speakers stepping down.';
+
+-- Turning audience mode off clears the queue; everyone can speak again
+CREATE OR REPLACE FUNCTION public.set_event_audience_mode(
+  p_event_id UUID,
+  p_enabled BOOLEAN
+) RETURNS VOID AS $$
+BEGIN
+  IF NOT public.can_host_event(p_event_id) THEN
+    RAISE EXCEPTION 'Only event hosts can change audience mode';
+  END IF;
+
+  UPDATE public.community_events
+  SET audience_mode = p_enabled
+  WHERE id = p_event_id;
+
+  IF NOT p_enabled THEN
+    DELETE FROM public.event_stage_requests
+    WHERE event_id = p_event_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_event_audience_mode(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.set_event_audience_mode IS 'Turns audience mode on or off for an event. Restricted to event hosts.';
+
+-- 6. Realtime
+-- Audience mode changes arrive on the event row (already published for chat)
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.event_stage_requests;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Lowered hands and demotions are deletes; filters need the full old row
+ALTER TABLE public.event_stage_requests REPLICA IDENTITY FULL;
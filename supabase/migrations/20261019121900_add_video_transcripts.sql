@@ -0,0 +1,180 @@
+-- =============================================
+-- VIDEO TRANSCRIPTS, CAPTIONS AND CHAPTERS
+-- One transcript per event recording or uploaded video, produced by the
+-- transcription pipeline (src/lib/video-transcripts-server.ts) with the
+-- service role. Segments back the WebVTT captions, chapters are suggested
+-- from them and can be edited, and the full text is searchable.
+-- =============================================
+
+-- 1. Transcripts
+CREATE TABLE IF NOT EXISTS public.video_transcripts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id UUID NOT NULL REFERENCES public.communities(id) ON DELETE CASCADE,
+  recording_id UUID UNIQUE REFERENCES public.event_recordings(id) ON DELETE CASCADE,
+  upload_id UUID UNIQUE REFERENCES public.uploaded_videos(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  engine TEXT,
+  language TEXT,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  chapters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  full_text TEXT,
+  error TEXT,
+  requested_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT video_transcripts_one_source CHECK ((recording_id IS NULL) <> (upload_id IS NULL))
+);
+
+COMMENT ON TABLE public.video_transcripts IS 'Timestamped transcripts for event recordings and uploaded videos. Written by the transcription pipeline.';
+COMMENT ON COLUMN public.video_transcripts.segments IS 'Array of {start, end, text}; times in seconds from the start of the video';
+COMMENT ON COLUMN public.video_transcripts.chapters IS 'Array of {start, title}, sorted by start';
+COMMENT ON COLUMN public.video_transcripts.engine IS 'Transcription engine that produced the segments (local, stub)';
+
+CREATE INDEX IF NOT EXISTS idx_video_transcripts_community ON public.video_transcripts(community_id);
+
+-- Must match the expression in search_video_transcripts exactly
+CREATE INDEX IF NOT EXISTS idx_video_transcripts_search
+  ON public.video_transcripts USING GIN (public.search_document(full_text));
+
+DROP TRIGGER IF EXISTS set_video_transcripts_updated_at ON public.video_transcripts;
+CREATE TRIGGER set_video_transcripts_updated_at
+  BEFORE UPDATE ON public.video_transcripts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.video_transcripts ENABLE ROW LEVEL SECURITY;
+
+-- Same audience as the videos page
+CREATE POLICY "Community members can view video transcripts"
+  ON public.video_transcripts
+  FOR SELECT
+  USING (public.can_view_community_content(community_id));
+
+-- 2. Chapter edits
+-- Suggested chapters are a starting point; people who can upload videos can rename,
+-- retime or remove them
+CREATE OR REPLACE FUNCTION public.save_video_transcript_chapters(
+  p_transcript_id UUID,
+  p_chapters JSONB
+) RETURNS JSONB AS $$
+DECLARE
+  v_transcript RECORD;
+  v_chapter JSONB;
+  v_start NUMERIC;
+  v_title TEXT;
+  v_chapters JSONB := '[]'::jsonb;
+BEGIN
+  SELECT id, community_id, status INTO v_transcript
+  FROM public.video_transcripts
+  WHERE id = p_transcript_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript not found';
+  END IF;
+
+  IF NOT public.has_community_permission(v_transcript.community_id, 'upload_videos') THEN
+    RAISE EXCEPTION 'You do not have permission to edit chapters in this community';
+  END IF;
+
+  IF v_transcript.status <> 'completed' THEN
+    RAISE EXCEPTION 'Chapters can only be edited once the transcript is ready';
+  END IF;
+
+  IF jsonb_typeof(p_chapters) <> 'array' THEN
+    RAISE EXCEPTION 'Chapters must be a list';
+  END IF;
+
+  IF jsonb_array_length(p_chapters) > 50 THEN
+    RAISE EXCEPTION 'A video can have at most 50 chapters';
+  END IF;
+
+  FOR v_chapter IN SELECT value FROM jsonb_array_elements(p_chapters) LOOP
+    v_start := (v_chapter->>'start')::NUMERIC;
+    v_title := trim(COALESCE(v_chapter->>'title', ''));
+
+    IF v_start IS NULL OR v_start < 0 THEN
+      RAISE EXCEPTION 'Chapter start times must be zero or more';
+    END IF;
+
+    IF v_title = '' OR length(v_title) > 100 THEN
+      RAISE EXCEPTION 'Chapter titles must be between 1 and 100 characters';
+    END IF;
+
+    v_chapters := v_chapters || jsonb_build_array(jsonb_build_object('start', round(v_start, 3), 'title', v_title));
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(chapter ORDER BY (chapter->>'start')::NUMERIC), '[]'::jsonb)
+  INTO v_chapters
+  FROM jsonb_array_elements(v_chapters) AS chapter;
+
+  UPDATE public.video_transcripts
+  SET chapters = v_chapters
+  WHERE id = p_transcript_id;
+
+  RETURN v_chapters;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_video_transcript_chapters(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.save_video_transcript_chapters IS 'Replaces a transcript''s chapters. Requires the upload_videos permission in its community.';
+
+-- 3. Search
+-- SECURITY INVOKER so the transcript RLS applies. Returns the first matching segment
+-- so results can link straight to the moment in the video.
+-- Snippets wrap matches in <mark></mark> and contain no other markup.
+CREATE OR REPLACE FUNCTION public.search_video_transcripts(
+  p_community_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (
+  transcript_id UUID,
+  recording_id UUID,
+  upload_id UUID,
+  title TEXT,
+  snippet TEXT,
+  start_seconds NUMERIC,
+  rank REAL
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery;
+  v_headline_options CONSTANT TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  IF p_query IS NULL OR length(trim(p_query)) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_query := websearch_to_tsquery('english', p_query);
+  p_limit := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.recording_id,
+    t.upload_id,
+    COALESCE(r.title, u.title),
+    ts_headline('english', t.full_text, v_query, v_headline_options),
+    (
+      SELECT (segment->>'start')::NUMERIC
+      FROM jsonb_array_elements(t.segments) WITH ORDINALITY AS s(segment, position)
+      WHERE to_tsvector('english', COALESCE(segment->>'text', '')) @@ v_query
+      ORDER BY s.position
+      LIMIT 1
+    ),
+    ts_rank(public.search_document(t.full_text), v_query)
+  FROM public.video_transcripts t
+  LEFT JOIN public.event_recordings r ON r.id = t.recording_id
+  LEFT JOIN public.uploaded_videos u ON u.id = t.upload_id
+  WHERE t.community_id = p_community_id
+    AND t.status = 'completed'
+    AND public.search_document(t.full_text) @@ v_query
+  ORDER BY 7 DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_video_transcripts(UUID, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.search_video_transcripts IS 'Ranked full-text search over a community''s completed transcripts, with the first matching timestamp.';
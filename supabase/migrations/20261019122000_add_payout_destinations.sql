@@ -0,0 +1,348 @@
+-- =============================================
+-- PAYOUT DESTINATIONS
+-- Creators register the bank account their earnings are paid into. Account
+-- numbers are never readable by clients once saved: users see the last four
+-- digits, and admins reveal the full number through an RPC when paying out.
+-- An admin verifies each destination before any payout to it can be marked paid.
+-- =============================================
+
+-- 1. Destinations
+CREATE TABLE IF NOT EXISTS public.payout_destinations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  bank_name TEXT NOT NULL CHECK (length(trim(bank_name)) BETWEEN 1 AND 100),
+  account_type TEXT NOT NULL CHECK (account_type IN ('savings', 'checking')),
+  account_name TEXT NOT NULL CHECK (length(trim(account_name)) BETWEEN 1 AND 100),
+  account_number TEXT NOT NULL CHECK (account_number ~ '^[0-9]{4,20}$'),
+  account_number_last4 TEXT NOT NULL CHECK (account_number_last4 ~ '^[0-9]{4}$'),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected')),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  verified_at TIMESTAMPTZ,
+  verified_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  rejection_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.payout_destinations IS 'Bank accounts creators are paid out to. Written through the payout destination RPCs only.';
+COMMENT ON COLUMN public.payout_destinations.account_number IS 'Full account number, digits only. Not selectable by clients; see reveal_payout_destination_number.';
+COMMENT ON COLUMN public.payout_destinations.status IS 'pending until an admin checks the account details, then verified or rejected';
+
+CREATE INDEX IF NOT EXISTS idx_payout_destinations_user ON public.payout_destinations(user_id);
+CREATE INDEX IF NOT EXISTS idx_payout_destinations_pending
+  ON public.payout_destinations(created_at)
+  WHERE status = 'pending';
+
+-- One default destination per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_destinations_one_default
+  ON public.payout_destinations(user_id)
+  WHERE is_default;
+
+DROP TRIGGER IF EXISTS set_payout_destinations_updated_at ON public.payout_destinations;
+CREATE TRIGGER set_payout_destinations_updated_at
+  BEFORE UPDATE ON public.payout_destinations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.payout_destinations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and admins can view payout destinations"
+  ON public.payout_destinations
+  FOR SELECT
+  USING (user_id = (select auth.uid()) OR public.is_platform_admin());
+
+-- Column privileges keep the full number out of every client query, including admins'
+REVOKE ALL ON public.payout_destinations FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  user_id,
+  bank_name,
+  account_type,
+  account_name,
+  account_number_last4,
+  status,
+  is_default,
+  verified_at,
+  verified_by,
+  rejection_reason,
+  created_at,
+  updated_at
+) ON public.payout_destinations TO authenticated;
+
+-- 2. Payouts are paid into a destination
+ALTER TABLE public.payouts
+  ADD COLUMN IF NOT EXISTS destination_id UUID REFERENCES public.payout_destinations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payouts_destination ON public.payouts(destination_id);
+
+COMMENT ON COLUMN public.payouts.destination_id IS 'Where the payout is sent. Defaults to the creator''s default destination and follows it while the payout is open.';
+
+CREATE OR REPLACE FUNCTION public.set_payout_destination()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.destination_id IS NULL THEN
+    SELECT id INTO NEW.destination_id
+    FROM public.payout_destinations
+    WHERE user_id = NEW.user_id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_payout_destination() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS set_payouts_destination ON public.payouts;
+CREATE TRIGGER set_payouts_destination
+  BEFORE INSERT ON public.payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_payout_destination();
+
+-- Paying out is the one step that has to wait for verification, so it is enforced
+-- here rather than in complete_payout and every admin screen
+CREATE OR REPLACE FUNCTION public.ensure_payout_destination_verified()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status::TEXT = 'paid' AND OLD.status::TEXT <> 'paid' THEN
+    IF NEW.destination_id IS NULL THEN
+      RAISE EXCEPTION 'This creator has not added a payout destination yet';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.payout_destinations
+      WHERE id = NEW.destination_id AND status = 'verified'
+    ) THEN
+      RAISE EXCEPTION 'The payout destination must be verified before this payout can be marked paid';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_payout_destination_verified() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS ensure_payouts_destination_verified ON public.payouts;
+CREATE TRIGGER ensure_payouts_destination_verified
+  BEFORE UPDATE OF status ON public.payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_payout_destination_verified();
+
+-- Open payouts follow the user's default destination
+CREATE OR REPLACE FUNCTION public.sync_open_payout_destinations(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.payouts
+  SET destination_id = (
+    SELECT id FROM public.payout_destinations
+    WHERE user_id = p_user_id AND is_default
+  )
+  WHERE user_id = p_user_id
+    AND status::TEXT IN ('pending', 'processing');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sync_open_payout_destinations(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 3. Managing destinations
+CREATE OR REPLACE FUNCTION public.add_payout_destination(
+  p_bank_name TEXT,
+  p_account_type TEXT,
+  p_account_name TEXT,
+  p_account_number TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_number TEXT := regexp_replace(COALESCE(p_account_number, ''), '[\s-]', '', 'g');
+  v_is_first BOOLEAN;
+  v_destination_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to add a payout destination';
+  END IF;
+
+  IF length(trim(COALESCE(p_bank_name, ''))) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'Bank name must be between 1 and 100 characters';
+  END IF;
+
+  IF length(trim(COALESCE(p_account_name, ''))) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'Account name must be between 1 and 100 characters';
+  END IF;
+
+  IF p_account_type IS NULL OR p_account_type NOT IN ('savings', 'checking') THEN
+    RAISE EXCEPTION 'Account type must be savings or checking';
+  END IF;
+
+  IF v_number !~ '^[0-9]{4,20}$' THEN
+    RAISE EXCEPTION 'Account number must be 4 to 20 digits';
+  END IF;
+
+  IF (SELECT count(*) FROM public.payout_destinations WHERE user_id = v_user_id) >= 5 THEN
+    RAISE EXCEPTION 'You can have at most 5 payout destinations';
+  END IF;
+
+  v_is_first := NOT EXISTS (
+    SELECT 1 FROM public.payout_destinations WHERE user_id = v_user_id AND is_default
+  );
+
+  INSERT INTO public.payout_destinations (
+    user_id,
+    bank_name,
+    account_type,
+    account_name,
+    account_number,
+    account_number_last4,
+    is_default
+  ) VALUES (
+    v_user_id,
+    trim(p_bank_name),
+    p_account_type,
+    trim(p_account_name),
+    v_number,
+    right(v_number, 4),
+    v_is_first
+  )
+  RETURNING id INTO v_destination_id;
+
+  IF v_is_first THEN
+    PERFORM public.sync_open_payout_destinations(v_user_id);
+  END IF;
+
+  RETURN v_destination_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.add_payout_destination(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.add_payout_destination IS 'Adds a destination for the current user, pending verification. The first one becomes the default.';
+
+CREATE OR REPLACE FUNCTION public.set_default_payout_destination(
+  p_destination_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.payout_destinations
+    WHERE id = p_destination_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Payout destination not found';
+  END IF;
+
+  UPDATE public.payout_destinations
+  SET is_default = false
+  WHERE user_id = v_user_id AND is_default AND id <> p_destination_id;
+
+  UPDATE public.payout_destinations
+  SET is_default = true
+  WHERE id = p_destination_id;
+
+  PERFORM public.sync_open_payout_destinations(v_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_default_payout_destination(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.set_default_payout_destination IS 'Makes one of the current user''s destinations the default and moves open payouts to it.';
+
+CREATE OR REPLACE FUNCTION public.remove_payout_destination(
+  p_destination_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_was_default BOOLEAN;
+BEGIN
+  SELECT is_default INTO v_was_default
+  FROM public.payout_destinations
+  WHERE id = p_destination_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout destination not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payouts
+    WHERE destination_id = p_destination_id AND status::TEXT = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'This destination has a payout being processed and cannot be removed yet';
+  END IF;
+
+  DELETE FROM public.payout_destinations WHERE id = p_destination_id;
+
+  -- The most recent remaining destination takes over as the default
+  IF v_was_default THEN
+    UPDATE public.payout_destinations
+    SET is_default = true
+    WHERE id = (
+      SELECT id FROM public.payout_destinations
+      WHERE user_id = v_user_id
+      ORDER BY (status = 'verified') DESC, created_at DESC
+      LIMIT 1
+    );
+
+    PERFORM public.sync_open_payout_destinations(v_user_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.remove_payout_destination(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.remove_payout_destination IS 'Deletes one of the current user''s destinations. Blocked while a payout to it is processing.';
+
+-- 4. Admin verification
+CREATE OR REPLACE FUNCTION public.review_payout_destination(
+  p_destination_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can review payout destinations';
+  END IF;
+
+  IF NOT p_approve AND length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a payout destination';
+  END IF;
+
+  UPDATE public.payout_destinations
+  SET status = CASE WHEN p_approve THEN 'verified' ELSE 'rejected' END,
+      verified_at = CASE WHEN p_approve THEN now() ELSE NULL END,
+      verified_by = auth.uid(),
+      rejection_reason = CASE WHEN p_approve THEN NULL ELSE trim(p_reason) END
+  WHERE id = p_destination_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout destination not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.review_payout_destination(UUID, BOOLEAN, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.review_payout_destination IS 'Marks a payout destination verified or rejected (with a reason). Platform admins only.';
+
+CREATE OR REPLACE FUNCTION public.reveal_payout_destination_number(
+  p_destination_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can view full account numbers';
+  END IF;
+
+  SELECT account_number INTO v_number
+  FROM public.payout_destinations
+  WHERE id = p_destination_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout destination not found';
+  END IF;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reveal_payout_destination_number(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.reveal_payout_destination_number IS 'Full account number of a payout destination, for verifying it and sending the payment. Platform admins only.';
@@ -0,0 +1,196 @@
+-- =============================================
+-- WALLET STATEMENTS
+-- A statement of the current user's wallet for a date range: opening and
+-- closing balances, every applied transaction valued in TTD at the rate in
+-- force when it happened, plus the earnings and payouts from the same period.
+-- Exported as CSV and PDF by src/lib/wallet-statements.ts.
+-- =============================================
+
+-- 1. What a transaction did to each balance
+-- points_delta and earnings_points_delta don't always say which balance moved:
+--   - spends paid from the combined balance (debit_user_points) record the whole
+--     cost in points_delta and the split in context.wallet_points_spent /
+--     earnings_points_spent
+--   - legacy earnings_credit rows carried the earnings in points_delta
+-- Shared by statements and ledger reconciliation so both add history up the same way.
+CREATE OR REPLACE FUNCTION public.transaction_balance_deltas(t public.transactions)
+RETURNS TABLE(points BIGINT, earnings BIGINT) AS $$
+  SELECT
+    (CASE
+      WHEN t.type = 'earnings_credit' THEN 0
+      WHEN t.points_delta < 0 AND t.context ? 'wallet_points_spent'
+        THEN -(t.context->>'wallet_points_spent')::BIGINT
+      ELSE COALESCE(t.points_delta, 0)
+    END)::BIGINT,
+    (COALESCE(t.earnings_points_delta, 0)
+      + CASE
+          WHEN t.type = 'earnings_credit' THEN COALESCE(t.points_delta, 0)
+          WHEN t.points_delta < 0 AND t.context ? 'earnings_points_spent' AND COALESCE(t.earnings_points_delta, 0) = 0
+            THEN -(t.context->>'earnings_points_spent')::BIGINT
+          ELSE 0
+        END)::BIGINT;
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION public.transaction_balance_deltas(public.transactions) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.transaction_balance_deltas IS 'How much a transaction moved points_balance and earnings_points. Internal: used by wallet statements and ledger reconciliation.';
+
+-- 2. Statement
+-- Balances are worked back from the live wallet, so only verified transactions
+-- (the ones that actually moved points) count towards them. Dates are whole days
+-- in the caller's time zone, both ends inclusive.
+CREATE OR REPLACE FUNCTION public.get_wallet_statement(
+  p_from DATE,
+  p_to DATE,
+  p_timezone TEXT DEFAULT 'UTC'
+) RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_points_balance BIGINT;
+  v_earnings_balance BIGINT;
+  v_after_points BIGINT;
+  v_after_earnings BIGINT;
+  v_period_points BIGINT;
+  v_period_earnings BIGINT;
+  v_transactions JSONB;
+  v_earnings JSONB;
+  v_payouts JSONB;
+  v_totals JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to view statements';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'Choose a start date on or before the end date';
+  END IF;
+
+  IF p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Statements can cover at most one year';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', p_timezone;
+  END IF;
+
+  v_start := p_from::TIMESTAMP AT TIME ZONE p_timezone;
+  v_end := (p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone;
+
+  SELECT points_balance, earnings_points
+  INTO v_points_balance, v_earnings_balance
+  FROM public.wallets
+  WHERE user_id = v_user_id;
+
+  v_points_balance := COALESCE(v_points_balance, 0);
+  v_earnings_balance := COALESCE(v_earnings_balance, 0);
+
+  SELECT COALESCE(SUM(d.points), 0), COALESCE(SUM(d.earnings), 0)
+  INTO v_after_points, v_after_earnings
+  FROM public.transactions t
+  CROSS JOIN LATERAL public.transaction_balance_deltas(t) d
+  WHERE t.user_id = v_user_id
+    AND t.status = 'verified'
+    AND t.created_at >= v_end;
+
+  SELECT COALESCE(SUM(d.points), 0), COALESCE(SUM(d.earnings), 0)
+  INTO v_period_points, v_period_earnings
+  FROM public.transactions t
+  CROSS JOIN LATERAL public.transaction_balance_deltas(t) d
+  WHERE t.user_id = v_user_id
+    AND t.status = 'verified'
+    AND t.created_at >= v_start
+    AND t.created_at < v_end;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', t.id,
+      'created_at', t.created_at,
+      'type', t.type,
+      'status', t.status,
+      'counterparty', CASE
+        WHEN t.sender_user_id IS NOT NULL AND t.sender_user_id <> v_user_id THEN t.sender_name
+        WHEN t.recipient_user_id IS NOT NULL AND t.recipient_user_id <> v_user_id THEN t.recipient_name
+      END,
+      'amount_ttd', t.amount_ttd,
+      'points_delta', d.points,
+      'earnings_points_delta', d.earnings,
+      'value_per_point', t.user_value_per_point_at_time,
+      'points_value_ttd', round(d.points * t.user_value_per_point_at_time, 2),
+      'earnings_value_ttd', round(d.earnings * t.user_value_per_point_at_time, 2)
+    ) ORDER BY t.created_at, t.id), '[]'::jsonb),
+    jsonb_build_object(
+      'points_in', COALESCE(SUM(GREATEST(d.points, 0)), 0),
+      'points_out', COALESCE(SUM(LEAST(d.points, 0)), 0),
+      'earnings_in', COALESCE(SUM(GREATEST(d.earnings, 0)), 0),
+      'earnings_out', COALESCE(SUM(LEAST(d.earnings, 0)), 0),
+      'points_value_ttd', round(COALESCE(SUM(d.points * t.user_value_per_point_at_time), 0), 2),
+      'earnings_value_ttd', round(COALESCE(SUM(d.earnings * t.user_value_per_point_at_time), 0), 2),
+      'unvalued_count', COUNT(*) FILTER (WHERE t.user_value_per_point_at_time IS NULL)
+    )
+  INTO v_transactions, v_totals
+  FROM public.transactions t
+  CROSS JOIN LATERAL public.transaction_balance_deltas(t) d
+  WHERE t.user_id = v_user_id
+    AND t.status = 'verified'
+    AND t.created_at >= v_start
+    AND t.created_at < v_end;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', e.id,
+    'created_at', e.created_at,
+    'source_type', e.source_type,
+    'community_name', c.name,
+    'points', e.points,
+    'amount_ttd', e.amount_ttd,
+    'status', e.status,
+    'available_at', e.available_at
+  ) ORDER BY e.created_at, e.id), '[]'::jsonb)
+  INTO v_earnings
+  FROM public.wallet_earnings_ledger e
+  LEFT JOIN public.communities c ON c.id = e.community_id
+  WHERE e.user_id = v_user_id
+    AND e.created_at >= v_start
+    AND e.created_at < v_end;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', p.id,
+    'created_at', p.created_at,
+    'scheduled_for', p.scheduled_for,
+    'status', p.status,
+    'points', p.points,
+    'locked_points', p.locked_points,
+    'amount_ttd', p.amount_ttd,
+    'processed_at', p.processed_at
+  ) ORDER BY p.created_at, p.id), '[]'::jsonb)
+  INTO v_payouts
+  FROM public.payouts p
+  WHERE p.user_id = v_user_id
+    AND p.created_at >= v_start
+    AND p.created_at < v_end;
+
+  RETURN jsonb_build_object(
+    'from', p_from,
+    'to', p_to,
+    'timezone', p_timezone,
+    'generated_at', now(),
+    'opening', jsonb_build_object(
+      'points', v_points_balance - v_after_points - v_period_points,
+      'earnings_points', v_earnings_balance - v_after_earnings - v_period_earnings
+    ),
+    'closing', jsonb_build_object(
+      'points', v_points_balance - v_after_points,
+      'earnings_points', v_earnings_balance - v_after_earnings
+    ),
+    'totals', v_totals,
+    'transactions', v_transactions,
+    'earnings', v_earnings,
+    'payouts', v_payouts
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_wallet_statement(DATE, DATE, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_wallet_statement IS 'The current user''s wallet statement for a date range: balances, valued transactions, earnings and payouts.';
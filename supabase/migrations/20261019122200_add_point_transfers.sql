@@ -0,0 +1,359 @@
+-- =============================================
+-- POINT TRANSFERS (TIPS)
+-- Users send points to each other from profiles, posts and DMs, with an
+-- optional note. The sender's purchased points are debited and the recipient
+-- is credited through the earnings ledger, so both sides show up as
+-- transactions.
+--
+-- Anti-abuse: tips only come out of points_balance. Referral and top-up bonuses
+-- are credited to earnings (ledger sources referral_bonus and topup_bonus), so
+-- they can't be passed on. Accounts linked by a
+-- referral can't tip each other at all; otherwise a referrer could top up an
+-- account they referred, collect the bonus, and tip the points straight back
+-- as cashable earnings. Per-tip and rolling 24 hour limits cap the rest.
+-- =============================================
+
+-- 1. Limits
+ALTER TABLE public.platform_settings
+  ADD COLUMN IF NOT EXISTS tip_max_points BIGINT NOT NULL DEFAULT 500 CHECK (tip_max_points > 0),
+  ADD COLUMN IF NOT EXISTS tip_daily_limit_points BIGINT NOT NULL DEFAULT 1000 CHECK (tip_daily_limit_points > 0),
+  ADD COLUMN IF NOT EXISTS tip_daily_count_limit INTEGER NOT NULL DEFAULT 20 CHECK (tip_daily_count_limit > 0);
+
+COMMENT ON COLUMN public.platform_settings.tip_max_points IS 'Most points a single tip can carry';
+COMMENT ON COLUMN public.platform_settings.tip_daily_limit_points IS 'Most points a user can tip in any 24 hours';
+COMMENT ON COLUMN public.platform_settings.tip_daily_count_limit IS 'Most tips a user can send in any 24 hours';
+
+-- 2. Tips are a new earnings source
+ALTER TABLE public.wallet_earnings_ledger
+  DROP CONSTRAINT IF EXISTS wallet_earnings_ledger_source_type_check;
+
+ALTER TABLE public.wallet_earnings_ledger
+  ADD CONSTRAINT wallet_earnings_ledger_source_type_check
+  CHECK (source_type IN ('boost', 'live_registration', 'event_registration', 'manual_adjustment', 'storage_credit', 'topup_bonus', 'referral_bonus', 'community_membership', 'tip'));
+
+-- 3. Tip notifications
+-- NOTE: the new enum value can't be referenced as a literal in this transaction
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'tip_received';
+
+-- 4. Transfers
+CREATE TABLE IF NOT EXISTS public.point_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  points BIGINT NOT NULL CHECK (points > 0),
+  note TEXT CHECK (note IS NULL OR length(note) <= 200),
+  context_type TEXT NOT NULL DEFAULT 'profile' CHECK (context_type IN ('profile', 'post', 'dm')),
+  context_id UUID,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  earnings_ledger_id UUID REFERENCES public.wallet_earnings_ledger(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (sender_id <> recipient_id)
+);
+
+COMMENT ON TABLE public.point_transfers IS 'Points tipped from one user to another. Written by send_points() only.';
+COMMENT ON COLUMN public.point_transfers.context_id IS 'The post or DM thread the tip was sent from. NULL for profile tips.';
+COMMENT ON COLUMN public.point_transfers.transaction_id IS 'The sender''s point_spend transaction';
+
+CREATE INDEX IF NOT EXISTS idx_point_transfers_sender ON public.point_transfers(sender_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_point_transfers_recipient ON public.point_transfers(recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_point_transfers_context ON public.point_transfers(context_type, context_id)
+  WHERE context_id IS NOT NULL;
+
+ALTER TABLE public.point_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Senders and recipients can view point transfers"
+  ON public.point_transfers
+  FOR SELECT
+  USING (sender_id = (select auth.uid()) OR recipient_id = (select auth.uid()) OR public.is_platform_admin());
+
+-- 5. Referral links
+-- True when one user referred the other, or both were referred by the same person
+CREATE OR REPLACE FUNCTION public.are_referral_linked(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.referrals
+    WHERE (referrer_user_id = p_user_a AND referred_user_id = p_user_b)
+       OR (referrer_user_id = p_user_b AND referred_user_id = p_user_a)
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.referrals a
+    JOIN public.referrals b ON b.referrer_user_id = a.referrer_user_id
+    WHERE a.referred_user_id = p_user_a
+      AND b.referred_user_id = p_user_b
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.are_referral_linked(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.are_referral_linked IS 'Whether two users are linked by a referral, directly or through a shared referrer. Internal: used by send_points().';
+
+-- 6. What the current user can still send today
+CREATE OR REPLACE FUNCTION public.get_tip_allowance()
+RETURNS JSON AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_settings RECORD;
+  v_sent_points BIGINT;
+  v_sent_count INTEGER;
+  v_balance BIGINT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to send points';
+  END IF;
+
+  SELECT tip_max_points, tip_daily_limit_points, tip_daily_count_limit
+  INTO v_settings
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  SELECT COALESCE(SUM(points), 0), COUNT(*)
+  INTO v_sent_points, v_sent_count
+  FROM public.point_transfers
+  WHERE sender_id = v_user_id
+    AND created_at > now() - INTERVAL '24 hours';
+
+  SELECT points_balance INTO v_balance
+  FROM public.wallets
+  WHERE user_id = v_user_id;
+
+  RETURN json_build_object(
+    'max_points', v_settings.tip_max_points,
+    'daily_limit_points', v_settings.tip_daily_limit_points,
+    'daily_count_limit', v_settings.tip_daily_count_limit,
+    'sent_points', v_sent_points,
+    'sent_count', v_sent_count,
+    'remaining_points', GREATEST(v_settings.tip_daily_limit_points - v_sent_points, 0),
+    'remaining_count', GREATEST(v_settings.tip_daily_count_limit - v_sent_count, 0),
+    'points_balance', COALESCE(v_balance, 0)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_tip_allowance() TO authenticated;
+
+COMMENT ON FUNCTION public.get_tip_allowance IS 'The current user''s tip limits, what they have sent in the last 24 hours and their sendable (purchased) balance.';
+
+-- 7. Send points
+CREATE OR REPLACE FUNCTION public.send_points(
+  p_recipient_id UUID,
+  p_points BIGINT,
+  p_note TEXT DEFAULT NULL,
+  p_context_type TEXT DEFAULT 'profile',
+  p_context_id UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_sender_id UUID := auth.uid();
+  v_settings RECORD;
+  v_note TEXT := NULLIF(TRIM(p_note), '');
+  v_balance BIGINT;
+  v_sent_points BIGINT;
+  v_sent_count INTEGER;
+  v_user_value_per_point NUMERIC;
+  v_amount_ttd NUMERIC(12,2);
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_transfer_id UUID;
+  v_tx_id UUID;
+  v_ledger_id UUID;
+BEGIN
+  IF v_sender_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to send points';
+  END IF;
+
+  IF p_recipient_id IS NULL OR p_recipient_id = v_sender_id THEN
+    RAISE EXCEPTION 'You can''t send points to yourself';
+  END IF;
+
+  IF p_points IS NULL OR p_points <= 0 THEN
+    RAISE EXCEPTION 'Points to send must be greater than zero';
+  END IF;
+
+  IF v_note IS NOT NULL AND length(v_note) > 200 THEN
+    RAISE EXCEPTION 'Notes can be at most 200 characters';
+  END IF;
+
+  IF p_context_type IS NULL OR p_context_type NOT IN ('profile', 'post', 'dm') THEN
+    RAISE EXCEPTION 'Invalid tip context: %', p_context_type;
+  END IF;
+
+  SELECT TRIM(first_name || ' ' || last_name) INTO v_recipient_name
+  FROM public.users WHERE id = p_recipient_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found';
+  END IF;
+
+  -- A post tip goes to its author, a DM tip to the other person in the thread
+  IF p_context_type = 'post' AND NOT EXISTS (
+    SELECT 1 FROM public.posts WHERE id = p_context_id AND author_id = p_recipient_id
+  ) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF p_context_type = 'dm' AND NOT EXISTS (
+    SELECT 1
+    FROM public.dm_participants sender
+    JOIN public.dm_participants recipient ON recipient.thread_id = sender.thread_id
+    WHERE sender.thread_id = p_context_id
+      AND sender.user_id = v_sender_id
+      AND recipient.user_id = p_recipient_id
+  ) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF public.are_referral_linked(v_sender_id, p_recipient_id) THEN
+    RAISE EXCEPTION 'Points can''t be sent between accounts linked by a referral';
+  END IF;
+
+  SELECT tip_max_points, tip_daily_limit_points, tip_daily_count_limit, user_value_per_point
+  INTO v_settings
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  IF p_points > v_settings.tip_max_points THEN
+    RAISE EXCEPTION 'You can send at most % points at a time', v_settings.tip_max_points;
+  END IF;
+
+  -- Locking the wallet first serialises a user's tips, so the daily totals below can't race
+  INSERT INTO public.wallets (user_id)
+  VALUES (v_sender_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT points_balance INTO v_balance
+  FROM public.wallets
+  WHERE user_id = v_sender_id
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(points), 0), COUNT(*)
+  INTO v_sent_points, v_sent_count
+  FROM public.point_transfers
+  WHERE sender_id = v_sender_id
+    AND created_at > now() - INTERVAL '24 hours';
+
+  IF v_sent_count >= v_settings.tip_daily_count_limit THEN
+    RAISE EXCEPTION 'You''ve reached your limit of % tips in 24 hours', v_settings.tip_daily_count_limit;
+  END IF;
+
+  IF v_sent_points + p_points > v_settings.tip_daily_limit_points THEN
+    RAISE EXCEPTION 'You can send % more points in the next 24 hours',
+      GREATEST(v_settings.tip_daily_limit_points - v_sent_points, 0);
+  END IF;
+
+  -- Earnings are never spent on tips, see the header
+  IF v_balance < p_points THEN
+    RAISE EXCEPTION 'Insufficient balance. Tips are sent from purchased points. Required: %, Available: %', p_points, v_balance;
+  END IF;
+
+  UPDATE public.wallets
+  SET points_balance = points_balance - p_points,
+      updated_at = now()
+  WHERE user_id = v_sender_id;
+
+  v_user_value_per_point := v_settings.user_value_per_point;
+  v_amount_ttd := ROUND(COALESCE(v_user_value_per_point, 0) * p_points, 2);
+
+  SELECT TRIM(first_name || ' ' || last_name) INTO v_sender_name
+  FROM public.users WHERE id = v_sender_id;
+
+  INSERT INTO public.point_transfers (sender_id, recipient_id, points, note, context_type, context_id)
+  VALUES (v_sender_id, p_recipient_id, p_points, v_note, p_context_type, p_context_id)
+  RETURNING id INTO v_transfer_id;
+
+  INSERT INTO public.transactions (
+    user_id,
+    type,
+    points_delta,
+    recipient_user_id,
+    sender_user_id,
+    sender_name,
+    recipient_name,
+    user_value_per_point_at_time,
+    status,
+    created_at,
+    context
+  )
+  VALUES (
+    v_sender_id,
+    'point_spend',
+    -p_points,
+    p_recipient_id,
+    v_sender_id,
+    v_sender_name,
+    v_recipient_name,
+    v_user_value_per_point,
+    'verified',
+    now(),
+    jsonb_build_object(
+      'source', 'tip',
+      'transfer_id', v_transfer_id,
+      'context_type', p_context_type,
+      'context_id', p_context_id,
+      'note', v_note,
+      'wallet_points_spent', p_points,
+      'earnings_points_spent', 0
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  -- Credit the recipient through the earnings ledger, same as community memberships
+  -- Signature: (p_user_id, p_points, p_amount_ttd, p_source_type, p_source_id, p_community_id, p_available_delay_seconds, p_metadata)
+  v_ledger_id := public.credit_user_earnings(
+    p_recipient_id,
+    p_points,
+    v_amount_ttd,
+    'tip',
+    v_transfer_id,
+    NULL,
+    0,
+    jsonb_build_object(
+      'transfer_id', v_transfer_id,
+      'from_user_id', v_sender_id,
+      'transaction_id', v_tx_id,
+      'note', v_note,
+      'is_transfer', false
+    )
+  );
+
+  -- The recipient's earning_credit carries the same names and note as the sender's spend
+  UPDATE public.transactions
+  SET sender_user_id = v_sender_id,
+      recipient_user_id = p_recipient_id,
+      sender_name = v_sender_name,
+      recipient_name = v_recipient_name,
+      user_value_per_point_at_time = v_user_value_per_point,
+      context = COALESCE(context, '{}'::jsonb) || jsonb_build_object(
+        'source', 'tip',
+        'transfer_id', v_transfer_id,
+        'note', v_note
+      )
+  WHERE ledger_entry_id = v_ledger_id
+    AND user_id = p_recipient_id;
+
+  UPDATE public.point_transfers
+  SET transaction_id = v_tx_id,
+      earnings_ledger_id = v_ledger_id
+  WHERE id = v_transfer_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, action_url, metadata)
+  VALUES (
+    p_recipient_id,
+    'tip_received',
+    COALESCE(NULLIF(v_sender_name, ''), 'Someone') || ' sent you ' || p_points || ' points',
+    COALESCE(v_note, 'The points have been added to your earnings.'),
+    '/wallet',
+    jsonb_build_object('transfer_id', v_transfer_id, 'sender_id', v_sender_id, 'points', p_points)
+  );
+
+  RETURN json_build_object(
+    'transfer_id', v_transfer_id,
+    'transaction_id', v_tx_id,
+    'points', p_points,
+    'remaining_points', v_settings.tip_daily_limit_points - v_sent_points - p_points,
+    'remaining_count', v_settings.tip_daily_count_limit - v_sent_count - 1
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.send_points(UUID, BIGINT, TEXT, TEXT, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.send_points IS 'Tips points from the current user''s purchased balance to another user''s earnings, enforcing tip limits and blocking referral-linked accounts.';
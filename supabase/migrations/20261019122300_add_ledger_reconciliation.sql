@@ -0,0 +1,337 @@
+-- =============================================
+-- LEDGER RECONCILIATION
+-- wallets caches three balances that are meant to be derivable from history.
+-- This rebuilds each one from the ledgers, records every mismatch for an admin
+-- to review, and proposes a manual_adjustment transaction that would bring the
+-- ledger back in line with the wallet. Runs nightly from /api/wallets/reconcile
+-- and on demand from /admin/reconciliation.
+--
+-- How each balance is rebuilt (verified transactions only):
+--   points_balance          SUM of transaction_balance_deltas().points
+--   earnings_points         SUM of transaction_balance_deltas().earnings
+--                           (see 20261019122100_add_wallet_statements.sql)
+--   locked_earnings_points  SUM(points) of wallet_earnings_ledger rows that are
+--                           locked for a payout.
+-- =============================================
+
+-- 1. Runs
+CREATE TABLE IF NOT EXISTS public.ledger_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  wallets_checked INTEGER NOT NULL DEFAULT 0,
+  discrepancy_count INTEGER NOT NULL DEFAULT 0
+);
+
+COMMENT ON TABLE public.ledger_reconciliation_runs IS 'One row per reconciliation pass over every wallet. Written by run_ledger_reconciliation() only.';
+COMMENT ON COLUMN public.ledger_reconciliation_runs.triggered_by IS 'The admin who started the run. NULL for the nightly job.';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_reconciliation_runs_started ON public.ledger_reconciliation_runs(started_at DESC);
+
+-- 2. Discrepancies
+CREATE TABLE IF NOT EXISTS public.ledger_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.ledger_reconciliation_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  balance TEXT NOT NULL CHECK (balance IN ('points', 'earnings', 'locked_earnings')),
+  wallet_value BIGINT NOT NULL,
+  ledger_value BIGINT NOT NULL,
+  difference BIGINT GENERATED ALWAYS AS (wallet_value - ledger_value) STORED,
+  proposed_adjustment JSONB,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed', 'superseded')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  adjustment_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.ledger_discrepancies IS 'A wallet balance that doesn''t match what its ledger history adds up to.';
+COMMENT ON COLUMN public.ledger_discrepancies.difference IS 'wallet_value - ledger_value: positive when the wallet holds more than its history explains';
+COMMENT ON COLUMN public.ledger_discrepancies.proposed_adjustment IS 'The manual_adjustment transaction that would close the gap, or NULL when it needs investigating by hand (locked earnings)';
+COMMENT ON COLUMN public.ledger_discrepancies.status IS 'open until an admin applies or dismisses it. superseded once a later run finds the same mismatch again.';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_discrepancies_run ON public.ledger_discrepancies(run_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_discrepancies_user ON public.ledger_discrepancies(user_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_discrepancies_open
+  ON public.ledger_discrepancies(created_at DESC)
+  WHERE status = 'open';
+
+ALTER TABLE public.ledger_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_discrepancies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs"
+  ON public.ledger_reconciliation_runs
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+CREATE POLICY "Admins can view ledger discrepancies"
+  ON public.ledger_discrepancies
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+-- 3. Balances rebuilt from history
+CREATE OR REPLACE FUNCTION public.get_ledger_wallet_balances(p_user_id UUID DEFAULT NULL)
+RETURNS TABLE(user_id UUID, points BIGINT, earnings BIGINT, locked_earnings BIGINT) AS $$
+  WITH tx AS (
+    SELECT
+      t.user_id,
+      SUM(d.points)::BIGINT AS points,
+      SUM(d.earnings)::BIGINT AS earnings
+    FROM public.transactions t
+    CROSS JOIN LATERAL public.transaction_balance_deltas(t) d
+    WHERE t.status = 'verified'
+      AND (p_user_id IS NULL OR t.user_id = p_user_id)
+    GROUP BY t.user_id
+  ),
+  locked AS (
+    SELECT e.user_id, SUM(e.points)::BIGINT AS locked_earnings
+    FROM public.wallet_earnings_ledger e
+    WHERE e.status = 'locked'
+      AND (p_user_id IS NULL OR e.user_id = p_user_id)
+    GROUP BY e.user_id
+  )
+  SELECT
+    COALESCE(tx.user_id, locked.user_id),
+    COALESCE(tx.points, 0),
+    COALESCE(tx.earnings, 0),
+    COALESCE(locked.locked_earnings, 0)
+  FROM tx
+  FULL JOIN locked ON locked.user_id = tx.user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_ledger_wallet_balances(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.get_ledger_wallet_balances IS 'Each wallet''s balances as its ledger history adds them up. Internal: used by reconciliation.';
+
+-- 4. Run
+CREATE OR REPLACE FUNCTION public.run_ledger_reconciliation()
+RETURNS JSON AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_run_id UUID;
+  v_checked INTEGER;
+  v_found INTEGER;
+BEGIN
+  -- The nightly job calls in with the service role, which has no auth.uid()
+  IF v_actor IS NOT NULL AND NOT public.is_platform_admin(v_actor) THEN
+    RAISE EXCEPTION 'Only admins can run ledger reconciliation';
+  END IF;
+
+  INSERT INTO public.ledger_reconciliation_runs (triggered_by)
+  VALUES (v_actor)
+  RETURNING id INTO v_run_id;
+
+  DROP TABLE IF EXISTS ledger_reconciliation_balances;
+  CREATE TEMP TABLE ledger_reconciliation_balances ON COMMIT DROP AS
+  SELECT
+    COALESCE(w.user_id, l.user_id) AS user_id,
+    COALESCE(w.points_balance, 0)::BIGINT AS wallet_points,
+    COALESCE(w.earnings_points, 0)::BIGINT AS wallet_earnings,
+    COALESCE(w.locked_earnings_points, 0)::BIGINT AS wallet_locked,
+    COALESCE(l.points, 0) AS ledger_points,
+    COALESCE(l.earnings, 0) AS ledger_earnings,
+    COALESCE(l.locked_earnings, 0) AS ledger_locked
+  FROM public.wallets w
+  FULL JOIN public.get_ledger_wallet_balances() l ON l.user_id = w.user_id;
+
+  SELECT COUNT(*) INTO v_checked FROM ledger_reconciliation_balances;
+
+  INSERT INTO public.ledger_discrepancies (run_id, user_id, balance, wallet_value, ledger_value, proposed_adjustment)
+  SELECT
+    v_run_id,
+    b.user_id,
+    m.balance,
+    m.wallet_value,
+    m.ledger_value,
+    CASE m.balance
+      WHEN 'points' THEN jsonb_build_object(
+        'type', 'manual_adjustment',
+        'points_delta', m.wallet_value - m.ledger_value,
+        'earnings_points_delta', 0
+      )
+      WHEN 'earnings' THEN jsonb_build_object(
+        'type', 'manual_adjustment',
+        'points_delta', 0,
+        'earnings_points_delta', m.wallet_value - m.ledger_value
+      )
+    END
+  FROM ledger_reconciliation_balances b
+  CROSS JOIN LATERAL (
+    VALUES
+      ('points', b.wallet_points, b.ledger_points),
+      ('earnings', b.wallet_earnings, b.ledger_earnings),
+      ('locked_earnings', b.wallet_locked, b.ledger_locked)
+  ) AS m(balance, wallet_value, ledger_value)
+  WHERE m.wallet_value <> m.ledger_value
+    AND EXISTS (SELECT 1 FROM public.users u WHERE u.id = b.user_id);
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+
+  -- Anything still open from earlier runs is either fixed or reported again above
+  UPDATE public.ledger_discrepancies
+  SET status = 'superseded'
+  WHERE status = 'open'
+    AND run_id <> v_run_id;
+
+  UPDATE public.ledger_reconciliation_runs
+  SET completed_at = now(),
+      wallets_checked = v_checked,
+      discrepancy_count = v_found
+  WHERE id = v_run_id;
+
+  RETURN json_build_object(
+    'run_id', v_run_id,
+    'wallets_checked', v_checked,
+    'discrepancy_count', v_found
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.run_ledger_reconciliation() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.run_ledger_reconciliation() TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.run_ledger_reconciliation IS 'Rebuilds every wallet from its ledger history and records the mismatches as ledger_discrepancies. Admins or the service role only.';
+
+-- 5. Apply a proposed correction
+-- Posts the proposed manual_adjustment so the ledger explains the wallet. The wallet
+-- itself isn't touched: it is what users have seen and spent against. Refuses when
+-- the balances have moved since the run, because the proposal would then be stale.
+CREATE OR REPLACE FUNCTION public.apply_ledger_discrepancy(
+  p_discrepancy_id UUID,
+  p_note TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_discrepancy public.ledger_discrepancies%ROWTYPE;
+  v_note TEXT := NULLIF(TRIM(p_note), '');
+  v_wallet_value BIGINT;
+  v_ledger_value BIGINT;
+  v_user_value_per_point NUMERIC;
+  v_tx_id UUID;
+BEGIN
+  IF NOT public.is_platform_admin(v_actor) THEN
+    RAISE EXCEPTION 'Only admins can correct the ledger';
+  END IF;
+
+  IF v_note IS NULL THEN
+    RAISE EXCEPTION 'A note explaining the correction is required';
+  END IF;
+
+  SELECT * INTO v_discrepancy
+  FROM public.ledger_discrepancies
+  WHERE id = p_discrepancy_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discrepancy not found';
+  END IF;
+
+  IF v_discrepancy.status <> 'open' THEN
+    RAISE EXCEPTION 'This discrepancy has already been %', v_discrepancy.status;
+  END IF;
+
+  IF v_discrepancy.proposed_adjustment IS NULL THEN
+    RAISE EXCEPTION 'Locked earnings follow payouts and have to be corrected by hand';
+  END IF;
+
+  SELECT
+    CASE v_discrepancy.balance WHEN 'points' THEN points_balance ELSE earnings_points END
+  INTO v_wallet_value
+  FROM public.wallets
+  WHERE user_id = v_discrepancy.user_id
+  FOR UPDATE;
+
+  SELECT
+    CASE v_discrepancy.balance WHEN 'points' THEN points ELSE earnings END
+  INTO v_ledger_value
+  FROM public.get_ledger_wallet_balances(v_discrepancy.user_id);
+
+  IF COALESCE(v_wallet_value, 0) <> v_discrepancy.wallet_value
+    OR COALESCE(v_ledger_value, 0) <> v_discrepancy.ledger_value THEN
+    RAISE EXCEPTION 'This wallet has changed since the reconciliation ran. Run it again before correcting.';
+  END IF;
+
+  SELECT user_value_per_point INTO v_user_value_per_point
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  INSERT INTO public.transactions (
+    user_id,
+    type,
+    points_delta,
+    earnings_points_delta,
+    user_value_per_point_at_time,
+    status,
+    created_at,
+    context
+  )
+  VALUES (
+    v_discrepancy.user_id,
+    'manual_adjustment',
+    (v_discrepancy.proposed_adjustment->>'points_delta')::BIGINT,
+    (v_discrepancy.proposed_adjustment->>'earnings_points_delta')::BIGINT,
+    v_user_value_per_point,
+    'verified',
+    now(),
+    jsonb_build_object(
+      'source', 'reconciliation',
+      'discrepancy_id', v_discrepancy.id,
+      'run_id', v_discrepancy.run_id,
+      'balance', v_discrepancy.balance,
+      'note', v_note,
+      'applied_by', v_actor
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  UPDATE public.ledger_discrepancies
+  SET status = 'resolved',
+      resolution_note = v_note,
+      resolved_by = v_actor,
+      resolved_at = now(),
+      adjustment_transaction_id = v_tx_id
+  WHERE id = p_discrepancy_id;
+
+  RETURN v_tx_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.apply_ledger_discrepancy(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.apply_ledger_discrepancy IS 'Admin only. Posts a discrepancy''s proposed manual_adjustment transaction and marks it resolved.';
+
+-- 6. Dismiss
+CREATE OR REPLACE FUNCTION public.dismiss_ledger_discrepancy(
+  p_discrepancy_id UUID,
+  p_note TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_note TEXT := NULLIF(TRIM(p_note), '');
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can dismiss discrepancies';
+  END IF;
+
+  IF v_note IS NULL THEN
+    RAISE EXCEPTION 'A note explaining why is required';
+  END IF;
+
+  UPDATE public.ledger_discrepancies
+  SET status = 'dismissed',
+      resolution_note = v_note,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_discrepancy_id
+    AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discrepancy not found or already closed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.dismiss_ledger_discrepancy(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.dismiss_ledger_discrepancy IS 'Admin only. Closes a discrepancy without posting a correction, e.g. when it has been fixed by hand.';
@@ -0,0 +1,574 @@
+-- =============================================
+-- WALLET ADJUSTMENTS & ADMIN AUDIT LOG
+-- Admins credit or debit a user's points or earnings from /admin/users with a
+-- required reason, instead of editing wallet rows by hand. Adjustments that
+-- take an admin past platform_settings.adjustment_approval_threshold_points for
+-- one user in 24 hours wait for a second admin to approve them.
+--
+-- Every admin financial action lands in admin_audit_log: top-up reviews,
+-- payout and withdrawal status changes, payout destination reviews and
+-- reveals, reconciliation corrections and adjustments. The log is written by
+-- triggers on those tables, so it catches direct updates as well as RPCs, and
+-- nothing can update or delete a row once it is written.
+-- =============================================
+
+-- 1. Approval threshold
+ALTER TABLE public.platform_settings
+  ADD COLUMN IF NOT EXISTS adjustment_approval_threshold_points BIGINT NOT NULL DEFAULT 1000
+    CHECK (adjustment_approval_threshold_points >= 0);
+
+COMMENT ON COLUMN public.platform_settings.adjustment_approval_threshold_points IS 'Manual adjustments that take one admin past this many points for a user in 24 hours need a second admin to approve them';
+
+-- 2. Audit log
+-- Actor and target are plain ids rather than foreign keys: a cascading delete
+-- or SET NULL would be an update, and the log never changes.
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  action TEXT NOT NULL,
+  target_table TEXT NOT NULL,
+  target_id UUID,
+  target_user_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.admin_audit_log IS 'Append-only record of admin financial actions. Written by triggers and SECURITY DEFINER functions only.';
+COMMENT ON COLUMN public.admin_audit_log.actor_id IS 'The admin who acted. NULL when a scheduled job or the system made the change.';
+COMMENT ON COLUMN public.admin_audit_log.action IS '<subject>.<what happened>, e.g. topup.verified, payout.paid, adjustment.approved';
+COMMENT ON COLUMN public.admin_audit_log.target_user_id IS 'The user whose money was affected, when there is one';
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON public.admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON public.admin_audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target_user ON public.admin_audit_log(target_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON public.admin_audit_log(target_table, target_id);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON public.admin_audit_log
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+REVOKE ALL ON public.admin_audit_log FROM anon, authenticated;
+GRANT SELECT ON public.admin_audit_log TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_admin_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The admin audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_admin_audit_log_changes ON public.admin_audit_log;
+CREATE TRIGGER prevent_admin_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.admin_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_admin_audit_log_truncate ON public.admin_audit_log;
+CREATE TRIGGER prevent_admin_audit_log_truncate
+  BEFORE TRUNCATE ON public.admin_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.log_admin_action(
+  p_action TEXT,
+  p_target_table TEXT,
+  p_target_id UUID,
+  p_target_user_id UUID,
+  p_details JSONB DEFAULT '{}'::jsonb
+) RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.admin_audit_log (actor_id, action, target_table, target_id, target_user_id, details)
+  VALUES (auth.uid(), p_action, p_target_table, p_target_id, p_target_user_id, COALESCE(p_details, '{}'::jsonb))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(TEXT, TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.log_admin_action IS 'Appends to admin_audit_log as the current user. Internal: called by the audit triggers and admin RPCs.';
+
+-- 3. Audit triggers
+-- Status changes are the financial actions on each table; the action name is
+-- the subject plus the new status.
+CREATE OR REPLACE FUNCTION public.audit_admin_financial_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'transactions' THEN
+    PERFORM public.log_admin_action(
+      'topup.' || NEW.status,
+      'transactions',
+      NEW.id,
+      NEW.user_id,
+      jsonb_build_object(
+        'from_status', OLD.status,
+        'to_status', NEW.status,
+        'amount_ttd', NEW.amount_ttd,
+        'points_delta', NEW.points_delta
+      )
+    );
+  ELSIF TG_TABLE_NAME = 'payouts' THEN
+    PERFORM public.log_admin_action(
+      'payout.' || NEW.status,
+      'payouts',
+      NEW.id,
+      NEW.user_id,
+      jsonb_build_object(
+        'from_status', OLD.status,
+        'to_status', NEW.status,
+        'points', NEW.points,
+        'amount_ttd', NEW.amount_ttd,
+        'destination_id', NEW.destination_id
+      )
+    );
+  ELSIF TG_TABLE_NAME = 'platform_withdrawals' THEN
+    PERFORM public.log_admin_action(
+      CASE WHEN TG_OP = 'INSERT' THEN 'withdrawal.requested' ELSE 'withdrawal.' || NEW.status END,
+      'platform_withdrawals',
+      NEW.id,
+      NULL,
+      jsonb_build_object(
+        'from_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        'to_status', NEW.status,
+        'amount_ttd', NEW.amount_ttd,
+        'bank_account_id', NEW.bank_account_id
+      )
+    );
+  ELSIF TG_TABLE_NAME = 'payout_destinations' THEN
+    PERFORM public.log_admin_action(
+      'payout_destination.' || NEW.status,
+      'payout_destinations',
+      NEW.id,
+      NEW.user_id,
+      jsonb_build_object(
+        'from_status', OLD.status,
+        'to_status', NEW.status,
+        'rejection_reason', NEW.rejection_reason
+      )
+    );
+  ELSIF TG_TABLE_NAME = 'ledger_discrepancies' THEN
+    PERFORM public.log_admin_action(
+      'ledger_discrepancy.' || NEW.status,
+      'ledger_discrepancies',
+      NEW.id,
+      NEW.user_id,
+      jsonb_build_object(
+        'balance', NEW.balance,
+        'difference', NEW.difference,
+        'note', NEW.resolution_note,
+        'adjustment_transaction_id', NEW.adjustment_transaction_id
+      )
+    );
+  ELSIF TG_TABLE_NAME = 'wallet_adjustments' THEN
+    PERFORM public.log_admin_action(
+      CASE WHEN TG_OP = 'INSERT' THEN 'adjustment.requested' ELSE 'adjustment.' || NEW.status END,
+      'wallet_adjustments',
+      NEW.id,
+      NEW.user_id,
+      jsonb_build_object(
+        'balance', NEW.balance,
+        'points', NEW.points,
+        'reason', NEW.reason,
+        'review_note', NEW.review_note,
+        'requested_by', NEW.requested_by,
+        'transaction_id', NEW.transaction_id
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.audit_admin_financial_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS audit_topup_status ON public.transactions;
+CREATE TRIGGER audit_topup_status
+  AFTER UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'top_up' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+DROP TRIGGER IF EXISTS audit_payout_status ON public.payouts;
+CREATE TRIGGER audit_payout_status
+  AFTER UPDATE OF status ON public.payouts
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+DROP TRIGGER IF EXISTS audit_platform_withdrawal_insert ON public.platform_withdrawals;
+CREATE TRIGGER audit_platform_withdrawal_insert
+  AFTER INSERT ON public.platform_withdrawals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+DROP TRIGGER IF EXISTS audit_platform_withdrawal_status ON public.platform_withdrawals;
+CREATE TRIGGER audit_platform_withdrawal_status
+  AFTER UPDATE OF status ON public.platform_withdrawals
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+DROP TRIGGER IF EXISTS audit_payout_destination_status ON public.payout_destinations;
+CREATE TRIGGER audit_payout_destination_status
+  AFTER UPDATE OF status ON public.payout_destinations
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+-- superseded is the reconciliation job tidying up, not an admin decision
+DROP TRIGGER IF EXISTS audit_ledger_discrepancy_status ON public.ledger_discrepancies;
+CREATE TRIGGER audit_ledger_discrepancy_status
+  AFTER UPDATE OF status ON public.ledger_discrepancies
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('resolved', 'dismissed'))
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+-- 4. Revealing an account number is logged too
+-- No longer STABLE now that it writes to the audit log
+CREATE OR REPLACE FUNCTION public.reveal_payout_destination_number(
+  p_destination_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  v_number TEXT;
+  v_user_id UUID;
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can view full account numbers';
+  END IF;
+
+  SELECT account_number, user_id INTO v_number, v_user_id
+  FROM public.payout_destinations
+  WHERE id = p_destination_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout destination not found';
+  END IF;
+
+  PERFORM public.log_admin_action('payout_destination.revealed', 'payout_destinations', p_destination_id, v_user_id);
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- 5. Adjustments
+-- The adjustment dialog shows the balances being changed
+DROP POLICY IF EXISTS "Admins can view wallets" ON public.wallets;
+CREATE POLICY "Admins can view wallets"
+  ON public.wallets
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+CREATE TABLE IF NOT EXISTS public.wallet_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  balance TEXT NOT NULL CHECK (balance IN ('points', 'earnings')),
+  points BIGINT NOT NULL CHECK (points <> 0),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) BETWEEN 10 AND 500),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'rejected')),
+  requires_approval BOOLEAN NOT NULL DEFAULT false,
+  requested_by UUID NOT NULL REFERENCES public.users(id) ON DELETE RESTRICT,
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  earnings_ledger_id UUID REFERENCES public.wallet_earnings_ledger(id) ON DELETE SET NULL,
+  applied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by)
+);
+
+COMMENT ON TABLE public.wallet_adjustments IS 'Admin credits and debits to a user''s points or earnings. Written through request_wallet_adjustment() and review_wallet_adjustment() only.';
+COMMENT ON COLUMN public.wallet_adjustments.points IS 'Positive to credit, negative to debit';
+COMMENT ON COLUMN public.wallet_adjustments.requires_approval IS 'Set when the size, plus what the same admin applied to the user in the previous 24 hours, was over the approval threshold at request time';
+
+CREATE INDEX IF NOT EXISTS idx_wallet_adjustments_user ON public.wallet_adjustments(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_adjustments_requester_user
+  ON public.wallet_adjustments(requested_by, user_id, applied_at)
+  WHERE status = 'applied';
+CREATE INDEX IF NOT EXISTS idx_wallet_adjustments_pending
+  ON public.wallet_adjustments(created_at)
+  WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS set_wallet_adjustments_updated_at ON public.wallet_adjustments;
+CREATE TRIGGER set_wallet_adjustments_updated_at
+  BEFORE UPDATE ON public.wallet_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_wallet_adjustment_insert ON public.wallet_adjustments;
+CREATE TRIGGER audit_wallet_adjustment_insert
+  AFTER INSERT ON public.wallet_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+DROP TRIGGER IF EXISTS audit_wallet_adjustment_status ON public.wallet_adjustments;
+CREATE TRIGGER audit_wallet_adjustment_status
+  AFTER UPDATE OF status ON public.wallet_adjustments
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.audit_admin_financial_change();
+
+ALTER TABLE public.wallet_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view wallet adjustments"
+  ON public.wallet_adjustments
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+-- Moves the money. Credits to earnings get a confirmed ledger entry so payouts
+-- can lock them; debits come straight off the wallet, like spending earnings does.
+CREATE OR REPLACE FUNCTION public.apply_wallet_adjustment(p_adjustment_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_adjustment public.wallet_adjustments%ROWTYPE;
+  v_wallet public.wallets%ROWTYPE;
+  v_user_value_per_point NUMERIC;
+  v_amount_ttd NUMERIC(12,2);
+  v_ledger_id UUID;
+  v_tx_id UUID;
+BEGIN
+  SELECT * INTO v_adjustment
+  FROM public.wallet_adjustments
+  WHERE id = p_adjustment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_adjustment.status <> 'pending' THEN
+    RAISE EXCEPTION 'Adjustment not found or already reviewed';
+  END IF;
+
+  INSERT INTO public.wallets (user_id)
+  VALUES (v_adjustment.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE user_id = v_adjustment.user_id
+  FOR UPDATE;
+
+  IF v_adjustment.balance = 'points' AND v_wallet.points_balance + v_adjustment.points < 0 THEN
+    RAISE EXCEPTION 'This would leave the wallet with % points', v_wallet.points_balance + v_adjustment.points;
+  END IF;
+
+  IF v_adjustment.balance = 'earnings' AND v_wallet.earnings_points + v_adjustment.points < 0 THEN
+    RAISE EXCEPTION 'This would leave the wallet with % earnings points. Locked earnings can''t be adjusted.',
+      v_wallet.earnings_points + v_adjustment.points;
+  END IF;
+
+  SELECT user_value_per_point INTO v_user_value_per_point
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  v_amount_ttd := ROUND(COALESCE(v_user_value_per_point, 0) * v_adjustment.points, 2);
+
+  IF v_adjustment.balance = 'points' THEN
+    UPDATE public.wallets
+    SET points_balance = points_balance + v_adjustment.points,
+        updated_at = now()
+    WHERE user_id = v_adjustment.user_id;
+  ELSE
+    IF v_adjustment.points > 0 THEN
+      INSERT INTO public.wallet_earnings_ledger (user_id, source_type, source_id, points, amount_ttd, status, available_at, metadata)
+      VALUES (
+        v_adjustment.user_id,
+        'manual_adjustment',
+        v_adjustment.id,
+        v_adjustment.points,
+        v_amount_ttd,
+        'confirmed',
+        now(),
+        jsonb_build_object('adjustment_id', v_adjustment.id, 'reason', v_adjustment.reason)
+      )
+      RETURNING id INTO v_ledger_id;
+    END IF;
+
+    UPDATE public.wallets
+    SET earnings_points = earnings_points + v_adjustment.points,
+        updated_at = now()
+    WHERE user_id = v_adjustment.user_id;
+  END IF;
+
+  INSERT INTO public.transactions (
+    user_id,
+    type,
+    points_delta,
+    earnings_points_delta,
+    amount_ttd,
+    user_value_per_point_at_time,
+    ledger_entry_id,
+    status,
+    created_at,
+    context
+  )
+  VALUES (
+    v_adjustment.user_id,
+    'manual_adjustment',
+    CASE WHEN v_adjustment.balance = 'points' THEN v_adjustment.points ELSE 0 END,
+    CASE WHEN v_adjustment.balance = 'earnings' THEN v_adjustment.points ELSE 0 END,
+    v_amount_ttd,
+    v_user_value_per_point,
+    v_ledger_id,
+    'verified',
+    now(),
+    jsonb_build_object(
+      'source', 'admin_adjustment',
+      'adjustment_id', v_adjustment.id,
+      'reason', v_adjustment.reason,
+      'requested_by', v_adjustment.requested_by,
+      'approved_by', v_adjustment.reviewed_by
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  UPDATE public.wallet_adjustments
+  SET status = 'applied',
+      applied_at = now(),
+      transaction_id = v_tx_id,
+      earnings_ledger_id = v_ledger_id
+  WHERE id = p_adjustment_id;
+
+  RETURN v_tx_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_wallet_adjustment(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.apply_wallet_adjustment IS 'Applies a pending adjustment to the wallet and records its manual_adjustment transaction. Internal: called by request_wallet_adjustment() and review_wallet_adjustment().';
+
+CREATE OR REPLACE FUNCTION public.request_wallet_adjustment(
+  p_user_id UUID,
+  p_balance TEXT,
+  p_points BIGINT,
+  p_reason TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_reason TEXT := TRIM(p_reason);
+  v_threshold BIGINT;
+  v_recent_points BIGINT;
+  v_requires_approval BOOLEAN;
+  v_adjustment_id UUID;
+BEGIN
+  IF NOT public.is_platform_admin(v_actor) THEN
+    RAISE EXCEPTION 'Only admins can adjust wallets';
+  END IF;
+
+  IF p_balance IS NULL OR p_balance NOT IN ('points', 'earnings') THEN
+    RAISE EXCEPTION 'Choose points or earnings to adjust';
+  END IF;
+
+  IF p_points IS NULL OR p_points = 0 THEN
+    RAISE EXCEPTION 'Enter the number of points to credit or debit';
+  END IF;
+
+  IF v_reason IS NULL OR length(v_reason) < 10 THEN
+    RAISE EXCEPTION 'Give a reason of at least 10 characters';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT adjustment_approval_threshold_points INTO v_threshold
+  FROM public.platform_settings
+  WHERE id = 1;
+
+  -- Lock the wallet so concurrent requests for this user see each other's adjustments
+  INSERT INTO public.wallets (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM 1 FROM public.wallets WHERE user_id = p_user_id FOR UPDATE;
+
+  -- Several small adjustments to one user count together, so splitting a large
+  -- one doesn't get around the second admin
+  SELECT COALESCE(SUM(abs(points)), 0) INTO v_recent_points
+  FROM public.wallet_adjustments
+  WHERE requested_by = v_actor
+    AND user_id = p_user_id
+    AND status = 'applied'
+    AND applied_at > now() - INTERVAL '24 hours';
+
+  v_requires_approval := abs(p_points) + v_recent_points > COALESCE(v_threshold, 0);
+
+  INSERT INTO public.wallet_adjustments (user_id, balance, points, reason, requires_approval, requested_by)
+  VALUES (p_user_id, p_balance, p_points, v_reason, v_requires_approval, v_actor)
+  RETURNING id INTO v_adjustment_id;
+
+  IF NOT v_requires_approval THEN
+    PERFORM public.apply_wallet_adjustment(v_adjustment_id);
+  END IF;
+
+  RETURN json_build_object(
+    'adjustment_id', v_adjustment_id,
+    'status', CASE WHEN v_requires_approval THEN 'pending' ELSE 'applied' END,
+    'requires_approval', v_requires_approval
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.request_wallet_adjustment(UUID, TEXT, BIGINT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.request_wallet_adjustment IS 'Admin only. Credits (positive) or debits (negative) a user''s points or earnings, or queues it for a second admin when it takes the admin''s last 24 hours of adjustments to the user over the approval threshold.';
+
+CREATE OR REPLACE FUNCTION public.review_wallet_adjustment(
+  p_adjustment_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_adjustment public.wallet_adjustments%ROWTYPE;
+  v_note TEXT := NULLIF(TRIM(p_note), '');
+BEGIN
+  IF NOT public.is_platform_admin(v_actor) THEN
+    RAISE EXCEPTION 'Only admins can review adjustments';
+  END IF;
+
+  SELECT * INTO v_adjustment
+  FROM public.wallet_adjustments
+  WHERE id = p_adjustment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_adjustment.status <> 'pending' THEN
+    RAISE EXCEPTION 'Adjustment not found or already reviewed';
+  END IF;
+
+  IF v_adjustment.requested_by = v_actor THEN
+    RAISE EXCEPTION 'Another admin has to review your adjustment';
+  END IF;
+
+  IF NOT p_approve AND v_note IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when rejecting an adjustment';
+  END IF;
+
+  UPDATE public.wallet_adjustments
+  SET reviewed_by = v_actor,
+      reviewed_at = now(),
+      review_note = v_note,
+      status = CASE WHEN p_approve THEN status ELSE 'rejected' END
+  WHERE id = p_adjustment_id;
+
+  IF p_approve THEN
+    PERFORM public.log_admin_action(
+      'adjustment.approved',
+      'wallet_adjustments',
+      p_adjustment_id,
+      v_adjustment.user_id,
+      jsonb_build_object('balance', v_adjustment.balance, 'points', v_adjustment.points, 'review_note', v_note)
+    );
+    PERFORM public.apply_wallet_adjustment(p_adjustment_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.review_wallet_adjustment(UUID, BOOLEAN, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.review_wallet_adjustment IS 'Admin only, and not the requester. Approves and applies a pending adjustment, or rejects it with a reason.';